@@ -0,0 +1,191 @@
+// 🎃 GhostFrame Content Chunking Tests
+// Long documents are split at sections, topics are map-reduced, and prompts get the relevant chunks
+
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { ContentProcessor, ProcessedContent, saveProcessedContent } from '../../controllers/contentProcessor';
+import { DocumentStructure } from '../../controllers/documentStructure';
+import { QuizGenerator } from '../../controllers/quizGenerator';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+const repeat = (sentence: string, times: number) => Array(times).fill(sentence).join(' ');
+
+const LONG_DOCUMENT = [
+  'Plant Biology Handbook',
+  '',
+  '# Photosynthesis',
+  '',
+  repeat('Chlorophyll pigments capture sunlight inside the chloroplast membranes.', 12),
+  '',
+  repeat('The Calvin cycle fixes carbon dioxide into glucose molecules.', 12),
+  '',
+  '2. Cellular Respiration',
+  repeat('Mitochondria break glucose down to release stored energy as ATP.', 30),
+  '',
+  'NOTES',
+  'Review the diagrams.',
+  '',
+  '## Transpiration',
+  '',
+  repeat('Stomata release water vapour from leaves into the atmosphere.', 15),
+].join('\n');
+
+const textFile = (text: string) => ({
+  originalname: 'plants.txt',
+  mimetype: 'text/plain',
+  buffer: Buffer.from(text),
+});
+
+describe('ContentProcessor chunking', () => {
+  describe('chunkText', () => {
+    it('should split at headings and keep chunks within the word limit', () => {
+      const chunks = ContentProcessor.chunkText(LONG_DOCUMENT);
+
+      expect(chunks.map(chunk => chunk.heading)).toEqual([
+        'Photosynthesis',
+        '2. Cellular Respiration',
+        '2. Cellular Respiration',
+        'Transpiration',
+      ]);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.index).toBe(index);
+        expect(chunk.wordCount).toBeLessThanOrEqual(250);
+      });
+
+      // The title line is folded into the first section rather than left as a fragment
+      expect(chunks[0].text.startsWith('Plant Biology Handbook\n\n# Photosynthesis\n\nChlorophyll pigments')).toBe(true);
+      // The short NOTES section is folded, heading and all, into the chunk before it
+      expect(chunks[2].text).toContain('## NOTES\n\nReview the diagrams.');
+    });
+
+    it('should summarize each chunk and rank its own topics', () => {
+      const [photosynthesis, respiration] = ContentProcessor.chunkText(LONG_DOCUMENT);
+
+      expect(photosynthesis.summary.length).toBeLessThanOrEqual(203);
+      expect(photosynthesis.summary.startsWith('Plant Biology Handbook')).toBe(true);
+      expect(photosynthesis.keyTopics.length).toBeGreaterThan(0);
+      expect(photosynthesis.keyTopics.length).toBeLessThanOrEqual(5);
+      expect(respiration.keyTopics.join(' ')).toMatch(/Mitochondria/);
+    });
+
+    it('should record where each chunk sits in the processed text', () => {
+      const chunks = ContentProcessor.chunkText(LONG_DOCUMENT);
+      const processedText = DocumentStructure.build(LONG_DOCUMENT).text;
+
+      chunks.slice(1).forEach((chunk, index) => expect(chunk.start!).toBeGreaterThanOrEqual(chunks[index].end!));
+      chunks.forEach(chunk => expect(processedText.substring(chunk.start!, chunk.end!)).toBe(chunk.text));
+      expect(chunks[2].text).toMatch(/^Mitochondria .*\n\n## NOTES\n\nReview the diagrams\.$/s);
+      expect(chunks[3].end).toBe(processedText.length);
+    });
+
+    it('should split an oversized block at sentences and count words without markup', () => {
+      const chunks = ContentProcessor.chunkText(`# Respiration\n\n${repeat('Mitochondria break glucose down to release stored energy as ATP.', 30)}`);
+
+      expect(chunks.map(chunk => chunk.wordCount)).toEqual([250, 50]);
+      expect(chunks[1].text).toMatch(/^Mitochondria break glucose/);
+    });
+
+    it('should return no chunks for empty text', () => {
+      expect(ContentProcessor.chunkText('  \n\n ')).toEqual([]);
+    });
+  });
+
+  describe('mergeChunkTopics', () => {
+    it('should favour topics ranked highly across many chunks', () => {
+      const chunk = (keyTopics: string[]) => ({ index: 0, text: '', wordCount: 0, summary: '', keyTopics });
+
+      expect(ContentProcessor.mergeChunkTopics([
+        chunk(['Glucose', 'Sunlight']),
+        chunk(['Glucose', 'Mitochondria']),
+        chunk(['Stomata', 'Sunlight']),
+      ])).toEqual(['Glucose', 'Sunlight', 'Stomata', 'Mitochondria']);
+
+      expect(ContentProcessor.mergeChunkTopics([])).toEqual(['General Knowledge', 'Learning Material', 'Educational Content']);
+    });
+  });
+
+  describe('processContent', () => {
+    it('should store the chunks and derive key topics from them', async () => {
+      const content = await ContentProcessor.processContent(textFile(LONG_DOCUMENT));
+
+      expect(content.chunks).toHaveLength(4);
+      expect(content.keyTopics).toEqual(ContentProcessor.mergeChunkTopics(content.chunks!));
+    });
+
+    it('should keep whole-text topics for short documents', async () => {
+      const text = 'Photosynthesis converts light energy into chemical energy.';
+      const content = await ContentProcessor.processContent(textFile(text));
+
+      expect(content.chunks).toHaveLength(1);
+      expect(content.keyTopics).toEqual(ContentProcessor.extractKeyTopics(content.processedText));
+    });
+  });
+
+  describe('selectRelevantText', () => {
+    let content: ProcessedContent;
+
+    beforeAll(async () => {
+      content = await ContentProcessor.processContent(textFile(LONG_DOCUMENT));
+    });
+
+    it('should send short documents whole', () => {
+      const short = { ...content, processedText: 'Tiny text.' };
+      expect(ContentProcessor.selectRelevantText(short, ['Stomata'], 3000)).toBe('Tiny text.');
+    });
+
+    it('should put the chunks matching the focus topics first and summarize the rest', () => {
+      const text = ContentProcessor.selectRelevantText(content, ['Stomata'], 2000);
+
+      expect(text.length).toBeLessThanOrEqual(2000);
+      expect(text.startsWith('Transpiration\nStomata release water vapour')).toBe(true);
+      expect(text).toContain('Other sections (summaries):\n- Photosynthesis: Plant Biology Handbook');
+    });
+
+    it('should keep selected chunks in document order', () => {
+      const text = ContentProcessor.selectRelevantText(content, ['Stomata', 'Chlorophyll'], 3000);
+
+      expect(text.indexOf('Chlorophyll pigments')).toBeGreaterThanOrEqual(0);
+      expect(text.indexOf('Chlorophyll pigments')).toBeLessThan(text.indexOf('Stomata release'));
+    });
+  });
+
+  describe('quiz generation', () => {
+    let stub: StubProviderServer;
+
+    beforeAll(async () => {
+      stub = await startStubProviderServer();
+    });
+
+    afterAll(async () => {
+      await stub.close();
+    });
+
+    it('should build the quiz prompt from the chunks about the focus topics', async () => {
+      useStubAIRouter(stub);
+      await setDatabase(new SQLiteAdapter(':memory:'));
+      const content = await ContentProcessor.processContent(textFile(LONG_DOCUMENT));
+      await saveProcessedContent(content);
+
+      stub.requests = [];
+      stub.reply = prompt => (prompt.startsWith('Based on this content')
+        ? 'Plant Quiz'
+        : JSON.stringify({
+          questions: [{ type: 'true-false', question: 'Stomata release water.', correctAnswer: 'True', explanation: 'Transpiration.' }],
+        }));
+
+      await QuizGenerator.generateQuiz({
+        contentId: content.contentId,
+        questionCount: 1,
+        difficulty: 'easy',
+        questionTypes: ['true-false'],
+        focusTopics: ['Mitochondria'],
+      });
+
+      const prompt: string = stub.requests[0].body.messages.at(-1).content;
+      expect(prompt).toContain('**Source Content:**\n2. Cellular Respiration\nMitochondria break glucose down');
+      // Unrelated sections only appear as summaries
+      expect(prompt).not.toContain('Transpiration\nStomata');
+      expect(prompt).toContain('- Transpiration: Stomata release water vapour');
+    });
+  });
+});
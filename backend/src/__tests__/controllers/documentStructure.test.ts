@@ -0,0 +1,152 @@
+// 🎃 GhostFrame Document Structure Tests
+// Extracted text keeps its sections, lists and tables, and processedText is rendered from them
+
+import { ContentProcessor } from '../../controllers/contentProcessor';
+import { DocumentStructure } from '../../controllers/documentStructure';
+
+const GUIDE = [
+  'Field Guide',
+  '',
+  '# Leaves',
+  'Leaves capture light',
+  'for the whole plant.',
+  '',
+  '- Stomata open by day',
+  '',
+  '• Guard cells swell with water',
+  '',
+  '## Pigments',
+  '',
+  '| Pigment | Colour |',
+  '|---------|--------|',
+  '| Chlorophyll | Green |',
+  '| Carotene | Orange |',
+  '',
+  'CHAPTER 2 ROOTS',
+  '1. Absorb water',
+  '2. Anchor the plant',
+  '',
+  '2.1 Root Hairs',
+  'Root hairs 🌱 widen the surface\u0000 area.',
+  '',
+  '## Leaves',
+  'Needles are leaves too.',
+].join('\n');
+
+describe('DocumentStructure', () => {
+  describe('build', () => {
+    it('should parse sections with heading levels, paragraphs, lists and tables', () => {
+      const { document } = DocumentStructure.build(GUIDE);
+
+      expect(document.sections.map(({ id, heading, level }) => ({ id, heading, level }))).toEqual([
+        { id: 'section-1', heading: undefined, level: 0 },
+        { id: 'leaves', heading: 'Leaves', level: 1 },
+        { id: 'pigments', heading: 'Pigments', level: 2 },
+        { id: 'chapter-2-roots', heading: 'CHAPTER 2 ROOTS', level: 1 },
+        { id: '2-1-root-hairs', heading: '2.1 Root Hairs', level: 2 },
+        { id: 'leaves-2', heading: 'Leaves', level: 2 },
+      ]);
+
+      expect(document.sections[1].blocks).toEqual([
+        { type: 'paragraph', text: 'Leaves capture light for the whole plant.' },
+        { type: 'list', ordered: false, items: ['Stomata open by day', 'Guard cells swell with water'] },
+      ]);
+      expect(document.sections[2].blocks).toEqual([
+        { type: 'table', header: true, rows: [['Pigment', 'Colour'], ['Chlorophyll', 'Green'], ['Carotene', 'Orange']] },
+      ]);
+      // A run of numbered lines is a list, not a string of numbered headings
+      expect(document.sections[3].blocks).toEqual([
+        { type: 'list', ordered: true, items: ['Absorb water', 'Anchor the plant'] },
+      ]);
+      expect(document.sections[4].blocks).toEqual([
+        { type: 'paragraph', text: 'Root hairs widen the surface area.' },
+      ]);
+    });
+
+    it('should render processedText as markdown and record where each section sits', () => {
+      const { document, text } = DocumentStructure.build(GUIDE);
+
+      expect(text).toBe([
+        'Field Guide',
+        '# Leaves',
+        'Leaves capture light for the whole plant.',
+        '- Stomata open by day\n- Guard cells swell with water',
+        '## Pigments',
+        '| Pigment | Colour |\n| --- | --- |\n| Chlorophyll | Green |\n| Carotene | Orange |',
+        '# CHAPTER 2 ROOTS',
+        '1. Absorb water\n2. Anchor the plant',
+        '## 2.1 Root Hairs',
+        'Root hairs widen the surface area.',
+        '## Leaves',
+        'Needles are leaves too.',
+      ].join('\n\n'));
+
+      expect(text.substring(document.sections[2].start, document.sections[2].end)).toMatch(/^## Pigments\n\n\| Pigment .* Orange \|$/s);
+      expect(document.sections[5].end).toBe(text.length);
+    });
+
+    it('should read its own rendering back unchanged', () => {
+      const { text } = DocumentStructure.build(GUIDE);
+      expect(DocumentStructure.build(text).text).toBe(text);
+    });
+
+    it('should strip the markup for plain-text stats', () => {
+      expect(DocumentStructure.plainText('## Pigments\n\n| Pigment | Colour |\n| --- | --- |\n\n1. Absorb water\n- Anchor')).toBe(
+        'Pigments Pigment Colour Absorb water Anchor'
+      );
+    });
+  });
+
+  describe('ContentProcessor.processContent', () => {
+    it('should store the document and derive processedText and stats from it', async () => {
+      const content = await ContentProcessor.processContent({
+        originalname: 'guide.md',
+        mimetype: 'text/markdown',
+        buffer: Buffer.from(GUIDE),
+      });
+
+      expect(content.document).toEqual(DocumentStructure.build(GUIDE).document);
+      expect(content.processedText).toBe(DocumentStructure.build(GUIDE).text);
+      // Markdown markers and table dividers are not words
+      expect(content.wordCount).toBe(ContentProcessor.countWords(DocumentStructure.plainText(content.processedText)));
+      expect(content.wordCount).toBe(48);
+    });
+  });
+
+  describe('ContentProcessor.selectSections', () => {
+    it('should narrow content to the chosen sections in document order', async () => {
+      const content = await ContentProcessor.processContent({
+        originalname: 'guide.md',
+        mimetype: 'text/markdown',
+        buffer: Buffer.from(GUIDE),
+      });
+
+      const selected = ContentProcessor.selectSections(content, ['leaves-2', 'pigments']);
+
+      expect(selected.contentId).toBe(content.contentId);
+      expect(selected.processedText).toBe(
+        '## Pigments\n\n| Pigment | Colour |\n| --- | --- |\n| Chlorophyll | Green |\n| Carotene | Orange |\n\n## Leaves\n\nNeedles are leaves too.'
+      );
+      expect(selected.document!.sections.map(section => section.id)).toEqual(['pigments', 'leaves-2']);
+      expect(selected.chunks!.every(chunk => selected.processedText.substring(chunk.start!, chunk.end!) === chunk.text)).toBe(true);
+      expect(() => ContentProcessor.selectSections(content, ['stems'])).toThrow('Section not found: stems');
+    });
+
+    it('should structure content processed before documents were kept', () => {
+      const legacy = {
+        contentId: 'content_legacy',
+        originalFilename: 'legacy.txt',
+        processedText: 'Old flattened text without any headings.',
+        keyTopics: [],
+        wordCount: 6,
+        uploadedAt: new Date(),
+        metadata: {},
+        summary: '',
+        learningObjectives: [],
+        readabilityScore: { difficulty: 'beginner', avgWordLength: 5, avgSentenceLength: 6, estimatedReadingTime: 1 },
+      };
+
+      expect(ContentProcessor.selectSections(legacy, ['section-1']).processedText).toBe(legacy.processedText);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+// 🎃 GhostFrame Quiz Generator Tests
+// Structured JSON output: validation, repair, bounded re-asks and the text fallback
+
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { QuizGenerationRequest, QuizGenerator } from '../../controllers/quizGenerator';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+const request: QuizGenerationRequest = {
+  contentId: 'content_quiz',
+  questionCount: 2,
+  difficulty: 'medium',
+  questionTypes: ['multiple-choice', 'true-false'],
+};
+
+const validQuiz = {
+  questions: [
+    {
+      type: 'multiple-choice',
+      question: 'What pigment makes leaves green?',
+      options: ['Chlorophyll', 'Carotene', 'Melanin', 'Keratin'],
+      correctAnswer: 'A',
+      explanation: 'Chlorophyll absorbs red and blue light.',
+    },
+    {
+      type: 'true-false',
+      question: 'Photosynthesis releases oxygen.',
+      correctAnswer: true,
+      explanation: 'Water is split and oxygen is released.',
+    },
+  ],
+};
+
+describe('QuizGenerator structured output', () => {
+  let stub: StubProviderServer;
+  let quizReplies: string[];
+
+  const isTitlePrompt = (prompt: string) => prompt.startsWith('Based on this content');
+  const quizRequests = () => stub.requests.filter(entry => !isTitlePrompt(entry.body.messages.at(-1).content));
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(buildProcessedContent('content_quiz'));
+
+    quizReplies = [];
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+    // Quiz prompts consume queued replies in order; the last one repeats
+    stub.reply = prompt => {
+      if (isTitlePrompt(prompt)) return 'Plant Quiz';
+      return quizReplies.length > 1 ? quizReplies.shift()! : quizReplies[0];
+    };
+  });
+
+  it('should ask for JSON and normalize valid questions', async () => {
+    quizReplies = [JSON.stringify(validQuiz)];
+
+    const quiz = await QuizGenerator.generateQuiz(request);
+
+    expect(quiz.metadata.title).toBe('Plant Quiz');
+    expect(quiz.questions).toHaveLength(2);
+    expect(quiz.questions[0]).toMatchObject({
+      type: 'multiple-choice',
+      options: ['A) Chlorophyll', 'B) Carotene', 'C) Melanin', 'D) Keratin'],
+      correctAnswer: 'A',
+      points: 2,
+    });
+    expect(quiz.questions[1]).toMatchObject({ type: 'true-false', correctAnswer: 'True' });
+    expect(quizRequests()).toHaveLength(1);
+    expect(quizRequests()[0].body.messages.at(-1).content).toContain('"questions"');
+  });
+
+  it('should repair small formatting drift without re-asking', async () => {
+    quizReplies = [
+      'Here is your quiz:\n```json\n{"questions": [{"type": "multiple-choice", "question": "Green pigment?", ' +
+        '"options": ["Carotene", "Chlorophyll",], "correctAnswer": "Chlorophyll", "explanation": "It is green.",},]}\n```',
+    ];
+
+    const quiz = await QuizGenerator.generateQuiz(request);
+
+    expect(quiz.questions).toHaveLength(1);
+    expect(quiz.questions[0].correctAnswer).toBe('B');
+    expect(quizRequests()).toHaveLength(1);
+  });
+
+  it('should drop comments copied after values without re-asking', async () => {
+    quizReplies = [
+      '{"questions": [{"type": "multiple-choice", "question": "Where is https://example.org/leaf hosted?",\n' +
+        '"options": ["Online", "Offline"],  // multiple-choice only\n' +
+        '"correctAnswer": "A",  // option letter\n' +
+        '// a whole-line note\n' +
+        '"explanation": "It links to the web."}]}',
+    ];
+
+    const quiz = await QuizGenerator.generateQuiz(request);
+
+    expect(quiz.questions[0]).toMatchObject({ question: 'Where is https://example.org/leaf hosted?', correctAnswer: 'A' });
+    expect(quizRequests()).toHaveLength(1);
+  });
+
+  it('should re-ask with the validation problems when the JSON is invalid', async () => {
+    const invalid = { questions: [{ ...validQuiz.questions[0], correctAnswer: 'Z' }] };
+    quizReplies = [JSON.stringify(invalid), JSON.stringify(validQuiz)];
+
+    const quiz = await QuizGenerator.generateQuiz(request);
+
+    expect(quiz.questions).toHaveLength(2);
+    const requests = quizRequests();
+    expect(requests).toHaveLength(2);
+    const retryPrompt = requests[1].body.messages.at(-1).content;
+    expect(retryPrompt).toContain('Your previous response could not be used');
+    expect(retryPrompt).toContain('questions[0].correctAnswer must be one of the option letters A, B, C, D');
+  });
+
+  it('should fall back to the text parser after the bounded retries', async () => {
+    quizReplies = [
+      [
+        'QUESTION 1:',
+        'Type: true-false',
+        'Question: Plants make sugar from light.',
+        'Correct Answer: True',
+        'Explanation: That is photosynthesis.',
+      ].join('\n'),
+    ];
+
+    const quiz = await QuizGenerator.generateQuiz(request);
+
+    expect(quizRequests()).toHaveLength(3);
+    expect(quiz.questions).toHaveLength(1);
+    expect(quiz.questions[0]).toMatchObject({ type: 'true-false', correctAnswer: 'True' });
+  });
+
+  it('should fail when neither JSON nor text can be parsed', async () => {
+    quizReplies = ['I cannot help with that.'];
+
+    await expect(QuizGenerator.generateQuiz(request)).rejects.toThrow('AI quiz generation failed');
+    expect(quizRequests()).toHaveLength(3);
+  });
+});
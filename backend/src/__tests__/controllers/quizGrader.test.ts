@@ -0,0 +1,211 @@
+// 🎃 GhostFrame Quiz Grader Tests
+// Normalized choice matching, AI rubric scoring and the keyword fallback
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { GeneratedQuiz, QuizQuestion, saveGeneratedQuiz } from '../../controllers/quizGenerator';
+import { keywordOverlapScore, QuizGrader } from '../../controllers/quizGrader';
+import quizRoutes from '../../routes/quiz';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+const multipleChoice: QuizQuestion = {
+  id: 'q1',
+  type: 'multiple-choice',
+  question: 'What pigment makes leaves green?',
+  options: ['A) Carotene', 'B) Chlorophyll', 'C) Melanin', 'D) Keratin'],
+  correctAnswer: 'B',
+  explanation: 'Chlorophyll reflects green light.',
+  points: 2,
+  difficulty: 'medium',
+};
+
+const trueFalse: QuizQuestion = {
+  id: 'q2',
+  type: 'true-false',
+  question: 'Photosynthesis releases oxygen.',
+  correctAnswer: 'True',
+  explanation: 'Water is split and oxygen is released.',
+  points: 2,
+  difficulty: 'medium',
+};
+
+const shortAnswer: QuizQuestion = {
+  id: 'q3',
+  type: 'short-answer',
+  question: 'What does photosynthesis produce?',
+  correctAnswer: 'Glucose and oxygen',
+  explanation: 'Light energy is stored as glucose; oxygen is a by-product.',
+  points: 2,
+  difficulty: 'medium',
+};
+
+describe('QuizGrader', () => {
+  let stub: StubProviderServer;
+
+  const useRouter = (configured: boolean) => {
+    useStubAIRouter(stub, { configured });
+  };
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    useRouter(true);
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+  });
+
+  describe('choice questions', () => {
+    it.each(['B', 'b', 'B) Chlorophyll', 'chlorophyll'])('should accept %p for option B', async answer => {
+      const grade = await QuizGrader.gradeQuestion(multipleChoice, answer);
+
+      expect(grade).toMatchObject({ isCorrect: true, score: 1, points: 2, gradedBy: 'exact' });
+    });
+
+    it('should match prefixed correct answers from the text parser', async () => {
+      const grade = await QuizGrader.gradeQuestion({ ...multipleChoice, correctAnswer: 'B) Chlorophyll' }, 'B');
+
+      expect(grade.isCorrect).toBe(true);
+    });
+
+    it('should reject the wrong option', async () => {
+      const grade = await QuizGrader.gradeQuestion(multipleChoice, 'A) Carotene');
+
+      expect(grade).toMatchObject({ isCorrect: false, score: 0, points: 0 });
+    });
+
+    it.each([
+      ['true', true],
+      ['T', true],
+      ['False', false],
+      ['maybe', false],
+    ])('should normalize true/false answer %p', async (answer, expected) => {
+      const grade = await QuizGrader.gradeQuestion(trueFalse, answer);
+
+      expect(grade.isCorrect).toBe(expected);
+    });
+  });
+
+  describe('short answers', () => {
+    it('should award partial credit and feedback from the AI rubric', async () => {
+      stub.reply = '{"score": 0.5, "feedback": "You named glucose but not oxygen."}';
+
+      const grade = await QuizGrader.gradeQuestion(shortAnswer, 'It makes sugar');
+
+      expect(grade).toMatchObject({
+        score: 0.5,
+        points: 1,
+        isCorrect: false,
+        feedback: 'You named glucose but not oxygen.',
+        gradedBy: 'ai-rubric',
+      });
+      const prompt = stub.requests[0].body.messages.at(-1).content;
+      expect(prompt).toContain('**Reference answer:** Glucose and oxygen');
+      expect(prompt).toContain("**Learner's answer:** It makes sugar");
+    });
+
+    it('should skip the AI for exact matches', async () => {
+      const grade = await QuizGrader.gradeQuestion(shortAnswer, 'glucose and oxygen!');
+
+      expect(grade).toMatchObject({ score: 1, gradedBy: 'exact' });
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should fall back to keyword overlap when no AI is configured', async () => {
+      useRouter(false);
+
+      const grade = await QuizGrader.gradeQuestion(shortAnswer, 'Plants make glucose');
+
+      expect(grade).toMatchObject({ score: 0.5, points: 1, gradedBy: 'keyword-overlap', isCorrect: false });
+    });
+
+    it('should fall back to keyword overlap when the AI keeps returning invalid scores', async () => {
+      stub.reply = '{"score": 7}';
+
+      const grade = await QuizGrader.gradeQuestion(shortAnswer, 'Oxygen and glucose');
+
+      expect(grade).toMatchObject({ score: 1, isCorrect: true, gradedBy: 'keyword-overlap' });
+      expect(stub.requests).toHaveLength(2);
+    });
+  });
+
+  describe('keywordOverlapScore', () => {
+    it('should ignore stop words, case and plurals', () => {
+      expect(keywordOverlapScore('The PLANT absorbs light', 'plants absorb the light')).toBe(1);
+    });
+
+    it('should score the share of reference keywords found', () => {
+      expect(keywordOverlapScore('Plants need light', 'Plants absorb light energy')).toBe(0.5);
+      expect(keywordOverlapScore('No idea', 'Plants absorb light energy')).toBe(0);
+    });
+  });
+
+  describe('POST /api/quiz/:quizId/submit', () => {
+    const quiz: GeneratedQuiz = {
+      metadata: {
+        quizId: 'quiz_grading',
+        contentId: 'content_grading',
+        title: 'Plant Quiz',
+        totalQuestions: 3,
+        difficulty: 'medium',
+        topics: ['Photosynthesis'],
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+      },
+      questions: [multipleChoice, trueFalse, shortAnswer],
+    };
+
+    let app: express.Express;
+
+    beforeAll(() => {
+      app = express();
+      app.use(express.json());
+      app.use('/api/quiz', quizRoutes);
+    });
+
+    beforeEach(async () => {
+      await setDatabase(new SQLiteAdapter(':memory:'));
+      await saveGeneratedQuiz(quiz);
+      stub.reply = '{"score": 0.5, "feedback": "Half right."}';
+    });
+
+    it('should grade mixed questions with partial credit', async () => {
+      const response = await request(app)
+        .post('/api/quiz/quiz_grading/submit')
+        .send({
+          answers: [
+            { questionId: 'q1', answer: 'B) Chlorophyll' },
+            { questionId: 'q2', answer: 'false' },
+            { questionId: 'q3', answer: 'Sugar' },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.score).toEqual({
+        correct: 1,
+        total: 3,
+        percentage: 50,
+        points: 3,
+        maxPoints: 6,
+      });
+      expect(response.body.data.results.map((result: any) => result.gradedBy)).toEqual([
+        'exact',
+        'exact',
+        'ai-rubric',
+      ]);
+    });
+
+    it('should reject submissions without an answers array', async () => {
+      const response = await request(app).post('/api/quiz/quiz_grading/submit').send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+// 🎃 GhostFrame SQLite Adapter Tests
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteAdapter } from '../../database/SQLiteAdapter';
+import { migrations, runMigrations } from '../../database/migrations';
+import { toPositional } from '../../database/PostgresAdapter';
+
+describe('SQLiteAdapter', () => {
+  let adapter: SQLiteAdapter;
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter(':memory:');
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  describe('Migrations', () => {
+    it('should create all generation tables', async () => {
+      await runMigrations(adapter);
+
+      const tables = await adapter.query<{ name: string }>(
+        "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name"
+      );
+      const names = tables.map(table => table.name);
+
+      expect(names).toEqual(
+        expect.arrayContaining([
+          'schema_migrations',
+          'processed_content',
+          'generated_quizzes',
+          'generated_stories',
+        ])
+      );
+    });
+
+    it('should record applied migrations and skip them on rerun', async () => {
+      const firstRun = await runMigrations(adapter);
+      const secondRun = await runMigrations(adapter);
+
+      expect(firstRun).toEqual(migrations.map(migration => migration.id));
+      expect(secondRun).toEqual([]);
+
+      const recorded = await adapter.query('SELECT id FROM schema_migrations');
+      expect(recorded).toHaveLength(migrations.length);
+    });
+  });
+
+  describe('Transactions', () => {
+    beforeEach(async () => {
+      await runMigrations(adapter);
+    });
+
+    it('should roll back every statement when work fails', async () => {
+      await expect(
+        adapter.transaction(async () => {
+          await adapter.execute(
+            'INSERT INTO processed_content (id, data, created_at) VALUES (?, ?, ?)',
+            ['content_1', '{}', new Date().toISOString()]
+          );
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      const rows = await adapter.query('SELECT id FROM processed_content');
+      expect(rows).toHaveLength(0);
+    });
+
+    it('should commit when work succeeds', async () => {
+      await adapter.transaction(async () => {
+        await adapter.execute(
+          'INSERT INTO processed_content (id, data, created_at) VALUES (?, ?, ?)',
+          ['content_1', '{}', new Date().toISOString()]
+        );
+      });
+
+      const rows = await adapter.query('SELECT id FROM processed_content');
+      expect(rows).toEqual([{ id: 'content_1' }]);
+    });
+  });
+
+  describe('File storage', () => {
+    it('should keep data across reconnects', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ghostframe-db-'));
+      const filename = path.join(dir, 'nested', 'ghostframe.db');
+
+      try {
+        const first = new SQLiteAdapter(filename);
+        await first.connect();
+        await runMigrations(first);
+        await first.execute(
+          'INSERT INTO generated_quizzes (id, content_id, data, created_at) VALUES (?, ?, ?, ?)',
+          ['quiz_1', 'content_1', '{}', new Date().toISOString()]
+        );
+        await first.close();
+
+        const second = new SQLiteAdapter(filename);
+        await second.connect();
+        const rows = await second.query('SELECT id, content_id FROM generated_quizzes');
+        await second.close();
+
+        expect(rows).toEqual([{ id: 'quiz_1', content_id: 'content_1' }]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should refuse queries before connecting', async () => {
+      const disconnected = new SQLiteAdapter(':memory:');
+      await expect(disconnected.query('SELECT 1')).rejects.toThrow('not connected');
+    });
+  });
+});
+
+describe('toPositional', () => {
+  it('should number placeholders for Postgres', () => {
+    expect(toPositional('SELECT * FROM t WHERE a = ? AND b = ?')).toBe(
+      'SELECT * FROM t WHERE a = $1 AND b = $2'
+    );
+  });
+});
@@ -0,0 +1,150 @@
+// 🎃 GhostFrame Storage Tests
+// Exercises the controller storage helpers against the SQLite adapter
+
+import { setDatabase, SQLiteAdapter } from '../../database';
+import {
+  getProcessedContent,
+  listProcessedContent,
+  ProcessedContent,
+  saveProcessedContent,
+} from '../../controllers/contentProcessor';
+import {
+  GeneratedQuiz,
+  getGeneratedQuiz,
+  listGeneratedQuizzes,
+  quizStorage,
+  saveGeneratedQuiz,
+} from '../../controllers/quizGenerator';
+import {
+  GeneratedStory,
+  getGeneratedStory,
+  listGeneratedStories,
+  saveGeneratedStory,
+} from '../../controllers/storyGenerator';
+
+const buildContent = (contentId: string, uploadedAt: Date): ProcessedContent => ({
+  contentId,
+  originalFilename: `${contentId}.txt`,
+  processedText: 'Photosynthesis converts light energy into chemical energy.',
+  keyTopics: ['Photosynthesis'],
+  wordCount: 7,
+  uploadedAt,
+  metadata: { title: 'Plants', subject: 'Science' },
+  summary: 'Photosynthesis basics.',
+  learningObjectives: [],
+  readabilityScore: {
+    difficulty: 'beginner',
+    avgWordLength: 6,
+    avgSentenceLength: 7,
+    estimatedReadingTime: 1,
+  },
+});
+
+const buildQuiz = (quizId: string, contentId: string, createdAt: Date): GeneratedQuiz => ({
+  metadata: {
+    quizId,
+    contentId,
+    title: 'Plant Quiz',
+    totalQuestions: 1,
+    difficulty: 'easy',
+    topics: ['Photosynthesis'],
+    createdAt,
+  },
+  questions: [
+    {
+      id: 'q1',
+      type: 'true-false',
+      question: 'Plants use sunlight.',
+      correctAnswer: 'True',
+      explanation: 'Light drives photosynthesis.',
+      points: 1,
+      difficulty: 'easy',
+    },
+  ],
+});
+
+const buildStory = (storyId: string, contentId: string): GeneratedStory => ({
+  metadata: {
+    storyId,
+    contentId,
+    title: 'The Green Leaf',
+    theme: 'educational',
+    targetAudience: 'children',
+    length: 'short',
+    wordCount: 3,
+    estimatedReadingTime: 1,
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+  },
+  content: 'Once upon a leaf.',
+  summary: 'A leaf learns.',
+  moralOrLesson: 'Sunlight matters.',
+});
+
+describe('Persistent storage', () => {
+  beforeEach(async () => {
+    await setDatabase(new SQLiteAdapter(':memory:'));
+  });
+
+  describe('Processed content', () => {
+    it('should round-trip content and restore dates', async () => {
+      const uploadedAt = new Date('2024-01-01T09:00:00Z');
+      await saveProcessedContent(buildContent('content_a', uploadedAt));
+
+      const loaded = await getProcessedContent('content_a');
+
+      expect(loaded).not.toBeNull();
+      expect(loaded!.uploadedAt).toBeInstanceOf(Date);
+      expect(loaded!.uploadedAt.toISOString()).toBe(uploadedAt.toISOString());
+      expect(loaded!.metadata.title).toBe('Plants');
+    });
+
+    it('should return null for unknown content', async () => {
+      expect(await getProcessedContent('missing')).toBeNull();
+    });
+
+    it('should list content in upload order', async () => {
+      await saveProcessedContent(buildContent('content_late', new Date('2024-02-01T00:00:00Z')));
+      await saveProcessedContent(buildContent('content_early', new Date('2024-01-01T00:00:00Z')));
+
+      const listed = await listProcessedContent();
+
+      expect(listed.map(content => content.contentId)).toEqual(['content_early', 'content_late']);
+    });
+  });
+
+  describe('Generated quizzes', () => {
+    it('should overwrite a quiz saved twice', async () => {
+      const quiz = buildQuiz('quiz_a', 'content_a', new Date('2024-01-01T00:00:00Z'));
+      await saveGeneratedQuiz(quiz);
+      await saveGeneratedQuiz({ ...quiz, metadata: { ...quiz.metadata, title: 'Renamed' } });
+
+      const quizzes = await listGeneratedQuizzes();
+
+      expect(quizzes).toHaveLength(1);
+      expect(quizzes[0].metadata.title).toBe('Renamed');
+      expect(quizzes[0].metadata.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should filter quizzes by content', async () => {
+      await saveGeneratedQuiz(buildQuiz('quiz_a', 'content_a', new Date('2024-01-01T00:00:00Z')));
+      await saveGeneratedQuiz(buildQuiz('quiz_b', 'content_b', new Date('2024-01-02T00:00:00Z')));
+
+      const forContentB = await quizStorage.list({ content_id: 'content_b' });
+
+      expect(forContentB.map(quiz => quiz.metadata.quizId)).toEqual(['quiz_b']);
+      expect((await getGeneratedQuiz('quiz_a'))!.questions[0].correctAnswer).toBe('True');
+    });
+  });
+
+  describe('Generated stories', () => {
+    it('should round-trip stories', async () => {
+      await saveGeneratedStory(buildStory('story_a', 'content_a'));
+
+      const story = await getGeneratedStory('story_a');
+
+      expect(story!.content).toBe('Once upon a leaf.');
+      expect(story!.metadata.createdAt).toBeInstanceOf(Date);
+      expect(await listGeneratedStories()).toHaveLength(1);
+    });
+  });
+});
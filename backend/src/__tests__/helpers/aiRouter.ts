@@ -0,0 +1,35 @@
+// 🎃 Point every generator at a stub provider
+
+import { BranchingStoryGenerator } from '../../controllers/branchingStory';
+import { ContentChat } from '../../controllers/contentChat';
+import { FlashcardGenerator } from '../../controllers/flashcardGenerator';
+import { QuizGenerator } from '../../controllers/quizGenerator';
+import { QuizGrader } from '../../controllers/quizGrader';
+import { StoryGenerator } from '../../controllers/storyGenerator';
+import { AIGateway } from '../../services/AIGateway';
+import { AIRouter } from '../../services/AIRouter';
+import { GenerationCache } from '../../services/GenerationCache';
+import { StubProviderServer } from './stubProviderServer';
+
+export interface StubRouterOptions {
+  /** false leaves the provider without an API key, as when no key is configured */
+  configured?: boolean;
+  cache?: GenerationCache;
+}
+
+/**
+ * A fresh router on the stub provider for every generator, so cached replies never leak between tests
+ */
+export const useStubAIRouter = (stub: StubProviderServer, options: StubRouterOptions = {}): AIRouter => {
+  const router = new AIRouter(
+    new AIGateway({
+      providers: { groq: { apiKey: options.configured === false ? undefined : 'test-groq', baseUrl: stub.baseUrl } },
+      cache: options.cache,
+    })
+  );
+
+  for (const generator of [QuizGenerator, QuizGrader, StoryGenerator, BranchingStoryGenerator, FlashcardGenerator, ContentChat]) {
+    generator.setAIRouter(router);
+  }
+  return router;
+};
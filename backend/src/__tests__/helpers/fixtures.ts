@@ -0,0 +1,62 @@
+// 🎃 Shared test fixtures
+
+import { deflateSync } from 'zlib';
+import { ProcessedContent } from '../../controllers/contentProcessor';
+
+export const buildProcessedContent = (
+  contentId: string,
+  overrides: Partial<ProcessedContent> = {}
+): ProcessedContent => ({
+  contentId,
+  originalFilename: `${contentId}.txt`,
+  processedText: 'Photosynthesis converts light energy into chemical energy.',
+  keyTopics: ['Photosynthesis'],
+  wordCount: 7,
+  uploadedAt: new Date('2024-01-01T00:00:00Z'),
+  metadata: { title: 'Plants' },
+  summary: 'Photosynthesis basics.',
+  learningObjectives: [],
+  readabilityScore: {
+    difficulty: 'beginner',
+    avgWordLength: 6,
+    avgSentenceLength: 7,
+    estimatedReadingTime: 1,
+  },
+  ...overrides,
+});
+
+/**
+ * A PDF of blank scanned pages: no text layer, one full-page grey image each
+ */
+export const buildScannedPdf = (pageCount: number): Buffer => {
+  const image = deflateSync(Buffer.alloc(200 * 200, 0xee));
+  const drawing = 'q 200 0 0 200 0 0 cm /Scan Do Q';
+  const pageIds = Array.from({ length: pageCount }, (_, index) => 5 + index);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    Buffer.concat([
+      Buffer.from(`<< /Type /XObject /Subtype /Image /Width 200 /Height 200 /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>\nstream\n`),
+      image,
+      Buffer.from('\nendstream'),
+    ]),
+    `<< /Length ${drawing.length} >>\nstream\n${drawing}\nendstream`,
+    ...pageIds.map(() => '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 200 200] /Resources << /XObject << /Scan 3 0 R >> >> /Contents 4 0 R >>'),
+  ];
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  objects.forEach((object, index) => {
+    const part = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), Buffer.from(object), Buffer.from('\nendobj\n')]);
+    offsets.push(length);
+    parts.push(part);
+    length += part.length;
+  });
+
+  const xref = offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  parts.push(Buffer.from(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`
+  ));
+  return Buffer.concat(parts);
+};
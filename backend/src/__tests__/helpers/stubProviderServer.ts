@@ -0,0 +1,172 @@
+// 🎃 Local AI provider stub for tests
+// Speaks the OpenAI, Anthropic and Google wire formats on an ephemeral port
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface StubProviderServer {
+  baseUrl: string;
+  requests: StubRequest[];
+  /** Text returned for the next requests (or computed from the prompt) */
+  reply: string | ((prompt: string, body: any) => string);
+  /** When set, matching requests answer with this HTTP status */
+  failWith: number | null;
+  /** Restrict `failWith` to requests matching this predicate */
+  failWhen: ((request: StubRequest) => boolean) | null;
+  /** Pause between streamed events, to simulate a slow model */
+  chunkDelayMs: number;
+  /** Pause before answering at all, so several requests can be in flight at once */
+  replyDelayMs: number;
+  /** Requests the client hung up on before they were answered */
+  abandoned: StubRequest[];
+  close(): Promise<void>;
+}
+
+const promptOf = (body: any): string =>
+  body.messages?.[body.messages.length - 1]?.content ??
+  body.contents?.[0]?.parts?.[0]?.text ??
+  '';
+
+const countTokens = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+export async function startStubProviderServer(): Promise<StubProviderServer> {
+  const stub: StubProviderServer = {
+    baseUrl: '',
+    requests: [],
+    reply: 'Stub response',
+    failWith: null,
+    failWhen: null,
+    chunkDelayMs: 0,
+    replyDelayMs: 0,
+    abandoned: [],
+    close: async () => undefined,
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', async () => {
+      const body = raw ? JSON.parse(raw) : {};
+      const path = req.url || '';
+      const request = { path, headers: req.headers, body };
+      stub.requests.push(request);
+      res.on('close', () => {
+        if (!res.writableEnded) stub.abandoned.push(request);
+      });
+
+      // Unref'd so a request the client gave up on does not keep the test process alive
+      if (stub.replyDelayMs > 0) await new Promise(resolve => setTimeout(resolve, stub.replyDelayMs).unref());
+      if (res.destroyed) return;
+
+      if (stub.failWith && (!stub.failWhen || stub.failWhen(request))) {
+        res.writeHead(stub.failWith, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'stub failure' } }));
+        return;
+      }
+
+      const prompt = promptOf(body);
+      const text = typeof stub.reply === 'function' ? stub.reply(prompt, body) : stub.reply;
+      const words = text.split(/(?<= )/);
+      const inputTokens = countTokens(prompt);
+      const outputTokens = countTokens(text);
+      const streaming = body.stream === true || path.includes('streamGenerateContent');
+
+      const sendEvents = async (events: unknown[], done?: string) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.flushHeaders();
+        for (const event of events) {
+          if (stub.chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, stub.chunkDelayMs));
+          if (res.destroyed) return;
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+        if (done) res.write(`data: ${done}\n\n`);
+        res.end();
+      };
+
+      if (path.endsWith('/chat/completions')) {
+        if (streaming) {
+          sendEvents(
+            [
+              ...words.map(word => ({ choices: [{ delta: { content: word } }] })),
+              { choices: [], usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens } },
+            ],
+            '[DONE]'
+          );
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            choices: [{ message: { content: text }, finish_reason: 'stop' }],
+            usage: {
+              prompt_tokens: inputTokens,
+              completion_tokens: outputTokens,
+              total_tokens: inputTokens + outputTokens,
+            },
+          })
+        );
+        return;
+      }
+
+      if (path.endsWith('/messages')) {
+        if (streaming) {
+          sendEvents([
+            { type: 'message_start', message: { usage: { input_tokens: inputTokens } } },
+            ...words.map(word => ({
+              type: 'content_block_delta',
+              delta: { type: 'text_delta', text: word },
+            })),
+            { type: 'message_delta', usage: { output_tokens: outputTokens } },
+          ]);
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            content: [{ type: 'text', text }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+          })
+        );
+        return;
+      }
+
+      if (path.includes(':generateContent') || path.includes(':streamGenerateContent')) {
+        const usageMetadata = { promptTokenCount: inputTokens, candidatesTokenCount: outputTokens };
+        if (streaming) {
+          sendEvents(
+            words.map((word, index) => ({
+              candidates: [{ content: { parts: [{ text: word }] } }],
+              ...(index === words.length - 1 && { usageMetadata }),
+            }))
+          );
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            candidates: [{ content: { parts: [{ text }] }, finishReason: 'STOP' }],
+            usageMetadata,
+          })
+        );
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  stub.baseUrl = `http://127.0.0.1:${port}/v1`;
+  stub.close = () => new Promise(resolve => server.close(() => resolve()));
+  return stub;
+}
@@ -0,0 +1,3 @@
+// 🎃 Zip reader for asserting on generated archives
+
+export { readZip as unzip, ZipFileEntry as UnzippedEntry } from '../../utils/zip';
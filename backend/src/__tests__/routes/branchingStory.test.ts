@@ -0,0 +1,185 @@
+// 🎃 GhostFrame Branching Story Route Tests
+// Scenes are written lazily as readers pick choices, and stored as a scene/choice graph
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { GeneratedStory, getGeneratedStory } from '../../controllers/storyGenerator';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const content = buildProcessedContent('content_branching');
+
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+
+describe('branching story routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/story', storyRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(content);
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+    stub.replyDelayMs = 0;
+    stub.reply = prompt => {
+      if (prompt.includes('starting an interactive')) {
+        return JSON.stringify({
+          title: 'The Leaf at the Crossroads',
+          summary: 'A leaf must find enough light to survive.',
+          scene: 'Lily the leaf woke in the shade.',
+          choices: ['Climb toward the sun', 'Ask the roots for help', 'Wait for the wind', 'Take a nap'],
+        });
+      }
+      if (prompt.includes('Write the final scene')) {
+        return JSON.stringify({ scene: 'Lily made sugar and thrived.', choices: [] });
+      }
+      const scene = prompt.match(/Write scene (\d+)/)![1];
+      return JSON.stringify({ scene: `Scene ${scene} unfolds.`, choices: ['Go left', 'Go right'] });
+    };
+  });
+
+  const start = async (): Promise<GeneratedStory> => {
+    const response = await request(app)
+      .post('/api/story/generate')
+      .send({ contentId: content.contentId, theme: 'adventure', length: 'short', mode: 'branching' });
+
+    expect(response.status).toBe(200);
+    return response.body.data;
+  };
+
+  const choose = (story: GeneratedStory, choiceId: string) =>
+    request(app).post(`/api/story/${story.metadata.storyId}/choices/${choiceId}`).send();
+
+  // Ids carry a random suffix, so tests pick choices by their label
+  const choiceOf = (story: GeneratedStory, label: string): string =>
+    story.branching!.choices.find(choice => choice.label === label)!.choiceId;
+
+  it('should open with a single scene and at most three unexplored choices', async () => {
+    const story = await start();
+
+    expect(story.metadata.title).toBe('The Leaf at the Crossroads');
+    expect(story.summary).toBe('A leaf must find enough light to survive.');
+    expect(story.content).toBe('Lily the leaf woke in the shade.');
+    expect(story.chapters).toBeUndefined();
+    const opening = story.branching!.startSceneId;
+    expect(opening).toMatch(/^scene_1_[a-z0-9]+$/);
+    expect(story.branching).toEqual({
+      startSceneId: opening,
+      maxDepth: 3,
+      scenes: [{ sceneId: opening, content: 'Lily the leaf woke in the shade.', depth: 1, isEnding: false, wordCount: 7 }],
+      choices: ['Climb toward the sun', 'Ask the roots for help', 'Wait for the wind'].map((label, index) => ({
+        choiceId: expect.stringMatching(new RegExp(`^choice_${index + 1}_`)),
+        fromSceneId: opening,
+        toSceneId: null,
+        label,
+      })),
+    });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('should write scenes lazily along the chosen path and end at the maximum depth', async () => {
+    const story = await start();
+
+    const second = await choose(story, choiceOf(story, 'Ask the roots for help'));
+    expect(second.status).toBe(200);
+    expect(second.body.data.scene).toMatchObject({ content: 'Scene 2 unfolds.', depth: 2, isEnding: false });
+    const secondScene = second.body.data.scene.sceneId;
+    expect(secondScene).toMatch(/^scene_2_/);
+
+    const secondPrompt = promptOf(stub.requests[stub.requests.length - 1]);
+    expect(secondPrompt).toContain('Lily the leaf woke in the shade.');
+    expect(secondPrompt).toContain('The reader chose: Ask the roots for help');
+
+    const goLeft = choiceOf(second.body.data.story, 'Go left');
+    const ending = await choose(story, goLeft);
+    expect(ending.body.data.scene).toMatchObject({ depth: 3, isEnding: true });
+    const endingScene = ending.body.data.scene.sceneId;
+    expect(ending.body.message).toBe('🏁 The path comes to an end');
+
+    const endingPrompt = promptOf(stub.requests[stub.requests.length - 1]);
+    expect(endingPrompt).toContain('The reader chose: Ask the roots for help');
+    expect(endingPrompt).toContain('Scene 2 unfolds.\n\nThe reader chose: Go left');
+
+    const saved = await getGeneratedStory(story.metadata.storyId);
+    expect(saved?.branching?.scenes.map(scene => scene.sceneId)).toEqual([story.branching!.startSceneId, secondScene, endingScene]);
+    expect(saved?.branching?.choices.filter(choice => choice.toSceneId)).toEqual([
+      expect.objectContaining({ choiceId: choiceOf(story, 'Ask the roots for help'), toSceneId: secondScene }),
+      expect.objectContaining({ choiceId: goLeft, fromSceneId: secondScene, toSceneId: endingScene }),
+    ]);
+    expect(saved?.branching?.choices.filter(choice => choice.fromSceneId === endingScene)).toEqual([]);
+    expect(saved?.metadata.wordCount).toBe(7 + 3 + 5);
+  });
+
+  it('should return an explored branch without writing it again', async () => {
+    const story = await start();
+    const first = await choose(story, choiceOf(story, 'Climb toward the sun'));
+    const requestsAfterFirstVisit = stub.requests.length;
+
+    const revisit = await choose(story, choiceOf(story, 'Climb toward the sun'));
+
+    expect(revisit.body.data.scene.sceneId).toBe(first.body.data.scene.sceneId);
+    expect(stub.requests).toHaveLength(requestsAfterFirstVisit);
+
+    // Going back and taking another branch grows the graph from the same scene
+    const other = await choose(story, choiceOf(story, 'Wait for the wind'));
+    expect(other.body.data.scene).toMatchObject({ sceneId: expect.stringMatching(/^scene_3_/), depth: 2 });
+    expect(other.body.data.story.branching.scenes).toHaveLength(3);
+  });
+
+  it('should keep every scene when readers explore at the same time', async () => {
+    const story = await start();
+    stub.replyDelayMs = 30;
+
+    const labels = ['Climb toward the sun', 'Ask the roots for help', 'Wait for the wind'];
+    const explored = await Promise.all([...labels, labels[0]].map(label => choose(story, choiceOf(story, label))));
+
+    expect(explored.map(response => response.status)).toEqual([200, 200, 200, 200]);
+    const sceneIds = explored.map(response => response.body.data.scene.sceneId);
+    // Two readers took the first choice at once; both end up on the scene that was saved first
+    expect(sceneIds[3]).toBe(sceneIds[0]);
+    expect(new Set(sceneIds.slice(0, 3)).size).toBe(3);
+
+    const saved = (await getGeneratedStory(story.metadata.storyId))!;
+    expect(saved.branching!.scenes.map(scene => scene.sceneId).sort()).toEqual([story.branching!.startSceneId, ...sceneIds.slice(0, 3)].sort());
+    expect(labels.map(label => saved.branching!.choices.find(choice => choice.label === label)!.toSceneId)).toEqual(sceneIds.slice(0, 3));
+    expect(saved.branching!.choices.filter(choice => choice.fromSceneId !== story.branching!.startSceneId)).toHaveLength(6);
+    expect(new Set(saved.branching!.choices.map(choice => choice.choiceId)).size).toBe(saved.branching!.choices.length);
+  });
+
+  it('should validate the story, choice and mode', async () => {
+    const story = await start();
+
+    const missingChoice = await choose(story, 'choice_99_missing');
+    expect(missingChoice.status).toBe(404);
+    expect(missingChoice.body.error).toBe('Choice not found');
+
+    const missingStory = await request(app).post('/api/story/story_missing/choices/choice_1').send();
+    expect(missingStory.status).toBe(404);
+
+    const badMode = await request(app).post('/api/story/generate').send({ contentId: content.contentId, mode: 'maze' });
+    expect(badMode.status).toBe(400);
+    expect(badMode.body.error).toBe('mode must be linear or branching');
+
+    const stream = await request(app).post('/api/story/generate/stream').send({ contentId: content.contentId, mode: 'branching' });
+    expect(stream.status).toBe(400);
+    expect(stream.body.error).toBe('Only linear stories can be streamed');
+  });
+});
@@ -0,0 +1,219 @@
+// 🎃 GhostFrame Content Collection Route Tests
+// Collections group uploads so one quiz, deck or story can cover a whole unit
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import collectionRoutes from '../../routes/collections';
+import flashcardRoutes from '../../routes/flashcards';
+import quizRoutes from '../../routes/quiz';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const plants = buildProcessedContent('content_plants', {
+  processedText: 'Photosynthesis turns sunlight into glucose inside chloroplasts.',
+  keyTopics: ['Photosynthesis', 'Chloroplasts'],
+  metadata: { title: 'Plants' },
+});
+const cells = buildProcessedContent('content_cells', {
+  processedText: 'Mitochondria release energy from glucose as ATP.',
+  keyTopics: ['Mitochondria', 'ATP'],
+  metadata: { title: 'Cells' },
+});
+const water = buildProcessedContent('content_water', {
+  processedText: 'Stomata let water vapour escape from leaves.',
+  keyTopics: ['Stomata'],
+  metadata: { title: 'Water' },
+});
+
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+
+// How many questions or cards a prompt asked for, and from which document
+const requestedFrom = (prompt: string) => ({
+  count: Number(prompt.match(/Number of (?:Questions|Cards): (\d+)/)![1]),
+  source: [plants, cells, water].find(content => prompt.includes(content.processedText))!.contentId,
+});
+
+describe('content collection routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/collections', collectionRoutes);
+    app.use('/api/quiz', quizRoutes);
+    app.use('/api/flashcards', flashcardRoutes);
+    app.use('/api/story', storyRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    for (const content of [plants, cells, water]) {
+      await saveProcessedContent(content);
+    }
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+    stub.reply = prompt => {
+      if (prompt.startsWith('Based on this')) return 'Unit Review';
+      const match = prompt.match(/Number of (Questions|Cards): (\d+)/);
+      if (!match) return 'A short tale.';
+      const { count } = requestedFrom(prompt);
+      return match[1] === 'Cards'
+        ? JSON.stringify(Array.from({ length: count }, (_, index) => ({ front: `Term ${index + 1}`, back: 'Meaning', topic: 'Biology' })))
+        : JSON.stringify({
+          questions: Array.from({ length: count }, (_, index) => ({
+            type: 'true-false',
+            question: `Statement ${index + 1}`,
+            correctAnswer: 'True',
+            explanation: 'Because.',
+          })),
+        });
+    };
+  });
+
+  const createCollection = async (contentIds: string[]) => {
+    const response = await request(app)
+      .post('/api/collections')
+      .send({ name: 'Biology Unit 1', description: 'Energy in living things', contentIds });
+
+    expect(response.status).toBe(201);
+    return response.body.data;
+  };
+
+  describe('managing collections', () => {
+    it('should create, list, add to and remove from a collection', async () => {
+      const collection = await createCollection([plants.contentId, plants.contentId]);
+      expect(collection).toMatchObject({ name: 'Biology Unit 1', contentIds: [plants.contentId] });
+      expect(collection.collectionId).toMatch(/^collection_/);
+
+      const added = await request(app).post(`/api/collections/${collection.collectionId}/content`).send({ contentId: cells.contentId });
+      expect(added.body.data.contentIds).toEqual([plants.contentId, cells.contentId]);
+
+      const removed = await request(app).delete(`/api/collections/${collection.collectionId}/content/${plants.contentId}`);
+      expect(removed.body.data.contentIds).toEqual([cells.contentId]);
+
+      const listed = await request(app).get('/api/collections');
+      expect(listed.body.data.map((entry: any) => entry.contentIds)).toEqual([[cells.contentId]]);
+
+      const fetched = await request(app).get(`/api/collections/${collection.collectionId}`);
+      expect(fetched.body.data.contentIds).toEqual([cells.contentId]);
+    });
+
+    it('should validate names, members and ids', async () => {
+      const collection = await createCollection([plants.contentId]);
+
+      const cases: [request.Test, number, string][] = [
+        [request(app).post('/api/collections').send({ contentIds: [] }), 400, 'name is required'],
+        [request(app).post('/api/collections').send({ name: 'Unit', contentIds: 'content_plants' }), 400, 'contentIds must be an array of at most 50 content ids'],
+        [request(app).post('/api/collections').send({ name: 'Unit', contentIds: ['content_missing'] }), 404, 'Content not found: content_missing'],
+        [request(app).get('/api/collections/collection_missing'), 404, 'Collection not found'],
+        [request(app).post(`/api/collections/${collection.collectionId}/content`).send({}), 400, 'contentId is required'],
+        [request(app).post(`/api/collections/${collection.collectionId}/content`).send({ contentId: 'content_missing' }), 404, 'Content not found'],
+        [request(app).delete(`/api/collections/${collection.collectionId}/content/${cells.contentId}`), 404, 'Content is not in this collection'],
+      ];
+
+      for (const [pending, status, error] of cases) {
+        const response = await pending;
+        expect(response.status).toBe(status);
+        expect(response.body.error).toBe(error);
+      }
+    });
+  });
+
+  describe('generating from a collection', () => {
+    it('should balance quiz questions across the documents and record where each came from', async () => {
+      const collection = await createCollection([plants.contentId, cells.contentId, water.contentId]);
+
+      const response = await request(app)
+        .post('/api/quiz/generate')
+        .send({ collectionId: collection.collectionId, questionCount: 7, questionTypes: ['true-false'] });
+
+      expect(response.status).toBe(200);
+      const quiz = response.body.data;
+      expect(quiz.metadata).toMatchObject({
+        contentId: '',
+        collectionId: collection.collectionId,
+        sourceContentIds: [plants.contentId, cells.contentId, water.contentId],
+        totalQuestions: 7,
+        topics: ['Photosynthesis', 'Mitochondria', 'Stomata', 'Chloroplasts', 'ATP'],
+      });
+
+      const shares = stub.requests.map(promptOf).filter(prompt => prompt.includes('Number of Questions')).map(requestedFrom);
+      expect(shares).toEqual([
+        { count: 3, source: plants.contentId },
+        { count: 2, source: cells.contentId },
+        { count: 2, source: water.contentId },
+      ]);
+
+      expect(quiz.questions.map((question: any) => question.sourceContentId)).toEqual([
+        plants.contentId, plants.contentId, plants.contentId,
+        cells.contentId, cells.contentId,
+        water.contentId, water.contentId,
+      ]);
+      expect(new Set(quiz.questions.map((question: any) => question.id)).size).toBe(7);
+    });
+
+    it('should skip documents that get no questions when there are more documents than questions', async () => {
+      const collection = await createCollection([plants.contentId, cells.contentId, water.contentId]);
+
+      const response = await request(app)
+        .post('/api/quiz/generate')
+        .send({ collectionId: collection.collectionId, questionCount: 2, questionTypes: ['true-false'] });
+
+      expect(response.body.data.questions.map((question: any) => question.sourceContentId)).toEqual([plants.contentId, cells.contentId]);
+    });
+
+    it('should share flashcards out across the documents', async () => {
+      const collection = await createCollection([plants.contentId, cells.contentId]);
+
+      const response = await request(app)
+        .post('/api/flashcards/generate')
+        .send({ collectionId: collection.collectionId, cardCount: 4 });
+
+      expect(response.status).toBe(200);
+      const deck = response.body.data;
+      expect(deck.metadata).toMatchObject({ title: 'Biology Unit 1', collectionId: collection.collectionId, totalCards: 4 });
+      expect(deck.cards.map((card: any) => card.sourceContentId)).toEqual([
+        plants.contentId, plants.contentId, cells.contentId, cells.contentId,
+      ]);
+    });
+
+    it('should write stories from every document in the collection', async () => {
+      const collection = await createCollection([plants.contentId, cells.contentId]);
+
+      const response = await request(app)
+        .post('/api/story/generate')
+        .send({ collectionId: collection.collectionId, length: 'short' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.metadata).toMatchObject({ contentId: '', collectionId: collection.collectionId });
+
+      const outlinePrompt = stub.requests.map(promptOf).find(prompt => prompt.includes('planning'))!;
+      expect(outlinePrompt).toContain(plants.processedText);
+      expect(outlinePrompt).toContain(cells.processedText);
+    });
+
+    it('should require exactly one source', async () => {
+      const both = await request(app).post('/api/quiz/generate').send({ contentId: plants.contentId, collectionId: 'collection_1' });
+      expect(both.status).toBe(400);
+      expect(both.body.error).toBe('Provide either contentId or collectionId, not both');
+
+      const missing = await request(app).post('/api/flashcards/generate').send({ collectionId: 'collection_missing' });
+      expect(missing.status).toBe(500);
+      expect(missing.body.error).toBe('Collection not found: collection_missing');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// 🎃 GhostFrame Document Chat Route Tests
+// Answers are grounded in retrieved passages, cite them, and remember the conversation
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { ContentProcessor, ProcessedContent, saveProcessedContent } from '../../controllers/contentProcessor';
+import { getChatSession } from '../../controllers/contentChat';
+import { setEmbedder } from '../../services/Embeddings';
+import contentRoutes from '../../routes/content';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const repeat = (sentence: string, times: number) => Array(times).fill(sentence).join(' ');
+
+const PLANTS = [
+  '# Photosynthesis',
+  repeat('Chlorophyll pigments in the leaf capture sunlight to make glucose.', 10),
+  '',
+  '# Transpiration',
+  repeat('Stomata on the underside of leaves release water vapour into the air.', 10),
+].join('\n');
+
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+
+describe('document chat routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+  let content: ProcessedContent;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/content', contentRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+    setEmbedder(null);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    content = await ContentProcessor.processContent({
+      originalname: 'plants.txt',
+      mimetype: 'text/plain',
+      buffer: Buffer.from(PLANTS),
+    });
+    await saveProcessedContent(content);
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+    stub.reply = 'Leaves lose water through their stomata [1].';
+  });
+
+  const ask = (body: object, contentId = content.contentId) =>
+    request(app).post(`/api/content/${contentId}/chat`).send(body);
+
+  it('should answer from the retrieved passages and cite them with character ranges', async () => {
+    const response = await ask({ question: 'How do leaves release water vapour?' });
+
+    expect(response.status).toBe(200);
+    const { sessionId, answer, citations, history } = response.body.data;
+    expect(sessionId).toMatch(/^chat_/);
+    expect(answer).toBe('Leaves lose water through their stomata [1].');
+
+    const transpiration = content.chunks![1];
+    expect(citations).toEqual([{
+      chunkId: `${content.contentId}:1`,
+      chunkIndex: 1,
+      heading: 'Transpiration',
+      start: transpiration.start,
+      end: transpiration.end,
+    }]);
+    expect(content.processedText.substring(citations[0].start, citations[0].end)).toContain('Stomata on the underside');
+
+    const prompt = promptOf(stub.requests[0]);
+    expect(prompt).toContain('[1] (Transpiration) Stomata on the underside');
+    expect(prompt).toContain('**Question:** How do leaves release water vapour?');
+
+    expect(history.map((entry: any) => entry.role)).toEqual(['user', 'assistant']);
+    expect(history[1].metadata.citations).toEqual(citations);
+  });
+
+  it('should carry the conversation history into follow-up questions', async () => {
+    const first = await ask({ question: 'How do leaves release water vapour?' });
+    const { sessionId } = first.body.data;
+    stub.reply = 'They sit on the underside of the leaf.';
+
+    const second = await ask({ question: 'Where are they?', sessionId });
+
+    expect(second.body.data.sessionId).toBe(sessionId);
+    // Without citation markers every retrieved passage is cited
+    expect(second.body.data.citations.length).toBeGreaterThan(0);
+    expect(promptOf(stub.requests[1])).toContain(
+      '**Conversation so far:**\nLearner: How do leaves release water vapour?\nTutor: Leaves lose water through their stomata [1].'
+    );
+
+    const saved = await getChatSession(sessionId);
+    expect(saved?.history.map(entry => entry.content)).toEqual([
+      'How do leaves release water vapour?',
+      'Leaves lose water through their stomata [1].',
+      'Where are they?',
+      'They sit on the underside of the leaf.',
+    ]);
+    expect(saved?.history[0].timestamp).toBeInstanceOf(Date);
+
+    const fetched = await request(app).get(`/api/content/${content.contentId}/chat/${sessionId}`);
+    expect(fetched.body.data.history).toHaveLength(4);
+  });
+
+  it('should validate the question, content and session', async () => {
+    const { sessionId } = (await ask({ question: 'What is chlorophyll?' })).body.data;
+
+    const cases: [object, string, number, string][] = [
+      [{}, content.contentId, 400, 'question must be a non-empty string of at most 2000 characters'],
+      [{ question: 'x'.repeat(2001) }, content.contentId, 400, 'question must be a non-empty string of at most 2000 characters'],
+      [{ question: 'Why?', sessionId: 7 }, content.contentId, 400, 'sessionId must be a string'],
+      [{ question: 'Why?' }, 'content_missing', 404, 'Content not found'],
+      [{ question: 'Why?', sessionId: 'chat_missing' }, content.contentId, 404, 'Chat session not found'],
+    ];
+
+    for (const [body, contentId, status, error] of cases) {
+      const response = await ask(body, contentId);
+      expect(response.status).toBe(status);
+      expect(response.body.error).toBe(error);
+    }
+
+    const other = await ContentProcessor.processContent({
+      originalname: 'other.txt',
+      mimetype: 'text/plain',
+      buffer: Buffer.from('Gutenberg built a printing press.'),
+    });
+    await saveProcessedContent(other);
+    const wrongDocument = await ask({ question: 'Why?', sessionId }, other.contentId);
+    expect(wrongDocument.status).toBe(404);
+  });
+});
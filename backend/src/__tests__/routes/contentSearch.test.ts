@@ -0,0 +1,116 @@
+// 🎃 GhostFrame Content Search Route Tests
+// Uploads are embedded chunk by chunk and searched locally, with no network calls
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { ContentProcessor, saveProcessedContent } from '../../controllers/contentProcessor';
+import { embeddingStorage } from '../../controllers/contentSearch';
+import { setEmbedder } from '../../services/Embeddings';
+import uploadRoutes from '../../routes/upload';
+import { buildProcessedContent } from '../helpers/fixtures';
+
+const repeat = (sentence: string, times: number) => Array(times).fill(sentence).join(' ');
+
+const PLANTS = [
+  '# Photosynthesis',
+  repeat('Chlorophyll pigments in the leaf capture sunlight to make glucose.', 10),
+  '',
+  '# Transpiration',
+  repeat('Stomata on the underside of leaves release water vapour into the air.', 10),
+].join('\n');
+
+const HISTORY = [
+  '# The Printing Press',
+  repeat('Gutenberg built a press with movable metal type around 1440.', 10),
+].join('\n');
+
+describe('content search routes', () => {
+  let app: express.Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/upload', uploadRoutes);
+  });
+
+  beforeEach(async () => {
+    setEmbedder(null);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+  });
+
+  const upload = async (filename: string, text: string) => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from(text), { filename, contentType: 'text/plain' });
+
+    expect(response.status).toBe(200);
+    return response.body.data;
+  };
+
+  it('should index uploads and return the best matching passages with offsets', async () => {
+    const plants = await upload('plants.txt', PLANTS);
+    await upload('history.txt', HISTORY);
+
+    const embeddings = await embeddingStorage.list({ content_id: plants.contentId });
+    expect(embeddings.map(embedding => embedding.chunkIndex)).toEqual([0, 1]);
+    expect(embeddings[0].embedder).toBe('hashing-512');
+
+    const response = await request(app).get('/api/upload/search').query({ q: 'water vapour leaving leaves' });
+
+    expect(response.status).toBe(200);
+    const [best] = response.body.data;
+    expect(best).toMatchObject({ contentId: plants.contentId, title: 'plants', chunkIndex: 1, heading: 'Transpiration' });
+    expect(best.score).toBeGreaterThan(0);
+    expect(plants.processedText.substring(best.start, best.end)).toBe(best.text);
+  });
+
+  it('should respect the limit and the content filter', async () => {
+    await upload('plants.txt', PLANTS);
+    const history = await upload('history.txt', HISTORY);
+
+    const limited = await request(app).get('/api/upload/search').query({ q: 'leaf sunlight water', limit: 1 });
+    expect(limited.body.data).toHaveLength(1);
+
+    const filtered = await request(app).get('/api/upload/search').query({ q: 'press leaf', contentId: history.contentId });
+    expect(filtered.body.data.map((result: any) => result.contentId)).toEqual([history.contentId]);
+  });
+
+  it('should index content saved before search existed on first search', async () => {
+    const legacy = buildProcessedContent('content_legacy', {
+      processedText: 'The water cycle moves water through evaporation, condensation and rain.',
+    });
+    await saveProcessedContent(legacy);
+    const processed = await ContentProcessor.processContent({
+      originalname: 'history.txt',
+      mimetype: 'text/plain',
+      buffer: Buffer.from(HISTORY),
+    });
+    await saveProcessedContent(processed);
+
+    const response = await request(app).get('/api/upload/search').query({ q: 'evaporation and rain' });
+
+    expect(response.body.data[0]).toMatchObject({
+      contentId: 'content_legacy',
+      chunkIndex: 0,
+      start: 0,
+      end: legacy.processedText.length,
+    });
+    expect(await embeddingStorage.list({ content_id: processed.contentId })).toHaveLength(1);
+  });
+
+  it('should reject a missing query or an out-of-range limit', async () => {
+    const cases: [object, string][] = [
+      [{}, 'Search query q is required'],
+      [{ q: '   ' }, 'Search query q is required'],
+      [{ q: 'leaf', limit: 0 }, 'limit must be an integer from 1 to 20'],
+      [{ q: 'leaf', limit: 'many' }, 'limit must be an integer from 1 to 20'],
+    ];
+
+    for (const [query, error] of cases) {
+      const response = await request(app).get('/api/upload/search').query(query);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(error);
+    }
+  });
+});
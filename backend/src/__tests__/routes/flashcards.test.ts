@@ -0,0 +1,188 @@
+// 🎃 GhostFrame Flashcard Route Tests
+// Deck generation, difficulty validation, persistence and review scheduling
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import flashcardRoutes from '../../routes/flashcards';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+const cardsReply = JSON.stringify([
+  { front: 'Chlorophyll', back: 'The green pigment that absorbs light', topic: 'Pigments', difficulty: 1 },
+  { front: 'Why do plants need light?', back: 'To power photosynthesis', topic: 'Photosynthesis', difficulty: 'hard', hints: ['Energy'] },
+  { front: 'Missing back' },
+]);
+
+describe('flashcard routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/flashcards', flashcardRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    // A fresh gateway per test so cached replies never leak between cases
+    useStubAIRouter(stub);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(buildProcessedContent('content_cards'));
+    stub.requests = [];
+    stub.reply = cardsReply;
+    stub.failWith = null;
+    stub.failWhen = null;
+  });
+
+  describe('POST /api/flashcards/generate', () => {
+    it('should generate, normalize and persist a deck', async () => {
+      const response = await request(app)
+        .post('/api/flashcards/generate')
+        .send({ contentId: 'content_cards', cardCount: 5, difficulty: 'advanced' });
+
+      expect(response.status).toBe(200);
+      const deck = response.body.data;
+
+      expect(deck.deckId).toMatch(/^deck_/);
+      expect(deck.cards).toHaveLength(2);
+      expect(deck.cards[0]).toMatchObject({ front: 'Chlorophyll', difficulty: 1, topic: 'Pigments' });
+      expect(deck.cards[1]).toMatchObject({ difficulty: 5, hints: ['Energy'] });
+      expect(deck.metadata).toMatchObject({
+        contentId: 'content_cards',
+        title: 'Plants',
+        difficulty: 'advanced',
+        totalCards: 2,
+        topics: ['Pigments', 'Photosynthesis'],
+      });
+      expect(stub.requests[0].body.messages[1].content).toContain('Difficulty Level: advanced');
+
+      const stored = await request(app).get(`/api/flashcards/${deck.deckId}`);
+      expect(stored.status).toBe(200);
+      expect(stored.body.data.cards).toEqual(deck.cards);
+
+      const listed = await request(app).get('/api/flashcards');
+      expect(listed.body.data).toEqual([
+        expect.objectContaining({ deckId: deck.deckId, totalCards: 2, difficulty: 'advanced' }),
+      ]);
+    });
+
+    it('should reject unknown difficulty levels', async () => {
+      const response = await request(app)
+        .post('/api/flashcards/generate')
+        .send({ contentId: 'content_cards', difficulty: 'nightmare' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('beginner, intermediate, advanced');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should require a content ID', async () => {
+      const response = await request(app).post('/api/flashcards/generate').send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should fail when the AI returns no usable cards', async () => {
+      stub.reply = '[]';
+
+      const response = await request(app)
+        .post('/api/flashcards/generate')
+        .send({ contentId: 'content_cards' });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toContain('no usable cards');
+    });
+  });
+
+  describe('review scheduling', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    let deckId: string;
+    let cardIds: string[];
+
+    beforeEach(async () => {
+      // Fake only the clock; real timers keep the HTTP and database plumbing working
+      jest.useFakeTimers({
+        now: new Date('2024-03-01T09:00:00Z'),
+        doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout',
+          'setInterval', 'clearInterval', 'queueMicrotask', 'hrtime', 'performance'],
+      });
+
+      const response = await request(app)
+        .post('/api/flashcards/generate')
+        .send({ contentId: 'content_cards' });
+      deckId = response.body.data.deckId;
+      cardIds = response.body.data.cards.map((card: { id: string }) => card.id);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const dueCards = async () => (await request(app).get(`/api/flashcards/${deckId}/due`)).body.data;
+
+    it('should treat every new card as due', async () => {
+      const due = await dueCards();
+
+      expect(due.totalCards).toBe(2);
+      expect(due.dueCount).toBe(2);
+      expect(due.nextDueAt).toBeNull();
+    });
+
+    it('should hide reviewed cards until their interval passes', async () => {
+      const review = await request(app)
+        .post(`/api/flashcards/${deckId}/review`)
+        .send({ cardId: cardIds[0], grade: 4 });
+
+      expect(review.status).toBe(200);
+      expect(review.body.data).toMatchObject({ interval: 1, repetitions: 1, easeFactor: 2.5 });
+      expect(review.body.data.dueAt).toBe('2024-03-02T09:00:00.000Z');
+
+      let due = await dueCards();
+      expect(due.cards.map((entry: any) => entry.card.id)).toEqual([cardIds[1]]);
+
+      await request(app).post(`/api/flashcards/${deckId}/review`).send({ cardId: cardIds[1], grade: 5 });
+      due = await dueCards();
+      expect(due.dueCount).toBe(0);
+      expect(due.nextDueAt).toBe('2024-03-02T09:00:00.000Z');
+
+      jest.setSystemTime(new Date(Date.now() + DAY_MS));
+      due = await dueCards();
+      expect(due.dueCount).toBe(2);
+
+      const second = await request(app)
+        .post(`/api/flashcards/${deckId}/review`)
+        .send({ cardId: cardIds[0], grade: 4 });
+      expect(second.body.data.interval).toBe(6);
+      expect(second.body.data.history).toHaveLength(2);
+    });
+
+    it('should validate grades and card IDs', async () => {
+      const badGrade = await request(app)
+        .post(`/api/flashcards/${deckId}/review`)
+        .send({ cardId: cardIds[0], grade: 7 });
+      expect(badGrade.status).toBe(400);
+
+      const badCard = await request(app)
+        .post(`/api/flashcards/${deckId}/review`)
+        .send({ cardId: 'card_missing', grade: 3 });
+      expect(badCard.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/flashcards/:deckId', () => {
+    it('should return 404 for unknown decks', async () => {
+      const response = await request(app).get('/api/flashcards/deck_missing');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
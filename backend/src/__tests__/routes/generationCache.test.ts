@@ -0,0 +1,140 @@
+// 🎃 GhostFrame Generation Cache Route Tests
+// Repeated quiz and story requests reuse cached generations unless the request asks for a fresh one
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { GenerationCache, setGenerationCache } from '../../services/GenerationCache';
+import aiGenerationRoutes from '../../routes/aiGeneration';
+import quizRoutes from '../../routes/quiz';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const content = buildProcessedContent('content_cached');
+
+const OUTLINE = {
+  chapters: ['Seed', 'Sprout'].map(title => ({ title, synopsis: `The ${title.toLowerCase()} grows.`, keyPoints: [] })),
+};
+
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+
+describe('generation cache routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+  let cache: GenerationCache;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/quiz', quizRoutes);
+    app.use('/api/story', storyRoutes);
+    app.use('/api/ai', aiGenerationRoutes);
+  });
+
+  afterAll(async () => {
+    setGenerationCache(null);
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    cache = new GenerationCache({ steeringVersion: 'test' });
+    setGenerationCache(cache);
+    useStubAIRouter(stub, { cache });
+
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(content);
+
+    stub.requests = [];
+    stub.reply = prompt => {
+      if (prompt.includes('planning')) return JSON.stringify(OUTLINE);
+      if (prompt.includes('Number of Questions')) {
+        return JSON.stringify({
+          questions: [{ type: 'true-false', question: 'Plants make glucose.', correctAnswer: 'True', explanation: 'Photosynthesis.' }],
+        });
+      }
+      if (prompt.startsWith('Based on this')) return 'Growing Up Green';
+      return 'The plant grows.';
+    };
+  });
+
+  const quiz = (extra: object = {}) =>
+    request(app)
+      .post('/api/quiz/generate')
+      .send({ contentId: content.contentId, questionCount: 1, questionTypes: ['true-false'], ...extra });
+
+  const questionRequests = () => stub.requests.filter(entry => promptOf(entry).includes('Number of Questions'));
+
+  it('should answer a repeated quiz request from the cache', async () => {
+    expect((await quiz()).status).toBe(200);
+    expect((await quiz()).status).toBe(200);
+
+    expect(questionRequests()).toHaveLength(1);
+
+    const stats = await request(app).get('/api/ai/cache');
+    expect(stats.body.data).toMatchObject({ backend: 'memory', hits: 2, misses: 2, hitRate: 0.5 });
+  });
+
+  it('should ask the model afresh when a quiz request sets cache: false', async () => {
+    await quiz();
+    const fresh = await quiz({ cache: false });
+
+    expect(fresh.status).toBe(200);
+    expect(questionRequests()).toHaveLength(2);
+    // The questions and the quiz title
+    expect(cache.stats().bypassed).toBe(2);
+  });
+
+  it('should replan a story when the request sets cache: false', async () => {
+    const story = (extra: object = {}) =>
+      request(app).post('/api/story/generate').send({ contentId: content.contentId, length: 'short', ...extra });
+    const outlineRequests = () => stub.requests.filter(entry => promptOf(entry).includes('planning'));
+
+    expect((await story()).status).toBe(200);
+    const written = stub.requests.length;
+
+    expect((await story()).status).toBe(200);
+    expect(stub.requests).toHaveLength(written);
+
+    expect((await story({ cache: false })).status).toBe(200);
+    expect(outlineRequests()).toHaveLength(2);
+  });
+
+  it('should ask afresh for checkpoints, title, summary and moral when a story sets cache: false', async () => {
+    const story = (extra: object = {}) =>
+      request(app)
+        .post('/api/story/generate')
+        .send({ contentId: content.contentId, length: 'short', theme: 'educational', includeCheckpoints: true, ...extra });
+
+    expect((await story()).status).toBe(200);
+    const written = stub.requests.map(promptOf);
+    expect(written.filter(prompt => prompt.includes('Number of Questions'))).toHaveLength(2);
+
+    stub.requests = [];
+    expect((await story({ cache: false })).status).toBe(200);
+    expect(stub.requests.map(promptOf)).toEqual(written);
+  });
+
+  it('should honour cache: false on the streaming routes', async () => {
+    const stream = (path: string, body: object) => request(app).post(path).send({ contentId: content.contentId, ...body });
+    const titleRequests = () => stub.requests.filter(entry => promptOf(entry).startsWith('Based on this content'));
+    const outlineRequests = () => stub.requests.filter(entry => promptOf(entry).includes('planning'));
+
+    const quiz = { questionCount: 1, questionTypes: ['true-false'] };
+    expect((await stream('/api/quiz/generate/stream', quiz)).status).toBe(200);
+    expect((await stream('/api/quiz/generate/stream', quiz)).status).toBe(200);
+    expect(titleRequests()).toHaveLength(1);
+    expect((await stream('/api/quiz/generate/stream', { ...quiz, cache: false })).status).toBe(200);
+    expect(titleRequests()).toHaveLength(2);
+
+    expect((await stream('/api/story/generate/stream', { length: 'short' })).status).toBe(200);
+    expect((await stream('/api/story/generate/stream', { length: 'short' })).status).toBe(200);
+    expect(outlineRequests()).toHaveLength(1);
+    expect((await stream('/api/story/generate/stream', { length: 'short', cache: false })).status).toBe(200);
+    expect(outlineRequests()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,191 @@
+// 🎃 GhostFrame Generation Job Route Tests
+// Generation can run as a background job that clients poll for progress and the result
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { GeneratedQuiz, getGeneratedQuiz } from '../../controllers/quizGenerator';
+import { GeneratedStory, getGeneratedStory } from '../../controllers/storyGenerator';
+import { AIModuleResponse } from '../../services/AIModuleGenerator';
+import { Job, JobQueue, MemoryJobStore, setJobQueue } from '../../services/JobQueue';
+import aiGenerationRoutes from '../../routes/aiGeneration';
+import jobRoutes from '../../routes/jobs';
+import quizRoutes from '../../routes/quiz';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+const content = buildProcessedContent('content_jobs');
+
+const OUTLINE = {
+  chapters: ['Seed', 'Sprout'].map(title => ({ title, synopsis: `The ${title.toLowerCase()} grows.`, keyPoints: [] })),
+};
+
+// Keeps every version of every job, so tests can see the progress a job went through
+class RecordingJobStore extends MemoryJobStore {
+  saved: Job[] = [];
+
+  async save(job: Job): Promise<void> {
+    this.saved.push({ ...job });
+    await super.save(job);
+  }
+}
+
+describe('generation job routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+  let store: RecordingJobStore;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/quiz', quizRoutes);
+    app.use('/api/story', storyRoutes);
+    app.use('/api/ai', aiGenerationRoutes);
+    app.use('/api/jobs', jobRoutes);
+  });
+
+  afterAll(async () => {
+    setJobQueue(null);
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+
+    store = new RecordingJobStore();
+    setJobQueue(new JobQueue(store));
+
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(content);
+
+    stub.requests = [];
+    stub.abandoned = [];
+    stub.replyDelayMs = 0;
+    stub.reply = prompt => {
+      if (prompt.includes('planning')) return JSON.stringify(OUTLINE);
+      if (prompt.includes('Number of Questions')) {
+        return JSON.stringify({
+          questions: [{ type: 'true-false', question: 'Plants make glucose.', correctAnswer: 'True', explanation: 'Photosynthesis.' }],
+        });
+      }
+      if (prompt.startsWith('Based on this')) return 'Growing Up Green';
+      return 'The plant grows.';
+    };
+  });
+
+  const poll = async <T = unknown>(jobId: string): Promise<Job<T>> => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const response = await request(app).get(`/api/jobs/${jobId}`);
+      expect(response.status).toBe(200);
+      if (!['queued', 'running'].includes(response.body.data.status)) return response.body.data;
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    throw new Error(`Job ${jobId} never finished`);
+  };
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  it('should accept a quiz as a job and hand over the saved quiz when it completes', async () => {
+    const response = await request(app)
+      .post('/api/quiz/generate')
+      .send({ contentId: content.contentId, questionCount: 1, questionTypes: ['true-false'], async: true });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toMatchObject({ type: 'quiz', status: 'queued', progress: 0 });
+    expect(response.headers.location).toBe(`/api/jobs/${response.body.data.jobId}`);
+
+    const job = await poll<GeneratedQuiz>(response.body.data.jobId);
+
+    expect(job).toMatchObject({ status: 'completed', progress: 100 });
+    expect(job.result).toMatchObject({ metadata: { contentId: content.contentId }, questions: [{ question: 'Plants make glucose.' }] });
+    expect(await getGeneratedQuiz(job.result!.metadata.quizId)).not.toBeNull();
+  });
+
+  it('should report story progress chapter by chapter', async () => {
+    const response = await request(app)
+      .post('/api/story/generate')
+      .send({ contentId: content.contentId, length: 'short', async: true });
+
+    expect(response.status).toBe(202);
+    const job = await poll<GeneratedStory>(response.body.data.jobId);
+
+    expect(job.status).toBe('completed');
+    expect(await getGeneratedStory(job.result!.metadata.storyId)).not.toBeNull();
+    expect(store.saved.filter(saved => saved.stage).map(({ progress, stage }) => [progress, stage])).toEqual([
+      [5, 'Planning the outline'],
+      [10, 'Writing chapter 1 of 2'],
+      [50, 'Writing chapter 2 of 2'],
+      [90, 'Adding checkpoints and a title'],
+      [95, 'Saving story'],
+    ]);
+  });
+
+  it('should generate modules as jobs', async () => {
+    const response = await request(app)
+      .post('/api/ai/generate-module')
+      .send({ description: 'A pomodoro timer for study sessions', async: true });
+
+    expect(response.status).toBe(202);
+    const job = await poll<AIModuleResponse>(response.body.data.jobId);
+
+    expect(job).toMatchObject({ type: 'module', status: 'completed' });
+    expect(job.result!.files).toBeDefined();
+  });
+
+  it('should fail the job, not the request, when generation fails', async () => {
+    const response = await request(app)
+      .post('/api/quiz/generate')
+      .send({ contentId: 'content_missing', async: true });
+
+    expect(response.status).toBe(202);
+    expect(await poll(response.body.data.jobId)).toMatchObject({ status: 'failed', error: 'Content not found: content_missing' });
+  });
+
+  it('should still validate the request before queueing a job', async () => {
+    const response = await request(app).post('/api/story/generate').send({ async: true });
+
+    expect(response.status).toBe(400);
+    expect(store.saved).toEqual([]);
+  });
+
+  it('should abort the provider request when a running job is cancelled', async () => {
+    stub.replyDelayMs = 30000;
+    const accepted = await request(app)
+      .post('/api/quiz/generate')
+      .send({ contentId: content.contentId, questionCount: 1, async: true });
+    const { jobId } = accepted.body.data;
+
+    await waitFor(() => stub.requests.length > 0);
+    expect((await request(app).post(`/api/jobs/${jobId}/cancel`)).status).toBe(200);
+
+    // The model is still thinking, so only the cancellation can end the request
+    await waitFor(() => stub.abandoned.length > 0);
+    expect(await poll(jobId)).toMatchObject({ status: 'cancelled' });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('should only cancel jobs that are still queued or running', async () => {
+    const accepted = await request(app)
+      .post('/api/quiz/generate')
+      .send({ contentId: content.contentId, questionCount: 1, async: true });
+    await poll(accepted.body.data.jobId);
+
+    const finished = await request(app).post(`/api/jobs/${accepted.body.data.jobId}/cancel`);
+    expect(finished.status).toBe(409);
+    expect(finished.body.error).toBe('Job is already completed');
+
+    const missing = await request(app).post('/api/jobs/job_missing/cancel');
+    expect(missing.status).toBe(404);
+    expect((await request(app).get('/api/jobs/job_missing')).status).toBe(404);
+  });
+});
@@ -0,0 +1,154 @@
+// 🎃 GhostFrame Quiz Attempt Tests
+// Attempts persist per learner and roll up into topic progress
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { GeneratedQuiz, saveGeneratedQuiz } from '../../controllers/quizGenerator';
+import quizRoutes from '../../routes/quiz';
+
+const buildQuiz = (quizId: string, topics: string[]): GeneratedQuiz => ({
+  metadata: {
+    quizId,
+    contentId: `content_${quizId}`,
+    title: `Quiz ${quizId}`,
+    totalQuestions: 2,
+    difficulty: 'easy',
+    topics,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  questions: [
+    {
+      id: 'q1',
+      type: 'true-false',
+      question: 'Plants photosynthesize.',
+      correctAnswer: 'True',
+      explanation: 'They do.',
+      points: 1,
+      difficulty: 'easy',
+    },
+    {
+      id: 'q2',
+      type: 'true-false',
+      question: 'Rocks photosynthesize.',
+      correctAnswer: 'False',
+      explanation: 'They do not.',
+      points: 1,
+      difficulty: 'easy',
+    },
+  ],
+});
+
+describe('Quiz attempts and learner progress', () => {
+  let app: express.Express;
+
+  const submit = (quizId: string, learnerId: string | undefined, answers: string[]) =>
+    request(app)
+      .post(`/api/quiz/${quizId}/submit`)
+      .send({ learnerId, answers: answers.map((answer, index) => ({ questionId: `q${index + 1}`, answer })) });
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/quiz', quizRoutes);
+  });
+
+  beforeEach(async () => {
+    // Fake only the clock so attempts get distinct, ordered timestamps
+    jest.useFakeTimers({
+      now: new Date('2024-03-01T09:00:00Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout',
+        'setInterval', 'clearInterval', 'queueMicrotask', 'hrtime', 'performance'],
+    });
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveGeneratedQuiz(buildQuiz('quiz_plants', ['Photosynthesis', 'Botany']));
+    await saveGeneratedQuiz(buildQuiz('quiz_rocks', ['Geology']));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const nextMinute = () => jest.setSystemTime(new Date(Date.now() + 60_000));
+
+  it('should record each submission as an attempt', async () => {
+    const response = await submit('quiz_plants', 'learner_1', ['True', 'True']);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ learnerId: 'learner_1', score: { percentage: 50 } });
+    expect(response.body.data.attemptId).toMatch(/^attempt_/);
+
+    const attempts = await request(app).get('/api/quiz/quiz_plants/attempts');
+    expect(attempts.body.data).toEqual([
+      expect.objectContaining({
+        attemptId: response.body.data.attemptId,
+        quizTitle: 'Quiz quiz_plants',
+        percentage: 50,
+        completedAt: '2024-03-01T09:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('should list attempts newest first and filter by learner', async () => {
+    await submit('quiz_plants', 'learner_1', ['False', 'True']);
+    nextMinute();
+    await submit('quiz_plants', 'learner_2', ['True', 'True']);
+    nextMinute();
+    await submit('quiz_plants', 'learner_1', ['True', 'False']);
+
+    const all = await request(app).get('/api/quiz/quiz_plants/attempts');
+    expect(all.body.data.map((attempt: any) => attempt.percentage)).toEqual([100, 50, 0]);
+
+    const mine = await request(app).get('/api/quiz/quiz_plants/attempts?learnerId=learner_1');
+    expect(mine.body.data.map((attempt: any) => attempt.percentage)).toEqual([100, 0]);
+  });
+
+  it('should store anonymous submissions without a learner id', async () => {
+    const response = await submit('quiz_plants', undefined, ['True', 'False']);
+
+    expect(response.body.data.learnerId).toBe('anonymous');
+  });
+
+  it('should aggregate progress by topic, weakest first', async () => {
+    await submit('quiz_plants', 'learner_1', ['True', 'False']);
+    nextMinute();
+    await submit('quiz_plants', 'learner_1', ['False', 'False']);
+    nextMinute();
+    await submit('quiz_rocks', 'learner_1', ['False', 'True']);
+    await submit('quiz_rocks', 'learner_2', ['True', 'False']);
+
+    const response = await request(app).get('/api/quiz/progress/learner_1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      learnerId: 'learner_1',
+      totalAttempts: 3,
+      quizzesTaken: 2,
+      averagePercentage: 50,
+      bestPercentage: 100,
+    });
+    expect(response.body.data.topics).toEqual([
+      { topic: 'Geology', attempts: 1, averagePercentage: 0, bestPercentage: 0, lastAttemptAt: '2024-03-01T09:02:00.000Z' },
+      { topic: 'Botany', attempts: 2, averagePercentage: 75, bestPercentage: 100, lastAttemptAt: '2024-03-01T09:01:00.000Z' },
+      { topic: 'Photosynthesis', attempts: 2, averagePercentage: 75, bestPercentage: 100, lastAttemptAt: '2024-03-01T09:01:00.000Z' },
+    ]);
+    expect(response.body.data.recentAttempts[0].quizId).toBe('quiz_rocks');
+  });
+
+  it('should return empty progress for a new learner', async () => {
+    const response = await request(app).get('/api/quiz/progress/learner_new');
+
+    expect(response.body.data).toMatchObject({ totalAttempts: 0, averagePercentage: 0, topics: [] });
+  });
+
+  it('should reject invalid learner ids', async () => {
+    expect((await submit('quiz_plants', 'not a valid id!', ['True'])).status).toBe(400);
+    expect((await request(app).get('/api/quiz/quiz_plants/attempts?learnerId=%20')).status).toBe(400);
+  });
+
+  it('should 404 for attempts on an unknown quiz', async () => {
+    const response = await request(app).get('/api/quiz/quiz_missing/attempts');
+
+    expect(response.status).toBe(404);
+  });
+});
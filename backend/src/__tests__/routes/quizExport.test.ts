@@ -0,0 +1,78 @@
+// 🎃 GhostFrame Quiz Export Route Tests
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { GeneratedQuiz, saveGeneratedQuiz } from '../../controllers/quizGenerator';
+import quizRoutes from '../../routes/quiz';
+
+const quiz: GeneratedQuiz = {
+  metadata: {
+    quizId: 'quiz_export',
+    contentId: 'content_export',
+    title: 'Plant Quiz',
+    totalQuestions: 1,
+    difficulty: 'easy',
+    topics: ['Photosynthesis'],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  questions: [
+    {
+      id: 'q1',
+      type: 'true-false',
+      question: 'Plants photosynthesize.',
+      correctAnswer: 'True',
+      explanation: 'They do.',
+      points: 1,
+      difficulty: 'easy',
+    },
+  ],
+};
+
+describe('GET /api/quiz/:quizId/export', () => {
+  let app: express.Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/quiz', quizRoutes);
+  });
+
+  beforeEach(async () => {
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveGeneratedQuiz(quiz);
+  });
+
+  it.each([
+    ['gift', 'text/plain', 'plant-quiz.gift.txt'],
+    ['csv', 'text/csv', 'plant-quiz.csv'],
+    ['json', 'application/json', 'plant-quiz.json'],
+    ['qti', 'application/zip', 'plant-quiz-qti.zip'],
+  ])('should download %s as an attachment', async (format, contentType, filename) => {
+    const response = await request(app)
+      .get(`/api/quiz/quiz_export/export?format=${format}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(Buffer.from(chunk)));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain(contentType);
+    expect(response.headers['content-disposition']).toBe(`attachment; filename="${filename}"`);
+    expect((response.body as Buffer).length).toBeGreaterThan(0);
+  });
+
+  it('should reject unknown formats', async () => {
+    const response = await request(app).get('/api/quiz/quiz_export/export?format=docx');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should 404 for an unknown quiz', async () => {
+    const response = await request(app).get('/api/quiz/quiz_missing/export?format=gift');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,156 @@
+// 🎃 GhostFrame Quiz Import Route Tests
+// Question banks become stored quizzes that the grading route can score
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { GeneratedQuiz, listGeneratedQuizzes } from '../../controllers/quizGenerator';
+import { toQtiItems } from '../../services/QuizFormats';
+import { createZip } from '../../utils/zip';
+import quizRoutes from '../../routes/quiz';
+
+const GIFT_BANK = [
+  '// points: 3',
+  '::pigment::Which pigment makes leaves green? {~Carotene =Chlorophyll ~Melanin ####It reflects green light.}',
+  '',
+  'Plants release oxygen. {T}',
+  '',
+  'This question has no answers',
+].join('\n');
+
+describe('POST /api/quiz/import', () => {
+  let app: express.Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/quiz', quizRoutes);
+  });
+
+  beforeEach(async () => {
+    await setDatabase(new SQLiteAdapter(':memory:'));
+  });
+
+  it('should import an uploaded GIFT file and report the questions it skipped', async () => {
+    const response = await request(app)
+      .post('/api/quiz/import')
+      .field('topics', 'Botany, Photosynthesis')
+      .attach('file', Buffer.from(GIFT_BANK), 'plant_basics.gift');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.format).toBe('gift');
+    expect(response.body.data.errors).toEqual([{ index: 3, message: 'Missing {answer} block' }]);
+
+    const quiz: GeneratedQuiz = response.body.data.quiz;
+    expect(quiz.metadata).toMatchObject({
+      title: 'plant basics',
+      contentId: '',
+      totalQuestions: 2,
+      topics: ['Botany', 'Photosynthesis'],
+      importedFrom: { format: 'gift', filename: 'plant_basics.gift' },
+    });
+    expect(quiz.questions[0]).toMatchObject({ id: 'pigment', correctAnswer: 'B', points: 3 });
+
+    const stored = await listGeneratedQuizzes();
+    expect(stored.map(entry => entry.metadata.quizId)).toEqual([quiz.metadata.quizId]);
+  });
+
+  it('should grade imported quizzes through the submit route', async () => {
+    const imported = await request(app)
+      .post('/api/quiz/import')
+      .send({ content: GIFT_BANK, title: 'Plants' });
+    const quiz: GeneratedQuiz = imported.body.data.quiz;
+
+    const response = await request(app)
+      .post(`/api/quiz/${quiz.metadata.quizId}/submit`)
+      .send({
+        answers: [
+          { questionId: 'pigment', answer: 'Chlorophyll' },
+          { questionId: quiz.questions[1].id, answer: 'True' },
+        ],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.score).toMatchObject({ correct: 2, total: 2, percentage: 100 });
+  });
+
+  it('should detect CSV and QTI content sent as JSON', async () => {
+    const csv = await request(app)
+      .post('/api/quiz/import')
+      .send({ content: 'question,correct_answer\nWhat do plants make?,Glucose\n' });
+
+    expect(csv.body.data.format).toBe('csv');
+    expect(csv.body.data.quiz.questions[0]).toMatchObject({ type: 'short-answer', correctAnswer: 'Glucose' });
+
+    const items = toQtiItems(csv.body.data.quiz);
+    const qti = await request(app)
+      .post('/api/quiz/import')
+      .send({ content: items[0].xml, difficulty: 'hard' });
+
+    expect(qti.body.data.format).toBe('qti');
+    expect(qti.body.data.quiz.questions[0]).toMatchObject({ question: 'What do plants make?', correctAnswer: 'Glucose' });
+  });
+
+  it('should import a quiz exported as a zipped QTI package', async () => {
+    const original: GeneratedQuiz = (await request(app).post('/api/quiz/import').send({ content: GIFT_BANK, title: 'Plants' }))
+      .body.data.quiz;
+
+    const exported = await request(app)
+      .get(`/api/quiz/${original.metadata.quizId}/export?format=qti`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(Buffer.from(chunk)));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    const response = await request(app)
+      .post('/api/quiz/import')
+      .attach('file', exported.body, 'plants-qti.zip');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ format: 'qti', errors: [] });
+
+    const quiz: GeneratedQuiz = response.body.data.quiz;
+    expect(quiz.metadata.title).toBe('plants');
+    expect(quiz.questions.map(({ type, question, options, correctAnswer, explanation, points }) =>
+      ({ type, question, options, correctAnswer, explanation, points })
+    )).toEqual(original.questions.map(({ type, question, options, correctAnswer, explanation, points }) =>
+      ({ type, question, options, correctAnswer, explanation, points })
+    ));
+  });
+
+  it('should reject zipped uploads that are not QTI packages', async () => {
+    const archive = await createZip([{ name: 'items/q1.xml', content: '<assessmentItem/>' }]);
+
+    const missingManifest = await request(app).post('/api/quiz/import').attach('file', archive, 'bank.zip');
+    expect(missingManifest.status).toBe(400);
+    expect(missingManifest.body.error).toBe('Could not read the QTI package: The package has no imsmanifest.xml');
+
+    const asGift = await request(app).post('/api/quiz/import').field('format', 'gift').attach('file', archive, 'bank.zip');
+    expect(asGift.status).toBe(400);
+    expect(asGift.body.error).toBe('Zipped question banks must be QTI packages');
+    expect(await listGeneratedQuizzes()).toHaveLength(0);
+  });
+
+  it('should reject banks where nothing parses, with the per-question errors', async () => {
+    const response = await request(app)
+      .post('/api/quiz/import')
+      .send({ content: 'Nothing to see here', format: 'gift' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.data.errors).toEqual([{ index: 1, message: 'Missing {answer} block' }]);
+    expect(await listGeneratedQuizzes()).toHaveLength(0);
+  });
+
+  it.each([
+    [{}, 'Upload a file or send the question bank as content'],
+    [{ content: 'Q? {T}', format: 'docx' }, 'format must be one of: qti, gift, csv'],
+    [{ content: 'Q? {T}', difficulty: 'spooky' }, 'difficulty must be easy, medium or hard'],
+  ])('should validate the request %#', async (body, error) => {
+    const response = await request(app).post('/api/quiz/import').send(body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(error);
+  });
+});
@@ -0,0 +1,131 @@
+// 🎃 GhostFrame Section Targeting Route Tests
+// Quizzes, decks and stories can be drawn from chosen sections of an upload instead of all of it
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { ContentProcessor, ProcessedContent, saveProcessedContent } from '../../controllers/contentProcessor';
+import flashcardRoutes from '../../routes/flashcards';
+import quizRoutes from '../../routes/quiz';
+import storyRoutes from '../../routes/story';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const HANDBOOK = [
+  '# Photosynthesis',
+  'Chlorophyll pigments capture sunlight inside the chloroplast membranes.',
+  '',
+  '# Respiration',
+  'Mitochondria break glucose down to release stored energy as ATP.',
+  '',
+  '| Stage | Product |',
+  '| --- | --- |',
+  '| Glycolysis | Pyruvate |',
+  '',
+  '# Transpiration',
+  'Stomata release water vapour from leaves into the atmosphere.',
+].join('\n');
+
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+
+describe('section targeting routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+  let handbook: ProcessedContent;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/quiz', quizRoutes);
+    app.use('/api/flashcards', flashcardRoutes);
+    app.use('/api/story', storyRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    handbook = await ContentProcessor.processContent({
+      originalname: 'handbook.md',
+      mimetype: 'text/markdown',
+      buffer: Buffer.from(HANDBOOK),
+    });
+    await saveProcessedContent(handbook);
+
+    stub.requests = [];
+    stub.reply = prompt => {
+      if (prompt.startsWith('Based on this')) return 'Energy Review';
+      if (prompt.includes('Number of Cards')) {
+        return JSON.stringify([{ front: 'ATP', back: 'Energy currency', topic: 'Respiration' }]);
+      }
+      if (prompt.includes('Number of Questions')) {
+        return JSON.stringify({
+          questions: [{ type: 'true-false', question: 'Mitochondria make ATP.', correctAnswer: 'True', explanation: 'Respiration.' }],
+        });
+      }
+      return 'A short tale.';
+    };
+  });
+
+  const sourcePrompts = () => stub.requests.map(promptOf).filter(prompt => prompt.includes('Mitochondria'));
+
+  it('should list the sections of a processed upload', () => {
+    expect(handbook.document!.sections.map(section => section.id)).toEqual(['photosynthesis', 'respiration', 'transpiration']);
+  });
+
+  it('should build quizzes from the chosen sections only', async () => {
+    const response = await request(app)
+      .post('/api/quiz/generate')
+      .send({ contentId: handbook.contentId, sectionIds: ['respiration'], questionCount: 1, questionTypes: ['true-false'] });
+
+    expect(response.status).toBe(200);
+    const [prompt] = sourcePrompts();
+    expect(prompt).toContain('| Glycolysis | Pyruvate |');
+    expect(prompt).not.toContain('Chlorophyll');
+    expect(prompt).not.toContain('Stomata');
+  });
+
+  it('should build decks from the chosen sections only', async () => {
+    const response = await request(app)
+      .post('/api/flashcards/generate')
+      .send({ contentId: handbook.contentId, sectionIds: ['respiration'], cardCount: 1 });
+
+    expect(response.status).toBe(200);
+    expect(sourcePrompts()).toHaveLength(1);
+    expect(sourcePrompts()[0]).not.toContain('Stomata');
+  });
+
+  it('should remember the sections a story was drawn from', async () => {
+    const response = await request(app)
+      .post('/api/story/generate')
+      .send({ contentId: handbook.contentId, sectionIds: ['respiration', 'transpiration'], length: 'short' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.metadata).toMatchObject({
+      contentId: handbook.contentId,
+      sectionIds: ['respiration', 'transpiration'],
+    });
+    expect(stub.requests.map(promptOf).some(prompt => prompt.includes('Chlorophyll'))).toBe(false);
+  });
+
+  it('should reject malformed or unknown section ids', async () => {
+    const cases: [object, number, string][] = [
+      [{ contentId: handbook.contentId, sectionIds: [] }, 400, 'sectionIds must be a non-empty array of section ids'],
+      [{ contentId: handbook.contentId, sectionIds: 'respiration' }, 400, 'sectionIds must be a non-empty array of section ids'],
+      [{ collectionId: 'collection_1', sectionIds: ['respiration'] }, 400, 'sectionIds can only narrow a single contentId'],
+      [{ contentId: handbook.contentId, sectionIds: ['stems'] }, 500, 'Section not found: stems'],
+    ];
+
+    for (const [body, status, error] of cases) {
+      const response = await request(app).post('/api/quiz/generate').send(body);
+      expect(response.status).toBe(status);
+      expect(response.body.error).toBe(error);
+    }
+  });
+});
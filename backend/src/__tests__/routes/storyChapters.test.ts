@@ -0,0 +1,164 @@
+// 🎃 GhostFrame Chaptered Story Route Tests
+// Stories are planned as an outline, written chapter by chapter, and rewritten one chapter at a time
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { GeneratedStory, getGeneratedStory, saveGeneratedStory } from '../../controllers/storyGenerator';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const content = buildProcessedContent('content_chapters');
+
+const OUTLINE = {
+  chapters: ['Seed', 'Sprout', 'Leaf', 'Flower', 'Fruit'].map(title => ({
+    title,
+    synopsis: `The plant becomes a ${title.toLowerCase()}.`,
+    keyPoints: [`${title} biology`],
+  })),
+};
+
+const chapterTitle = (prompt: string) => prompt.match(/\*\*This Chapter:\*\* (.*)/)?.[1];
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+
+describe('chaptered story routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/story', storyRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(content);
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+    stub.reply = prompt => {
+      if (prompt.includes('planning')) return JSON.stringify(OUTLINE);
+      if (prompt.startsWith('Based on this')) return 'From Seed to Fruit';
+      if (prompt.startsWith('Summarize')) return 'A plant grows up.';
+      if (prompt.startsWith('What is the main lesson')) return 'Growth takes time.';
+      return `## ${chapterTitle(prompt)}\n\nThe ${chapterTitle(prompt)} chapter happens here.`;
+    };
+  });
+
+  const generate = async (length = 'long'): Promise<GeneratedStory> => {
+    const response = await request(app)
+      .post('/api/story/generate')
+      .send({ contentId: content.contentId, theme: 'adventure', length, targetAudience: 'children' });
+
+    expect(response.status).toBe(200);
+    return response.body.data;
+  };
+
+  describe('POST /api/story/generate', () => {
+    it('should write each outlined chapter in its own request', async () => {
+      const story = await generate();
+
+      expect(story.chapters!.map(chapter => chapter.title)).toEqual(['Seed', 'Sprout', 'Leaf', 'Flower', 'Fruit']);
+      expect(story.chapters![1]).toMatchObject({
+        synopsis: 'The plant becomes a sprout.',
+        keyPoints: ['Sprout biology'],
+        content: 'The Sprout chapter happens here.',
+        wordCount: 5,
+      });
+      expect(story.content).toMatch(/^## Seed\n\nThe Seed chapter happens here\.\n\n## Sprout\n\n/);
+      expect(story.metadata).toMatchObject({ title: 'From Seed to Fruit', wordCount: 25 });
+
+      const chapterRequests = stub.requests.filter(entry => chapterTitle(promptOf(entry)));
+      expect(chapterRequests).toHaveLength(5);
+      chapterRequests.forEach(entry => expect(entry.body.max_tokens).toBeLessThanOrEqual(1000));
+
+      // Later chapters continue from where the previous one ended
+      expect(promptOf(chapterRequests[2])).toContain('The previous chapter ended:**\n...The Sprout chapter happens here.');
+    });
+
+    it('should fall back to a generic arc when the outline is not valid JSON', async () => {
+      const reply = stub.reply as (prompt: string, body: any) => string;
+      stub.reply = (prompt, body) => (prompt.includes('planning') || prompt.includes('schema') ? 'no outline today' : reply(prompt, body));
+
+      const story = await generate('short');
+
+      expect(story.chapters!.map(chapter => chapter.title)).toEqual(['Chapter 1', 'Chapter 2']);
+      expect(story.chapters![0].content).toBe('The Chapter 1 chapter happens here.');
+    });
+  });
+
+  describe('POST /api/story/:storyId/chapters/:index/regenerate', () => {
+    it('should rewrite one chapter with its neighbours in view and save the story', async () => {
+      const story = await generate();
+      stub.requests = [];
+      stub.reply = 'A brand new sprouting scene.';
+
+      const response = await request(app)
+        .post(`/api/story/${story.metadata.storyId}/chapters/1/regenerate`)
+        .send({ instructions: 'Add a talking worm' });
+
+      expect(response.status).toBe(200);
+      const updated: GeneratedStory = response.body.data;
+      expect(updated.chapters!.map(chapter => chapter.content)).toEqual([
+        'The Seed chapter happens here.',
+        'A brand new sprouting scene.',
+        'The Leaf chapter happens here.',
+        'The Flower chapter happens here.',
+        'The Fruit chapter happens here.',
+      ]);
+      expect(updated.content).toContain('## Sprout\n\nA brand new sprouting scene.\n\n## Leaf');
+      expect(updated.metadata).toMatchObject({ storyId: story.metadata.storyId, wordCount: 25 });
+
+      expect(stub.requests).toHaveLength(1);
+      const prompt = promptOf(stub.requests[0]);
+      expect(prompt).toContain('**This Chapter:** Sprout');
+      expect(prompt).toContain('The previous chapter ended:**\n...The Seed chapter happens here.');
+      expect(prompt).toContain('The next chapter begins:**\nThe Leaf chapter happens here....');
+      expect(prompt).toContain('Add a talking worm');
+
+      const saved = await getGeneratedStory(story.metadata.storyId);
+      expect(saved?.chapters![1].content).toBe('A brand new sprouting scene.');
+    });
+
+    it('should not serve a rewrite from the cache', async () => {
+      const story = await generate('short');
+      stub.reply = 'First rewrite.';
+      await request(app).post(`/api/story/${story.metadata.storyId}/chapters/0/regenerate`).send({});
+      stub.reply = 'Second rewrite.';
+
+      const response = await request(app).post(`/api/story/${story.metadata.storyId}/chapters/0/regenerate`).send({});
+
+      expect(response.body.data.chapters[0].content).toBe('Second rewrite.');
+    });
+
+    it('should validate the story and chapter index', async () => {
+      const story = await generate('short');
+      const legacy: GeneratedStory = { ...story, metadata: { ...story.metadata, storyId: 'story_legacy' }, chapters: undefined };
+      await saveGeneratedStory(legacy);
+
+      const cases: [string, number, string][] = [
+        [`/api/story/${story.metadata.storyId}/chapters/first/regenerate`, 400, 'Chapter index must be a non-negative integer'],
+        [`/api/story/${story.metadata.storyId}/chapters/2/regenerate`, 404, 'Chapter not found'],
+        ['/api/story/story_missing/chapters/0/regenerate', 404, 'Story not found'],
+        ['/api/story/story_legacy/chapters/0/regenerate', 400, 'Story was not generated with chapters'],
+      ];
+
+      for (const [url, status, error] of cases) {
+        const response = await request(app).post(url).send({});
+        expect(response.status).toBe(status);
+        expect(response.body.error).toBe(error);
+      }
+    });
+  });
+});
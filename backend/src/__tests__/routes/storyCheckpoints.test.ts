@@ -0,0 +1,193 @@
+// 🎃 GhostFrame Story Checkpoint Route Tests
+// Educational stories carry per-chapter questions that grade and track like quizzes
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { QuizAttemptTracker } from '../../controllers/quizAttempts';
+import { GeneratedStory, getGeneratedStory } from '../../controllers/storyGenerator';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer, StubRequest } from '../helpers/stubProviderServer';
+
+const content = buildProcessedContent('content_checkpoints', { keyTopics: ['Photosynthesis', 'Chlorophyll'] });
+
+const OUTLINE = {
+  chapters: [
+    { title: 'Dawn', synopsis: 'A leaf wakes up hungry.', keyPoints: ['Light'] },
+    { title: 'Noon', synopsis: 'The leaf makes sugar.', keyPoints: ['Glucose'] },
+  ],
+};
+
+const CHECKPOINT_QUESTIONS = {
+  questions: [
+    {
+      type: 'multiple-choice',
+      question: 'What does the leaf drink?',
+      options: ['Water only', 'Sunlight', 'Soil'],
+      correctAnswer: 'B',
+      explanation: 'Leaves capture light energy.',
+    },
+    {
+      type: 'true-false',
+      question: 'The leaf makes sugar.',
+      correctAnswer: 'True',
+      explanation: 'Photosynthesis produces glucose.',
+    },
+  ],
+};
+
+const promptOf = (entry: StubRequest): string => entry.body.messages[entry.body.messages.length - 1].content;
+const isQuizPrompt = (prompt: string) => prompt.startsWith('You are an expert quiz creator');
+
+describe('story checkpoint routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/story', storyRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    useStubAIRouter(stub);
+
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(content);
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+    stub.reply = prompt => {
+      if (prompt.includes('planning')) return JSON.stringify(OUTLINE);
+      if (isQuizPrompt(prompt)) return JSON.stringify(CHECKPOINT_QUESTIONS);
+      if (prompt.startsWith('Based on this')) return 'The Light Eaters';
+      if (prompt.startsWith('Summarize')) return 'A leaf learns to eat sunlight.';
+      if (prompt.startsWith('What is the main lesson')) return 'Energy changes form.';
+      return 'Lily the leaf drank the sun and made sugar.';
+    };
+  });
+
+  const generate = async (body: object): Promise<GeneratedStory> => {
+    const response = await request(app)
+      .post('/api/story/generate')
+      .send({ contentId: content.contentId, length: 'short', targetAudience: 'children', ...body });
+
+    expect(response.status).toBe(200);
+    return response.body.data;
+  };
+
+  it('should add checkpoint questions tied to the key topics after every chapter', async () => {
+    const story = await generate({ theme: 'educational', includeCheckpoints: true });
+
+    expect(story.metadata.keyTopics).toEqual(['Photosynthesis', 'Chlorophyll']);
+    expect(story.chapters!.map(chapter => chapter.checkpoints!.map(question => question.id))).toEqual([
+      ['chapter1_q1', 'chapter1_q2'],
+      ['chapter2_q1', 'chapter2_q2'],
+    ]);
+    expect(story.chapters![0].checkpoints![0]).toMatchObject({
+      type: 'multiple-choice',
+      options: ['A) Water only', 'B) Sunlight', 'C) Soil'],
+      correctAnswer: 'B',
+      difficulty: 'easy',
+    });
+
+    const quizPrompts = stub.requests.map(promptOf).filter(isQuizPrompt);
+    expect(quizPrompts).toHaveLength(2);
+    expect(quizPrompts[1]).toContain('Story chapter "Noon":\nLily the leaf drank the sun and made sugar.');
+    expect(quizPrompts[1]).toContain('Focus on these topics: Photosynthesis, Chlorophyll');
+    expect(quizPrompts[1]).toContain('Question Types: multiple-choice, true-false');
+  });
+
+  it('should only add checkpoints to educational stories that ask for them', async () => {
+    const adventure = await generate({ theme: 'adventure', includeCheckpoints: true });
+    const educational = await generate({ theme: 'educational' });
+
+    for (const story of [adventure, educational]) {
+      expect(story.metadata.keyTopics).toBeUndefined();
+      story.chapters!.forEach(chapter => expect(chapter.checkpoints).toBeUndefined());
+    }
+    expect(stub.requests.map(promptOf).filter(isQuizPrompt)).toHaveLength(0);
+  });
+
+  it('should keep the story when a checkpoint cannot be generated', async () => {
+    const reply = stub.reply as (prompt: string, body: any) => string;
+    stub.reply = (prompt, body) => (prompt.includes('expert quiz creator') ? 'no questions today' : reply(prompt, body));
+
+    const story = await generate({ theme: 'educational', includeCheckpoints: true });
+
+    expect(story.chapters).toHaveLength(2);
+    story.chapters!.forEach(chapter => expect(chapter.checkpoints).toBeUndefined());
+  });
+
+  it('should grade checkpoint answers and count them towards learner progress', async () => {
+    const story = await generate({ theme: 'educational', includeCheckpoints: true });
+
+    const response = await request(app)
+      .post(`/api/story/${story.metadata.storyId}/chapters/1/checkpoint/submit`)
+      .send({
+        learnerId: 'learner_7',
+        answers: [
+          { questionId: 'chapter2_q1', answer: 'Sunlight' },
+          { questionId: 'chapter2_q2', answer: 'false' },
+        ],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      storyId: story.metadata.storyId,
+      chapterIndex: 1,
+      quizId: `${story.metadata.storyId}_chapter_2`,
+      learnerId: 'learner_7',
+      score: { correct: 1, total: 2, percentage: 50 },
+    });
+    expect(response.body.data.results.map((result: any) => result.isCorrect)).toEqual([true, false]);
+
+    const progress = await QuizAttemptTracker.getProgress('learner_7');
+    expect(progress.recentAttempts[0]).toMatchObject({ quizTitle: 'The Light Eaters: Noon', percentage: 50 });
+    expect(progress.topics.map(topic => topic.topic).sort()).toEqual(['Chlorophyll', 'Photosynthesis']);
+  });
+
+  it('should refresh the checkpoint when its chapter is rewritten', async () => {
+    const story = await generate({ theme: 'educational', includeCheckpoints: true });
+    stub.requests = [];
+    const reply = stub.reply as (prompt: string, body: any) => string;
+    stub.reply = (prompt, body) => (prompt.includes('This Chapter:') ? 'Lily rested in the shade.' : reply(prompt, body));
+
+    await request(app).post(`/api/story/${story.metadata.storyId}/chapters/0/regenerate`).send({});
+
+    const quizPrompts = stub.requests.map(promptOf).filter(isQuizPrompt);
+    expect(quizPrompts).toHaveLength(1);
+    expect(quizPrompts[0]).toContain('Story chapter "Dawn":\nLily rested in the shade.');
+
+    const saved = await getGeneratedStory(story.metadata.storyId);
+    expect(saved?.chapters![0].checkpoints!.map(question => question.id)).toEqual(['chapter1_q1', 'chapter1_q2']);
+  });
+
+  it('should validate checkpoint submissions', async () => {
+    const plain = await generate({ theme: 'adventure' });
+    const withCheckpoints = await generate({ theme: 'educational', includeCheckpoints: true });
+
+    const cases: [string, object, number, string][] = [
+      [`/api/story/${plain.metadata.storyId}/chapters/0/checkpoint/submit`, { answers: [] }, 404, 'Checkpoint not found'],
+      [`/api/story/${withCheckpoints.metadata.storyId}/chapters/5/checkpoint/submit`, { answers: [] }, 404, 'Checkpoint not found'],
+      [`/api/story/${withCheckpoints.metadata.storyId}/chapters/0/checkpoint/submit`, {}, 400, 'answers must be an array of { questionId, answer }'],
+      [`/api/story/${withCheckpoints.metadata.storyId}/chapters/0/checkpoint/submit`, { answers: [], learnerId: 'no spaces' }, 400, 'learnerId must be 1-64 letters, digits, dashes or underscores'],
+      ['/api/story/story_missing/chapters/0/checkpoint/submit', { answers: [] }, 404, 'Story not found'],
+    ];
+
+    for (const [url, body, status, error] of cases) {
+      const response = await request(app).post(url).send(body);
+      expect(response.status).toBe(status);
+      expect(response.body.error).toBe(error);
+    }
+  });
+});
@@ -0,0 +1,90 @@
+// 🎃 GhostFrame Story Export Route Tests
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { GeneratedStory, saveGeneratedStory } from '../../controllers/storyGenerator';
+import storyRoutes from '../../routes/story';
+import { unzip } from '../helpers/unzip';
+
+const story: GeneratedStory = {
+  metadata: {
+    storyId: 'story_route',
+    contentId: 'content_route',
+    title: 'Lily the Leaf',
+    theme: 'fantasy',
+    targetAudience: 'children',
+    length: 'short',
+    wordCount: 6,
+    estimatedReadingTime: 1,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  content: 'Lily drank the light and grew.',
+  summary: 'A leaf grows.',
+};
+
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('GET /api/story/:storyId/export', () => {
+  let app: express.Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/story', storyRoutes);
+  });
+
+  beforeEach(async () => {
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveGeneratedStory(story);
+  });
+
+  it('should download a readable EPUB', async () => {
+    const response = await request(app)
+      .get('/api/story/story_route/export?format=epub')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/epub+zip');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="lily-the-leaf.epub"');
+    expect(unzip(response.body).map(entry => entry.name)).toContain('OEBPS/chapter-1.xhtml');
+  });
+
+  it.each([
+    ['html', 'text/html', 'lily-the-leaf.html'],
+    ['md', 'text/markdown', 'lily-the-leaf.md'],
+  ])('should download %s', async (format, contentType, filename) => {
+    const response = await request(app).get(`/api/story/story_route/export?format=${format}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain(contentType);
+    expect(response.headers['content-disposition']).toBe(`attachment; filename="${filename}"`);
+    expect(response.text).toContain('Lily drank the light and grew.');
+  });
+
+  it('should reject unknown formats', async () => {
+    expect((await request(app).get('/api/story/story_route/export?format=pdf')).status).toBe(400);
+  });
+
+  it('should refuse branching stories, whose scenes are not in the story text', async () => {
+    await saveGeneratedStory({
+      ...story,
+      metadata: { ...story.metadata, storyId: 'story_branching' },
+      branching: { startSceneId: 'scene_1', maxDepth: 3, scenes: [], choices: [] },
+    });
+
+    const response = await request(app).get('/api/story/story_branching/export?format=md');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Branching stories cannot be exported');
+  });
+
+  it('should 404 for an unknown story', async () => {
+    expect((await request(app).get('/api/story/story_missing/export?format=md')).status).toBe(404);
+  });
+});
@@ -0,0 +1,157 @@
+// 🎃 GhostFrame Streaming Route Tests
+// Story and quiz generation streamed as Server-Sent Events
+
+import express from 'express';
+import request from 'supertest';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { saveProcessedContent } from '../../controllers/contentProcessor';
+import { getGeneratedQuiz } from '../../controllers/quizGenerator';
+import { getGeneratedStory } from '../../controllers/storyGenerator';
+import quizRoutes from '../../routes/quiz';
+import storyRoutes from '../../routes/story';
+import { buildProcessedContent } from '../helpers/fixtures';
+import { useStubAIRouter } from '../helpers/aiRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+const parseEvents = (body: string): ServerSentEvent[] =>
+  body
+    .split('\n\n')
+    .filter(block => block.trim())
+    .map(block => {
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      return { event, data: data ? JSON.parse(data) : null };
+    });
+
+const content = buildProcessedContent('content_stream');
+
+describe('generation streaming routes', () => {
+  let stub: StubProviderServer;
+  let app: express.Express;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+
+    useStubAIRouter(stub);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/story', storyRoutes);
+    app.use('/api/quiz', quizRoutes);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    await saveProcessedContent(content);
+    stub.requests = [];
+    stub.failWith = null;
+    stub.failWhen = null;
+  });
+
+  describe('POST /api/story/generate/stream', () => {
+    beforeEach(() => {
+      stub.reply = prompt => {
+        if (prompt.includes('planning')) {
+          return JSON.stringify({
+            chapters: [
+              { title: 'Dawn', synopsis: 'A leaf wakes up hungry.', keyPoints: ['Light'] },
+              { title: 'Noon', synopsis: 'The leaf feasts on sunlight.', keyPoints: ['Glucose'] },
+            ],
+          });
+        }
+        if (prompt.startsWith('Based on this')) return 'The Light Eaters';
+        if (prompt.startsWith('Summarize')) return 'A leaf learns to eat sunlight.';
+        if (prompt.startsWith('What is the main lesson')) return 'Energy changes form.';
+        return 'Once upon a time a leaf drank the sun.';
+      };
+    });
+
+    it('should stream each chapter and finish with the saved story', async () => {
+      const response = await request(app)
+        .post('/api/story/generate/stream')
+        .send({ contentId: content.contentId, theme: 'fantasy', length: 'short' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = parseEvents(response.text);
+      const deltas = events.filter(event => event.event === 'delta');
+      const complete = events[events.length - 1];
+
+      const storyText = '## Dawn\n\nOnce upon a time a leaf drank the sun.\n\n## Noon\n\nOnce upon a time a leaf drank the sun.';
+
+      expect(deltas.length).toBeGreaterThan(2);
+      expect(deltas.map(event => event.data.delta).join('')).toBe(storyText);
+      expect(complete.event).toBe('complete');
+      expect(complete.data.data.content).toBe(storyText);
+      expect(complete.data.data.chapters.map((chapter: any) => chapter.title)).toEqual(['Dawn', 'Noon']);
+      expect(complete.data.data.metadata.title).toBe('The Light Eaters');
+      expect(complete.data.data.summary).toBe('A leaf learns to eat sunlight.');
+
+      const saved = await getGeneratedStory(complete.data.data.metadata.storyId);
+      expect(saved?.content).toBe(storyText);
+      expect(stub.requests[0].body.stream).toBe(false);
+      expect(stub.requests[1].body.stream).toBe(true);
+    });
+
+    it('should reject requests without a content ID before streaming', async () => {
+      const response = await request(app).post('/api/story/generate/stream').send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('contentId or collectionId is required');
+    });
+
+    it('should emit an error event for unknown content', async () => {
+      const response = await request(app)
+        .post('/api/story/generate/stream')
+        .send({ contentId: 'content_missing' });
+
+      const events = parseEvents(response.text);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].event).toBe('error');
+      expect(events[0].data.error).toBe('Content not found: content_missing');
+    });
+  });
+
+  describe('POST /api/quiz/generate/stream', () => {
+    it('should stream the raw questions and finish with the parsed quiz', async () => {
+      const quizText = JSON.stringify({
+        questions: [
+          {
+            type: 'true-false',
+            question: 'Plants make sugar from light.',
+            correctAnswer: 'True',
+            explanation: 'That is photosynthesis.',
+          },
+        ],
+      });
+      stub.reply = prompt => (prompt.startsWith('Based on this') ? 'Plant Power Quiz' : quizText);
+
+      const response = await request(app)
+        .post('/api/quiz/generate/stream')
+        .send({ contentId: content.contentId, questionCount: 1, difficulty: 'easy' });
+
+      const events = parseEvents(response.text);
+      const complete = events[events.length - 1];
+
+      expect(events.filter(event => event.event === 'delta').map(event => event.data.delta).join('')).toBe(quizText);
+      expect(complete.event).toBe('complete');
+      expect(complete.data.data.metadata.title).toBe('Plant Power Quiz');
+      expect(complete.data.data.questions).toHaveLength(1);
+      expect(complete.data.data.questions[0]).toMatchObject({ type: 'true-false', correctAnswer: 'True' });
+
+      const saved = await getGeneratedQuiz(complete.data.data.metadata.quizId);
+      expect(saved?.questions).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// 🎃 GhostFrame Upload Format Route Tests
+// Every registered format uploads end to end; anything else is turned away before processing
+
+import express from 'express';
+import request from 'supertest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { listProcessedContent } from '../../controllers/contentProcessor';
+import { errorHandler } from '../../middleware/errorHandler';
+import { setEmbedder } from '../../services/Embeddings';
+import { OCR_MAX_PAGES, setOcrEngine } from '../../services/Ocr';
+import uploadRoutes from '../../routes/upload';
+import { createZip, MAX_ZIP_ENTRIES } from '../../utils/zip';
+import { buildScannedPdf } from '../helpers/fixtures';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/uploads', name));
+
+describe('upload formats', () => {
+  let app: express.Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/upload', uploadRoutes);
+    app.use(errorHandler);
+  });
+
+  afterAll(() => {
+    setOcrEngine(null);
+  });
+
+  beforeEach(async () => {
+    setEmbedder(null);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+  });
+
+  it('should list the registered formats for file pickers', async () => {
+    const response = await request(app).get('/api/upload/formats');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((format: any) => format.id)).toEqual(['pdf', 'text', 'docx', 'html', 'json', 'epub', 'pptx']);
+    expect(response.body.data.find((format: any) => format.id === 'epub')).toEqual({
+      id: 'epub',
+      label: 'EPUB',
+      mimeTypes: ['application/epub+zip'],
+      extensions: ['.epub'],
+    });
+  });
+
+  it.each([
+    ['photosynthesis.pdf', 'application/pdf'],
+    ['photosynthesis.md', 'text/markdown'],
+    ['photosynthesis.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    ['photosynthesis.html', 'text/html'],
+    ['photosynthesis.json', 'application/json'],
+    // Browsers often send archives they do not recognise as generic binary
+    ['photosynthesis.epub', 'application/octet-stream'],
+    ['photosynthesis.pptx', 'application/octet-stream'],
+  ])('should process %s', async (filename, contentType) => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', fixture(filename), { filename, contentType });
+
+    expect(response.status).toBe(200);
+    const content = response.body.data;
+    expect(content.originalFilename).toBe(filename);
+    expect(content.metadata.title).toBe('photosynthesis');
+    expect(content.processedText).toMatch(/thylakoid membranes absorbs sunlight/);
+    expect(content.processedText).toMatch(/fix carbon dioxide into glucose/);
+    expect(content.chunks.length).toBeGreaterThan(0);
+  });
+
+  it.each([
+    [91, undefined],
+    [37, ['Scanned page 2 (37%) could not be read clearly; the extracted text may contain OCR errors']],
+  ])('should record OCR confidence %d for scanned pages and warn when it is low', async (confidence, warnings) => {
+    setOcrEngine({
+      name: 'fixture-ocr',
+      open: async () => ({
+        recognize: async () => ({ text: 'The Calvin cycle fixes carbon dioxide into glucose.', confidence }),
+        close: async () => undefined,
+      }),
+    });
+
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', fixture('scanned.pdf'), { filename: 'scanned.pdf', contentType: 'application/pdf' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.warnings).toEqual(warnings);
+    expect(response.body.data.metadata.ocr).toEqual({ engine: 'fixture-ocr', pages: [{ page: 2, confidence }] });
+    expect(response.body.data.processedText).toContain('The Calvin cycle fixes carbon dioxide into glucose.');
+  });
+
+  it('should warn when a long scan is only read in part', async () => {
+    setOcrEngine({
+      name: 'fixture-ocr',
+      open: async () => ({
+        recognize: async () => ({ text: 'The Calvin cycle fixes carbon dioxide into glucose.', confidence: 91 }),
+        close: async () => undefined,
+      }),
+    });
+
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', buildScannedPdf(OCR_MAX_PAGES + 1), { filename: 'scan.pdf', contentType: 'application/pdf' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.metadata.ocr.unreadPages).toBe(1);
+    expect(response.body.warnings).toEqual([
+      `Only the first ${OCR_MAX_PAGES} scanned pages were read; 1 more scanned page was left out`,
+    ]);
+  });
+
+  it('should refuse an archive that inflates past the size limit', async () => {
+    // Three chapters of zeros, each under the per-entry ceiling, compress to a few hundred kilobytes
+    const chapter = Buffer.alloc(40 * 1024 * 1024);
+    const epub = await createZip([1, 2, 3].map(n => ({ name: `OEBPS/chapter${n}.xhtml`, content: chapter })));
+
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', epub, { filename: 'bomb.epub', contentType: 'application/epub+zip' });
+
+    expect(response.status).toBe(413);
+    expect(response.body.details).toBe('OEBPS/chapter3.xhtml inflates past the archive size limit');
+    expect(await listProcessedContent()).toEqual([]);
+  });
+
+  it('should refuse an archive that lists too many entries', async () => {
+    // Just an end of central directory record claiming an entry over the limit
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(MAX_ZIP_ENTRIES + 1, 10);
+
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', eocd, { filename: 'slides.pptx', contentType: 'application/octet-stream' });
+
+    expect(response.status).toBe(413);
+    expect(response.body.details).toBe(`Archive lists ${MAX_ZIP_ENTRIES + 1} entries; the limit is ${MAX_ZIP_ENTRIES}`);
+  });
+
+  it('should refuse formats without an extractor before processing them', async () => {
+    const response = await request(app)
+      .post('/api/upload')
+      .attach('file', Buffer.from('\x89PNG'), { filename: 'diagram.png', contentType: 'image/png' });
+
+    expect(response.status).toBe(415);
+    expect(response.body.error.code).toBe('UNSUPPORTED_FILE_TYPE');
+    expect(response.body.error.message).toBe(
+      '👻 Only PDF, Text, Word, HTML, JSON, EPUB, PowerPoint files are allowed in the spirit realm!'
+    );
+    expect(await listProcessedContent()).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+// 🎃 GhostFrame URL Ingestion Route Tests
+// Pages come from a fixture fetcher; only the article survives boilerplate removal
+
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { gzipSync } from 'zlib';
+import { setDatabase, SQLiteAdapter } from '../../database';
+import { getProcessedContent } from '../../controllers/contentProcessor';
+import { embeddingStorage } from '../../controllers/contentSearch';
+import { setEmbedder } from '../../services/Embeddings';
+import {
+  createHttpPageFetcher,
+  FetchedPage,
+  isPublicAddress,
+  PageFetchError,
+  setPageFetcher,
+} from '../../services/WebPages';
+import uploadRoutes from '../../routes/upload';
+
+const repeat = (sentence: string, times: number) => Array(times).fill(sentence).join(' ');
+
+const ARTICLE_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>How Plants Make Food | Garden Weekly</title>
+  <meta property="og:title" content="How Plants Make Food">
+  <style>body { font-family: serif; }</style>
+  <script>window.analytics = { track: function () {} };</script>
+</head>
+<body>
+  <header class="site-header"><a href="/">Garden Weekly</a> Subscribe today</header>
+  <nav><ul><li><a href="/news">News</a></li><li><a href="/shop">Shop</a></li></ul></nav>
+  <div class="cookie-banner">We use cookies to improve your experience.</div>
+  <main>
+    <article>
+      <header><h1>How Plants Make Food</h1><p class="byline">By A. Gardener</p></header>
+      <p>${repeat('Chlorophyll pigments in the leaf capture sunlight to make glucose.', 8)}</p>
+      <h2>Transpiration</h2>
+      <p>${repeat('Stomata on the underside of leaves release water vapour into the air.', 8)}</p>
+      <ul>
+        <li>Roots absorb <strong>water</strong> from the soil.</li>
+        <li>Xylem carries water up the stem.</li>
+      </ul>
+      <div class="share-buttons">Share on social media</div>
+    </article>
+    <aside><h3>Related stories</h3><p>Ten houseplants that are impossible to kill.</p></aside>
+  </main>
+  <footer>Copyright Garden Weekly. All rights reserved.</footer>
+</body>
+</html>`;
+
+// Older sites without <article> or <main>: the densest block of paragraphs wins
+const DIV_PAGE = `<html><body>
+  <div id="menu"><p>Home</p><p>About</p></div>
+  <div class="content">
+    <p>${repeat('Gutenberg built a press with movable metal type around 1440.', 6)}</p>
+    <p>${repeat('Printed books spread ideas across Europe far faster than copied manuscripts.', 6)}</p>
+  </div>
+  <div class="sidebar"><p>Advertisement: buy a new printer today.</p></div>
+</body></html>`;
+
+describe('URL ingestion routes', () => {
+  let app: express.Express;
+  let pages: Record<string, FetchedPage>;
+  let fetched: string[];
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/upload', uploadRoutes);
+  });
+
+  beforeEach(async () => {
+    setEmbedder(null);
+    await setDatabase(new SQLiteAdapter(':memory:'));
+    pages = {};
+    fetched = [];
+    setPageFetcher(async url => {
+      fetched.push(url);
+      const page = pages[url];
+      if (!page) throw new PageFetchError(`HTTP 404 from ${url}`, 404);
+      return page;
+    });
+  });
+
+  afterAll(() => {
+    setPageFetcher(null);
+  });
+
+  const servePage = (url: string, body: string, contentType: string = 'text/html; charset=utf-8') => {
+    pages[url] = { url, contentType, body };
+  };
+
+  it('should process the main article of a page and store it like an upload', async () => {
+    servePage('https://garden.example/plants/food', ARTICLE_PAGE);
+
+    const response = await request(app)
+      .post('/api/upload/url')
+      .send({ url: 'https://garden.example/plants/food', subject: 'biology', tags: 'plants, botany' });
+
+    expect(response.status).toBe(200);
+    const content = response.body.data;
+    expect(content.contentId).toMatch(/^content_/);
+    expect(content.originalFilename).toBe('garden.example/plants/food');
+    expect(content.metadata).toMatchObject({
+      title: 'How Plants Make Food',
+      subject: 'biology',
+      tags: ['plants', 'botany'],
+      sourceUrl: 'https://garden.example/plants/food',
+    });
+
+    expect(content.processedText.startsWith('# How Plants Make Food\n\nBy A. Gardener\n\nChlorophyll pigments')).toBe(true);
+    expect(content.processedText).toContain('## Transpiration');
+    expect(content.processedText).toContain('- Roots absorb water from the soil.\n- Xylem carries water up the stem.');
+    for (const boilerplate of ['Subscribe today', 'Shop', 'cookies', 'Share on social', 'houseplants', 'Copyright', 'analytics', 'font-family']) {
+      expect(content.processedText).not.toContain(boilerplate);
+    }
+    expect(content.chunks.map((chunk: any) => chunk.heading)).toEqual(['How Plants Make Food', 'Transpiration']);
+
+    expect(await getProcessedContent(content.contentId)).toMatchObject({ processedText: content.processedText });
+    expect(await embeddingStorage.list({ content_id: content.contentId })).toHaveLength(2);
+  });
+
+  it('should fall back to the densest block of paragraphs without semantic markup', async () => {
+    servePage('http://print.example/', DIV_PAGE);
+
+    const response = await request(app).post('/api/upload/url').send({ url: 'http://print.example/' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.originalFilename).toBe('print.example');
+    expect(response.body.data.metadata.title).toBe('print.example');
+    expect(response.body.data.processedText).toMatch(/^Gutenberg built a press .*1440\.\n\nPrinted books .* than copied manuscripts\.$/s);
+  });
+
+  it('should ingest plain text pages as they are', async () => {
+    servePage('https://notes.example/cells.txt', 'Mitochondria release energy from glucose.', 'text/plain');
+
+    const response = await request(app).post('/api/upload/url').send({ url: 'https://notes.example/cells.txt', title: 'Cells' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.processedText).toBe('Mitochondria release energy from glucose.');
+    expect(response.body.data.metadata.title).toBe('Cells');
+  });
+
+  it('should reject missing and non-http URLs without fetching', async () => {
+    for (const url of [undefined, 'not a url', 'ftp://files.example/notes.txt', 'file:///etc/passwd']) {
+      const response = await request(app).post('/api/upload/url').send({ url });
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('url must be an absolute http(s) URL');
+    }
+    expect(fetched).toEqual([]);
+  });
+
+  it('should report pages that cannot be fetched, read or that have no text', async () => {
+    servePage('https://files.example/photo.png', 'binary', 'image/png');
+    servePage('https://empty.example/', '<html><body><nav>Home</nav><script>run()</script></body></html>');
+
+    const missing = await request(app).post('/api/upload/url').send({ url: 'https://gone.example/' });
+    expect(missing.status).toBe(502);
+    expect(missing.body.details).toBe('HTTP 404 from https://gone.example/');
+
+    const image = await request(app).post('/api/upload/url').send({ url: 'https://files.example/photo.png' });
+    expect(image.status).toBe(415);
+    expect(image.body.error).toBe('Unsupported page type: image/png');
+
+    const empty = await request(app).post('/api/upload/url').send({ url: 'https://empty.example/' });
+    expect(empty.status).toBe(422);
+    expect(empty.body.error).toBe('No readable content found at that URL');
+  });
+
+  describe('over HTTP', () => {
+    let server: http.Server;
+    let port: number;
+    let hits: string[];
+    let endlessClosed: Promise<void>;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        hits.push(req.url || '');
+        if (req.url === '/endless') {
+          // Streams until the client hangs up, with no Content-Length to check up front
+          endlessClosed = new Promise(resolve => res.on('close', () => resolve()));
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          const write = () => {
+            if (!res.destroyed && res.write('Photosynthesis. '.repeat(256))) setImmediate(write);
+          };
+          res.on('drain', write);
+          write();
+          return;
+        }
+        if (req.url === '/compressed') {
+          res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Encoding': 'gzip' });
+          res.end(gzipSync(Buffer.alloc(1024 * 1024, 'a')));
+          return;
+        }
+        const redirects: Record<string, string> = {
+          '/metadata': 'http://169.254.169.254/latest/meta-data/',
+          '/intranet': 'http://intranet.example/wiki',
+          '/article-moved': '/article',
+        };
+        if (redirects[req.url || '']) {
+          res.writeHead(302, { Location: redirects[req.url || ''] });
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('Mitochondria release energy from glucose.');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      hits = [];
+    });
+
+    // Stands in for public DNS: the test server plays a public site, intranet.example a private one
+    const usePublicTestServer = (maxBytes?: number) =>
+      setPageFetcher(createHttpPageFetcher({
+        resolve: async hostname => (hostname === 'intranet.example' ? ['10.1.2.3'] : ['127.0.0.1']),
+        allowAddress: address => address === '127.0.0.1' || isPublicAddress(address),
+        maxBytes,
+      }));
+
+    it('should refuse loopback and private addresses before connecting', async () => {
+      setPageFetcher(null);
+
+      for (const url of [`http://127.0.0.1:${port}/`, `http://localhost:${port}/`, `http://[::1]:${port}/`, `http://[::ffff:127.0.0.1]:${port}/`]) {
+        const response = await request(app).post('/api/upload/url').send({ url });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('url must point to a public web address');
+      }
+      expect(hits).toEqual([]);
+
+      expect(['10.0.0.1', '172.16.5.4', '192.168.1.1', '169.254.169.254', 'fe80::1', 'fd00::1', '::ffff:10.0.0.1'].filter(isPublicAddress)).toEqual([]);
+      expect(['93.184.216.34', '2606:2800:220:1::'].every(isPublicAddress)).toBe(true);
+    });
+
+    it('should connect to the checked address and follow redirects between public pages', async () => {
+      usePublicTestServer();
+
+      const response = await request(app).post('/api/upload/url').send({ url: `http://garden.example:${port}/article-moved` });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.processedText).toBe('Mitochondria release energy from glucose.');
+      expect(response.body.data.metadata.sourceUrl).toBe(`http://garden.example:${port}/article`);
+      expect(hits).toEqual(['/article-moved', '/article']);
+    });
+
+    it('should refuse redirects to private addresses', async () => {
+      usePublicTestServer();
+
+      const metadata = await request(app).post('/api/upload/url').send({ url: `http://garden.example:${port}/metadata` });
+      expect(metadata.status).toBe(400);
+      expect(metadata.body.details).toContain('169.254.169.254 is not a public address');
+
+      const intranet = await request(app).post('/api/upload/url').send({ url: `http://garden.example:${port}/intranet` });
+      expect(intranet.status).toBe(400);
+      expect(intranet.body.details).toContain('intranet.example is not a public address');
+
+      expect(hits).toEqual(['/metadata', '/intranet']);
+    });
+
+    it('should stop downloading once a page passes the size limit', async () => {
+      usePublicTestServer(64 * 1024);
+
+      const endless = await request(app).post('/api/upload/url').send({ url: `http://garden.example:${port}/endless` });
+      expect(endless.status).toBe(502);
+      expect(endless.body.details).toBe(`Page at http://garden.example:${port}/endless is larger than 65536 bytes`);
+      await endlessClosed;
+
+      // The limit applies to the decoded body, not the few kilobytes on the wire
+      const compressed = await request(app).post('/api/upload/url').send({ url: `http://garden.example:${port}/compressed` });
+      expect(compressed.status).toBe(502);
+      expect(compressed.body.details).toContain('is larger than 65536 bytes');
+    });
+  });
+});
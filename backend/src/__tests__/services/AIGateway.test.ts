@@ -0,0 +1,181 @@
+// 🎃 GhostFrame AI Gateway Tests
+// Runs the real provider adapters against a local stub server
+
+import { AIGateway, StreamChunk } from '../../services/AIGateway';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+describe('AIGateway', () => {
+  let stub: StubProviderServer;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests = [];
+    stub.reply = 'Photosynthesis turns light into sugar';
+    stub.failWith = null;
+    stub.failWhen = null;
+    stub.chunkDelayMs = 0;
+  });
+
+  const createGateway = (fallbackChain: string[] = []) =>
+    new AIGateway({
+      fallbackChain,
+      providers: {
+        openai: { apiKey: 'test-openai', baseUrl: stub.baseUrl },
+        anthropic: { apiKey: 'test-anthropic', baseUrl: stub.baseUrl },
+        google: { apiKey: 'test-google', baseUrl: stub.baseUrl },
+        mistral: { apiKey: undefined },
+      },
+    });
+
+  describe('process', () => {
+    it('should call the OpenAI-compatible endpoint and map usage', async () => {
+      const gateway = createGateway();
+
+      const response = await gateway.process({
+        model: 'gpt-4',
+        prompt: 'Explain photosynthesis',
+        options: { temperature: 0.2, maxTokens: 100, systemPrompt: 'Be brief' },
+      });
+
+      expect(response.content).toBe('Photosynthesis turns light into sugar');
+      expect(response.provider).toBe('openai');
+      expect(response.usage).toEqual({
+        inputTokens: 2,
+        outputTokens: 5,
+        totalTokens: 7,
+        cost: (2 * 0.03 + 5 * 0.06) / 1000,
+      });
+
+      const [request] = stub.requests;
+      expect(request.path).toBe('/v1/chat/completions');
+      expect(request.headers.authorization).toBe('Bearer test-openai');
+      expect(request.body).toMatchObject({
+        model: 'gpt-4',
+        temperature: 0.2,
+        max_tokens: 100,
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Explain photosynthesis' },
+        ],
+      });
+    });
+
+    it('should map Anthropic usage and resolve model aliases', async () => {
+      const gateway = createGateway();
+
+      const response = await gateway.process({ model: 'claude-3-haiku', prompt: 'Hello there' });
+
+      expect(response.provider).toBe('anthropic');
+      expect(response.usage.inputTokens).toBe(2);
+      expect(response.usage.outputTokens).toBe(5);
+      expect(stub.requests[0].path).toBe('/v1/messages');
+      expect(stub.requests[0].headers['x-api-key']).toBe('test-anthropic');
+      expect(stub.requests[0].body.model).toBe('claude-3-haiku-20240307');
+    });
+
+    it('should map Google usage metadata', async () => {
+      const gateway = createGateway();
+
+      const response = await gateway.process({ model: 'gemini-pro', prompt: 'Hi' });
+
+      expect(response.provider).toBe('google');
+      expect(response.usage.inputTokens).toBe(1);
+      expect(response.usage.outputTokens).toBe(5);
+      expect(stub.requests[0].path).toBe('/v1/models/gemini-pro:generateContent?key=test-google');
+    });
+
+    it('should serve repeated requests from cache', async () => {
+      const gateway = createGateway();
+      const request = { model: 'gpt-4', prompt: 'Cache me' };
+
+      await gateway.process(request);
+      const cached = await gateway.process(request);
+
+      expect(cached.metadata.cached).toBe(true);
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should skip the cache when asked to', async () => {
+      const gateway = createGateway();
+      const request = { model: 'gpt-4', prompt: 'Fresh please', options: { bypassCache: true } };
+
+      await gateway.process(request);
+      const fresh = await gateway.process(request);
+
+      expect(fresh.metadata.cached).toBe(false);
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should fall back to the next model when a provider errors', async () => {
+      const gateway = createGateway(['claude-3']);
+      stub.failWith = 500;
+      stub.failWhen = request => request.path.endsWith('/chat/completions');
+
+      const response = await gateway.process({ model: 'gpt-4', prompt: 'Fallback please' });
+
+      expect(response.provider).toBe('anthropic');
+      expect(stub.requests.map(request => request.path)).toEqual([
+        '/v1/chat/completions',
+        '/v1/messages',
+      ]);
+      expect(gateway.getProviderStats().openai.circuitBreaker.failures).toBe(1);
+    });
+
+    it('should skip providers without an API key', async () => {
+      const gateway = createGateway();
+
+      await expect(gateway.process({ model: 'mistral-large', prompt: 'Hi' })).rejects.toThrow(
+        'mistral is not configured'
+      );
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe('stream', () => {
+    const collect = async (iterator: AsyncGenerator<StreamChunk>) => {
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of iterator) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    it.each([
+      ['gpt-4', '/v1/chat/completions'],
+      ['claude-3', '/v1/messages'],
+      ['gemini-pro', '/v1/models/gemini-pro:streamGenerateContent?alt=sse&key=test-google'],
+    ])('should stream deltas from %s', async (model, path) => {
+      const gateway = createGateway();
+
+      const chunks = await collect(gateway.stream({ model, prompt: 'Stream it' }));
+      const last = chunks[chunks.length - 1];
+
+      expect(chunks.filter(chunk => !chunk.finished).map(chunk => chunk.delta).join('')).toBe(
+        'Photosynthesis turns light into sugar'
+      );
+      expect(last.finished).toBe(true);
+      expect(last.content).toBe('Photosynthesis turns light into sugar');
+      expect(last.metadata?.tokens).toBe(5);
+      expect(stub.requests[0].path).toBe(path);
+    });
+
+    it('should time out waits for the next chunk, not the whole stream', async () => {
+      const gateway = (requestTimeoutMs: number) =>
+        new AIGateway({ fallbackChain: [], requestTimeoutMs, providers: { openai: { apiKey: 'test-openai', baseUrl: stub.baseUrl } } });
+      stub.chunkDelayMs = 40;
+
+      // Seven events 40ms apart take far longer than the 100ms timeout, but no single wait does
+      const chunks = await collect(gateway(100).stream({ model: 'gpt-4', prompt: 'Stream it' }));
+      expect(chunks[chunks.length - 1].content).toBe('Photosynthesis turns light into sugar');
+
+      await expect(collect(gateway(20).stream({ model: 'gpt-4', prompt: 'Stream it' }))).rejects.toThrow('All streaming models failed');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// 🎃 GhostFrame AI Router Tests
+// The router must delegate to the gateway and inherit its resilience features
+
+import { AIGateway } from '../../services/AIGateway';
+import { AIRouter, parseJsonResponse } from '../../services/AIRouter';
+import { startStubProviderServer, StubProviderServer } from '../helpers/stubProviderServer';
+
+describe('AIRouter', () => {
+  let stub: StubProviderServer;
+
+  beforeAll(async () => {
+    stub = await startStubProviderServer();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests = [];
+    stub.reply = 'Routed through the gateway';
+    stub.failWith = null;
+    stub.failWhen = null;
+  });
+
+  const createRouter = (configured: string[] = ['groq', 'openai']) => {
+    const providers: Record<string, { apiKey?: string; baseUrl: string }> = {};
+    for (const name of ['groq', 'openai', 'anthropic', 'google', 'mistral']) {
+      providers[name] = {
+        apiKey: configured.includes(name) ? `test-${name}` : undefined,
+        baseUrl: stub.baseUrl,
+      };
+    }
+    return new AIRouter(new AIGateway({ providers }));
+  };
+
+  describe('generate', () => {
+    it('should prefer Groq through the gateway', async () => {
+      const router = createRouter();
+
+      const response = await router.generate({ prompt: 'Hello', temperature: 0.4, maxTokens: 50 });
+
+      expect(response).toEqual({ text: 'Routed through the gateway', provider: 'groq' });
+      expect(stub.requests[0].headers.authorization).toBe('Bearer test-groq');
+      expect(stub.requests[0].body).toMatchObject({
+        model: 'llama-3.3-70b-versatile',
+        temperature: 0.4,
+        max_tokens: 50,
+      });
+    });
+
+    it('should honor an explicitly requested provider', async () => {
+      const router = createRouter();
+
+      const response = await router.generate({ prompt: 'Hello', provider: 'openai' });
+
+      expect(response.provider).toBe('openai');
+      expect(stub.requests[0].body.model).toBe('gpt-3.5-turbo');
+    });
+
+    it('should reuse cached gateway responses', async () => {
+      const router = createRouter();
+
+      await router.generate({ prompt: 'Same prompt' });
+      await router.generate({ prompt: 'Same prompt' });
+
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should stop calling Groq once its circuit breaker opens', async () => {
+      const router = createRouter();
+      const isGroq = (request: { headers: Record<string, unknown> }) =>
+        request.headers.authorization === 'Bearer test-groq';
+      stub.failWith = 503;
+      stub.failWhen = isGroq;
+
+      for (let i = 0; i < 4; i++) {
+        const response = await router.generate({ prompt: `Attempt ${i}` });
+        expect(response.provider).toBe('openai');
+      }
+
+      // Three failures open the breaker; the fourth attempt goes straight to OpenAI
+      expect(stub.requests.filter(isGroq)).toHaveLength(3);
+    });
+
+    it('should fail clearly when no provider is configured', async () => {
+      const router = createRouter([]);
+
+      expect(router.isAnyAIAvailable()).toBe(false);
+      await expect(router.generate({ prompt: 'Hello' })).rejects.toThrow('No AI provider available');
+    });
+  });
+
+  describe('structured generation', () => {
+    it('should parse quiz JSON wrapped in a code fence', async () => {
+      const router = createRouter();
+      stub.reply = '```json\n{"title": "Plants", "questions": []}\n```';
+
+      const quiz = await router.generateQuiz('Photosynthesis content', { questionCount: 3 });
+
+      expect(quiz).toEqual({ title: 'Plants', questions: [] });
+      expect(stub.requests[0].body.messages[0].role).toBe('system');
+      expect(stub.requests[0].body.messages[1].content).toContain('Number of questions: 3');
+    });
+
+    it('should parse flashcard arrays', async () => {
+      const router = createRouter();
+      stub.reply = 'Here you go: [{"front": "Chlorophyll", "back": "Green pigment"}]';
+
+      const cards = await router.generateFlashcards('Plant content', 1);
+
+      expect(cards).toEqual([{ front: 'Chlorophyll', back: 'Green pigment' }]);
+    });
+
+    it('should reject stories that are not JSON', async () => {
+      const router = createRouter();
+      stub.reply = 'Once upon a time';
+
+      await expect(router.generateStory('Plant content')).rejects.toThrow('valid JSON');
+    });
+  });
+
+  describe('parseJsonResponse', () => {
+    it('should read bare JSON', () => {
+      expect(parseJsonResponse('{"a": 1}')).toEqual({ a: 1 });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+// 🎃 GhostFrame Content Extractor Tests
+// Every registered format reads its fixture file into text with the section headings intact
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CONTENT_EXTRACTORS, extractArticle, findExtractor, uploadFormats } from '../../services/ContentExtractors';
+import { OCR_MAX_PAGES, OcrEngine, setOcrEngine } from '../../services/Ocr';
+import { buildScannedPdf } from '../helpers/fixtures';
+
+const LIGHT = 'Chlorophyll in the thylakoid membranes absorbs sunlight and splits water, releasing oxygen and storing energy as ATP and NADPH.';
+const CALVIN = 'In the stroma the Calvin cycle uses ATP and NADPH to fix carbon dioxide into glucose.';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/uploads', name));
+
+const extract = async (name: string) => (await findExtractor({ originalname: name })!.extract(fixture(name))).text;
+
+describe('ContentExtractors', () => {
+  describe('findExtractor', () => {
+    it('should match on mimetype first and fall back to the file extension', () => {
+      expect(findExtractor({ mimetype: 'application/pdf', originalname: 'notes' })!.id).toBe('pdf');
+      expect(findExtractor({ mimetype: 'application/octet-stream', originalname: 'Book.EPUB' })!.id).toBe('epub');
+      expect(findExtractor({ mimetype: '', originalname: 'slides.pptx' })!.id).toBe('pptx');
+      expect(findExtractor({ mimetype: 'image/png', originalname: 'diagram.png' })).toBeUndefined();
+      expect(findExtractor({ mimetype: 'application/octet-stream', originalname: 'archive' })).toBeUndefined();
+    });
+
+    it('should give every format a unique id, mimetypes and extensions', () => {
+      const mimeTypes = CONTENT_EXTRACTORS.flatMap(extractor => extractor.mimeTypes);
+      const extensions = CONTENT_EXTRACTORS.flatMap(extractor => extractor.extensions);
+
+      expect(new Set(CONTENT_EXTRACTORS.map(extractor => extractor.id)).size).toBe(CONTENT_EXTRACTORS.length);
+      expect(new Set(mimeTypes).size).toBe(mimeTypes.length);
+      expect(new Set(extensions).size).toBe(extensions.length);
+      expect(uploadFormats().map(format => format.id)).toEqual(['pdf', 'text', 'docx', 'html', 'json', 'epub', 'pptx']);
+      expect(uploadFormats()[0]).not.toHaveProperty('extract');
+    });
+  });
+
+  describe('formats', () => {
+    it('should read PDF text', async () => {
+      const text = await extract('photosynthesis.pdf');
+
+      expect(text).toContain('Photosynthesis\nLight Reactions\nChlorophyll in the thylakoid');
+      expect(text.replace(/\s+/g, ' ')).toContain('Calvin Cycle In the stroma the Calvin cycle');
+    });
+
+    it('should read markdown as it is', async () => {
+      expect(await extract('photosynthesis.md')).toBe(fixture('photosynthesis.md').toString('utf-8'));
+    });
+
+    it('should turn Word heading styles into section headings', async () => {
+      expect(await extract('photosynthesis.docx')).toBe(
+        `Photosynthesis\n\n# Light Reactions\n\n${LIGHT}\n\n# Calvin Cycle\n\n${CALVIN}`
+      );
+    });
+
+    it('should read the article of an HTML page', async () => {
+      expect(await extract('photosynthesis.html')).toBe(
+        `# Photosynthesis\n\n## Light Reactions\n\n${LIGHT}\n\n## Calvin Cycle\n\n${CALVIN}`
+      );
+    });
+
+    it('should pretty-print JSON', async () => {
+      const text = await extract('photosynthesis.json');
+
+      expect(JSON.parse(text).sections[0].heading).toBe('Light Reactions');
+      expect(text).toContain(`"text": "${CALVIN}"`);
+    });
+
+    it('should read EPUB chapters in spine order, skipping non-linear items', async () => {
+      expect(await extract('photosynthesis.epub')).toBe(
+        `# Light Reactions\n\n${LIGHT}\n\n# Calvin Cycle\n\n${CALVIN}`
+      );
+    });
+
+    it('should read PowerPoint slides in slide order, headed by their titles', async () => {
+      expect(await extract('photosynthesis.pptx')).toBe([
+        '## Light Reactions', LIGHT, 'Oxygen is a by-product.',
+        '## Calvin Cycle', CALVIN,
+        '## Slide 3', 'Photosynthesis happens in chloroplasts.',
+        '## Summary', 'Light energy becomes chemical energy.',
+      ].join('\n\n'));
+    });
+
+    it('should reject archives that are not the format they claim', async () => {
+      const [epub] = CONTENT_EXTRACTORS.filter(extractor => extractor.id === 'epub');
+      const [pptx] = CONTENT_EXTRACTORS.filter(extractor => extractor.id === 'pptx');
+
+      await expect(epub.extract(fixture('photosynthesis.pptx'))).rejects.toThrow('EPUB is missing META-INF/container.xml');
+      await expect(pptx.extract(fixture('photosynthesis.epub'))).rejects.toThrow('Presentation has no slides');
+      await expect(pptx.extract(fixture('photosynthesis.md'))).rejects.toThrow('End of central directory not found');
+    });
+  });
+
+  describe('scanned PDFs', () => {
+    let recognized: Buffer[];
+    let opened: number;
+    let closed: number;
+
+    beforeEach(() => {
+      recognized = [];
+      opened = 0;
+      closed = 0;
+      const engine: OcrEngine = {
+        name: 'fixture-ocr',
+        open: async () => {
+          opened++;
+          return {
+            recognize: async image => {
+              recognized.push(image);
+              return { text: 'THE CALVIN CYCLE\nFIXES CARBON DIOXIDE', confidence: 88 };
+            },
+            close: async () => {
+              closed++;
+            },
+          };
+        },
+      };
+      setOcrEngine(engine);
+    });
+
+    afterAll(() => {
+      setOcrEngine(null);
+    });
+
+    it('should OCR only the pages without a text layer and report their confidence', async () => {
+      const extracted = await findExtractor({ originalname: 'scanned.pdf' })!.extract(fixture('scanned.pdf'));
+
+      expect(extracted.text).toBe(
+        '\n\nPhotosynthesis turns light energy into chemical energy stored as glucose in the leaf.\n\nTHE CALVIN CYCLE\nFIXES CARBON DIOXIDE'
+      );
+      expect(extracted.ocr).toEqual({ engine: 'fixture-ocr', pages: [{ page: 2, confidence: 88 }] });
+
+      // The page image is handed over as a PPM the size of the scan
+      expect(recognized).toHaveLength(1);
+      expect(recognized[0].subarray(0, 15).toString('latin1')).toBe('P6\n528 168\n255\n');
+      expect(recognized[0].length).toBe(15 + 528 * 168 * 3);
+    });
+
+    it('should read scans page by page and stop after the page limit', async () => {
+      const extracted = await findExtractor({ originalname: 'scan.pdf' })!.extract(buildScannedPdf(OCR_MAX_PAGES + 2));
+
+      // One session for the whole document, closed once it is read
+      expect([opened, closed]).toEqual([1, 1]);
+      expect(recognized).toHaveLength(OCR_MAX_PAGES);
+      expect(extracted.ocr!.pages.map(page => page.page)).toEqual(Array.from({ length: OCR_MAX_PAGES }, (_, index) => index + 1));
+      expect(extracted.ocr!.unreadPages).toBe(2);
+    });
+
+    it('should leave PDFs with a text layer to pdf.js', async () => {
+      const extracted = await findExtractor({ originalname: 'photosynthesis.pdf' })!.extract(fixture('photosynthesis.pdf'));
+
+      expect(extracted.ocr).toBeUndefined();
+      expect(recognized).toEqual([]);
+      expect(opened).toBe(0);
+    });
+  });
+
+  describe('extractArticle', () => {
+    it('should take the page title from og:title, then <title>, then the first heading', () => {
+      expect(extractArticle('<html><head><title>Tab</title><meta property="og:title" content="Shared"></head></html>').title).toBe('Shared');
+      expect(extractArticle('<html><head><title>Tab</title></head><body><h1>Heading</h1></body></html>').title).toBe('Tab');
+      expect(extractArticle('<body><h1>Heading</h1><p>Text</p></body>').title).toBe('Heading');
+      expect(extractArticle('<body><p>Text</p></body>').title).toBeUndefined();
+    });
+
+    it('should keep numbered lists and tables as markdown', () => {
+      const { text } = extractArticle(`<article>
+        <ol><li>Light reactions</li><li><p>Calvin cycle</p></li></ol>
+        <table>
+          <thead><tr><th>Stage</th><th>Site</th></tr></thead>
+          <tbody><tr><td>Light</td><td>Thylakoid | membrane</td></tr><tr><td>Calvin</td><td><p>Stroma</p></td></tr></tbody>
+        </table>
+      </article>`);
+
+      expect(text).toBe([
+        '1. Light reactions',
+        '2. Calvin cycle',
+        '| Stage | Site |\n| --- | --- |\n| Light | Thylakoid / membrane |\n| Calvin | Stroma |',
+      ].join('\n\n'));
+    });
+  });
+});
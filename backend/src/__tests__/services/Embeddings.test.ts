@@ -0,0 +1,57 @@
+// 🎃 GhostFrame Embeddings Tests
+// The local hashing embedder is deterministic and puts related passages close together
+
+import { cosineSimilarity, getEmbedder, HashingEmbedder, setEmbedder } from '../../services/Embeddings';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder();
+
+  const similarity = async (a: string, b: string) => {
+    const [first, second] = await embedder.embed([a, b]);
+    return cosineSimilarity(first, second);
+  };
+
+  it('should produce the same normalized vector for the same text', async () => {
+    const [first] = await embedder.embed(['Chlorophyll captures sunlight in the leaves.']);
+    const [second] = await new HashingEmbedder().embed(['Chlorophyll captures sunlight in the leaves.']);
+
+    expect(first).toHaveLength(512);
+    expect(first).toEqual(second);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+  });
+
+  it('should rank passages sharing vocabulary above unrelated ones', async () => {
+    const query = 'how do leaves capture sunlight';
+    const related = await similarity(query, 'Chlorophyll in the leaf captures sunlight for photosynthesis.');
+    const unrelated = await similarity(query, 'Mitochondria break glucose down to release ATP.');
+
+    expect(related).toBeGreaterThan(0.3);
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('should return a zero vector for text with no usable words', async () => {
+    const [vector] = await embedder.embed(['the of and !!']);
+    expect(vector.every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('getEmbedder', () => {
+  const originalEmbedder = process.env.EMBEDDER;
+
+  afterEach(() => {
+    process.env.EMBEDDER = originalEmbedder;
+    setEmbedder(null);
+  });
+
+  it('should default to the local hashing embedder', () => {
+    delete process.env.EMBEDDER;
+    setEmbedder(null);
+
+    expect(getEmbedder().name).toBe('hashing-512');
+  });
+
+  it('should use an embedder set explicitly', () => {
+    setEmbedder(new HashingEmbedder(64));
+    expect(getEmbedder().name).toBe('hashing-64');
+  });
+});
@@ -0,0 +1,161 @@
+// 🎃 GhostFrame Generation Cache Tests
+// Generations are keyed by what produced them, bounded in size and age, and counted as hits or misses
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AIRequest, AIResponse } from '../../services/AIGateway';
+import {
+  GenerationCache,
+  GenerationRedisClient,
+  MemoryGenerationStore,
+  normalizePrompt,
+  RedisGenerationStore,
+  steeringVersion,
+} from '../../services/GenerationCache';
+
+const request = (prompt: string, options: AIRequest['options'] = {}, model = 'llama-3.3-70b-versatile'): AIRequest => ({
+  model,
+  prompt,
+  options: { temperature: 0.7, maxTokens: 500, ...options },
+});
+
+const response = (content: string): AIResponse => ({
+  content,
+  model: 'llama-3.3-70b-versatile',
+  provider: 'groq',
+  usage: { inputTokens: 3, outputTokens: 2, totalTokens: 5, cost: 0 },
+  metadata: { requestId: 'req_1', processingTime: 12, quality: 1, cached: false },
+});
+
+describe('GenerationCache', () => {
+  describe('keyFor', () => {
+    const cache = new GenerationCache({ steeringVersion: 'v1' });
+
+    it('should ignore line endings, trailing spaces and extra blank lines', () => {
+      expect(normalizePrompt('  Quiz me\r\n\r\n\r\non leaves.  \n')).toBe('Quiz me\n\non leaves.');
+      expect(cache.keyFor(request('Quiz me\r\n\r\n\r\non leaves.  '))).toBe(cache.keyFor(request('Quiz me\n\non leaves.')));
+      expect(cache.keyFor(request('Quiz me'))).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should change with the prompt, system prompt, model, temperature and steering version', () => {
+      const base = cache.keyFor(request('Quiz me'));
+
+      expect(cache.keyFor(request('Quiz me twice'))).not.toBe(base);
+      expect(cache.keyFor(request('Quiz me', { systemPrompt: 'Respond in JSON.' }))).not.toBe(base);
+      expect(cache.keyFor(request('Quiz me', {}, 'gpt-4'))).not.toBe(base);
+      expect(cache.keyFor(request('Quiz me', { temperature: 0.2 }))).not.toBe(base);
+      expect(new GenerationCache({ steeringVersion: 'v2' }).keyFor(request('Quiz me'))).not.toBe(base);
+
+      // Token budgets and cache bypasses don't change what is being asked
+      expect(cache.keyFor(request('Quiz me', { maxTokens: 900, bypassCache: true }))).toBe(base);
+    });
+  });
+
+  it('should count hits, misses and bypassed lookups', async () => {
+    const cache = new GenerationCache({ steeringVersion: 'v1' });
+
+    expect(await cache.get(request('Quiz me'))).toBeNull();
+    await cache.set(request('Quiz me'), response('Q1'));
+    expect((await cache.get(request('Quiz me')))!.content).toBe('Q1');
+    expect(await cache.get(request('Quiz me', { bypassCache: true }))).toBeNull();
+
+    expect(cache.stats()).toMatchObject({
+      backend: 'memory',
+      hits: 1,
+      misses: 1,
+      bypassed: 1,
+      hitRate: 0.5,
+      entries: 1,
+      evictions: 0,
+      steeringVersion: 'v1',
+    });
+  });
+
+  it('should evict the least recently used generation once full', async () => {
+    const cache = new GenerationCache({ store: new MemoryGenerationStore(2), steeringVersion: 'v1' });
+
+    await cache.set(request('first'), response('1'));
+    await cache.set(request('second'), response('2'));
+    await cache.get(request('first'));
+    await cache.set(request('third'), response('3'));
+
+    expect(await cache.get(request('second'))).toBeNull();
+    expect((await cache.get(request('first')))!.content).toBe('1');
+    expect((await cache.get(request('third')))!.content).toBe('3');
+    expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it('should let generations expire', async () => {
+    const cache = new GenerationCache({ ttlSeconds: 0, steeringVersion: 'v1' });
+
+    await cache.set(request('Quiz me'), response('Q1'));
+
+    expect(await cache.get(request('Quiz me'))).toBeNull();
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  describe('RedisGenerationStore', () => {
+    it('should keep generations as JSON under hashed keys with the TTL', async () => {
+      const entries = new Map<string, { value: string; ex: number }>();
+      const client: GenerationRedisClient = {
+        get: async key => entries.get(key)?.value ?? null,
+        set: async (key, value, options) => entries.set(key, { value, ex: options.EX }),
+      };
+      const cache = new GenerationCache({ store: new RedisGenerationStore(async () => client), ttlSeconds: 90, steeringVersion: 'v1' });
+
+      await cache.set(request('Quiz me'), response('Q1'));
+
+      const entry = entries.get(`ghostframe:generation:${cache.keyFor(request('Quiz me'))}`)!;
+      expect(entry.ex).toBe(90);
+      expect((await cache.get(request('Quiz me')))!.content).toBe('Q1');
+      expect(cache.stats()).toMatchObject({ backend: 'redis', hits: 1 });
+      expect(cache.stats().entries).toBeUndefined();
+    });
+
+    it('should treat an unreachable Redis as a miss rather than an error', async () => {
+      const cache = new GenerationCache({
+        store: new RedisGenerationStore(async () => {
+          throw new Error('connect ECONNREFUSED 127.0.0.1:6379');
+        }),
+        steeringVersion: 'v1',
+      });
+
+      await cache.set(request('Quiz me'), response('Q1'));
+
+      expect(await cache.get(request('Quiz me'))).toBeNull();
+      expect(cache.stats()).toMatchObject({ hits: 0, misses: 1, errors: 2 });
+    });
+
+    it('should give up on a Redis that never answers', async () => {
+      const cache = new GenerationCache({
+        store: new RedisGenerationStore(() => new Promise(() => undefined)),
+        steeringVersion: 'v1',
+        timeoutMs: 20,
+      });
+
+      await cache.set(request('Quiz me'), response('Q1'));
+
+      expect(await cache.get(request('Quiz me'))).toBeNull();
+      expect(cache.stats()).toMatchObject({ hits: 0, misses: 1, errors: 2 });
+    });
+  });
+
+  describe('steeringVersion', () => {
+    it('should follow the content of the steering docs', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'steering-'));
+      writeFileSync(join(dir, 'quiz.md'), '# Quiz Guidelines\nAvoid trick questions.');
+      writeFileSync(join(dir, 'notes.txt'), 'Not a steering doc');
+      const before = steeringVersion(dir);
+
+      writeFileSync(join(dir, 'notes.txt'), 'Still not a steering doc');
+      expect(steeringVersion(dir)).toBe(before);
+
+      writeFileSync(join(dir, 'quiz.md'), '# Quiz Guidelines\nAvoid trick questions. Prefer short answers.');
+      expect(steeringVersion(dir)).not.toBe(before);
+      expect(before).toMatch(/^[0-9a-f]{12}$/);
+
+      expect(steeringVersion(join(dir, 'missing'))).toBe('none');
+    });
+  });
+});
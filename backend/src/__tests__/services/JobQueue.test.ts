@@ -0,0 +1,212 @@
+// 🎃 GhostFrame Job Queue Tests
+// Jobs run in the background a few at a time, report progress, and stop when cancelled
+
+import {
+  isFinished,
+  Job,
+  JobContext,
+  JobQueue,
+  JobRedisClient,
+  MemoryJobStore,
+  RedisJobStore,
+} from '../../services/JobQueue';
+
+interface Gate {
+  promise: Promise<void>;
+  open(): void;
+}
+
+const gate = (): Gate => {
+  let open!: () => void;
+  const promise = new Promise<void>(resolve => (open = resolve));
+  return { promise, open };
+};
+
+const settle = async (queue: JobQueue, jobId: string): Promise<Job> => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const job = await queue.get(jobId);
+    if (job && isFinished(job)) return job;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  throw new Error(`Job ${jobId} never finished`);
+};
+
+describe('JobQueue', () => {
+  let store: MemoryJobStore;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    queue = new JobQueue(store, 1);
+  });
+
+  it('should run a job in the background and keep its progress and result', async () => {
+    const started = gate();
+    const release = gate();
+
+    const job = await queue.enqueue('quiz', async context => {
+      await context.progress(40.4, 'Writing questions');
+      started.open();
+      await release.promise;
+      return { quizId: 'quiz_1' };
+    });
+
+    expect(job).toMatchObject({ type: 'quiz', status: 'queued', progress: 0 });
+    expect(job.jobId).toMatch(/^job_/);
+
+    await started.promise;
+    expect(await queue.get(job.jobId)).toMatchObject({ status: 'running', progress: 40, stage: 'Writing questions' });
+
+    release.open();
+    const finished = await settle(queue, job.jobId);
+
+    expect(finished).toMatchObject({ status: 'completed', progress: 100, result: { quizId: 'quiz_1' } });
+    expect(finished.stage).toBeUndefined();
+    expect(finished.startedAt).toBeDefined();
+    expect(finished.finishedAt).toBeDefined();
+  });
+
+  it('should record why a job failed', async () => {
+    const job = await queue.enqueue('story', async () => {
+      throw new Error('Provider unavailable');
+    });
+
+    expect(await settle(queue, job.jobId)).toMatchObject({ status: 'failed', error: 'Provider unavailable' });
+  });
+
+  it('should keep later jobs queued until a slot frees up', async () => {
+    const release = gate();
+    const first = await queue.enqueue('story', async () => release.promise);
+    const second = await queue.enqueue('quiz', async () => 'second');
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect((await queue.get(first.jobId))!.status).toBe('running');
+    expect((await queue.get(second.jobId))!.status).toBe('queued');
+
+    release.open();
+    expect(await settle(queue, second.jobId)).toMatchObject({ status: 'completed', result: 'second' });
+  });
+
+  it('should never start a job cancelled while queued', async () => {
+    const release = gate();
+    const work = jest.fn(async () => 'never');
+    await queue.enqueue('story', async () => release.promise);
+    const queued = await queue.enqueue('quiz', work);
+
+    expect(await queue.cancel(queued.jobId)).toMatchObject({ status: 'cancelled' });
+
+    release.open();
+    expect(await settle(queue, queued.jobId)).toMatchObject({ status: 'cancelled', progress: 0 });
+    expect(work).not.toHaveBeenCalled();
+  });
+
+  it('should abort a running job and stop it at its next progress update', async () => {
+    const started = gate();
+    const release = gate();
+    let context!: JobContext;
+    const afterCancel = jest.fn();
+
+    const job = await queue.enqueue('story', async jobContext => {
+      context = jobContext;
+      started.open();
+      await release.promise;
+      await context.progress(50, 'Writing chapter 2 of 3');
+      afterCancel();
+      return 'discarded';
+    });
+
+    await started.promise;
+    await queue.cancel(job.jobId);
+    expect(context.signal.aborted).toBe(true);
+
+    release.open();
+    const finished = await settle(queue, job.jobId);
+
+    expect(finished.status).toBe('cancelled');
+    expect(finished.result).toBeUndefined();
+    expect(afterCancel).not.toHaveBeenCalled();
+
+    // Finished jobs are left as they are
+    expect(await queue.cancel(job.jobId)).toEqual(finished);
+    expect(await queue.cancel('job_missing')).toBeNull();
+  });
+
+  it('should stop when another instance sharing the store cancels the job', async () => {
+    const started = gate();
+    const release = gate();
+    const job = await queue.enqueue('module', async context => {
+      started.open();
+      await release.promise;
+      await context.progress(50);
+      return 'discarded';
+    });
+
+    await started.promise;
+    await new JobQueue(store).cancel(job.jobId);
+
+    release.open();
+    expect(await settle(queue, job.jobId)).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('should keep a cancel that lands after the work has finished', async () => {
+    // The cancel is recorded right after the runner's last check has read the job as running
+    class RacingStore extends MemoryJobStore {
+      beforeNextRead?: () => Promise<void>;
+
+      async get(jobId: string): Promise<Job | null> {
+        const job = await super.get(jobId);
+        const hook = this.beforeNextRead;
+        this.beforeNextRead = undefined;
+        if (hook) await hook();
+        return job;
+      }
+    }
+
+    const racing = new RacingStore();
+    queue = new JobQueue(racing, 1);
+
+    const job = await queue.enqueue('quiz', async context => {
+      racing.beforeNextRead = async () => {
+        await new JobQueue(racing).cancel(context.jobId);
+      };
+      return 'discarded';
+    });
+
+    const finished = await settle(queue, job.jobId);
+
+    expect(finished.status).toBe('cancelled');
+    expect(finished.result).toBeUndefined();
+  });
+
+  describe('MemoryJobStore', () => {
+    it('should forget finished jobs once they expire', async () => {
+      const expiring = new MemoryJobStore(0);
+      const base = { type: 'quiz' as const, progress: 0, createdAt: new Date().toISOString() };
+
+      await expiring.save({ ...base, jobId: 'job_running', status: 'running' });
+      await expiring.save({ ...base, jobId: 'job_done', status: 'completed' });
+
+      expect(await expiring.get('job_running')).not.toBeNull();
+      expect(await expiring.get('job_done')).toBeNull();
+    });
+  });
+
+  describe('RedisJobStore', () => {
+    it('should keep each job as JSON under its own key with an expiry', async () => {
+      const entries = new Map<string, { value: string; ex: number }>();
+      const client: JobRedisClient = {
+        get: async key => entries.get(key)?.value ?? null,
+        set: async (key, value, options) => entries.set(key, { value, ex: options.EX }),
+      };
+      const redisQueue = new JobQueue(new RedisJobStore(async () => client, 120));
+
+      const job = await redisQueue.enqueue('quiz', async () => ({ questions: 3 }));
+      await settle(redisQueue, job.jobId);
+
+      const entry = entries.get(`ghostframe:job:${job.jobId}`)!;
+      expect(entry.ex).toBe(120);
+      expect(JSON.parse(entry.value)).toMatchObject({ status: 'completed', result: { questions: 3 } });
+      expect(await redisQueue.get('job_missing')).toBeNull();
+    });
+  });
+});
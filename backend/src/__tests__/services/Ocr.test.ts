@@ -0,0 +1,34 @@
+// 🎃 GhostFrame OCR Tests
+// The bundled tesseract engine reads a scanned page without any network access
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { findExtractor } from '../../services/ContentExtractors';
+import { lowConfidencePages, setOcrEngine, TesseractOcrEngine } from '../../services/Ocr';
+
+describe('Ocr', () => {
+  afterAll(() => {
+    setOcrEngine(null);
+  });
+
+  it('should read a scanned page with the bundled tesseract engine', async () => {
+    setOcrEngine(new TesseractOcrEngine());
+
+    const extracted = await findExtractor({ originalname: 'scanned.pdf' })!
+      .extract(readFileSync(join(__dirname, '../fixtures/uploads/scanned.pdf')));
+
+    expect(extracted.text).toMatch(/CYCLE\nFIXES CARBO. DIO.IDE\nINTO GLUCOSE$/);
+    expect(extracted.ocr!.engine).toBe('tesseract-eng');
+    expect(extracted.ocr!.pages).toEqual([{ page: 2, confidence: expect.any(Number) }]);
+    expect(extracted.ocr!.pages[0].confidence).toBeGreaterThan(0);
+    expect(extracted.ocr!.pages[0].confidence).toBeLessThanOrEqual(100);
+  }, 60000);
+
+  it('should flag pages below the confidence threshold', () => {
+    expect(lowConfidencePages(undefined)).toEqual([]);
+    expect(lowConfidencePages({
+      engine: 'tesseract-eng',
+      pages: [{ page: 1, confidence: 92 }, { page: 2, confidence: 41 }, { page: 3, confidence: 60 }],
+    })).toEqual([{ page: 2, confidence: 41 }]);
+  });
+});
@@ -0,0 +1,164 @@
+// 🎃 GhostFrame Quiz Format Tests
+// Every export format must read back into the same questions
+
+import { GeneratedQuiz } from '../../controllers/quizGenerator';
+import { parseCsv, parseGift, parseQti, toCsv, toGift, toQtiItems, toQtiPackage } from '../../services/QuizFormats';
+
+const quiz: GeneratedQuiz = {
+  metadata: {
+    quizId: 'quiz_formats',
+    contentId: 'content_formats',
+    title: 'Plants & "Light"',
+    totalQuestions: 3,
+    difficulty: 'medium',
+    topics: ['Photosynthesis'],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  questions: [
+    {
+      id: 'q1',
+      type: 'multiple-choice',
+      question: 'Which pigment {the green one} absorbs light: a = b?',
+      options: ['A) Carotene', 'B) Chlorophyll, "a" & b', 'C) Melanin ~ brown', 'D) Keratin #4'],
+      correctAnswer: 'B',
+      explanation: 'Chlorophyll absorbs red and blue light.\nIt reflects green.',
+      points: 2,
+      difficulty: 'medium',
+    },
+    {
+      id: 'q2',
+      type: 'true-false',
+      question: 'Photosynthesis releases oxygen.',
+      correctAnswer: 'True',
+      explanation: 'Water is split and oxygen is released.',
+      points: 1,
+      difficulty: 'easy',
+    },
+    {
+      id: 'q3',
+      type: 'short-answer',
+      question: 'What sugar does photosynthesis produce?',
+      correctAnswer: 'Glucose',
+      explanation: 'Light energy is stored as <glucose>.',
+      points: 3,
+      difficulty: 'hard',
+    },
+  ],
+};
+
+describe('QuizFormats', () => {
+  describe.each([
+    ['GIFT', () => parseGift(toGift(quiz))],
+    ['CSV', () => parseCsv(toCsv(quiz))],
+  ])('%s round trip', (_, roundTrip) => {
+    it('should preserve every question, answer, explanation and point value', () => {
+      const { questions, errors } = roundTrip();
+
+      expect(errors).toEqual([]);
+      expect(questions).toEqual(quiz.questions);
+    });
+  });
+
+  describe('QTI round trip', () => {
+    it('should preserve every question, answer, explanation and point value', () => {
+      const items = toQtiItems(quiz);
+      const { questions, errors } = parseQti(items.map(item => item.xml).join('\n'));
+
+      expect(items.map(item => item.href)).toEqual(['items/q1.xml', 'items/q2.xml', 'items/q3.xml']);
+      expect(errors).toEqual([]);
+      expect(questions).toEqual(quiz.questions);
+    });
+
+    it('should write QTI 2.1 items with scored response processing', () => {
+      const [choiceItem, , textItem] = toQtiItems(quiz);
+
+      expect(choiceItem.xml).toContain('xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"');
+      expect(choiceItem.xml).toContain('<simpleChoice identifier="B">Chlorophyll, &quot;a&quot; &amp; b</simpleChoice>');
+      expect(choiceItem.xml).toContain('<baseValue baseType="float">2</baseValue>');
+      expect(textItem.xml).toContain('<stringMatch caseSensitive="false">');
+      expect(textItem.xml).toContain('Light energy is stored as &lt;glucose&gt;.');
+    });
+
+    it('should bundle a manifest, test and items into a content package', async () => {
+      const zip = await toQtiPackage(quiz);
+
+      // Zip signature, with entry names stored uncompressed in the central directory
+      expect(zip.subarray(0, 2).toString()).toBe('PK');
+      for (const name of ['imsmanifest.xml', 'tests/quiz_formats.xml', 'items/q1.xml', 'items/q3.xml']) {
+        expect(zip.includes(name)).toBe(true);
+      }
+    });
+  });
+
+  describe('GIFT', () => {
+    it('should escape GIFT control characters', () => {
+      const gift = toGift(quiz);
+
+      expect(gift).toContain('::q1::Which pigment \\{the green one\\} absorbs light\\: a \\= b? {');
+      expect(gift).toContain('  ~Melanin \\~ brown');
+      expect(gift).toContain('####Chlorophyll absorbs red and blue light.\\nIt reflects green.');
+    });
+
+    it('should read hand-written Moodle questions', () => {
+      const { questions, errors } = parseGift([
+        '$CATEGORY: $course$/Biology',
+        '',
+        'Grant is buried in Grant\'s tomb. {F#No one is buried there.}',
+        '',
+        '::Colour:: What colour is chlorophyll? {~red =green#Yes! ~%50%blue ####Think of leaves.}',
+        '',
+        'Two plus two equals {=four =4}.',
+      ].join('\n'), 'easy');
+
+      expect(errors).toEqual([]);
+      expect(questions).toEqual([
+        expect.objectContaining({ id: 'q1', type: 'true-false', correctAnswer: 'False', points: 1 }),
+        expect.objectContaining({
+          id: 'Colour',
+          type: 'multiple-choice',
+          options: ['A) red', 'B) green', 'C) blue'],
+          correctAnswer: 'B',
+          explanation: 'Think of leaves.',
+        }),
+        expect.objectContaining({ id: 'q3', type: 'short-answer', question: 'Two plus two equals .', correctAnswer: 'four' }),
+      ]);
+    });
+
+    it('should report unparseable questions and keep the rest', () => {
+      const { questions, errors } = parseGift('No answers here\n\nMatch {=cat -> meow =dog -> woof}\n\nOk? {T}');
+
+      expect(questions).toHaveLength(1);
+      expect(errors).toEqual([
+        { index: 1, message: 'Missing {answer} block' },
+        { index: 2, message: 'Matching questions are not supported' },
+      ]);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should quote fields containing commas, quotes and newlines', () => {
+      const [header, firstRow] = toCsv(quiz).split('\r\n');
+
+      expect(header).toBe('id,type,question,option_a,option_b,option_c,option_d,correct_answer,explanation,points,difficulty');
+      expect(firstRow).toContain('"Chlorophyll, ""a"" & b"');
+      expect(firstRow).toContain('"Chlorophyll absorbs red and blue light.\nIt reflects green."');
+    });
+
+    it('should accept answers given as option text and report bad rows', () => {
+      const { questions, errors } = parseCsv([
+        'Question,Option A,Option B,Correct Answer,Type',
+        'Green pigment?,Carotene,Chlorophyll,chlorophyll,',
+        'Sky is green?,,,maybe,true-false',
+        'Pick one,Red,Blue,Purple,multiple-choice',
+      ].join('\n'));
+
+      expect(questions).toEqual([
+        expect.objectContaining({ id: 'q1', type: 'multiple-choice', correctAnswer: 'B', points: 2 }),
+      ]);
+      expect(errors).toEqual([
+        { index: 2, message: 'correct_answer "maybe" must be True or False' },
+        { index: 3, message: 'correct_answer "Purple" does not match any option' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+// 🎃 GhostFrame Spaced Repetition Tests
+// SM-2 scheduling driven by a fake clock
+
+import { CardSchedule, ReviewGrade, SpacedRepetitionScheduler } from '../../services/SpacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SpacedRepetitionScheduler', () => {
+  let now: Date;
+  let scheduler: SpacedRepetitionScheduler;
+
+  const advanceDays = (days: number) => {
+    now = new Date(now.getTime() + days * DAY_MS);
+  };
+
+  const reviewAll = (schedule: CardSchedule, grades: ReviewGrade[]) =>
+    grades.reduce((current, grade) => scheduler.review(current, grade), schedule);
+
+  beforeEach(() => {
+    now = new Date('2024-03-01T09:00:00Z');
+    scheduler = new SpacedRepetitionScheduler(() => now);
+  });
+
+  it('should make new cards due immediately', () => {
+    const schedule = scheduler.createSchedule('deck_1', 'card_1');
+
+    expect(schedule).toMatchObject({ easeFactor: 2.5, interval: 0, repetitions: 0, history: [] });
+    expect(schedule.dueAt).toEqual(now);
+    expect(scheduler.isDue(schedule)).toBe(true);
+  });
+
+  it('should grow intervals 1, 6, then by the ease factor on good recalls', () => {
+    let schedule = scheduler.createSchedule('deck_1', 'card_1');
+
+    schedule = scheduler.review(schedule, 4);
+    expect(schedule.interval).toBe(1);
+    expect(schedule.dueAt).toEqual(new Date('2024-03-02T09:00:00Z'));
+
+    advanceDays(1);
+    schedule = scheduler.review(schedule, 4);
+    expect(schedule.interval).toBe(6);
+
+    advanceDays(6);
+    schedule = scheduler.review(schedule, 4);
+    expect(schedule.interval).toBe(15); // round(6 * 2.5)
+    expect(schedule.repetitions).toBe(3);
+    expect(schedule.easeFactor).toBe(2.5);
+    expect(schedule.dueAt).toEqual(new Date(now.getTime() + 15 * DAY_MS));
+  });
+
+  it('should raise the ease factor for perfect recalls and lower it for hard ones', () => {
+    const start = scheduler.createSchedule('deck_1', 'card_1');
+
+    expect(scheduler.review(start, 5).easeFactor).toBe(2.6);
+    expect(scheduler.review(start, 3).easeFactor).toBe(2.36);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    const schedule = reviewAll(scheduler.createSchedule('deck_1', 'card_1'), [0, 0, 0, 0, 0, 0, 0, 0]);
+
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+
+  it('should restart repetitions when a card is forgotten', () => {
+    let schedule = reviewAll(scheduler.createSchedule('deck_1', 'card_1'), [5, 5, 5]);
+    expect(schedule.repetitions).toBe(3);
+
+    schedule = scheduler.review(schedule, 2);
+
+    expect(schedule.repetitions).toBe(0);
+    expect(schedule.interval).toBe(1);
+    expect(schedule.history.map(record => record.grade)).toEqual([5, 5, 5, 2]);
+  });
+
+  it('should report due status as the clock moves', () => {
+    const schedule = scheduler.review(scheduler.createSchedule('deck_1', 'card_1'), 4);
+    expect(scheduler.isDue(schedule)).toBe(false);
+
+    advanceDays(0.5);
+    expect(scheduler.isDue(schedule)).toBe(false);
+
+    advanceDays(0.5);
+    expect(scheduler.isDue(schedule)).toBe(true);
+  });
+
+  it('should reject grades outside 0-5', () => {
+    const schedule = scheduler.createSchedule('deck_1', 'card_1');
+
+    expect(() => scheduler.review(schedule, 6 as ReviewGrade)).toThrow('integer from 0 to 5');
+    expect(() => scheduler.review(schedule, 2.5 as ReviewGrade)).toThrow('integer from 0 to 5');
+  });
+});
@@ -0,0 +1,177 @@
+// 🎃 GhostFrame Story Export Tests
+// EPUB packages are unzipped and checked against the EPUB 3 container rules
+
+import * as cheerio from 'cheerio';
+import { GeneratedStory } from '../../controllers/storyGenerator';
+import { storyChapters, toEpub, toHtml, toMarkdown } from '../../services/StoryExport';
+import { unzip, UnzippedEntry } from '../helpers/unzip';
+
+const buildStory = (content: string, overrides: Partial<GeneratedStory> = {}): GeneratedStory => ({
+  metadata: {
+    storyId: 'story_export',
+    contentId: 'content_export',
+    title: 'The Leaf & the "Light"',
+    theme: 'adventure',
+    targetAudience: 'children',
+    length: 'short',
+    wordCount: 120,
+    estimatedReadingTime: 1,
+    createdAt: new Date('2024-05-06T07:08:09.123Z'),
+  },
+  content,
+  summary: 'A leaf learns to <eat> sunlight.',
+  moralOrLesson: 'Energy comes from the sun.',
+  ...overrides,
+});
+
+const CHAPTERED = [
+  '# The Leaf & the "Light"',
+  '',
+  'Chapter 1: Dawn',
+  '',
+  'Lily the leaf woke up *hungry*.',
+  'The sun rose.',
+  '',
+  'Part of her wanted breakfast.',
+  '',
+  '## Chapter 2 - Noon',
+  '',
+  'She drank the **light** & grew.',
+].join('\n');
+
+describe('StoryExport', () => {
+  describe('storyChapters', () => {
+    it('should split at chapter headings and skip a repeated title', () => {
+      expect(storyChapters(buildStory(CHAPTERED))).toEqual([
+        { title: 'Chapter 1: Dawn', paragraphs: ['Lily the leaf woke up *hungry*.\nThe sun rose.', 'Part of her wanted breakfast.'] },
+        { title: 'Chapter 2 - Noon', paragraphs: ['She drank the **light** & grew.'] },
+      ]);
+    });
+
+    it('should prefer the generated chapters over headings in the text', () => {
+      const story = buildStory('## Ignored\n\nFlattened text.', {
+        chapters: [
+          { title: 'Dawn', synopsis: 'Morning.', keyPoints: [], content: 'Lily woke.\n\nShe was  \n hungry.', wordCount: 5 },
+          { title: 'Noon', synopsis: 'Lunch.', keyPoints: [], content: 'She ate light.', wordCount: 3 },
+        ],
+      });
+
+      expect(storyChapters(story)).toEqual([
+        { title: 'Dawn', paragraphs: ['Lily woke.', 'She was\nhungry.'] },
+        { title: 'Noon', paragraphs: ['She ate light.'] },
+      ]);
+    });
+
+    it('should keep unheaded stories as one chapter named after the story', () => {
+      expect(storyChapters(buildStory('Once upon a time.\n\nThe end.'))).toEqual([
+        { title: 'The Leaf & the "Light"', paragraphs: ['Once upon a time.', 'The end.'] },
+      ]);
+    });
+  });
+
+  describe('EPUB', () => {
+    let entries: UnzippedEntry[];
+    const file = (name: string) => {
+      const entry = entries.find(candidate => candidate.name === name);
+      if (!entry) throw new Error(`Missing ${name}`);
+      return entry.content.toString('utf-8');
+    };
+
+    beforeAll(async () => {
+      entries = unzip(await toEpub(buildStory(CHAPTERED)));
+    });
+
+    it('should start with an uncompressed mimetype entry', () => {
+      expect(entries[0]).toMatchObject({ name: 'mimetype', method: 0 });
+      expect(entries[0].content.toString()).toBe('application/epub+zip');
+    });
+
+    it('should point the container at the package document', () => {
+      const $ = cheerio.load(file('META-INF/container.xml'), { xml: true });
+      const rootfile = $('rootfile');
+
+      expect(rootfile.attr('media-type')).toBe('application/oebps-package+xml');
+      expect(rootfile.attr('full-path')).toBe('OEBPS/content.opf');
+    });
+
+    it('should describe the book with EPUB 3 package metadata', () => {
+      const $ = cheerio.load(file('OEBPS/content.opf'), { xml: true });
+      const identifierId = $('package').attr('unique-identifier');
+
+      expect($('package').attr('version')).toBe('3.0');
+      expect($(`dc\\:identifier[id="${identifierId}"]`).text()).toBe('urn:ghostframe:story:story_export');
+      expect($('dc\\:title').text()).toBe('The Leaf & the "Light"');
+      expect($('dc\\:language').text()).toBe('en');
+      expect($('meta[property="dcterms:modified"]').text()).toBe('2024-05-06T07:08:09Z');
+    });
+
+    it('should list every file in the manifest and read cover, chapters and lesson in order', () => {
+      const $ = cheerio.load(file('OEBPS/content.opf'), { xml: true });
+      const items = $('manifest item').toArray().map(item => $(item).attr());
+
+      for (const item of items) {
+        expect(entries.map(entry => entry.name)).toContain(`OEBPS/${item!.href}`);
+      }
+      expect(items.filter(item => item!.properties === 'nav').map(item => item!.href)).toEqual(['nav.xhtml']);
+
+      const spine = $('spine itemref').toArray().map(itemref => $(itemref).attr('idref'));
+      expect(spine).toEqual(['cover', 'chapter-1', 'chapter-2', 'lesson']);
+      spine.forEach(idref => expect(items.map(item => item!.id)).toContain(idref));
+    });
+
+    it('should write XHTML chapters with a table of contents', () => {
+      const chapter = file('OEBPS/chapter-2.xhtml');
+      expect(chapter).toContain('<html xmlns="http://www.w3.org/1999/xhtml"');
+      expect(chapter).toContain('<p>She drank the <strong>light</strong> &amp; grew.</p>');
+
+      const $ = cheerio.load(file('OEBPS/nav.xhtml'), { xml: true });
+      expect($('nav[epub\\:type="toc"] a').toArray().map(link => $(link).text())).toEqual([
+        'Chapter 1: Dawn',
+        'Chapter 2 - Noon',
+        'The Lesson',
+      ]);
+
+      expect(file('OEBPS/cover.xhtml')).toContain('A leaf learns to &lt;eat&gt; sunlight.');
+    });
+  });
+
+  describe('HTML', () => {
+    it('should produce a standalone print-styled page', () => {
+      const html = toHtml(buildStory(CHAPTERED));
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('@page { size: A5;');
+      expect(html).toContain('<h1>The Leaf &amp; the &quot;Light&quot;</h1>');
+      expect(html.match(/<section class="chapter">/g)).toHaveLength(2);
+      expect(html).toContain('<p>Lily the leaf woke up <em>hungry</em>.<br/>The sun rose.</p>');
+      expect(html).toContain('<section class="lesson">');
+    });
+  });
+
+  describe('Markdown', () => {
+    it('should write the title, summary, chapters and lesson', () => {
+      expect(toMarkdown(buildStory(CHAPTERED))).toBe([
+        '# The Leaf & the "Light"',
+        '',
+        '*An adventure story for children · 1 min read*',
+        '',
+        '> A leaf learns to <eat> sunlight.',
+        '',
+        '## Chapter 1: Dawn',
+        '',
+        'Lily the leaf woke up *hungry*.\nThe sun rose.',
+        '',
+        'Part of her wanted breakfast.',
+        '',
+        '## Chapter 2 - Noon',
+        '',
+        'She drank the **light** & grew.',
+        '',
+        '---',
+        '',
+        '**Lesson:** Energy comes from the sun.',
+        '',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,11 @@
+// 🎃 GhostFrame Backend Test Setup
+// Every suite runs against an isolated in-memory SQLite store
+
+process.env.NODE_ENV = 'test';
+process.env.DB_DRIVER = 'sqlite';
+process.env.SQLITE_PATH = ':memory:';
+
+afterAll(async () => {
+  const { closeDatabase } = await import('../database');
+  await closeDatabase();
+});
@@ -15,6 +15,8 @@ interface EnvConfig {
 
   // Database
   db: {
+    driver: 'sqlite' | 'postgres';
+    sqlitePath: string;
     host: string;
     port: number;
     name: string;
@@ -65,6 +67,12 @@ interface EnvConfig {
     enabled: boolean;
   };
 
+  // AI generation cache
+  generationCache: {
+    ttlSeconds: number;
+    maxEntries: number;
+  };
+
   // Email (Optional)
   email: {
     host?: string;
@@ -127,6 +135,8 @@ function loadConfig(): EnvConfig {
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
 
     db: {
+      driver: process.env.DB_DRIVER === 'postgres' ? 'postgres' : 'sqlite',
+      sqlitePath: process.env.SQLITE_PATH || './data/ghostframe.db',
       host: process.env.DB_HOST || 'localhost',
       port: parseInt(process.env.DB_PORT || '5432'),
       name: process.env.DB_NAME || 'ghostframe',
@@ -172,6 +182,11 @@ function loadConfig(): EnvConfig {
       enabled: process.env.REDIS_ENABLED === 'true',
     },
 
+    generationCache: {
+      ttlSeconds: parseInt(process.env.AI_CACHE_TTL_SECONDS || '3600'),
+      maxEntries: parseInt(process.env.AI_CACHE_MAX_ENTRIES || '500'),
+    },
+
     email: {
       host: process.env.SMTP_HOST,
       port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : undefined,
@@ -204,6 +219,7 @@ if (process.env.NODE_ENV !== 'test') {
   console.log('✅ Environment configuration loaded:');
   console.log(`   - Environment: ${config.nodeEnv}`);
   console.log(`   - Port: ${config.port}`);
+  console.log(`   - Database: ${config.db.driver}`);
   console.log(`   - Groq: ${config.groq.enabled ? 'Enabled' : 'Disabled'}`);
   console.log(`   - OpenAI: ${config.openai.enabled ? 'Enabled' : 'Disabled'}`);
   console.log(`   - Anthropic: ${config.anthropic.enabled ? 'Enabled' : 'Disabled'}`);
@@ -0,0 +1,363 @@
+import { ContentProcessor } from './contentProcessor';
+import { ContentCollections } from './contentCollections';
+import {
+  AUDIENCE_GUIDANCE,
+  describeStoryOptions,
+  GeneratedStory,
+  getGeneratedStory,
+  saveGeneratedStory,
+  StoryChoice,
+  StoryGenerationRequest,
+  StoryGraph,
+  StoryLength,
+  StoryScene,
+  storySource
+} from './storyGenerator';
+import { AIRouter, GenerateOptions } from '../services/AIRouter';
+import { isRecord, requestStructuredOutput, ValidationResult } from '../services/StructuredOutput';
+
+// 🎃 Branching Story Generator - "choose your path" stories written one scene at a time
+
+interface GeneratedScene {
+  title?: string;
+  summary?: string;
+  scene: string;
+  choices: string[];
+}
+
+export interface ExploredChoice {
+  story: GeneratedStory;
+  scene: StoryScene;
+  /** False when another reader already walked this branch */
+  created: boolean;
+}
+
+// Scenes on the longest path through the story
+const BRANCH_DEPTH: Record<StoryLength, number> = {
+  short: 3,
+  medium: 4,
+  long: 6
+};
+
+const WORDS_PER_SCENE = 200;
+
+// Characters of each earlier scene shown to the model; the latest scene is sent whole
+const PATH_CONTEXT = 400;
+
+// Latest pending save per story, so scenes written at the same time are merged one after another
+const pendingSaves = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `work` once every earlier save of the story in this process has finished
+ */
+const serializeSaves = async <T>(storyId: string, work: () => Promise<T>): Promise<T> => {
+  const saving = (pendingSaves.get(storyId) || Promise.resolve()).catch(() => undefined).then(work);
+  pendingSaves.set(storyId, saving);
+  try {
+    return await saving;
+  } finally {
+    if (pendingSaves.get(storyId) === saving) pendingSaves.delete(storyId);
+  }
+};
+
+/**
+ * Scene and choice ids keep their position for readability plus a random suffix, so scenes written
+ * concurrently from the same version of the story never share an id
+ */
+const graphId = (prefix: 'scene' | 'choice', position: number): string =>
+  `${prefix}_${position}_${Math.random().toString(36).substring(2, 8)}`;
+
+const OPENING_SCHEMA = `{
+  "title": "Story title (maximum 10 words)",
+  "summary": "One sentence premise",
+  "scene": "The opening scene as prose",
+  "choices": ["2-3 short actions the reader can choose next"]
+}`;
+
+const SCENE_SCHEMA = `{
+  "scene": "The next scene as prose",
+  "choices": ["2-3 short actions the reader can choose next"]
+}`;
+
+const ENDING_SCHEMA = `{
+  "scene": "The final scene as prose",
+  "choices": []
+}`;
+
+export class BranchingStoryGenerator {
+  private static aiRouter = new AIRouter();
+
+  /**
+   * Route generation through another router, e.g. one pointed at a test provider; null restores the default
+   */
+  static setAIRouter(router: AIRouter | null): void {
+    BranchingStoryGenerator.aiRouter = router || new AIRouter();
+  }
+
+  /**
+   * Write the opening scene and its choices; later scenes are written as readers pick branches
+   */
+  static async startStory(request: StoryGenerationRequest): Promise<GeneratedStory> {
+    const content = await ContentCollections.loadSourceContent(request);
+
+    const maxDepth = BRANCH_DEPTH[request.length];
+    console.log(`🔀 Story Spirit opening a ${maxDepth}-scene branching ${request.theme} story`);
+
+    const prompt = `You are a creative storyteller starting an interactive "choose your path" ${request.theme} story for ${request.targetAudience}. The reader decides what happens next at the end of every scene.
+
+**Story Requirements:**
+- Theme: ${request.theme}
+- Target Audience: ${request.targetAudience}
+- Scene Length: about ${WORDS_PER_SCENE} words
+- Writing Style: ${AUDIENCE_GUIDANCE[request.targetAudience]}
+- Every path should reach an ending within ${maxDepth} scenes
+
+**Source Content to Base Story On:**
+${ContentProcessor.selectRelevantText(content, request.focusTopics, 2000)}
+
+**Instructions:**
+1. Write the opening scene, introducing the characters, setting and a problem rooted in the source content
+2. End at a decision point and offer 2-3 distinct choices, each leading somewhere different${describeStoryOptions(request)}
+
+Respond with ONLY valid JSON matching this schema:
+${OPENING_SCHEMA}`;
+
+    const opening = await this.requestScene(prompt, OPENING_SCHEMA, false, true, request.cache === false, request.signal);
+    const graph: StoryGraph = { startSceneId: '', maxDepth, scenes: [], choices: [] };
+    const scene = this.addScene(graph, opening, 1, false);
+    graph.startSceneId = scene.sceneId;
+
+    return {
+      metadata: {
+        storyId: `story_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        contentId: request.contentId || '',
+        ...(request.collectionId && { collectionId: request.collectionId }),
+        ...(request.sectionIds && { sectionIds: request.sectionIds }),
+        title: opening.title!,
+        theme: request.theme,
+        targetAudience: request.targetAudience,
+        length: request.length,
+        wordCount: scene.wordCount,
+        estimatedReadingTime: Math.ceil(scene.wordCount / 200),
+        createdAt: new Date()
+      },
+      content: scene.content,
+      summary: opening.summary!,
+      branching: graph
+    };
+  }
+
+  /**
+   * Follow a choice, writing and saving the scene it leads to the first time anyone picks it
+   */
+  static async exploreChoice(story: GeneratedStory, choiceId: string): Promise<ExploredChoice> {
+    const graph = story.branching;
+    const choice = graph?.choices.find(candidate => candidate.choiceId === choiceId);
+    if (!graph || !choice) {
+      throw new Error(`Choice not found: ${choiceId}`);
+    }
+
+    if (choice.toSceneId) {
+      return { story, scene: this.findScene(graph, choice.toSceneId), created: false };
+    }
+
+    const from = this.findScene(graph, choice.fromSceneId);
+    const depth = from.depth + 1;
+    const isEnding = depth >= graph.maxDepth;
+    const path = this.pathTo(graph, from.sceneId);
+
+    console.log(`🔀 Story Spirit writing scene ${depth} of ${story.metadata.storyId} after "${choice.label}"`);
+
+    const content = await ContentCollections.findSourceContent(storySource(story));
+    const sourceText = content ? ContentProcessor.selectRelevantText(content, [], 1500) : story.summary;
+    const schema = isEnding ? ENDING_SCHEMA : SCENE_SCHEMA;
+
+    const storySoFar = path
+      .map(({ scene, choice: taken }, index) => {
+        const text = index === path.length - 1 ? scene.content : `${scene.content.substring(0, PATH_CONTEXT)}...`;
+        return `Scene ${scene.depth}:\n${text}${taken ? `\n\nThe reader chose: ${taken.label}` : ''}`;
+      })
+      .join('\n\n');
+
+    const prompt = `You are a creative storyteller continuing an interactive "choose your path" ${story.metadata.theme} story for ${story.metadata.targetAudience}, titled "${story.metadata.title}".
+
+**Story Requirements:**
+- Scene Length: about ${WORDS_PER_SCENE} words
+- Writing Style: ${AUDIENCE_GUIDANCE[story.metadata.targetAudience]}
+
+**Source Content to Base Story On:**
+${sourceText.substring(0, 1500)}
+
+**The Story So Far:**
+${storySoFar}
+
+The reader chose: ${choice.label}
+
+**Instructions:**
+${isEnding
+    ? `Write the final scene (scene ${depth} of ${graph.maxDepth}) showing the consequences of that choice. Bring this path to a satisfying ending that reflects the lesson of the source content, and offer no further choices.`
+    : `Write scene ${depth} of ${graph.maxDepth}, following directly from that choice. End at a new decision point and offer 2-3 distinct choices.`}
+
+Respond with ONLY valid JSON matching this schema:
+${schema}`;
+
+    const generated = await this.requestScene(prompt, schema, isEnding, false);
+    return this.saveScene(story.metadata.storyId, choiceId, generated, depth, isEnding);
+  }
+
+  /**
+   * Add a written scene to the latest saved version of the story. Other readers may have saved scenes
+   * while this one was being written, so only the new scene and its choice link are merged in; when
+   * someone else already wrote this branch, their scene is kept and this one dropped.
+   */
+  private static saveScene(
+    storyId: string,
+    choiceId: string,
+    generated: GeneratedScene,
+    depth: number,
+    isEnding: boolean
+  ): Promise<ExploredChoice> {
+    return serializeSaves(storyId, async () => {
+      const latest = await getGeneratedStory(storyId);
+      const graph = latest?.branching;
+      const choice = graph?.choices.find(candidate => candidate.choiceId === choiceId);
+      if (!graph || !choice) {
+        throw new Error(`Story ${storyId} changed while the scene was written`);
+      }
+
+      if (choice.toSceneId) {
+        return { story: latest, scene: this.findScene(graph, choice.toSceneId), created: false };
+      }
+
+      const updatedGraph: StoryGraph = {
+        ...graph,
+        scenes: [...graph.scenes],
+        choices: graph.choices.map(candidate => ({ ...candidate }))
+      };
+      const scene = this.addScene(updatedGraph, generated, depth, isEnding);
+      updatedGraph.choices.find(candidate => candidate.choiceId === choiceId)!.toSceneId = scene.sceneId;
+
+      const wordCount = updatedGraph.scenes.reduce((sum, candidate) => sum + candidate.wordCount, 0);
+      const story: GeneratedStory = {
+        ...latest,
+        metadata: {
+          ...latest.metadata,
+          wordCount,
+          estimatedReadingTime: Math.ceil(wordCount / 200)
+        },
+        branching: updatedGraph
+      };
+
+      await saveGeneratedStory(story);
+      return { story, scene, created: true };
+    });
+  }
+
+  private static async requestScene(
+    prompt: string,
+    schema: string,
+    isEnding: boolean,
+    isOpening: boolean,
+    bypassCache = false,
+    signal?: AbortSignal
+  ): Promise<GeneratedScene> {
+    const options: GenerateOptions = {
+      prompt,
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      temperature: 0.8,
+      maxTokens: WORDS_PER_SCENE * 3,
+      bypassCache,
+      signal
+    };
+
+    const { value } = await requestStructuredOutput({
+      prompt,
+      ask: async askPrompt => (await this.aiRouter.generate({ ...options, prompt: askPrompt, bypassCache: bypassCache || askPrompt !== prompt })).text,
+      validate: data => this.validateScene(data, isEnding, isOpening),
+      schemaDescription: schema
+    });
+
+    return value;
+  }
+
+  private static validateScene(data: unknown, isEnding: boolean, isOpening: boolean): ValidationResult<GeneratedScene> {
+    const raw = isRecord(data) ? data : {};
+    const issues: string[] = [];
+
+    const scene = typeof raw.scene === 'string' ? raw.scene.trim() : '';
+    if (!scene) issues.push('"scene" must be non-empty prose');
+
+    const choices: string[] = Array.isArray(raw.choices)
+      ? raw.choices
+        .map((choice: unknown) => (typeof choice === 'string' ? choice.trim() : ''))
+        .filter(Boolean)
+        .slice(0, 3)
+      : [];
+    if (!isEnding && choices.length < 2) issues.push('"choices" must list 2-3 options');
+
+    const title = typeof raw.title === 'string' ? raw.title.trim().replace(/^["']|["']$/g, '') : '';
+    const summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+    if (isOpening) {
+      if (!title) issues.push('"title" is required');
+      if (!summary) issues.push('"summary" is required');
+    }
+
+    if (issues.length > 0) return { issues };
+
+    return {
+      value: {
+        title: isOpening ? title : undefined,
+        summary: isOpening ? summary : undefined,
+        scene,
+        choices: isEnding ? [] : choices
+      },
+      issues
+    };
+  }
+
+  private static addScene(graph: StoryGraph, generated: GeneratedScene, depth: number, isEnding: boolean): StoryScene {
+    const scene: StoryScene = {
+      sceneId: graphId('scene', graph.scenes.length + 1),
+      content: generated.scene,
+      depth,
+      isEnding,
+      wordCount: generated.scene.split(/\s+/).filter(Boolean).length
+    };
+    graph.scenes.push(scene);
+
+    for (const label of generated.choices) {
+      graph.choices.push({
+        choiceId: graphId('choice', graph.choices.length + 1),
+        fromSceneId: scene.sceneId,
+        toSceneId: null,
+        label
+      });
+    }
+
+    return scene;
+  }
+
+  private static findScene(graph: StoryGraph, sceneId: string): StoryScene {
+    const scene = graph.scenes.find(candidate => candidate.sceneId === sceneId);
+    if (!scene) {
+      throw new Error(`Scene not found: ${sceneId}`);
+    }
+    return scene;
+  }
+
+  /**
+   * Scenes from the opening to `sceneId`, each with the choice the reader took out of it
+   */
+  private static pathTo(graph: StoryGraph, sceneId: string): { scene: StoryScene; choice?: StoryChoice }[] {
+    const path: { scene: StoryScene; choice?: StoryChoice }[] = [{ scene: this.findScene(graph, sceneId) }];
+
+    while (path[0].scene.sceneId !== graph.startSceneId) {
+      const incoming = graph.choices.find(choice => choice.toSceneId === path[0].scene.sceneId);
+      if (!incoming) break;
+      path.unshift({ scene: this.findScene(graph, incoming.fromSceneId), choice: incoming });
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,173 @@
+import { ProcessedContent } from './contentProcessor';
+import { ContentSearchIndex } from './contentSearch';
+import { DocumentRepository } from '../database/DocumentRepository';
+import { AIRouter } from '../services/AIRouter';
+import { ConversationEntry } from '../types/framework';
+
+// 🎃 Document Chat - questions answered from retrieved passages of one upload, with citations
+
+export interface ChatCitation {
+  /** `${contentId}:${chunkIndex}`, the same id the search index uses */
+  chunkId: string;
+  chunkIndex: number;
+  heading?: string;
+  /** Character range of the passage within the content's `processedText` */
+  start: number;
+  end: number;
+}
+
+export interface ChatSession {
+  sessionId: string;
+  contentId: string;
+  history: ConversationEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatReply {
+  session: ChatSession;
+  answer: string;
+  citations: ChatCitation[];
+}
+
+interface Passage extends ChatCitation {
+  text: string;
+}
+
+export const MAX_QUESTION_LENGTH = 2000;
+
+// Passages retrieved for each question
+const PASSAGE_LIMIT = 4;
+
+// Earlier turns shown to the model so follow-up questions make sense
+const HISTORY_TURNS = 6;
+
+export class ContentChat {
+  private static aiRouter = new AIRouter();
+
+  /**
+   * Route generation through another router, e.g. one pointed at a test provider; null restores the default
+   */
+  static setAIRouter(router: AIRouter | null): void {
+    ContentChat.aiRouter = router || new AIRouter();
+  }
+
+  /**
+   * Answer a question about the content, continuing the session when one is given
+   */
+  static async ask(content: ProcessedContent, question: string, session?: ChatSession | null): Promise<ChatReply> {
+    const current: ChatSession = session || {
+      sessionId: `chat_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      contentId: content.contentId,
+      history: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const passages = await this.retrievePassages(content, this.retrievalQuery(question, current.history));
+    console.log(`💬 Chat ${current.sessionId}: answering from ${passages.length} passages of ${content.contentId}`);
+
+    const conversation = current.history
+      .slice(-HISTORY_TURNS)
+      .map(entry => `${entry.role === 'user' ? 'Learner' : 'Tutor'}: ${entry.content}`)
+      .join('\n');
+
+    const prompt = `You are a helpful tutor answering questions about the document "${content.metadata.title || content.originalFilename}".
+
+**Passages from the document:**
+${passages.map((passage, index) => `[${index + 1}]${passage.heading ? ` (${passage.heading})` : ''} ${passage.text}`).join('\n\n')}
+${conversation ? `\n**Conversation so far:**\n${conversation}\n` : ''}
+**Question:** ${question}
+
+**Instructions:**
+1. Answer using only the passages above
+2. Cite the passages you rely on with their numbers in square brackets, e.g. [1] or [2][3]
+3. If the passages do not contain the answer, say that the document does not cover it
+4. Keep the answer concise and clear
+
+Answer:`;
+
+    const response = await this.aiRouter.generate({
+      prompt,
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      temperature: 0.3,
+      maxTokens: 600
+    });
+    const answer = response.text.trim();
+
+    const cited = Array.from(new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1]))))
+      .filter(number => number >= 1 && number <= passages.length)
+      .map(number => passages[number - 1]);
+    // An answer without markers was still written from the retrieved passages
+    const citations = (cited.length > 0 ? cited : passages).map(({ text, ...citation }) => citation);
+
+    const now = new Date();
+    return {
+      session: {
+        ...current,
+        history: [
+          ...current.history,
+          { timestamp: now, role: 'user', content: question },
+          { timestamp: now, role: 'assistant', content: answer, metadata: { citations } }
+        ],
+        updatedAt: now
+      },
+      answer,
+      citations
+    };
+  }
+
+  /**
+   * Follow-ups like "why?" retrieve poorly alone, so the previous question rides along
+   */
+  private static retrievalQuery(question: string, history: ConversationEntry[]): string {
+    const previous = [...history].reverse().find(entry => entry.role === 'user');
+    return previous ? `${question} ${previous.content}` : question;
+  }
+
+  private static async retrievePassages(content: ProcessedContent, query: string): Promise<Passage[]> {
+    const results = await ContentSearchIndex.search(query, { contentId: content.contentId, limit: PASSAGE_LIMIT });
+    const chunks = results.length > 0
+      ? results
+      // Nothing matched: give the model the opening of the document so it can say what is covered
+      : ContentSearchIndex.chunksOf(content).slice(0, 2).map(chunk => ({
+        chunkIndex: chunk.index,
+        heading: chunk.heading,
+        text: chunk.text,
+        start: chunk.start ?? 0,
+        end: chunk.end ?? content.processedText.length
+      }));
+
+    return chunks.map(chunk => ({
+      chunkId: `${content.contentId}:${chunk.chunkIndex}`,
+      chunkIndex: chunk.chunkIndex,
+      heading: chunk.heading,
+      start: chunk.start,
+      end: chunk.end,
+      text: chunk.text
+    }));
+  }
+}
+
+// Persistent storage through the configured database adapter
+export const chatSessionStorage = new DocumentRepository<ChatSession>({
+  table: 'chat_sessions',
+  getId: session => session.sessionId,
+  getCreatedAt: session => session.createdAt,
+  columns: session => ({ content_id: session.contentId }),
+  revive: session => ({
+    ...session,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    history: session.history.map((entry: ConversationEntry) => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+  }),
+});
+
+export const saveChatSession = async (session: ChatSession): Promise<void> => {
+  await chatSessionStorage.save(session);
+};
+
+export const getChatSession = async (sessionId: string): Promise<ChatSession | null> => {
+  return chatSessionStorage.get(sessionId);
+};
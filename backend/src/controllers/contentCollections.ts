@@ -0,0 +1,205 @@
+import { ContentChunk, ContentProcessor, getProcessedContent, ProcessedContent } from './contentProcessor';
+import { ContentSearchIndex } from './contentSearch';
+import { DocumentRepository } from '../database/DocumentRepository';
+
+// 🎃 Content Collections - several uploads grouped into one generation source (e.g. a course unit)
+
+export interface ContentCollection {
+  collectionId: string;
+  name: string;
+  description?: string;
+  /** Member documents, in the order they were added */
+  contentIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Generation requests name exactly one of these */
+export interface GenerationSource {
+  contentId?: string;
+  collectionId?: string;
+  /** Narrow a single upload to these sections (ids from `ProcessedContent.document`) */
+  sectionIds?: string[];
+}
+
+export const MAX_COLLECTION_SIZE = 50;
+
+/**
+ * Error message for a request body that does not name exactly one source, otherwise null
+ */
+export const validateGenerationSource = (body: GenerationSource): string | null => {
+  if (!body.contentId && !body.collectionId) return 'contentId or collectionId is required';
+  if (body.contentId && body.collectionId) return 'Provide either contentId or collectionId, not both';
+  if (body.sectionIds !== undefined) {
+    if (!Array.isArray(body.sectionIds) || body.sectionIds.length === 0 || !body.sectionIds.every(id => typeof id === 'string' && id)) {
+      return 'sectionIds must be a non-empty array of section ids';
+    }
+    if (!body.contentId) return 'sectionIds can only narrow a single contentId';
+  }
+  return null;
+};
+
+export class ContentCollections {
+  static create(name: string, description?: string, contentIds: string[] = []): ContentCollection {
+    const now = new Date();
+    return {
+      collectionId: `collection_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      name,
+      description,
+      contentIds: Array.from(new Set(contentIds)),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  static withContent(collection: ContentCollection, contentId: string): ContentCollection {
+    if (collection.contentIds.includes(contentId)) return collection;
+    return { ...collection, contentIds: [...collection.contentIds, contentId], updatedAt: new Date() };
+  }
+
+  static withoutContent(collection: ContentCollection, contentId: string): ContentCollection {
+    return { ...collection, contentIds: collection.contentIds.filter(id => id !== contentId), updatedAt: new Date() };
+  }
+
+  /**
+   * The documents a generation request draws from: one upload (or some of its sections),
+   * or every member of a collection
+   */
+  static async loadDocuments(source: GenerationSource): Promise<ProcessedContent[]> {
+    if (!source.collectionId) {
+      const content = await getProcessedContent(source.contentId);
+      if (!content) {
+        throw new Error(`Content not found: ${source.contentId}`);
+      }
+      return [source.sectionIds ? ContentProcessor.selectSections(content, source.sectionIds) : content];
+    }
+
+    const collection = await this.loadCollection(source.collectionId);
+    const documents = (await Promise.all(collection.contentIds.map(getProcessedContent))).filter(Boolean);
+    if (documents.length === 0) {
+      throw new Error(`Collection has no content: ${source.collectionId}`);
+    }
+    return documents;
+  }
+
+  /**
+   * A single document to generate from: the upload itself, or a collection's members
+   * joined into one document whose chunk headings name the file they came from
+   */
+  static async loadSourceContent(source: GenerationSource): Promise<ProcessedContent> {
+    const documents = await this.loadDocuments(source);
+    if (!source.collectionId) {
+      return documents[0];
+    }
+    return this.combine(await this.loadCollection(source.collectionId), documents);
+  }
+
+  /**
+   * Like `loadSourceContent`, but null when the upload or collection has since disappeared
+   */
+  static async findSourceContent(source: GenerationSource): Promise<ProcessedContent | null> {
+    try {
+      return await this.loadSourceContent(source);
+    } catch {
+      return null;
+    }
+  }
+
+  static combine(collection: ContentCollection, documents: ProcessedContent[]): ProcessedContent {
+    const chunks: ContentChunk[] = [];
+    let offset = 0;
+
+    for (const document of documents) {
+      const title = document.metadata.title || document.originalFilename;
+      for (const chunk of ContentSearchIndex.chunksOf(document)) {
+        chunks.push({
+          ...chunk,
+          index: chunks.length,
+          heading: chunk.heading ? `${title}: ${chunk.heading}` : title,
+          start: (chunk.start ?? 0) + offset,
+          end: (chunk.end ?? document.processedText.length) + offset
+        });
+      }
+      offset += document.processedText.length + 2;
+    }
+
+    const wordCount = documents.reduce((sum, document) => sum + document.wordCount, 0);
+
+    return {
+      contentId: collection.collectionId,
+      originalFilename: collection.name,
+      processedText: documents.map(document => document.processedText).join('\n\n'),
+      keyTopics: this.combineTopics(documents, 10),
+      wordCount,
+      uploadedAt: collection.createdAt,
+      metadata: { title: collection.name, subject: documents[0].metadata.subject },
+      summary: documents.map(document => document.summary).join(' '),
+      learningObjectives: documents.flatMap(document => document.learningObjectives).slice(0, 5),
+      readabilityScore: {
+        ...documents[0].readabilityScore,
+        estimatedReadingTime: Math.ceil(wordCount / 200)
+      },
+      chunks
+    };
+  }
+
+  /**
+   * Key topics taken from each document in turn, so no single upload dominates
+   */
+  static combineTopics(documents: ProcessedContent[], limit: number = 5): string[] {
+    const topics: string[] = [];
+    const longest = Math.max(...documents.map(document => document.keyTopics.length));
+
+    for (let rank = 0; rank < longest && topics.length < limit; rank++) {
+      for (const document of documents) {
+        const topic = document.keyTopics[rank];
+        if (topic && !topics.includes(topic) && topics.length < limit) {
+          topics.push(topic);
+        }
+      }
+    }
+    return topics;
+  }
+
+  /**
+   * Split `total` items across `parts` as evenly as possible, earlier parts taking the remainder
+   */
+  static allocate(total: number, parts: number): number[] {
+    return Array.from({ length: parts }, (_, index) =>
+      Math.floor(total / parts) + (index < total % parts ? 1 : 0)
+    );
+  }
+
+  private static async loadCollection(collectionId: string): Promise<ContentCollection> {
+    const collection = await getContentCollection(collectionId);
+    if (!collection) {
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+    return collection;
+  }
+}
+
+// Persistent storage through the configured database adapter
+export const collectionStorage = new DocumentRepository<ContentCollection>({
+  table: 'content_collections',
+  getId: collection => collection.collectionId,
+  getCreatedAt: collection => collection.createdAt,
+  revive: collection => ({
+    ...collection,
+    createdAt: new Date(collection.createdAt),
+    updatedAt: new Date(collection.updatedAt)
+  }),
+});
+
+export const saveContentCollection = async (collection: ContentCollection): Promise<void> => {
+  await collectionStorage.save(collection);
+  console.log(`💾 Collection saved: ${collection.collectionId}`);
+};
+
+export const getContentCollection = async (collectionId: string): Promise<ContentCollection | null> => {
+  return collectionStorage.get(collectionId);
+};
+
+export const listContentCollections = async (): Promise<ContentCollection[]> => {
+  return collectionStorage.list();
+};
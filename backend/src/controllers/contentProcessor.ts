@@ -1,6 +1,9 @@
-import pdfParse from 'pdf-parse';
-import * as mammoth from 'mammoth';
-import * as cheerio from 'cheerio';
+import { DocumentRepository } from '../database/DocumentRepository';
+import { ExtractedArticle, extractArticle, ExtractedText, findExtractor } from '../services/ContentExtractors';
+import { OcrReport } from '../services/Ocr';
+import { FetchedPage, isHtmlPage } from '../services/WebPages';
+import { ZipLimitError } from '../utils/zip';
+import { DocumentStructure, RenderedDocument, StructuredDocument, TextSpan } from './documentStructure';
 
 // 🎃 KIRO INTEGRATION POINT: Future steering docs will enhance content processing quality
 
@@ -9,6 +12,24 @@ export interface ContentMetadata {
   subject?: string;
   difficulty?: string;
   tags?: string[];
+  /** Page the content was ingested from, for URL uploads */
+  sourceUrl?: string;
+  /** Per-page OCR confidence, for PDFs with scanned pages */
+  ocr?: OcrReport;
+}
+
+
+export interface ContentChunk {
+  index: number;
+  /** Nearest section heading above the chunk, when the document has one */
+  heading?: string;
+  text: string;
+  wordCount: number;
+  summary: string;
+  keyTopics: string[];
+  /** Character offsets of the chunk within `processedText` */
+  start?: number;
+  end?: number;
 }
 
 export interface ProcessedContent {
@@ -27,79 +48,60 @@ export interface ProcessedContent {
     avgSentenceLength: number;
     estimatedReadingTime: number;
   };
+  /** Section-aware slices of the document; absent on content processed before chunking */
+  chunks?: ContentChunk[];
+  /** Sections, lists and tables that `processedText` renders; absent on content processed before it was kept */
+  document?: StructuredDocument;
 }
 
+/** Everything about a document that is derived from its text */
+type DocumentAnalysis = Pick<ProcessedContent,
+  'processedText' | 'document' | 'chunks' | 'keyTopics' | 'wordCount' | 'summary' | 'learningObjectives' | 'readabilityScore'>;
+
+// Chunks stay small enough that several fit in one prompt
+const CHUNK_MAX_WORDS = 250;
+// Sections shorter than this are folded into the chunk before them
+const CHUNK_MIN_WORDS = 40;
+const CHUNK_TOPICS = 5;
+
+const DEFAULT_TOPICS = ['General Knowledge', 'Learning Material', 'Educational Content'];
+
 export class ContentProcessor {
   
   /**
    * Extract text content from uploaded file buffer
-   * 👻 Now supports PDF, Word, HTML, and text files
+   * 👻 Every format in the extractor registry: PDF, text, Word, HTML, JSON, EPUB and PowerPoint
    */
-  static async extractText(file: any): Promise<string> {
+  static async extractText(file: any): Promise<ExtractedText> {
     try {
-      // Handle text files
-      if (file.mimetype === 'text/plain' || file.mimetype === 'text/markdown') {
-        return file.buffer.toString('utf-8');
-      }
-      
-      // Handle PDF files
-      if (file.mimetype === 'application/pdf') {
-        const pdfData = await pdfParse(file.buffer);
-        return pdfData.text;
-      }
-      
-      // Handle Word documents
-      if (file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        const result = await mammoth.extractRawText({ buffer: file.buffer });
-        return result.value;
-      }
-      
-      // Handle HTML files
-      if (file.mimetype === 'text/html') {
-        const $ = cheerio.load(file.buffer.toString('utf-8'));
-        // Remove script and style elements
-        $('script, style').remove();
-        return $.text();
-      }
-      
-      // Handle JSON files (for structured data)
-      if (file.mimetype === 'application/json') {
-        const jsonData = JSON.parse(file.buffer.toString('utf-8'));
-        return JSON.stringify(jsonData, null, 2);
+      const extractor = findExtractor(file);
+      if (!extractor) {
+        throw new Error(`Unsupported file type: ${file.mimetype}`);
       }
-      
-      // Fallback for other text-based files
-      if (file.mimetype.startsWith('text/')) {
-        return file.buffer.toString('utf-8');
-      }
-      
-      throw new Error(`Unsupported file type: ${file.mimetype}`);
+      return await extractor.extract(file.buffer);
     } catch (error) {
       console.error(`💀 Error extracting text from ${file.originalname}:`, error);
+      // Oversized archives stay recognisable so the route can refuse them as too large
+      if (error instanceof ZipLimitError) throw error;
       throw new Error(`Failed to extract text from ${file.originalname}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Clean and normalize extracted text
+   * Extract key topics from processed text
+   * 👻 Enhanced keyword extraction with better NLP techniques
    */
-  static cleanText(rawText: string): string {
-    return rawText
-      // Remove excessive whitespace
-      .replace(/\s+/g, ' ')
-      // Remove special characters that might interfere with AI processing
-      .replace(/[^\w\s.,!?;:()\-"']/g, '')
-      // Normalize line breaks
-      .replace(/\n+/g, '\n')
-      // Trim whitespace
-      .trim();
+  static extractKeyTopics(text: string): string[] {
+    const topics = this.rankTopics(text);
+
+    // 🎃 KIRO INTEGRATION POINT: Advanced topic extraction will use AI services
+    return topics.length > 0 ? topics : DEFAULT_TOPICS;
   }
 
   /**
-   * Extract key topics from processed text
-   * 👻 Enhanced keyword extraction with better NLP techniques
+   * Score phrases and words in the text, most important first (empty when nothing stands out)
    */
-  static extractKeyTopics(text: string): string[] {
+  private static rankTopics(text: string, limit: number = 10): string[] {
     // Enhanced stop words list
     const stopWords = new Set([
       'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 
@@ -178,20 +180,182 @@ export class ContentProcessor {
     });
 
     // Get top topics
-    const sortedTopics = Array.from(allTopics.entries())
+    return Array.from(allTopics.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([topic]) => topic);
+  }
+
+  /**
+   * Split raw extracted text into section-aware chunks
+   * 👻 Headings start new sections; long sections break at blocks, then lines, sentences and words
+   */
+  static chunkText(rawText: string): ContentChunk[] {
+    return this.chunkDocument(DocumentStructure.build(rawText));
+  }
+
+  /**
+   * Chunks of a rendered document; each chunk's text is exactly its slice of the rendered text
+   */
+  static chunkDocument({ document, text, blockSpans }: RenderedDocument): ContentChunk[] {
+    const words = (span: TextSpan) => this.countWords(text.slice(span.start, span.end));
+    const pieces: { heading?: string; start: number; end: number; words: number }[] = [];
+
+    document.sections.forEach((section, sectionIndex) => {
+      const units = blockSpans[sectionIndex].flatMap(span => this.splitToFit(text, span));
+      const sectionWords = units.reduce((sum, unit) => sum + words(unit), 0);
+      if (sectionWords === 0) return;
+
+      // Fold short sections, heading and all, into the previous chunk when they still fit
+      const previous = pieces[pieces.length - 1];
+      if (previous && sectionWords < CHUNK_MIN_WORDS && previous.words + sectionWords <= CHUNK_MAX_WORDS) {
+        previous.end = section.end;
+        previous.words += sectionWords;
+        return;
+      }
+
+      let current: typeof pieces[number] | null = null;
+      for (const unit of units) {
+        const unitWords = words(unit);
+        if (!current || current.words + unitWords > CHUNK_MAX_WORDS) {
+          current = { heading: section.heading, start: unit.start, end: unit.end, words: 0 };
+          pieces.push(current);
+        }
+        current.end = unit.end;
+        current.words += unitWords;
+      }
+    });
+
+    // A title line or short preface reads better as part of the first real chunk
+    if (pieces.length > 1 && pieces[0].words < CHUNK_MIN_WORDS) {
+      const [preface, next] = pieces.splice(0, 2);
+      pieces.unshift({ ...next, heading: next.heading || preface.heading, start: preface.start, words: preface.words + next.words });
+    }
+
+    return pieces.map((piece, index) => {
+      const chunkText = text.slice(piece.start, piece.end);
+      const plainText = DocumentStructure.plainText(chunkText);
+      return {
+        index,
+        heading: piece.heading,
+        text: chunkText,
+        wordCount: piece.words,
+        summary: this.generateSummary(plainText),
+        keyTopics: this.rankTopics(plainText, CHUNK_TOPICS),
+        start: piece.start,
+        end: piece.end
+      };
+    });
+  }
+
+  /**
+   * Map-reduce topic extraction: rank each chunk's topics, then combine the rankings
+   */
+  static mergeChunkTopics(chunks: ContentChunk[]): string[] {
+    const scores = new Map<string, number>();
+
+    chunks.forEach(chunk => {
+      chunk.keyTopics.forEach((topic, rank) => {
+        scores.set(topic, (scores.get(topic) || 0) + (CHUNK_TOPICS - rank));
+      });
+    });
+
+    const topics = Array.from(scores.entries())
       .sort((a, b) => b[1] - a[1])
       .slice(0, 10)
       .map(([topic]) => topic);
 
-    // 🎃 KIRO INTEGRATION POINT: Advanced topic extraction will use AI services
-    return sortedTopics.length > 0 ? sortedTopics : ['General Knowledge', 'Learning Material', 'Educational Content'];
+    return topics.length > 0 ? topics : DEFAULT_TOPICS;
+  }
+
+  /**
+   * Build prompt context within `maxChars`: the chunks that mention the focus topics
+   * (or the document's key topics) in full, then summaries of the sections left out
+   */
+  static selectRelevantText(content: ProcessedContent, focusTopics: string[] = [], maxChars: number): string {
+    if (content.processedText.length <= maxChars || !content.chunks || content.chunks.length === 0) {
+      return content.processedText.substring(0, maxChars);
+    }
+
+    const topics = focusTopics.length > 0 ? focusTopics : content.keyTopics;
+    const terms = Array.from(new Set(
+      topics.flatMap(topic => topic.toLowerCase().split(/\s+/)).filter(term => term.length > 2)
+    ));
+
+    const relevance = (chunk: ContentChunk): number => {
+      const haystack = `${chunk.heading || ''} ${chunk.text}`.toLowerCase();
+      const termHits = terms.reduce((sum, term) => sum + haystack.split(term).length - 1, 0);
+      const topicHits = chunk.keyTopics.filter(topic =>
+        topics.some(focus => focus.toLowerCase() === topic.toLowerCase())
+      ).length;
+      return termHits + topicHits * 3;
+    };
+
+    const scored = content.chunks.map(chunk => ({ chunk, score: relevance(chunk) }));
+    // Unrelated chunks only appear as summaries; with no match at all, start from the beginning
+    const matching = scored.filter(entry => entry.score > 0);
+    const ranked = (matching.length > 0 ? matching : scored)
+      .sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index);
+
+    const selected = new Map<number, string>();
+    let used = 0;
+
+    for (const { chunk } of ranked) {
+      const block = `${chunk.heading ? `${chunk.heading}\n` : ''}${chunk.text}`;
+      if (used + block.length + 2 <= maxChars) {
+        selected.set(chunk.index, block);
+        used += block.length + 2;
+      } else if (selected.size === 0) {
+        // Always include the best chunk, even if it has to be cut short
+        selected.set(chunk.index, block.substring(0, maxChars));
+        used = maxChars;
+      }
+    }
+
+    const overview: string[] = [];
+    for (const chunk of content.chunks) {
+      if (selected.has(chunk.index)) continue;
+      const line = `- ${chunk.heading ? `${chunk.heading}: ` : ''}${chunk.summary}`;
+      if (used + line.length + 30 > maxChars) break;
+      overview.push(line);
+      used += line.length + 1;
+    }
+
+    const body = Array.from(selected.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([, block]) => block)
+      .join('\n\n');
+
+    return overview.length > 0 ? `${body}\n\nOther sections (summaries):\n${overview.join('\n')}` : body;
+  }
+
+  /**
+   * Break a block into spans of at most CHUNK_MAX_WORDS words: at lines (list items, table rows),
+   * then sentences, then words
+   */
+  private static splitToFit(text: string, span: TextSpan): TextSpan[] {
+    const slice = text.slice(span.start, span.end);
+    if (this.countWords(slice) <= CHUNK_MAX_WORDS) return [span];
+
+    for (const unit of [/[^\n]+/g, /[^.!?\n]+[.!?]*/g, /\S+/g]) {
+      const parts = Array.from(slice.matchAll(unit))
+        .map(match => {
+          const leading = match[0].length - match[0].trimStart().length;
+          const start = span.start + match.index! + leading;
+          return { start, end: start + match[0].trim().length };
+        })
+        .filter(part => part.end > part.start);
+
+      if (parts.length > 1) return parts.flatMap(part => this.splitToFit(text, part));
+    }
+    return [span];
   }
 
   /**
-   * Count words in processed text
+   * Count words in processed text; markup such as `#`, `-` and `|` is not a word
    */
   static countWords(text: string): number {
-    return text.split(/\s+/).filter(word => word.length > 0).length;
+    return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
   }
 
   /**
@@ -383,17 +547,12 @@ export class ContentProcessor {
     metadata: Partial<ContentMetadata> = {}
   ): Promise<ProcessedContent> {
     try {
-      // Extract and clean text
-      const rawText = await this.extractText(file);
-      const processedText = this.cleanText(rawText);
-
-      // Analyze content
-      const keyTopics = this.extractKeyTopics(processedText);
-      const wordCount = this.countWords(processedText);
-      const difficulty = this.analyzeDifficulty(processedText);
-      const detectedSubject = this.detectSubject(processedText, keyTopics);
-      const learningObjectives = this.extractLearningObjectives(processedText);
-      const summary = this.generateSummary(processedText);
+      // Extract text and recover its sections, lists and tables
+      const extracted = await this.extractText(file);
+      const analysis = this.analyze(DocumentStructure.build(extracted.text));
+      const { chunks, keyTopics, wordCount, learningObjectives } = analysis;
+      const { difficulty, estimatedReadingTime } = analysis.readabilityScore;
+      const detectedSubject = this.detectSubject(DocumentStructure.plainText(analysis.processedText), keyTopics);
 
       // Generate unique content ID
       const contentId = `content_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -404,56 +563,125 @@ export class ContentProcessor {
         subject: metadata.subject || detectedSubject,
         difficulty: metadata.difficulty || difficulty,
         tags: metadata.tags || keyTopics.slice(0, 8),
+        sourceUrl: metadata.sourceUrl,
+        ocr: extracted.ocr,
       };
 
-      // Calculate reading time (average 200 words per minute)
-      const estimatedReadingTime = Math.ceil(wordCount / 200);
-      
       const result: ProcessedContent = {
         contentId,
         originalFilename: file.originalname,
-        processedText,
-        keyTopics,
-        wordCount,
         uploadedAt: new Date(),
         metadata: finalMetadata,
-        summary,
-        learningObjectives,
-        readabilityScore: {
-          difficulty,
-          avgWordLength: processedText.replace(/\s+/g, '').length / wordCount,
-          avgSentenceLength: wordCount / (processedText.split(/[.!?]+/).length || 1),
-          estimatedReadingTime
-        }
+        ...analysis
       };
 
       // 🎃 KIRO INTEGRATION POINT: Future hooks will auto-trigger AI generation here
       console.log(`👻 Content processed successfully: ${contentId}`);
-      console.log(`📊 Stats: ${wordCount} words, ${keyTopics.length} topics, ${difficulty} difficulty`);
+      console.log(`📊 Stats: ${wordCount} words, ${chunks.length} chunks, ${keyTopics.length} topics, ${difficulty} difficulty`);
       console.log(`📚 Subject: ${detectedSubject}, Reading time: ${estimatedReadingTime} min`);
       console.log(`🎯 Learning objectives: ${learningObjectives.length} identified`);
 
       return result;
     } catch (error) {
       console.error('💀 Content processing error:', error);
+      if (error instanceof ZipLimitError) throw error;
       throw new Error('Failed to process content: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   }
+
+  /**
+   * Derive chunks, topics and readability from a rendered document.
+   * Stats are taken from the plain words so markup does not skew them.
+   */
+  private static analyze(rendered: RenderedDocument): DocumentAnalysis {
+    const processedText = rendered.text;
+    const plainText = DocumentStructure.plainText(processedText);
+
+    // Long documents are chunked so prompts can carry the relevant sections
+    const chunks = this.chunkDocument(rendered);
+    const wordCount = this.countWords(plainText);
+
+    return {
+      processedText,
+      document: rendered.document,
+      chunks,
+      keyTopics: chunks.length > 1 ? this.mergeChunkTopics(chunks) : this.extractKeyTopics(plainText),
+      wordCount,
+      summary: this.generateSummary(plainText),
+      learningObjectives: this.extractLearningObjectives(plainText),
+      readabilityScore: {
+        difficulty: this.analyzeDifficulty(plainText),
+        avgWordLength: plainText.replace(/\s+/g, '').length / wordCount,
+        avgSentenceLength: wordCount / (plainText.split(/[.!?]+/).length || 1),
+        // Average 200 words per minute
+        estimatedReadingTime: Math.ceil(wordCount / 200)
+      }
+    };
+  }
+
+  /**
+   * The content narrowed to some of its sections, re-chunked so generators only see those
+   * 👻 Content processed before sections were kept is structured from its processed text
+   */
+  static selectSections(content: ProcessedContent, sectionIds: string[]): ProcessedContent {
+    const document = content.document || DocumentStructure.build(content.processedText).document;
+    const missing = sectionIds.find(id => !document.sections.some(section => section.id === id));
+    if (missing) {
+      throw new Error(`Section not found: ${missing}`);
+    }
+
+    const sections = document.sections.filter(section => sectionIds.includes(section.id));
+    return { ...content, ...this.analyze(DocumentStructure.renderSections(sections)) };
+  }
+
+  /**
+   * Process a fetched web page the same way as an uploaded file.
+   * Returns null when the page has no readable text once the boilerplate is gone.
+   */
+  static async processWebPage(
+    page: FetchedPage,
+    metadata: Partial<ContentMetadata> = {}
+  ): Promise<ProcessedContent | null> {
+    const article: ExtractedArticle = isHtmlPage(page)
+      ? extractArticle(page.body)
+      : { text: page.body };
+
+    if (this.countWords(article.text) === 0) {
+      return null;
+    }
+
+    const url = new URL(page.url);
+    const file = {
+      originalname: `${url.hostname}${url.pathname === '/' ? '' : url.pathname}`,
+      mimetype: 'text/markdown',
+      buffer: Buffer.from(article.text, 'utf-8'),
+    };
+
+    return this.processContent(file, {
+      ...metadata,
+      title: metadata.title || article.title || file.originalname,
+      sourceUrl: page.url,
+    });
+  }
 }
 
-// 👻 In-memory storage for demo purposes
-// 🎃 KIRO INTEGRATION POINT: Future implementation will use proper database
-export const contentStorage = new Map<string, ProcessedContent>();
+// 👻 Persistent storage through the configured database adapter
+export const contentStorage = new DocumentRepository<ProcessedContent>({
+  table: 'processed_content',
+  getId: content => content.contentId,
+  getCreatedAt: content => content.uploadedAt,
+  revive: content => ({ ...content, uploadedAt: new Date(content.uploadedAt) }),
+});
 
-export const saveProcessedContent = (content: ProcessedContent): void => {
-  contentStorage.set(content.contentId, content);
+export const saveProcessedContent = async (content: ProcessedContent): Promise<void> => {
+  await contentStorage.save(content);
   console.log(`💾 Content saved: ${content.contentId}`);
 };
 
-export const getProcessedContent = (contentId: string): ProcessedContent | null => {
-  return contentStorage.get(contentId) || null;
+export const getProcessedContent = async (contentId: string): Promise<ProcessedContent | null> => {
+  return contentStorage.get(contentId);
 };
 
-export const listProcessedContent = (): ProcessedContent[] => {
-  return Array.from(contentStorage.values());
-};
\ No newline at end of file
+export const listProcessedContent = async (): Promise<ProcessedContent[]> => {
+  return contentStorage.list();
+};
@@ -0,0 +1,145 @@
+import { ContentChunk, ContentProcessor, ProcessedContent, getProcessedContent, listProcessedContent } from './contentProcessor';
+import { DocumentRepository } from '../database/DocumentRepository';
+import { cosineSimilarity, getEmbedder } from '../services/Embeddings';
+
+// 🎃 Semantic search over the chunks of uploaded content
+
+export interface ChunkEmbedding {
+  /** `${contentId}:${chunkIndex}` */
+  id: string;
+  contentId: string;
+  chunkIndex: number;
+  embedder: string;
+  vector: number[];
+  createdAt: Date;
+}
+
+export interface SearchResult {
+  contentId: string;
+  title: string;
+  chunkIndex: number;
+  heading?: string;
+  text: string;
+  /** Character offsets of the passage within the content's `processedText` */
+  start: number;
+  end: number;
+  score: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Only search one piece of content */
+  contentId?: string;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const MAX_SEARCH_LIMIT = 20;
+
+// Passages scoring below this share little more than a stray word with the query
+const MIN_SCORE = 0.05;
+
+// Chunks embedded per request, keeping remote embedders under their input limits
+const EMBED_BATCH = 64;
+
+export class ContentSearchIndex {
+  /**
+   * Embed every chunk of a piece of content with the active embedder
+   */
+  static async indexContent(content: ProcessedContent): Promise<number> {
+    const embedder = getEmbedder();
+    const chunks = this.chunksOf(content);
+    const createdAt = new Date();
+
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+      const batch = chunks.slice(i, i + EMBED_BATCH);
+      const vectors = await embedder.embed(batch.map(chunk => `${chunk.heading || ''}\n${chunk.text}`));
+
+      for (const [offset, chunk] of batch.entries()) {
+        await embeddingStorage.save({
+          id: `${content.contentId}:${chunk.index}`,
+          contentId: content.contentId,
+          chunkIndex: chunk.index,
+          embedder: embedder.name,
+          vector: vectors[offset],
+          createdAt
+        });
+      }
+    }
+
+    console.log(`🧭 Indexed ${chunks.length} chunks of ${content.contentId} with ${embedder.name}`);
+    return chunks.length;
+  }
+
+  /**
+   * Rank chunk passages by similarity to the query, best first.
+   * Content uploaded before indexing existed (or under another embedder) is indexed on the way.
+   */
+  static async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const embedder = getEmbedder();
+    const limit = Math.min(Math.max(options.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+
+    const contents = options.contentId
+      ? [await getProcessedContent(options.contentId)].filter((content): content is ProcessedContent => !!content)
+      : await listProcessedContent();
+    if (contents.length === 0) return [];
+
+    let embeddings = await this.listEmbeddings(embedder.name, options.contentId);
+    const indexed = new Set(embeddings.map(embedding => embedding.contentId));
+    const missing = contents.filter(content => !indexed.has(content.contentId));
+    if (missing.length > 0) {
+      for (const content of missing) {
+        await this.indexContent(content);
+      }
+      embeddings = await this.listEmbeddings(embedder.name, options.contentId);
+    }
+
+    const [queryVector] = await embedder.embed([query]);
+    const byId = new Map(contents.map(content => [content.contentId, content]));
+
+    return embeddings
+      .map(embedding => ({ embedding, score: cosineSimilarity(queryVector, embedding.vector) }))
+      .filter(({ embedding, score }) => score >= MIN_SCORE && byId.has(embedding.contentId))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .flatMap(({ embedding, score }) => {
+        const content = byId.get(embedding.contentId)!;
+        const chunk = this.chunksOf(content)[embedding.chunkIndex];
+        if (!chunk) return [];
+
+        return [{
+          contentId: content.contentId,
+          title: content.metadata.title || content.originalFilename,
+          chunkIndex: chunk.index,
+          heading: chunk.heading,
+          text: chunk.text,
+          start: chunk.start ?? 0,
+          end: chunk.end ?? content.processedText.length,
+          score: Math.round(score * 1000) / 1000
+        }];
+      });
+  }
+
+  /**
+   * Stored chunks, or chunks rebuilt from the cleaned text for content saved before
+   * chunking (or before chunks carried offsets)
+   */
+  static chunksOf(content: ProcessedContent): ContentChunk[] {
+    if (content.chunks && content.chunks.every(chunk => chunk.start !== undefined)) {
+      return content.chunks;
+    }
+    return ContentProcessor.chunkText(content.processedText);
+  }
+
+  private static listEmbeddings(embedder: string, contentId?: string): Promise<ChunkEmbedding[]> {
+    return embeddingStorage.list(contentId ? { embedder, content_id: contentId } : { embedder });
+  }
+}
+
+// Persistent storage through the configured database adapter
+export const embeddingStorage = new DocumentRepository<ChunkEmbedding>({
+  table: 'content_embeddings',
+  getId: embedding => embedding.id,
+  getCreatedAt: embedding => embedding.createdAt,
+  columns: embedding => ({ content_id: embedding.contentId, embedder: embedding.embedder }),
+  revive: embedding => ({ ...embedding, createdAt: new Date(embedding.createdAt) }),
+});
@@ -0,0 +1,273 @@
+// 🎃 Document Structure - sections, paragraphs, lists and tables kept from extraction through to the AI
+
+export type DocumentBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  /** `header` when the first row holds column names */
+  | { type: 'table'; header: boolean; rows: string[][] };
+
+export interface DocumentSection {
+  /** Slug of the heading, unique within the document; `section-N` for untitled text */
+  id: string;
+  heading?: string;
+  /** 1-6 from the heading; 0 for text before the first heading */
+  level: number;
+  blocks: DocumentBlock[];
+  /** Character range of the section, heading included, within `processedText` */
+  start: number;
+  end: number;
+}
+
+export interface StructuredDocument {
+  sections: DocumentSection[];
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A parsed document together with its rendering: `text` becomes `processedText`, and
+ * `blockSpans[s][b]` is where block `b` of section `s` sits within it
+ */
+export interface RenderedDocument {
+  document: StructuredDocument;
+  text: string;
+  blockSpans: TextSpan[][];
+}
+
+interface ParsedSection {
+  /** Kept when re-rendering sections of an existing document */
+  id?: string;
+  heading?: string;
+  level: number;
+  blocks: DocumentBlock[];
+}
+
+const BULLET_ITEM = /^[-*+•◦▪‣●]\s+(.+)$/;
+const NUMBERED_ITEM = /^(?:\d{1,3}|[a-zA-Z])[.)]\s+(.+)$/;
+const TABLE_ROW = /^\|.*\|$/;
+const TABLE_DIVIDER = /^:?-{3,}:?$/;
+
+export class DocumentStructure {
+  /**
+   * Parse extracted text and render it back as the canonical processed text
+   */
+  static build(rawText: string): RenderedDocument {
+    return this.render(this.parse(rawText));
+  }
+
+  /**
+   * Render some sections of a document on their own, keeping their ids
+   */
+  static renderSections(sections: DocumentSection[]): RenderedDocument {
+    return this.render(sections);
+  }
+
+  /**
+   * Markdown-style rendering: `#` headings, `-`/`1.` list items and `|` table rows,
+   * with a blank line between blocks
+   */
+  private static render(sections: ParsedSection[]): RenderedDocument {
+    const parts: string[] = [];
+    let length = 0;
+    const append = (part: string): TextSpan => {
+      if (parts.length > 0) {
+        parts.push('\n\n');
+        length += 2;
+      }
+      parts.push(part);
+      const span = { start: length, end: length + part.length };
+      length += part.length;
+      return span;
+    };
+
+    const usedIds = new Set<string>();
+    const blockSpans: TextSpan[][] = [];
+
+    const rendered = sections.map((section, index) => {
+      const headingSpan = section.heading ? append(`${'#'.repeat(section.level)} ${section.heading}`) : null;
+      const spans = section.blocks.map(block => append(this.renderBlock(block)));
+      blockSpans.push(spans);
+
+      return {
+        id: section.id || this.sectionId(section.heading, index, usedIds),
+        ...(section.heading && { heading: section.heading }),
+        level: section.level,
+        blocks: section.blocks,
+        start: (headingSpan || spans[0]).start,
+        end: (spans[spans.length - 1] || headingSpan).end
+      };
+    });
+
+    return { document: { sections: rendered }, text: parts.join(''), blockSpans };
+  }
+
+  /**
+   * Words of a rendered passage without its markup, for summaries and topic ranking
+   */
+  static plainText(rendered: string): string {
+    return rendered
+      .split('\n')
+      .map(line => line
+        .replace(/^#{1,6}\s+/, '')
+        .replace(/^(?:-|\d{1,3}\.)\s+/, '')
+        .replace(/^\|\s*(?::?-{3,}:?\s*\|\s*)+$/, '')
+        .replace(/\s*\|\s*/g, ' '))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Normalize a run of inline text: one line, single spaces, no control characters or pictographs
+   */
+  static cleanInline(text: string): string {
+    return text
+      .replace(/[\p{Cc}\p{Cf}\p{Co}\p{Cs}\p{So}]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Recognize markdown, "Chapter/Section N", numbered ("2.1 Methods") and ALL CAPS headings
+   */
+  static parseHeading(line: string): { text: string; level: number } | null {
+    if (!line || line.length > 80) return null;
+
+    const markdown = line.match(/^(#{1,6})\s+(.+)$/);
+    if (markdown) return { text: markdown[2].replace(/\s+#+$/, '').trim(), level: markdown[1].length };
+
+    const named = line.match(/^(chapter|part|unit|module|section|lesson)\s+[\w.]+\b/i);
+    if (named && !/[.!?]$/.test(line)) {
+      return { text: line, level: /^(section|lesson)$/i.test(named[1]) ? 2 : 1 };
+    }
+
+    const numbered = line.match(/^(\d+(?:\.\d+)*)\.?\s+[A-Z][^.!?]*$/);
+    if (numbered && line.split(/\s+/).length <= 10) {
+      return { text: line, level: Math.min(numbered[1].split('.').length, 6) };
+    }
+
+    if (/^[A-Z][A-Z0-9 ,:&'-]{3,}$/.test(line) && /[A-Z]{2}/.test(line)) return { text: line, level: 2 };
+
+    return null;
+  }
+
+  /**
+   * Read extracted text line by line into sections of blocks.
+   * Lists and tables carry on across blank lines; a paragraph ends at one.
+   */
+  private static parse(rawText: string): ParsedSection[] {
+    const lines = rawText.replace(/\r\n?/g, '\n').split('\n').map(line => line.trim());
+    const sections: ParsedSection[] = [{ level: 0, blocks: [] }];
+
+    let paragraph: string[] = [];
+    let list: { ordered: boolean; items: string[] } | null = null;
+    let table: { header: boolean; rows: string[][] } | null = null;
+
+    const blocks = () => sections[sections.length - 1].blocks;
+    const flushParagraph = () => {
+      const text = this.cleanInline(paragraph.join(' '));
+      if (text) blocks().push({ type: 'paragraph', text });
+      paragraph = [];
+    };
+    const flushList = () => {
+      if (list && list.items.length > 0) blocks().push({ type: 'list', ...list });
+      list = null;
+    };
+    const flushTable = () => {
+      if (table && table.rows.length > 0) blocks().push({ type: 'table', ...table });
+      table = null;
+    };
+    const flushAll = () => {
+      flushParagraph();
+      flushList();
+      flushTable();
+    };
+    const nextLine = (index: number) => lines.slice(index + 1).find(Boolean) || '';
+
+    lines.forEach((line, index) => {
+      if (!line) {
+        flushParagraph();
+        return;
+      }
+
+      // "1. Mix the flour" is a list item when it sits in a run of numbered lines, otherwise it may be a heading
+      const numberedRun = NUMBERED_ITEM.test(line) && (list?.ordered || NUMBERED_ITEM.test(nextLine(index)));
+      const heading = numberedRun ? null : this.parseHeading(line);
+      if (heading) {
+        flushAll();
+        sections.push({ heading: this.cleanInline(heading.text), level: heading.level, blocks: [] });
+        return;
+      }
+
+      if (TABLE_ROW.test(line)) {
+        flushParagraph();
+        flushList();
+        const cells = line.slice(1, -1).split('|').map(cell => this.cleanInline(cell));
+        if (table && table.rows.length === 1 && !table.header && cells.every(cell => TABLE_DIVIDER.test(cell))) {
+          table.header = true;
+        } else {
+          table = table || { header: false, rows: [] };
+          table.rows.push(cells);
+        }
+        return;
+      }
+      flushTable();
+
+      const item = line.match(BULLET_ITEM) || line.match(NUMBERED_ITEM);
+      if (item) {
+        flushParagraph();
+        const ordered = !BULLET_ITEM.test(line);
+        if (!list || list.ordered !== ordered) {
+          flushList();
+          list = { ordered, items: [] };
+        }
+        list.items.push(this.cleanInline(item[1]));
+        return;
+      }
+
+      flushList();
+      paragraph.push(line);
+    });
+    flushAll();
+
+    // Text before the first heading only counts when there is some
+    return sections.filter((section, index) => index > 0 || section.blocks.length > 0);
+  }
+
+  private static renderBlock(block: DocumentBlock): string {
+    switch (block.type) {
+      case 'paragraph':
+        return block.text;
+      case 'list':
+        return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}`).join('\n');
+      case 'table': {
+        const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+        const [first, ...rest] = block.rows;
+        return [
+          row(first),
+          ...(block.header ? [row(first.map(() => '---'))] : []),
+          ...rest.map(row)
+        ].join('\n');
+      }
+    }
+  }
+
+  private static sectionId(heading: string | undefined, index: number, used: Set<string>): string {
+    const base = (heading || '')
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 60) || `section-${index + 1}`;
+
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    used.add(id);
+    return id;
+  }
+}
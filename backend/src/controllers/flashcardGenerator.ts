@@ -0,0 +1,216 @@
+import { ContentProcessor, ProcessedContent } from './contentProcessor';
+import { ContentCollections, GenerationSource, getContentCollection } from './contentCollections';
+import { AIRouter, parseJsonResponse } from '../services/AIRouter';
+import { DocumentRepository } from '../database/DocumentRepository';
+
+// 🎃 Flashcard Generator using GhostFrame AI Router
+
+export type FlashcardDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export const FLASHCARD_DIFFICULTIES: FlashcardDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export interface FlashcardGenerationRequest extends GenerationSource {
+  cardCount: number;
+  difficulty: FlashcardDifficulty;
+  focusTopics?: string[];
+}
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  difficulty: number; // 1 (recall) to 5 (synthesis)
+  topic: string;
+  hints?: string[];
+  /** Document the card was drawn from, on decks generated from a collection */
+  sourceContentId?: string;
+}
+
+export interface FlashcardDeck {
+  deckId: string;
+  cards: Flashcard[];
+  metadata: {
+    /** Empty for decks generated from a collection */
+    contentId: string;
+    collectionId?: string;
+    sourceContentIds?: string[];
+    title: string;
+    difficulty: FlashcardDifficulty;
+    totalCards: number;
+    topics: string[];
+    generatedAt: Date;
+  };
+}
+
+export class FlashcardGenerator {
+  private static aiRouter = new AIRouter();
+
+  /**
+   * Route generation through another router, e.g. one pointed at a test provider; null restores the default
+   */
+  static setAIRouter(router: AIRouter | null): void {
+    FlashcardGenerator.aiRouter = router || new AIRouter();
+  }
+
+  /**
+   * Generate an AI-powered flashcard deck from processed content
+   * Uses GhostFrame's AI Router for actual AI generation
+   */
+  static async generateDeck(request: FlashcardGenerationRequest): Promise<FlashcardDeck> {
+    const documents = await ContentCollections.loadDocuments(request);
+    // Collections share the cards out evenly so every document is covered
+    const shares = ContentCollections.allocate(request.cardCount, documents.length);
+
+    console.log(`🃏 Flashcard Phantom using AI to generate ${request.cardCount} ${request.difficulty} cards from ${documents.length} document(s)`);
+
+    const cards: Flashcard[] = [];
+    for (const [index, document] of documents.entries()) {
+      if (shares[index] === 0) continue;
+
+      const generated = await this.generateCards(document, { ...request, cardCount: shares[index] });
+      cards.push(...generated.map(card => (request.collectionId ? { ...card, sourceContentId: document.contentId } : card)));
+    }
+
+    const deckId = `deck_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const topics = Array.from(new Set(cards.map(card => card.topic)));
+    const collection = request.collectionId ? await getContentCollection(request.collectionId) : null;
+
+    return {
+      deckId,
+      cards: cards.map((card, index) => ({ ...card, id: `card${index + 1}_${Date.now()}` })),
+      metadata: {
+        contentId: request.contentId || '',
+        ...(request.collectionId && {
+          collectionId: request.collectionId,
+          sourceContentIds: documents.map(document => document.contentId)
+        }),
+        title: collection?.name || documents[0].metadata.title || documents[0].originalFilename,
+        difficulty: request.difficulty,
+        totalCards: cards.length,
+        topics: topics.length > 0 ? topics : ContentCollections.combineTopics(documents),
+        generatedAt: new Date()
+      }
+    };
+  }
+
+  private static async generateCards(content: ProcessedContent, request: FlashcardGenerationRequest): Promise<Flashcard[]> {
+    const aiResponse = await this.aiRouter.generate({
+      prompt: this.buildFlashcardPrompt(ContentProcessor.selectRelevantText(content, request.focusTopics, 3000), request),
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      systemPrompt: 'You are a helpful flashcard generator. Always respond with valid JSON.',
+      temperature: 0.7,
+      maxTokens: 2000
+    });
+
+    return this.parseFlashcardResponse(aiResponse.text, request);
+  }
+
+  /**
+   * Build comprehensive prompt for AI flashcard generation
+   */
+  private static buildFlashcardPrompt(contentText: string, request: FlashcardGenerationRequest): string {
+    const difficultyGuidance = {
+      beginner: 'Key terms and definitions with short, direct answers',
+      intermediate: 'Concepts, relationships and how-it-works explanations',
+      advanced: 'Applications, comparisons and edge cases that require deeper reasoning'
+    };
+
+    let prompt = `Generate ${request.cardCount} flashcards based on the following content.
+
+**Flashcard Requirements:**
+- Number of Cards: ${request.cardCount}
+- Difficulty Level: ${request.difficulty} (${difficultyGuidance[request.difficulty]})
+
+**Source Content:**
+${contentText.substring(0, 3000)}
+
+**Instructions:**
+1. Put a question or term on the front and a concise answer on the back
+2. Each card should test exactly one idea
+3. Rate each card's difficulty from 1 (simple recall) to 5 (complex synthesis)
+4. Give each card a short topic name and up to 2 optional hints`;
+
+    if (request.focusTopics && request.focusTopics.length > 0) {
+      prompt += `\n5. Focus on these topics: ${request.focusTopics.join(', ')}`;
+    }
+
+    prompt += `\n\nReturn a JSON array with this format:
+[
+  {
+    "front": "Question or term",
+    "back": "Answer or definition",
+    "topic": "Topic name",
+    "difficulty": 2,
+    "hints": ["Optional hint"]
+  }
+]`;
+
+    return prompt;
+  }
+
+  /**
+   * Parse AI response into structured flashcards
+   */
+  private static parseFlashcardResponse(aiText: string, request: FlashcardGenerationRequest): Flashcard[] {
+    const parsed = parseJsonResponse(aiText);
+    const rawCards: any[] = Array.isArray(parsed) ? parsed : parsed.cards || parsed.flashcards || [];
+
+    const cards = rawCards
+      .filter(card => card && typeof card.front === 'string' && typeof card.back === 'string')
+      .slice(0, request.cardCount)
+      .map((card, index) => ({
+        id: `card${index + 1}_${Date.now()}`,
+        front: card.front.trim(),
+        back: card.back.trim(),
+        difficulty: this.normalizeDifficulty(card.difficulty, request.difficulty),
+        topic: card.topic || card.category || 'General',
+        hints: Array.isArray(card.hints) && card.hints.length > 0 ? card.hints : undefined
+      }));
+
+    if (cards.length === 0) {
+      throw new Error('AI flashcard generation failed. The response contained no usable cards.');
+    }
+
+    return cards;
+  }
+
+  /**
+   * Map the AI's difficulty rating onto 1-5, defaulting from the deck level
+   */
+  private static normalizeDifficulty(value: unknown, deckDifficulty: FlashcardDifficulty): number {
+    const labels: Record<string, number> = { easy: 1, medium: 3, hard: 5 };
+    const rating = typeof value === 'number' ? value : labels[String(value).toLowerCase()];
+
+    if (!rating || Number.isNaN(rating)) {
+      return { beginner: 1, intermediate: 3, advanced: 5 }[deckDifficulty];
+    }
+
+    return Math.min(Math.max(Math.round(rating), 1), 5);
+  }
+}
+
+// Persistent storage through the configured database adapter
+export const flashcardStorage = new DocumentRepository<FlashcardDeck>({
+  table: 'flashcard_decks',
+  getId: deck => deck.deckId,
+  getCreatedAt: deck => deck.metadata.generatedAt,
+  columns: deck => ({ content_id: deck.metadata.contentId }),
+  revive: deck => ({
+    ...deck,
+    metadata: { ...deck.metadata, generatedAt: new Date(deck.metadata.generatedAt) },
+  }),
+});
+
+export const saveFlashcardDeck = async (deck: FlashcardDeck): Promise<void> => {
+  await flashcardStorage.save(deck);
+  console.log(`💾 Flashcard deck saved: ${deck.deckId}`);
+};
+
+export const getFlashcardDeck = async (deckId: string): Promise<FlashcardDeck | null> => {
+  return flashcardStorage.get(deckId);
+};
+
+export const listFlashcardDecks = async (): Promise<FlashcardDeck[]> => {
+  return flashcardStorage.list();
+};
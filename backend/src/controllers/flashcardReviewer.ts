@@ -0,0 +1,97 @@
+import { Flashcard, FlashcardDeck } from './flashcardGenerator';
+import { CardSchedule, ReviewGrade, SpacedRepetitionScheduler } from '../services/SpacedRepetition';
+import { DocumentRepository } from '../database/DocumentRepository';
+
+// 🎃 Flashcard review sessions scheduled with SM-2 spaced repetition
+
+export interface DueFlashcard {
+  card: Flashcard;
+  schedule: CardSchedule;
+}
+
+export interface DueFlashcards {
+  deckId: string;
+  totalCards: number;
+  dueCount: number;
+  cards: DueFlashcard[];
+  /** When the next card becomes due, if nothing is due right now */
+  nextDueAt: Date | null;
+}
+
+export class FlashcardReviewer {
+  private static scheduler = new SpacedRepetitionScheduler();
+
+  /**
+   * Cards that are due now, most overdue first; unseen cards are due immediately
+   */
+  static async getDueCards(deck: FlashcardDeck, limit?: number): Promise<DueFlashcards> {
+    const schedules = await this.loadSchedules(deck);
+    const entries = deck.cards.map(card => ({ card, schedule: schedules.get(card.id) }));
+
+    const due = entries
+      .filter(entry => this.scheduler.isDue(entry.schedule))
+      .sort((a, b) => a.schedule.dueAt.getTime() - b.schedule.dueAt.getTime());
+
+    const upcoming = entries
+      .filter(entry => !this.scheduler.isDue(entry.schedule))
+      .map(entry => entry.schedule.dueAt.getTime());
+
+    return {
+      deckId: deck.deckId,
+      totalCards: deck.cards.length,
+      dueCount: due.length,
+      cards: limit ? due.slice(0, limit) : due,
+      nextDueAt: due.length === 0 && upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null
+    };
+  }
+
+  /**
+   * Record a review grade for one card and persist its new schedule
+   */
+  static async recordReview(deck: FlashcardDeck, cardId: string, grade: ReviewGrade): Promise<CardSchedule> {
+    if (!deck.cards.some(card => card.id === cardId)) {
+      throw new Error(`Card not found in deck: ${cardId}`);
+    }
+
+    const existing = await reviewStorage.get(scheduleId(deck.deckId, cardId));
+    const schedule = this.scheduler.review(
+      existing || this.scheduler.createSchedule(deck.deckId, cardId),
+      grade
+    );
+
+    await reviewStorage.save(schedule);
+    console.log(`🃏 Card ${cardId} graded ${grade}, due again in ${schedule.interval} day(s)`);
+
+    return schedule;
+  }
+
+  private static async loadSchedules(deck: FlashcardDeck): Promise<Map<string, CardSchedule>> {
+    const stored = await reviewStorage.list({ deck_id: deck.deckId });
+    const schedules = new Map(stored.map(schedule => [schedule.cardId, schedule]));
+
+    for (const card of deck.cards) {
+      if (!schedules.has(card.id)) {
+        schedules.set(card.id, this.scheduler.createSchedule(deck.deckId, card.id));
+      }
+    }
+
+    return schedules;
+  }
+}
+
+const scheduleId = (deckId: string, cardId: string): string => `${deckId}:${cardId}`;
+
+// Persistent storage through the configured database adapter
+export const reviewStorage = new DocumentRepository<CardSchedule>({
+  table: 'flashcard_reviews',
+  getId: schedule => scheduleId(schedule.deckId, schedule.cardId),
+  getCreatedAt: schedule => schedule.createdAt,
+  columns: schedule => ({ deck_id: schedule.deckId }),
+  revive: schedule => ({
+    ...schedule,
+    dueAt: new Date(schedule.dueAt),
+    createdAt: new Date(schedule.createdAt),
+    lastReviewedAt: schedule.lastReviewedAt ? new Date(schedule.lastReviewedAt) : undefined,
+    history: schedule.history.map((record: any) => ({ ...record, reviewedAt: new Date(record.reviewedAt) })),
+  }),
+});
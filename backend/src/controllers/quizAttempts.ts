@@ -0,0 +1,160 @@
+import { GeneratedQuiz } from './quizGenerator';
+import { QuestionGrade, QuizGradingResult } from './quizGrader';
+import { DocumentRepository } from '../database/DocumentRepository';
+
+// 🎃 Quiz attempt history and per-learner progress
+
+// Learners without an account use an anonymous session id generated by the client
+export const ANONYMOUS_LEARNER = 'anonymous';
+
+const LEARNER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Topic used for quizzes generated without any topics
+const GENERAL_TOPIC = 'General';
+
+export interface QuizAttempt {
+  attemptId: string;
+  quizId: string;
+  learnerId: string;
+  quizTitle: string;
+  topics: string[];
+  score: QuizGradingResult['score'];
+  results: QuestionGrade[];
+  completedAt: Date;
+}
+
+export interface AttemptSummary {
+  attemptId: string;
+  quizId: string;
+  quizTitle: string;
+  percentage: number;
+  points: number;
+  maxPoints: number;
+  completedAt: Date;
+}
+
+export interface TopicProgress {
+  topic: string;
+  attempts: number;
+  averagePercentage: number;
+  bestPercentage: number;
+  lastAttemptAt: Date;
+}
+
+export interface LearnerProgress {
+  learnerId: string;
+  totalAttempts: number;
+  quizzesTaken: number;
+  averagePercentage: number;
+  bestPercentage: number;
+  /** Weakest topics first, so the learner knows what to revisit */
+  topics: TopicProgress[];
+  recentAttempts: AttemptSummary[];
+}
+
+export const isValidLearnerId = (value: unknown): value is string =>
+  typeof value === 'string' && LEARNER_ID_PATTERN.test(value);
+
+export class QuizAttemptTracker {
+  /**
+   * Persist a graded submission as one attempt for the learner
+   */
+  static async recordAttempt(
+    quiz: GeneratedQuiz,
+    learnerId: string,
+    grading: QuizGradingResult
+  ): Promise<QuizAttempt> {
+    const attempt: QuizAttempt = {
+      attemptId: `attempt_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      quizId: quiz.metadata.quizId,
+      learnerId,
+      quizTitle: quiz.metadata.title,
+      topics: quiz.metadata.topics.length > 0 ? quiz.metadata.topics : [GENERAL_TOPIC],
+      score: grading.score,
+      results: grading.results,
+      completedAt: new Date()
+    };
+
+    await attemptStorage.save(attempt);
+    console.log(`📈 Attempt recorded for ${learnerId} on ${attempt.quizId}: ${attempt.score.percentage}%`);
+
+    return attempt;
+  }
+
+  /**
+   * Aggregate every attempt a learner has made, overall and by quiz topic
+   */
+  static async getProgress(learnerId: string, recentLimit: number = 10): Promise<LearnerProgress> {
+    const attempts = await listLearnerAttempts(learnerId);
+    const percentages = attempts.map(attempt => attempt.score.percentage);
+
+    const byTopic = new Map<string, QuizAttempt[]>();
+    for (const attempt of attempts) {
+      for (const topic of attempt.topics) {
+        byTopic.set(topic, [...(byTopic.get(topic) || []), attempt]);
+      }
+    }
+
+    const topics: TopicProgress[] = Array.from(byTopic.entries())
+      .map(([topic, topicAttempts]) => {
+        const scores = topicAttempts.map(attempt => attempt.score.percentage);
+        return {
+          topic,
+          attempts: topicAttempts.length,
+          averagePercentage: average(scores),
+          bestPercentage: Math.max(...scores),
+          lastAttemptAt: topicAttempts[topicAttempts.length - 1].completedAt
+        };
+      })
+      .sort((a, b) => a.averagePercentage - b.averagePercentage || a.topic.localeCompare(b.topic));
+
+    return {
+      learnerId,
+      totalAttempts: attempts.length,
+      quizzesTaken: new Set(attempts.map(attempt => attempt.quizId)).size,
+      averagePercentage: average(percentages),
+      bestPercentage: percentages.length > 0 ? Math.max(...percentages) : 0,
+      topics,
+      recentAttempts: attempts.slice(-recentLimit).reverse().map(summarizeAttempt)
+    };
+  }
+}
+
+export const summarizeAttempt = (attempt: QuizAttempt): AttemptSummary => ({
+  attemptId: attempt.attemptId,
+  quizId: attempt.quizId,
+  quizTitle: attempt.quizTitle,
+  percentage: attempt.score.percentage,
+  points: attempt.score.points,
+  maxPoints: attempt.score.maxPoints,
+  completedAt: attempt.completedAt
+});
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+// Persistent storage through the configured database adapter
+export const attemptStorage = new DocumentRepository<QuizAttempt>({
+  table: 'quiz_attempts',
+  getId: attempt => attempt.attemptId,
+  getCreatedAt: attempt => attempt.completedAt,
+  columns: attempt => ({ quiz_id: attempt.quizId, learner_id: attempt.learnerId }),
+  revive: attempt => ({ ...attempt, completedAt: new Date(attempt.completedAt) }),
+});
+
+/**
+ * Attempts at one quiz, newest first, optionally for a single learner
+ */
+export const listQuizAttempts = async (quizId: string, learnerId?: string): Promise<QuizAttempt[]> => {
+  const filter = learnerId ? { quiz_id: quizId, learner_id: learnerId } : { quiz_id: quizId };
+  return (await attemptStorage.list(filter)).reverse();
+};
+
+/**
+ * Every attempt by one learner, oldest first
+ */
+export const listLearnerAttempts = async (learnerId: string): Promise<QuizAttempt[]> => {
+  return attemptStorage.list({ learner_id: learnerId });
+};
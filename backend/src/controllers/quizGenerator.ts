@@ -1,17 +1,24 @@
-import { getProcessedContent } from './contentProcessor';
-import { AIRouter } from '../services/AIRouter';
+import { ContentProcessor, ProcessedContent } from './contentProcessor';
+import { ContentCollections, GenerationSource } from './contentCollections';
+import { AIRouter, GenerateOptions } from '../services/AIRouter';
+import { DocumentRepository } from '../database/DocumentRepository';
+import { isRecord, requestStructuredOutput, StructuredOutputError, ValidationResult } from '../services/StructuredOutput';
+import { QuizImportFormat } from '../services/QuizFormats';
 
 // 🎃 Quiz Generator using GhostFrame AI Router
 
 export type QuizDifficulty = 'easy' | 'medium' | 'hard';
 export type QuestionType = 'multiple-choice' | 'true-false' | 'short-answer';
 
-export interface QuizGenerationRequest {
-  contentId: string;
+export interface QuizGenerationRequest extends GenerationSource {
   questionCount: number;
   difficulty: QuizDifficulty;
   questionTypes: QuestionType[];
   focusTopics?: string[];
+  /** false asks the model afresh instead of reusing a cached generation for the same prompt */
+  cache?: boolean;
+  /** Aborts the provider requests in flight, e.g. when the job generating the quiz is cancelled */
+  signal?: AbortSignal;
 }
 
 export interface QuizQuestion {
@@ -23,50 +30,189 @@ export interface QuizQuestion {
   explanation: string;
   points: number;
   difficulty: QuizDifficulty;
+  /** Document the question was drawn from, on quizzes generated from a collection */
+  sourceContentId?: string;
 }
 
 export interface GeneratedQuiz {
   metadata: {
     quizId: string;
+    /** Empty for quizzes generated from a collection or imported from a question bank */
     contentId: string;
+    /** Set when the questions were balanced across the documents of a collection */
+    collectionId?: string;
+    sourceContentIds?: string[];
     title: string;
     totalQuestions: number;
     difficulty: QuizDifficulty;
     topics: string[];
     createdAt: Date;
+    /** Set when the questions came from an uploaded question bank rather than the AI */
+    importedFrom?: { format: QuizImportFormat; filename?: string };
   };
   questions: QuizQuestion[];
 }
 
+// Events emitted while a quiz streams: raw text deltas, then the parsed quiz
+export type QuizStreamEvent =
+  | { type: 'delta'; delta: string }
+  | { type: 'complete'; quiz: GeneratedQuiz };
+
+// JSON shape the model is asked to return
+const QUIZ_JSON_SCHEMA = `{
+  "questions": [
+    {
+      "type": "multiple-choice" | "true-false" | "short-answer",
+      "question": "Question text",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correctAnswer": "A",
+      "explanation": "Why this is correct"
+    }
+  ]
+}
+
+- "options" is only given for multiple-choice questions
+- "correctAnswer" is the option letter, "True"/"False", or the expected short answer`;
+
+// Re-asks allowed when the quiz JSON is malformed, before falling back to the text parser
+const QUIZ_JSON_RETRIES = 2;
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+// Source characters sent with a quiz prompt, chosen from the chunks most relevant to the focus topics
+const QUIZ_CONTEXT_CHARS = 3000;
+
 export class QuizGenerator {
   private static aiRouter = new AIRouter();
 
+  /**
+   * Route generation through another router, e.g. one pointed at a test provider; null restores the default
+   */
+  static setAIRouter(router: AIRouter | null): void {
+    QuizGenerator.aiRouter = router || new AIRouter();
+  }
+
   /**
    * Generate AI-powered quiz from processed content
    * Uses GhostFrame's AI Router for actual AI generation
    */
   static async generateQuiz(request: QuizGenerationRequest): Promise<GeneratedQuiz> {
-    const content = getProcessedContent(request.contentId);
-    if (!content) {
-      throw new Error(`Content not found: ${request.contentId}`);
+    if (request.collectionId) {
+      return this.generateCollectionQuiz(request);
     }
 
-    console.log(`🧠 Quiz Ghost using AI to generate ${request.questionCount} questions`);
+    const content = await ContentCollections.loadSourceContent(request);
 
-    // Build AI prompt for quiz generation
-    const prompt = this.buildQuizPrompt(content.processedText, request);
+    console.log(`🧠 Quiz Ghost using AI to generate ${request.questionCount} questions`);
 
     // Use AI Router to generate quiz
-    const aiResponse = await this.aiRouter.generate({
-      prompt,
+    const aiResponse = await this.aiRouter.generate(this.buildGenerateOptions(this.selectContext(content, request), request));
+
+    return this.assembleQuiz(request, content, aiResponse.text);
+  }
+
+  /**
+   * Stream the raw question text as tokens arrive, then emit the parsed quiz
+   */
+  static async *streamQuiz(request: QuizGenerationRequest): AsyncGenerator<QuizStreamEvent> {
+    // Collection quizzes are written one document at a time, so there is no single text stream
+    if (request.collectionId) {
+      yield { type: 'complete', quiz: await this.generateCollectionQuiz(request) };
+      return;
+    }
+
+    const content = await ContentCollections.loadSourceContent(request);
+
+    console.log(`🧠 Quiz Ghost streaming ${request.questionCount} questions`);
+
+    let aiText = '';
+    for await (const chunk of this.aiRouter.stream(this.buildGenerateOptions(this.selectContext(content, request), request))) {
+      if (chunk.finished) {
+        aiText = chunk.content;
+      } else if (chunk.delta) {
+        yield { type: 'delta', delta: chunk.delta };
+      }
+    }
+
+    yield { type: 'complete', quiz: await this.assembleQuiz(request, content, aiText) };
+  }
+
+  /**
+   * Generate validated questions for arbitrary text (e.g. a story chapter) without saving a quiz
+   */
+  static async generateQuestions(contentText: string, request: QuizGenerationRequest): Promise<QuizQuestion[]> {
+    const aiResponse = await this.aiRouter.generate(this.buildGenerateOptions(contentText, request));
+    return this.resolveQuestions(contentText, request, aiResponse.text);
+  }
+
+  /**
+   * Spread the questions evenly over a collection's documents, asking each for its share
+   */
+  private static async generateCollectionQuiz(request: QuizGenerationRequest): Promise<GeneratedQuiz> {
+    const documents = await ContentCollections.loadDocuments(request);
+    const shares = ContentCollections.allocate(request.questionCount, documents.length);
+
+    console.log(`🧠 Quiz Ghost balancing ${request.questionCount} questions across ${documents.length} documents`);
+
+    const questions: QuizQuestion[] = [];
+    for (const [index, document] of documents.entries()) {
+      if (shares[index] === 0) continue;
+
+      const share = { ...request, questionCount: shares[index] };
+      const contentText = this.selectContext(document, share);
+      const aiResponse = await this.aiRouter.generate(this.buildGenerateOptions(contentText, share));
+      const generated = await this.resolveQuestions(contentText, share, aiResponse.text);
+      questions.push(...generated.map(question => ({ ...question, sourceContentId: document.contentId })));
+    }
+
+    // Ids restart in every document's batch, so renumber across the whole quiz
+    const numbered = questions.map((question, index) => ({ ...question, id: `q${index + 1}_${Date.now()}` }));
+
+    return {
+      metadata: {
+        quizId: `quiz_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        contentId: '',
+        collectionId: request.collectionId,
+        sourceContentIds: documents.map(document => document.contentId),
+        title: await this.generateQuizTitle(documents.map(document => document.summary).join('\n'), request),
+        totalQuestions: numbered.length,
+        difficulty: request.difficulty,
+        topics: ContentCollections.combineTopics(documents),
+        createdAt: new Date()
+      },
+      questions: numbered
+    };
+  }
+
+  private static selectContext(content: ProcessedContent, request: QuizGenerationRequest): string {
+    return ContentProcessor.selectRelevantText(content, request.focusTopics, QUIZ_CONTEXT_CHARS);
+  }
+
+  /**
+   * Build the AI Router request for quiz generation
+   */
+  private static buildGenerateOptions(contentText: string, request: QuizGenerationRequest): GenerateOptions {
+    return {
+      prompt: this.buildQuizPrompt(contentText, request),
       provider: 'groq',
       model: 'llama-3.3-70b-versatile',
       temperature: 0.7,
-      maxTokens: 3000
-    });
+      maxTokens: 3000,
+      bypassCache: request.cache === false,
+      signal: request.signal
+    };
+  }
 
-    // Parse AI response into structured quiz
-    const questions = this.parseQuizResponse(aiResponse.text, request);
+  /**
+   * Parse the AI text into questions and wrap them with quiz metadata
+   */
+  private static async assembleQuiz(
+    request: QuizGenerationRequest,
+    content: ProcessedContent,
+    aiText: string
+  ): Promise<GeneratedQuiz> {
+    // Validate the AI's JSON (repairing or re-asking when needed) into structured questions
+    const questions = await this.resolveQuestions(this.selectContext(content, request), request, aiText);
 
     const quizId = `quiz_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
@@ -74,7 +220,7 @@ export class QuizGenerator {
       metadata: {
         quizId,
         contentId: request.contentId,
-        title: await this.generateQuizTitle(content.processedText),
+        title: await this.generateQuizTitle(content.processedText, request),
         totalQuestions: questions.length,
         difficulty: request.difficulty,
         topics: content.keyTopics.slice(0, 5),
@@ -116,23 +262,8 @@ ${contentText.substring(0, 3000)}
       prompt += `\n7. Focus on these topics: ${request.focusTopics.join(', ')}`;
     }
 
-    prompt += `\n\n**Format each question exactly like this:**
-
-QUESTION 1:
-Type: multiple-choice
-Question: [Your question here]
-A) [Option A]
-B) [Option B]
-C) [Option C]
-D) [Option D]
-Correct Answer: [A/B/C/D]
-Explanation: [Why this is correct]
-
-QUESTION 2:
-Type: true-false
-Question: [Your question here]
-Correct Answer: [True/False]
-Explanation: [Why this is correct]
+    prompt += `\n\n**Respond with ONLY valid JSON (no prose, no code fences) matching this schema:**
+${QUIZ_JSON_SCHEMA}
 
 **Generate all ${request.questionCount} questions now:**`;
 
@@ -140,7 +271,142 @@ Explanation: [Why this is correct]
   }
 
   /**
-   * Parse AI response into structured quiz questions
+   * Turn the AI response into questions: validated JSON first (with bounded re-asks),
+   * then the legacy text parser if the model never produced usable JSON
+   */
+  private static async resolveQuestions(
+    contentText: string,
+    request: QuizGenerationRequest,
+    aiText: string
+  ): Promise<QuizQuestion[]> {
+    const options = this.buildGenerateOptions(contentText, request);
+
+    try {
+      const { value, attempts } = await requestStructuredOutput({
+        prompt: options.prompt,
+        firstResponse: aiText,
+        ask: async prompt => (await this.aiRouter.generate({ ...options, prompt, bypassCache: true })).text,
+        validate: data => this.validateQuizJson(data, request),
+        schemaDescription: QUIZ_JSON_SCHEMA,
+        maxRetries: QUIZ_JSON_RETRIES
+      });
+
+      if (attempts > 1) {
+        console.log(`🧠 Quiz JSON repaired after ${attempts} attempts`);
+      }
+      return value;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+
+      console.warn(`⚠️ Quiz JSON unusable (${error.issues.join('; ')}), trying the text parser`);
+      return this.parseQuizResponse(error.responses[error.responses.length - 1], request);
+    }
+  }
+
+  /**
+   * Validate quiz JSON against the schema and normalize it into quiz questions
+   */
+  private static validateQuizJson(data: unknown, request: QuizGenerationRequest): ValidationResult<QuizQuestion[]> {
+    const rawQuestions = Array.isArray(data) ? data : isRecord(data) ? data.questions : undefined;
+    if (!Array.isArray(rawQuestions) || rawQuestions.length === 0) {
+      return { issues: ['Expected an object with a non-empty "questions" array'] };
+    }
+
+    const issues: string[] = [];
+    const questions: QuizQuestion[] = [];
+
+    rawQuestions.slice(0, request.questionCount).forEach((item: unknown, index: number) => {
+      const path = `questions[${index}]`;
+      const questionIssues: string[] = [];
+      const raw = isRecord(item) ? item : {};
+
+      const type = String(raw.type || '').toLowerCase();
+      if (!['multiple-choice', 'true-false', 'short-answer'].includes(type)) {
+        questionIssues.push(`${path}.type must be "multiple-choice", "true-false" or "short-answer"`);
+      }
+
+      const question = typeof raw.question === 'string' ? raw.question.trim() : '';
+      if (!question) {
+        questionIssues.push(`${path}.question must be a non-empty string`);
+      }
+
+      let options: string[] | undefined;
+      let correctAnswer = typeof raw.correctAnswer === 'string' ? raw.correctAnswer.trim() : '';
+
+      if (type === 'multiple-choice') {
+        const rawOptions = raw.options;
+        if (!Array.isArray(rawOptions) || rawOptions.length < 2 || rawOptions.length > OPTION_LETTERS.length
+          || !rawOptions.every((option: unknown): option is string => typeof option === 'string' && option.trim() !== '')) {
+          questionIssues.push(`${path}.options must be an array of 2-${OPTION_LETTERS.length} non-empty strings`);
+        } else {
+          const texts = rawOptions.map((option: string) => option.trim().replace(/^[A-F]\)\s*/, ''));
+          options = texts.map((text: string, i: number) => `${OPTION_LETTERS[i]}) ${text}`);
+
+          const letter = this.resolveOptionLetter(raw.correctAnswer, texts);
+          if (letter) {
+            correctAnswer = letter;
+          } else {
+            questionIssues.push(`${path}.correctAnswer must be one of the option letters ${OPTION_LETTERS.slice(0, texts.length).join(', ')}`);
+          }
+        }
+      } else if (type === 'true-false') {
+        const answer = String(raw.correctAnswer).trim().toLowerCase();
+        if (answer === 'true' || answer === 'false') {
+          correctAnswer = answer === 'true' ? 'True' : 'False';
+        } else {
+          questionIssues.push(`${path}.correctAnswer must be "True" or "False"`);
+        }
+      } else if (type === 'short-answer' && !correctAnswer) {
+        questionIssues.push(`${path}.correctAnswer must be a non-empty string`);
+      }
+
+      if (questionIssues.length > 0) {
+        issues.push(...questionIssues);
+        return;
+      }
+
+      questions.push({
+        id: `q${index + 1}_${Date.now()}`,
+        type: type as QuestionType,
+        question,
+        options,
+        correctAnswer,
+        explanation: typeof raw.explanation === 'string' && raw.explanation.trim()
+          ? raw.explanation.trim()
+          : 'No explanation provided.',
+        points: this.getPoints(request.difficulty),
+        difficulty: request.difficulty
+      });
+    });
+
+    return issues.length > 0 ? { issues } : { value: questions, issues };
+  }
+
+  /**
+   * Accept a letter, a zero-based index or the option text as the correct answer
+   */
+  private static resolveOptionLetter(answer: unknown, optionTexts: string[]): string | null {
+    if (typeof answer === 'number' && Number.isInteger(answer) && answer >= 0 && answer < optionTexts.length) {
+      return OPTION_LETTERS[answer];
+    }
+    if (typeof answer !== 'string') {
+      return null;
+    }
+
+    const trimmed = answer.trim();
+    const letter = trimmed.match(/^([A-F])(\)|\.|$)/i)?.[1]?.toUpperCase();
+    if (letter && OPTION_LETTERS.indexOf(letter) < optionTexts.length) {
+      return letter;
+    }
+
+    const textIndex = optionTexts.findIndex(text => text.toLowerCase() === trimmed.toLowerCase());
+    return textIndex >= 0 ? OPTION_LETTERS[textIndex] : null;
+  }
+
+  /**
+   * Parse AI response into structured quiz questions (legacy text format)
    */
   private static parseQuizResponse(aiText: string, request: QuizGenerationRequest): QuizQuestion[] {
     const questions: QuizQuestion[] = [];
@@ -212,7 +478,7 @@ Explanation: [Why this is correct]
       return null;
     }
 
-    const points = difficulty === 'easy' ? 1 : difficulty === 'medium' ? 2 : 3;
+    const points = this.getPoints(difficulty);
 
     return {
       id: `q${index + 1}_${Date.now()}`,
@@ -226,6 +492,10 @@ Explanation: [Why this is correct]
     };
   }
 
+  private static getPoints(difficulty: QuizDifficulty): number {
+    return difficulty === 'easy' ? 1 : difficulty === 'medium' ? 2 : 3;
+  }
+
   /**
    * Generate fallback questions if AI parsing fails
    * REMOVED - No hardcoded templates, only AI-generated content
@@ -237,7 +507,7 @@ Explanation: [Why this is correct]
   /**
    * Generate quiz title using AI
    */
-  private static async generateQuizTitle(contentText: string): Promise<string> {
+  private static async generateQuizTitle(contentText: string, request: QuizGenerationRequest): Promise<string> {
     const prompt = `Based on this content, generate a short quiz title (maximum 8 words):
 
 ${contentText.substring(0, 300)}...
@@ -250,7 +520,9 @@ Title:`;
         provider: 'groq',
         model: 'llama-3.3-70b-versatile',
         temperature: 0.7,
-        maxTokens: 30
+        maxTokens: 30,
+        bypassCache: request.cache === false,
+        signal: request.signal
       });
 
       return response.text.trim().replace(/^["']|["']$/g, '');
@@ -260,18 +532,28 @@ Title:`;
   }
 }
 
-// In-memory storage for demo
-export const quizStorage = new Map<string, GeneratedQuiz>();
-
-export const saveGeneratedQuiz = (quiz: GeneratedQuiz): void => {
-  quizStorage.set(quiz.metadata.quizId, quiz);
+// Persistent storage through the configured database adapter
+export const quizStorage = new DocumentRepository<GeneratedQuiz>({
+  table: 'generated_quizzes',
+  getId: quiz => quiz.metadata.quizId,
+  getCreatedAt: quiz => quiz.metadata.createdAt,
+  columns: quiz => ({ content_id: quiz.metadata.contentId }),
+  revive: quiz => ({
+    ...quiz,
+    metadata: { ...quiz.metadata, createdAt: new Date(quiz.metadata.createdAt) },
+  }),
+});
+
+export const saveGeneratedQuiz = async (quiz: GeneratedQuiz): Promise<void> => {
+  await quizStorage.save(quiz);
   console.log(`💾 Quiz saved: ${quiz.metadata.quizId}`);
 };
 
-export const getGeneratedQuiz = (quizId: string): GeneratedQuiz | null => {
-  return quizStorage.get(quizId) || null;
+export const getGeneratedQuiz = async (quizId: string): Promise<GeneratedQuiz | null> => {
+  return quizStorage.get(quizId);
 };
 
-export const listGeneratedQuizzes = (): GeneratedQuiz[] => {
-  return Array.from(quizStorage.values());
+export const listGeneratedQuizzes = async (): Promise<GeneratedQuiz[]> => {
+  return quizStorage.list();
 };
+
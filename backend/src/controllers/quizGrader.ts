@@ -0,0 +1,265 @@
+import { GeneratedQuiz, QuizQuestion } from './quizGenerator';
+import { AIRouter } from '../services/AIRouter';
+import { isRecord, requestStructuredOutput, ValidationResult } from '../services/StructuredOutput';
+
+// 🎃 Quiz Grader - normalized matching for choice questions, rubric scoring for short answers
+
+export type GradingMethod = 'exact' | 'ai-rubric' | 'keyword-overlap';
+
+export interface SubmittedAnswer {
+  questionId: string;
+  answer: string;
+}
+
+export interface QuestionGrade {
+  questionId: string;
+  question: string;
+  userAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  /** Fraction of credit earned, 0-1 */
+  score: number;
+  points: number;
+  maxPoints: number;
+  feedback: string;
+  explanation: string;
+  gradedBy: GradingMethod;
+}
+
+export interface QuizGradingResult {
+  score: {
+    correct: number;
+    total: number;
+    percentage: number;
+    points: number;
+    maxPoints: number;
+  };
+  results: QuestionGrade[];
+}
+
+interface RubricScore {
+  score: number;
+  feedback: string;
+}
+
+// Share of credit at which a short answer counts as correct
+export const PASSING_SCORE = 0.7;
+
+const RUBRIC_SCHEMA = `{
+  "score": 0.0,
+  "feedback": "One or two sentences for the learner"
+}
+
+- "score" runs from 0 (wrong) to 1 (fully correct); partial credit is allowed`;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those',
+  'from', 'as', 'into', 'than', 'then', 'so', 'such', 'can', 'do', 'does', 'which', 'what'
+]);
+
+export class QuizGrader {
+  private static aiRouter = new AIRouter();
+
+  /**
+   * Route generation through another router, e.g. one pointed at a test provider; null restores the default
+   */
+  static setAIRouter(router: AIRouter | null): void {
+    QuizGrader.aiRouter = router || new AIRouter();
+  }
+
+  /**
+   * Grade every question in a quiz against the submitted answers
+   */
+  static async gradeQuiz(quiz: GeneratedQuiz, answers: SubmittedAnswer[]): Promise<QuizGradingResult> {
+    const results: QuestionGrade[] = [];
+
+    for (const question of quiz.questions) {
+      const submitted = answers.find(answer => answer.questionId === question.id);
+      results.push(await this.gradeQuestion(question, submitted?.answer));
+    }
+
+    const points = round(results.reduce((sum, result) => sum + result.points, 0));
+    const maxPoints = results.reduce((sum, result) => sum + result.maxPoints, 0);
+
+    return {
+      score: {
+        correct: results.filter(result => result.isCorrect).length,
+        total: results.length,
+        percentage: maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0,
+        points,
+        maxPoints
+      },
+      results
+    };
+  }
+
+  /**
+   * Grade a single answer, awarding partial credit for short answers
+   */
+  static async gradeQuestion(question: QuizQuestion, answer?: string): Promise<QuestionGrade> {
+    const userAnswer = typeof answer === 'string' ? answer.trim() : '';
+
+    if (!userAnswer) {
+      return this.buildGrade(question, 'No answer', 0, 'No answer was submitted.', 'exact');
+    }
+
+    if (question.type === 'multiple-choice') {
+      const correct = this.choiceKey(userAnswer, question.options) === this.choiceKey(question.correctAnswer, question.options);
+      return this.buildGrade(question, userAnswer, correct ? 1 : 0, correct ? 'Correct!' : 'Not quite.', 'exact');
+    }
+
+    if (question.type === 'true-false') {
+      const correct = normalizeBoolean(userAnswer) !== null && normalizeBoolean(userAnswer) === normalizeBoolean(question.correctAnswer);
+      return this.buildGrade(question, userAnswer, correct ? 1 : 0, correct ? 'Correct!' : 'Not quite.', 'exact');
+    }
+
+    if (normalizeText(userAnswer) === normalizeText(question.correctAnswer)) {
+      return this.buildGrade(question, userAnswer, 1, 'Correct!', 'exact');
+    }
+
+    try {
+      const rubric = await this.gradeWithRubric(question, userAnswer);
+      return this.buildGrade(question, userAnswer, rubric.score, rubric.feedback, 'ai-rubric');
+    } catch (error) {
+      console.warn(`⚠️ AI grading unavailable (${error instanceof Error ? error.message : error}), using keyword overlap`);
+      const score = keywordOverlapScore(userAnswer, `${question.correctAnswer}`);
+      return this.buildGrade(question, userAnswer, score, keywordFeedback(score), 'keyword-overlap');
+    }
+  }
+
+  /**
+   * Ask the AI to score a short answer against the reference answer and rubric
+   */
+  private static async gradeWithRubric(question: QuizQuestion, userAnswer: string): Promise<RubricScore> {
+    const prompt = `You are grading a learner's short answer. Score it against the reference answer using this rubric:
+- 1.0: covers every key idea of the reference answer (wording may differ)
+- 0.5-0.9: partially correct; some key ideas are missing or imprecise
+- 0.1-0.4: mentions a relevant idea but is mostly incomplete or confused
+- 0.0: wrong, irrelevant or empty
+
+**Question:** ${question.question}
+**Reference answer:** ${question.correctAnswer}
+**Why it is correct:** ${question.explanation}
+**Learner's answer:** ${userAnswer}
+
+Respond with ONLY valid JSON matching this schema:
+${RUBRIC_SCHEMA}`;
+
+    const options = {
+      prompt,
+      provider: 'groq' as const,
+      model: 'llama-3.3-70b-versatile',
+      temperature: 0,
+      maxTokens: 200
+    };
+
+    const { value } = await requestStructuredOutput({
+      prompt,
+      ask: async retryPrompt => (await this.aiRouter.generate({ ...options, prompt: retryPrompt })).text,
+      validate: validateRubricScore,
+      schemaDescription: RUBRIC_SCHEMA,
+      maxRetries: 1
+    });
+
+    return value;
+  }
+
+  /**
+   * Reduce a multiple-choice answer to its option letter ("B) Mitochondria", "b", "Mitochondria" -> "B")
+   */
+  private static choiceKey(answer: string, options: string[] = []): string {
+    const trimmed = answer.trim();
+    const letter = trimmed.match(/^([A-F])(\)|\.|:|$)/i)?.[1];
+    if (letter) {
+      return letter.toUpperCase();
+    }
+
+    const index = options.findIndex(option =>
+      normalizeText(option.replace(/^[A-F][).:]\s*/i, '')) === normalizeText(trimmed)
+    );
+    return index >= 0 ? String.fromCharCode(65 + index) : normalizeText(trimmed);
+  }
+
+  private static buildGrade(
+    question: QuizQuestion,
+    userAnswer: string,
+    score: number,
+    feedback: string,
+    gradedBy: GradingMethod
+  ): QuestionGrade {
+    return {
+      questionId: question.id,
+      question: question.question,
+      userAnswer,
+      correctAnswer: question.correctAnswer,
+      isCorrect: score >= PASSING_SCORE,
+      score,
+      points: round(question.points * score),
+      maxPoints: question.points,
+      feedback,
+      explanation: question.explanation,
+      gradedBy
+    };
+  }
+}
+
+function validateRubricScore(data: unknown): ValidationResult<RubricScore> {
+  const raw = isRecord(data) ? data : {};
+  const score = typeof raw.score === 'string' ? Number(raw.score) : raw.score;
+
+  if (typeof score !== 'number' || Number.isNaN(score) || score < 0 || score > 1) {
+    return { issues: ['"score" must be a number from 0 to 1'] };
+  }
+  const feedback = typeof raw.feedback === 'string' ? raw.feedback.trim() : '';
+  if (!feedback) {
+    return { issues: ['"feedback" must be a non-empty string'] };
+  }
+
+  return { value: { score: round(score), feedback }, issues: [] };
+}
+
+/**
+ * Deterministic fallback: share of the reference answer's keywords found in the learner's answer
+ */
+export function keywordOverlapScore(answer: string, reference: string): number {
+  const expected = new Set(keywords(reference));
+  if (expected.size === 0) return 0;
+
+  const given = new Set(keywords(answer));
+  let matched = 0;
+  expected.forEach(word => {
+    if (given.has(word)) matched++;
+  });
+
+  return round(matched / expected.size);
+}
+
+function keywordFeedback(score: number): string {
+  if (score >= PASSING_SCORE) return 'Your answer covers the key ideas.';
+  if (score > 0) return 'Your answer touches on some key ideas but misses others.';
+  return 'Your answer does not mention the key ideas.';
+}
+
+function keywords(text: string): string[] {
+  return normalizeText(text)
+    .split(' ')
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    // Light stemming so "plants" matches "plant"
+    .map(word => word.replace(/(ies|es|s)$/, ''));
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeBoolean(value: string): boolean | null {
+  const normalized = normalizeText(value);
+  if (['true', 't', 'yes', 'y'].includes(normalized)) return true;
+  if (['false', 'f', 'no', 'n'].includes(normalized)) return false;
+  return null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
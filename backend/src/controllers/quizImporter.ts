@@ -0,0 +1,75 @@
+import { GeneratedQuiz, QuizDifficulty, saveGeneratedQuiz } from './quizGenerator';
+import {
+  detectQuizFormat,
+  parseQuizQuestions,
+  QuestionParseError,
+  QuizImportFormat
+} from '../services/QuizFormats';
+
+// 🎃 Quiz Importer - brings existing GIFT, QTI and CSV question banks into Quiz Ghost
+
+export interface QuizImportRequest {
+  content: string;
+  format?: QuizImportFormat;
+  filename?: string;
+  title?: string;
+  difficulty?: QuizDifficulty;
+  topics?: string[];
+}
+
+export interface QuizImportResult {
+  /** Null when no question could be parsed */
+  quiz: GeneratedQuiz | null;
+  format: QuizImportFormat;
+  errors: QuestionParseError[];
+}
+
+export class QuizImporter {
+  /**
+   * Parse a question bank and store the questions that parsed cleanly as a quiz
+   */
+  static async importQuiz(request: QuizImportRequest): Promise<QuizImportResult> {
+    const format = request.format || detectQuizFormat(request.content, request.filename);
+    const difficulty = request.difficulty || 'medium';
+    const { questions, errors } = parseQuizQuestions(request.content, format, difficulty);
+
+    if (questions.length === 0) {
+      console.warn(`⚠️ Quiz import (${format}) found no usable questions`);
+      return { quiz: null, format, errors };
+    }
+
+    const quizId = `quiz_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const quiz: GeneratedQuiz = {
+      metadata: {
+        quizId,
+        contentId: '',
+        title: request.title?.trim() || titleFromFilename(request.filename) || 'Imported Quiz',
+        totalQuestions: questions.length,
+        difficulty,
+        topics: request.topics || [],
+        createdAt: new Date(),
+        importedFrom: { format, filename: request.filename }
+      },
+      // Imported banks often reuse ids like "q1"; keep them unique within the quiz
+      questions: questions.map((question, index) => ({
+        ...question,
+        id: questions.findIndex(other => other.id === question.id) === index ? question.id : `${question.id}_${index + 1}`
+      }))
+    };
+
+    await saveGeneratedQuiz(quiz);
+    console.log(`📥 Imported ${questions.length} questions from ${format} (${errors.length} skipped)`);
+
+    return { quiz, format, errors };
+  }
+}
+
+function titleFromFilename(filename?: string): string {
+  if (!filename) return '';
+  return filename
+    .replace(/\.[^.]+$/, '')
+    .replace(/\.gift$/i, '')
+    .replace(/[-_.]qti$/i, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+}
@@ -1,5 +1,9 @@
-import { getProcessedContent } from './contentProcessor';
-import { AIRouter } from '../services/AIRouter';
+import { ContentProcessor, ProcessedContent } from './contentProcessor';
+import { ContentCollections, GenerationSource } from './contentCollections';
+import { GeneratedQuiz, QuizGenerator, QuizQuestion } from './quizGenerator';
+import { AIRouter, GenerateOptions } from '../services/AIRouter';
+import { DocumentRepository } from '../database/DocumentRepository';
+import { isRecord, requestStructuredOutput, StructuredOutputError, ValidationResult } from '../services/StructuredOutput';
 
 // 🎃 Story Generator using GhostFrame AI Router
 
@@ -7,20 +11,67 @@ export type StoryTheme = 'adventure' | 'mystery' | 'fantasy' | 'sci-fi' | 'histo
 export type TargetAudience = 'children' | 'teens' | 'adults' | 'academic';
 export type StoryLength = 'short' | 'medium' | 'long';
 
-export interface StoryGenerationRequest {
-  contentId: string;
+export interface StoryGenerationRequest extends GenerationSource {
   theme: StoryTheme;
   targetAudience: TargetAudience;
   length: StoryLength;
   customPrompt?: string;
   includeCharacters?: string[];
   setting?: string;
+  /** Add comprehension questions after each chapter (educational stories only) */
+  includeCheckpoints?: boolean;
+  /** Source topics to draw on when the content is too long to send whole */
+  focusTopics?: string[];
+  /** false asks the model afresh instead of reusing a cached generation for the same prompt */
+  cache?: boolean;
+  /** Aborts the provider requests in flight, e.g. when the job writing the story is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface StoryChapter {
+  title: string;
+  /** Outline beat the chapter was written from */
+  synopsis: string;
+  keyPoints: string[];
+  content: string;
+  wordCount: number;
+  /** Comprehension questions shown after the chapter, graded like quiz questions */
+  checkpoints?: QuizQuestion[];
+}
+
+export interface StoryScene {
+  sceneId: string;
+  content: string;
+  /** 1 for the opening scene */
+  depth: number;
+  isEnding: boolean;
+  wordCount: number;
+}
+
+/** Edge from a scene to the scene a choice leads to; `toSceneId` is null until a reader picks it */
+export interface StoryChoice {
+  choiceId: string;
+  fromSceneId: string;
+  toSceneId: string | null;
+  label: string;
+}
+
+export interface StoryGraph {
+  startSceneId: string;
+  /** Scenes on the longest path; scenes at this depth are endings */
+  maxDepth: number;
+  scenes: StoryScene[];
+  choices: StoryChoice[];
 }
 
 export interface GeneratedStory {
   metadata: {
     storyId: string;
+    /** Empty for stories drawn from a collection */
     contentId: string;
+    collectionId?: string;
+    /** Sections of the upload the story was drawn from, when not the whole document */
+    sectionIds?: string[];
     title: string;
     theme: StoryTheme;
     targetAudience: TargetAudience;
@@ -28,128 +79,464 @@ export interface GeneratedStory {
     wordCount: number;
     estimatedReadingTime: number;
     createdAt: Date;
+    /** Source content topics the checkpoints are tied to */
+    keyTopics?: string[];
   };
+  /** All chapters joined under "## Chapter title" headings */
   content: string;
+  /** Absent on stories generated before chapters existed */
+  chapters?: StoryChapter[];
+  /** Present on interactive "choose your path" stories */
+  branching?: StoryGraph;
   summary: string;
   moralOrLesson?: string;
 }
 
+// Events emitted while a story streams: text deltas, then the assembled story
+export type StoryStreamEvent =
+  | { type: 'delta'; delta: string }
+  | { type: 'complete'; story: GeneratedStory };
+
+/** Called once the outline is planned and again after each chapter is written; may reject to stop generation */
+export type StoryProgress = (chaptersWritten: number, totalChapters: number) => Promise<void> | void;
+
+type OutlineChapter = Pick<StoryChapter, 'title' | 'synopsis' | 'keyPoints'>;
+
+// Chapters are written one at a time, so long stories fit within each request's token budget
+const CHAPTER_PLAN: Record<StoryLength, { chapters: number; wordsPerChapter: number }> = {
+  short: { chapters: 2, wordsPerChapter: 300 },
+  medium: { chapters: 3, wordsPerChapter: 420 },
+  long: { chapters: 5, wordsPerChapter: 500 }
+};
+
+export const AUDIENCE_GUIDANCE: Record<TargetAudience, string> = {
+  children: 'Use simple language, short sentences, and engaging descriptions suitable for ages 8-12.',
+  teens: 'Use engaging language with moderate complexity suitable for ages 13-17.',
+  adults: 'Use sophisticated language and complex narratives suitable for adult readers.',
+  academic: 'Use formal academic language with proper terminology and scholarly tone.'
+};
+
+const OUTLINE_SCHEMA = `{
+  "chapters": [
+    {
+      "title": "Chapter title (no 'Chapter 1:' prefix)",
+      "synopsis": "2-3 sentences on what happens in this chapter",
+      "keyPoints": ["Concept from the source content this chapter teaches"]
+    }
+  ]
+}`;
+
+/**
+ * Prompt lines for the optional setting, characters and custom instructions
+ */
+export const describeStoryOptions = (request: StoryGenerationRequest): string => {
+  let text = '';
+  if (request.setting) {
+    text += `\n- Set the story in: ${request.setting}`;
+  }
+  if (request.includeCharacters && request.includeCharacters.length > 0) {
+    text += `\n- Include these characters: ${request.includeCharacters.join(', ')}`;
+  }
+  if (request.customPrompt) {
+    text += `\n- Additional requirements: ${request.customPrompt}`;
+  }
+  return text;
+};
+
+// Source characters sent when planning the outline and when writing each chapter
+const OUTLINE_CONTEXT_CHARS = 3000;
+const CHAPTER_CONTEXT_CHARS = 2000;
+
+// Questions asked at each chapter's checkpoint
+const CHECKPOINT_QUESTIONS = 2;
+
+// Characters of neighbouring chapters shown to the model for continuity
+const CONTINUITY_CONTEXT = 800;
+
 export class StoryGenerator {
   private static aiRouter = new AIRouter();
 
+  /**
+   * Route generation through another router, e.g. one pointed at a test provider; null restores the default
+   */
+  static setAIRouter(router: AIRouter | null): void {
+    StoryGenerator.aiRouter = router || new AIRouter();
+  }
+
   /**
    * Generate AI-powered story from processed content
-   * Uses GhostFrame's AI Router for actual AI generation
+   * Plans an outline, then writes each chapter with its neighbours in view
    */
-  static async generateStory(request: StoryGenerationRequest): Promise<GeneratedStory> {
-    const content = getProcessedContent(request.contentId);
-    if (!content) {
-      throw new Error(`Content not found: ${request.contentId}`);
+  static async generateStory(request: StoryGenerationRequest, onProgress?: StoryProgress): Promise<GeneratedStory> {
+    const content = await ContentCollections.loadSourceContent(request);
+    const outline = await this.planOutline(
+      ContentProcessor.selectRelevantText(content, request.focusTopics, OUTLINE_CONTEXT_CHARS),
+      request
+    );
+    const chapters: StoryChapter[] = [];
+    await onProgress?.(0, outline.length);
+
+    for (let index = 0; index < outline.length; index++) {
+      const response = await this.aiRouter.generate(this.buildChapterOptions(this.chapterSource(content, request, outline[index]), request, outline, chapters, index));
+      chapters.push(this.buildChapter(outline[index], response.text));
+      await onProgress?.(chapters.length, outline.length);
     }
 
-    console.log(`👻 Story Spirit using AI to generate ${request.theme} story`);
+    return this.assembleStory(request, await this.addCheckpoints(request, content, chapters), content);
+  }
 
-    // Build AI prompt based on requirements
-    const prompt = this.buildStoryPrompt(content.processedText, request);
+  /**
+   * Stream the story text chapter by chapter as tokens arrive, then emit the assembled story
+   */
+  static async *streamStory(request: StoryGenerationRequest): AsyncGenerator<StoryStreamEvent> {
+    const content = await ContentCollections.loadSourceContent(request);
+    const outline = await this.planOutline(
+      ContentProcessor.selectRelevantText(content, request.focusTopics, OUTLINE_CONTEXT_CHARS),
+      request
+    );
+    const chapters: StoryChapter[] = [];
+
+    for (let index = 0; index < outline.length; index++) {
+      // Stream the heading too, so the streamed text matches the final `content`
+      yield { type: 'delta', delta: `${index > 0 ? '\n\n' : ''}## ${outline[index].title}\n\n` };
+
+      let chapterText = '';
+      for await (const chunk of this.aiRouter.stream(this.buildChapterOptions(this.chapterSource(content, request, outline[index]), request, outline, chapters, index))) {
+        if (chunk.finished) {
+          chapterText = chunk.content;
+        } else if (chunk.delta) {
+          yield { type: 'delta', delta: chunk.delta };
+        }
+      }
+      chapters.push(this.buildChapter(outline[index], chapterText));
+    }
 
-    // Use AI Router to generate story
-    const aiResponse = await this.aiRouter.generate({
-      prompt,
-      provider: 'groq', // Using Groq for fast generation
-      model: 'llama-3.3-70b-versatile',
-      temperature: 0.8, // Higher temperature for creative writing
-      maxTokens: this.getMaxTokens(request.length)
-    });
+    const withCheckpoints = await this.addCheckpoints(request, content, chapters);
+    yield { type: 'complete', story: await this.assembleStory(request, withCheckpoints, content) };
+  }
 
-    // Parse AI response
-    const storyContent = aiResponse.text;
-    const wordCount = storyContent.split(/\s+/).length;
-    const estimatedReadingTime = Math.ceil(wordCount / 200);
+  /**
+   * Rewrite one chapter so it still follows the previous chapter and leads into the next
+   */
+  static async regenerateChapter(
+    story: GeneratedStory,
+    index: number,
+    instructions?: string
+  ): Promise<GeneratedStory> {
+    const chapters = story.chapters || [];
+    if (index < 0 || index >= chapters.length) {
+      throw new Error(`Chapter not found: ${index}`);
+    }
 
-    // Generate summary using AI
-    const summary = await this.generateSummary(storyContent);
+    const content = await ContentCollections.findSourceContent(storySource(story));
+    const request: StoryGenerationRequest = {
+      ...storySource(story),
+      theme: story.metadata.theme,
+      targetAudience: story.metadata.targetAudience,
+      length: story.metadata.length,
+      customPrompt: instructions
+    };
+    const sourceText = content ? this.chapterSource(content, request, chapters[index]) : story.summary;
 
-    // Generate moral/lesson using AI
-    const moralOrLesson = await this.generateMoral(storyContent, request.theme);
+    console.log(`🔁 Story Spirit rewriting chapter ${index + 1} of ${story.metadata.storyId}`);
 
-    const storyId = `story_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const options = this.buildChapterOptions(sourceText, request, chapters, chapters.slice(0, index), index, chapters[index + 1]);
+    // A rewrite must not come back from the cache unchanged
+    const response = await this.aiRouter.generate({ ...options, bypassCache: true });
+
+    const rewritten = this.buildChapter(chapters[index], response.text);
+    // Checkpoints must ask about the new text, not the chapter it replaced
+    if (chapters[index].checkpoints && content) {
+      rewritten.checkpoints = await this.generateCheckpoints(rewritten, index, request, content);
+    }
+
+    const updated = chapters.map((chapter, position) => (position === index ? rewritten : chapter));
+    const wordCount = updated.reduce((sum, chapter) => sum + chapter.wordCount, 0);
 
     return {
+      ...story,
       metadata: {
-        storyId,
-        contentId: request.contentId,
-        title: await this.generateTitle(storyContent, request.theme),
-        theme: request.theme,
-        targetAudience: request.targetAudience,
-        length: request.length,
+        ...story.metadata,
         wordCount,
-        estimatedReadingTime,
-        createdAt: new Date()
+        estimatedReadingTime: Math.ceil(wordCount / 200)
       },
-      content: storyContent,
-      summary,
-      moralOrLesson
+      content: this.joinChapters(updated),
+      chapters: updated
     };
   }
 
   /**
-   * Build comprehensive prompt for AI story generation
+   * Source text for one chapter: the sections that match its outline key points
    */
-  private static buildStoryPrompt(contentText: string, request: StoryGenerationRequest): string {
-    const lengthGuidance = {
-      short: '500-700 words',
-      medium: '1000-1500 words',
-      long: '2000-3000 words'
-    };
+  private static chapterSource(
+    content: ProcessedContent,
+    request: StoryGenerationRequest,
+    chapter: OutlineChapter
+  ): string {
+    const focus = [...chapter.keyPoints, ...(request.focusTopics || [])];
+    return ContentProcessor.selectRelevantText(content, focus, CHAPTER_CONTEXT_CHARS);
+  }
 
-    const audienceGuidance = {
-      children: 'Use simple language, short sentences, and engaging descriptions suitable for ages 8-12.',
-      teens: 'Use engaging language with moderate complexity suitable for ages 13-17.',
-      adults: 'Use sophisticated language and complex narratives suitable for adult readers.',
-      academic: 'Use formal academic language with proper terminology and scholarly tone.'
+  private static wantsCheckpoints(request: StoryGenerationRequest): boolean {
+    return Boolean(request.includeCheckpoints) && request.theme === 'educational';
+  }
+
+  /**
+   * Attach checkpoint questions to every chapter when the request asks for them
+   */
+  private static async addCheckpoints(
+    request: StoryGenerationRequest,
+    content: ProcessedContent,
+    chapters: StoryChapter[]
+  ): Promise<StoryChapter[]> {
+    if (!this.wantsCheckpoints(request)) {
+      return chapters;
+    }
+
+    console.log(`🧠 Story Spirit adding checkpoints to ${chapters.length} chapters`);
+
+    const withCheckpoints: StoryChapter[] = [];
+    for (let index = 0; index < chapters.length; index++) {
+      const checkpoints = await this.generateCheckpoints(chapters[index], index, request, content);
+      withCheckpoints.push({ ...chapters[index], checkpoints });
+    }
+    return withCheckpoints;
+  }
+
+  /**
+   * Ask the Quiz Ghost for questions on what the chapter taught about the source's key topics
+   */
+  private static async generateCheckpoints(
+    chapter: StoryChapter,
+    index: number,
+    request: StoryGenerationRequest,
+    content: ProcessedContent
+  ): Promise<QuizQuestion[] | undefined> {
+    const children = request.targetAudience === 'children';
+    const chapterText = `Story chapter "${chapter.title}":
+${chapter.content.substring(0, 2000)}
+
+Source material the chapter teaches:
+${ContentProcessor.selectRelevantText(content, chapter.keyPoints, 1000)}`;
+
+    try {
+      const questions = await QuizGenerator.generateQuestions(chapterText, {
+        contentId: request.contentId,
+        questionCount: CHECKPOINT_QUESTIONS,
+        difficulty: children ? 'easy' : 'medium',
+        questionTypes: children ? ['multiple-choice', 'true-false'] : ['multiple-choice', 'true-false', 'short-answer'],
+        focusTopics: content.keyTopics.slice(0, 5),
+        cache: request.cache,
+        signal: request.signal
+      });
+
+      // Stable ids so answers can be matched back to the chapter's questions
+      return questions.map((question, position) => ({ ...question, id: `chapter${index + 1}_q${position + 1}` }));
+    } catch (error) {
+      // A story without a checkpoint is better than no story, but a cancelled story should stop
+      if (request.signal?.aborted) throw error;
+      console.warn(`⚠️ Checkpoint for chapter ${index + 1} skipped:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Ask for a chapter outline as JSON; fall back to a generic arc if the model cannot provide one
+   */
+  private static async planOutline(sourceText: string, request: StoryGenerationRequest): Promise<OutlineChapter[]> {
+    const plan = CHAPTER_PLAN[request.length];
+    console.log(`👻 Story Spirit planning a ${plan.chapters}-chapter ${request.theme} story`);
+
+    const prompt = `You are a creative storyteller planning an engaging ${request.theme} story for ${request.targetAudience} based on the following content.
+
+**Source Content:**
+${sourceText.substring(0, 3000)}
+
+**Instructions:**
+1. Plan exactly ${plan.chapters} chapters with a clear beginning, middle, and end
+2. Weave key concepts from the source content into the plot; list them per chapter as keyPoints${describeStoryOptions(request)}
+
+Respond with ONLY valid JSON matching this schema:
+${OUTLINE_SCHEMA}`;
+
+    const options: GenerateOptions = {
+      prompt,
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      temperature: 0.7,
+      maxTokens: 300 * plan.chapters,
+      bypassCache: request.cache === false,
+      signal: request.signal
     };
 
-    let prompt = `You are a creative storyteller. Generate an engaging ${request.theme} story based on the following content.
+    try {
+      const { value } = await requestStructuredOutput({
+        prompt,
+        ask: async askPrompt => (await this.aiRouter.generate({ ...options, prompt: askPrompt, bypassCache: options.bypassCache || askPrompt !== prompt })).text,
+        validate: data => this.validateOutline(data, plan.chapters),
+        schemaDescription: OUTLINE_SCHEMA,
+        maxRetries: 1
+      });
+      return value;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      console.warn('⚠️ Story outline unusable, using a generic arc');
+      return this.defaultOutline(plan.chapters);
+    }
+  }
+
+  private static validateOutline(data: unknown, chapterCount: number): ValidationResult<OutlineChapter[]> {
+    const chapters = isRecord(data) ? data.chapters : undefined;
+    if (!Array.isArray(chapters) || chapters.length === 0) {
+      return { issues: ['"chapters" must be a non-empty array'] };
+    }
+
+    const issues: string[] = [];
+    const outline = chapters.slice(0, chapterCount).map((item: unknown, index: number) => {
+      const raw = isRecord(item) ? item : {};
+      const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+      const synopsis = typeof raw.synopsis === 'string' ? raw.synopsis.trim() : '';
+      if (!title) issues.push(`chapters[${index}].title is required`);
+      if (!synopsis) issues.push(`chapters[${index}].synopsis is required`);
+      return {
+        title: title.replace(/^chapter\s+\w+\s*[:.-]\s*/i, ''),
+        synopsis,
+        keyPoints: Array.isArray(raw.keyPoints) ? raw.keyPoints.filter((point: unknown) => typeof point === 'string') : []
+      };
+    });
+
+    return issues.length > 0 ? { issues } : { value: outline, issues };
+  }
+
+  private static defaultOutline(chapterCount: number): OutlineChapter[] {
+    return Array.from({ length: chapterCount }, (_, index) => ({
+      title: `Chapter ${index + 1}`,
+      synopsis: index === 0
+        ? 'Introduce the characters and setting, and the problem they face.'
+        : index === chapterCount - 1
+          ? 'Resolve the problem and show what the characters learned.'
+          : 'Raise the stakes as the characters explore the key ideas.',
+      keyPoints: []
+    }));
+  }
+
+  /**
+   * Build the AI Router request for one chapter, with its neighbours for continuity
+   */
+  private static buildChapterOptions(
+    sourceText: string,
+    request: StoryGenerationRequest,
+    outline: OutlineChapter[],
+    previous: StoryChapter[],
+    index: number,
+    next?: StoryChapter
+  ): GenerateOptions {
+    const plan = CHAPTER_PLAN[request.length];
+    const chapter = outline[index];
+    const before = previous[previous.length - 1];
+
+    let prompt = `You are a creative storyteller writing chapter ${index + 1} of ${outline.length} of an engaging ${request.theme} story.
 
 **Story Requirements:**
 - Theme: ${request.theme}
 - Target Audience: ${request.targetAudience}
-- Length: ${lengthGuidance[request.length]}
-- Writing Style: ${audienceGuidance[request.targetAudience]}
+- Chapter Length: about ${plan.wordsPerChapter} words
+- Writing Style: ${AUDIENCE_GUIDANCE[request.targetAudience]}
 
 **Source Content to Base Story On:**
-${contentText.substring(0, 3000)}
+${sourceText.substring(0, 2000)}
 
-**Instructions:**
-1. Create an original ${request.theme} story that incorporates key concepts from the source content
-2. Make the story engaging and appropriate for ${request.targetAudience}
-3. Include educational elements naturally woven into the narrative
-4. Use vivid descriptions and compelling characters
-5. Ensure the story has a clear beginning, middle, and end
-6. Target length: ${lengthGuidance[request.length]}`;
-
-    if (request.setting) {
-      prompt += `\n7. Set the story in: ${request.setting}`;
-    }
+**Story Outline:**
+${outline.map((entry, position) => `${position + 1}. ${entry.title}: ${entry.synopsis}`).join('\n')}
 
-    if (request.includeCharacters && request.includeCharacters.length > 0) {
-      prompt += `\n8. Include these characters: ${request.includeCharacters.join(', ')}`;
+**This Chapter:** ${chapter.title}
+${chapter.synopsis}${chapter.keyPoints.length > 0 ? `\nWeave in: ${chapter.keyPoints.join('; ')}` : ''}`;
+
+    if (before) {
+      prompt += `\n\n**The previous chapter ended:**\n...${before.content.slice(-CONTINUITY_CONTEXT)}\n\nContinue seamlessly from there.`;
     }
 
-    if (request.customPrompt) {
-      prompt += `\n9. Additional requirements: ${request.customPrompt}`;
+    if (next) {
+      prompt += `\n\n**The next chapter begins:**\n${next.content.slice(0, CONTINUITY_CONTEXT)}...\n\nEnd this chapter so it leads naturally into that opening.`;
     }
 
-    prompt += `\n\n**Generate the complete story now:**`;
+    prompt += describeStoryOptions(request);
+    prompt += `\n\n**Write only the prose of this chapter now (no chapter heading):**`;
 
-    return prompt;
+    return {
+      prompt,
+      provider: 'groq', // Using Groq for fast generation
+      model: 'llama-3.3-70b-versatile',
+      temperature: 0.8, // Higher temperature for creative writing
+      maxTokens: plan.wordsPerChapter * 2,
+      bypassCache: request.cache === false,
+      signal: request.signal
+    };
+  }
+
+  private static buildChapter(outline: OutlineChapter, text: string): StoryChapter {
+    // Models sometimes repeat the heading they were told not to write
+    const content = text.trim().replace(/^(#{1,3}\s+.*|\**chapter\s+\w+\b.*)\n+/i, '').trim();
+    return {
+      title: outline.title,
+      synopsis: outline.synopsis,
+      keyPoints: outline.keyPoints,
+      content,
+      wordCount: content.split(/\s+/).filter(Boolean).length
+    };
+  }
+
+  private static joinChapters(chapters: StoryChapter[]): string {
+    return chapters.map(chapter => `## ${chapter.title}\n\n${chapter.content}`).join('\n\n');
+  }
+
+  /**
+   * Add title, summary, moral and reading stats around the generated chapters
+   */
+  private static async assembleStory(
+    request: StoryGenerationRequest,
+    chapters: StoryChapter[],
+    content: ProcessedContent
+  ): Promise<GeneratedStory> {
+    const storyContent = this.joinChapters(chapters);
+    const wordCount = chapters.reduce((sum, chapter) => sum + chapter.wordCount, 0);
+    const estimatedReadingTime = Math.ceil(wordCount / 200);
+
+    // Generate summary using AI
+    const summary = await this.generateSummary(storyContent, request);
+
+    // Generate moral/lesson using AI
+    const moralOrLesson = await this.generateMoral(storyContent, request);
+
+    const storyId = `story_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    return {
+      metadata: {
+        storyId,
+        contentId: request.contentId || '',
+        ...(request.collectionId && { collectionId: request.collectionId }),
+        ...(request.sectionIds && { sectionIds: request.sectionIds }),
+        title: await this.generateTitle(storyContent, request),
+        theme: request.theme,
+        targetAudience: request.targetAudience,
+        length: request.length,
+        wordCount,
+        estimatedReadingTime,
+        createdAt: new Date(),
+        ...(this.wantsCheckpoints(request) && { keyTopics: content.keyTopics.slice(0, 5) })
+      },
+      content: storyContent,
+      chapters,
+      summary,
+      moralOrLesson
+    };
   }
 
   /**
    * Generate story title using AI
    */
-  private static async generateTitle(storyContent: string, theme: StoryTheme): Promise<string> {
-    const prompt = `Based on this ${theme} story, generate a compelling title (maximum 10 words):
+  private static async generateTitle(storyContent: string, request: StoryGenerationRequest): Promise<string> {
+    const prompt = `Based on this ${request.theme} story, generate a compelling title (maximum 10 words):
 
 ${storyContent.substring(0, 500)}...
 
@@ -160,7 +547,9 @@ Title:`;
       provider: 'groq',
       model: 'llama-3.3-70b-versatile',
       temperature: 0.7,
-      maxTokens: 50
+      maxTokens: 50,
+      bypassCache: request.cache === false,
+      signal: request.signal
     });
 
     return response.text.trim().replace(/^["']|["']$/g, '');
@@ -169,7 +558,7 @@ Title:`;
   /**
    * Generate story summary using AI
    */
-  private static async generateSummary(storyContent: string): Promise<string> {
+  private static async generateSummary(storyContent: string, request: StoryGenerationRequest): Promise<string> {
     const prompt = `Summarize this story in 2-3 sentences:
 
 ${storyContent.substring(0, 1000)}...
@@ -181,7 +570,9 @@ Summary:`;
       provider: 'groq',
       model: 'llama-3.3-70b-versatile',
       temperature: 0.5,
-      maxTokens: 150
+      maxTokens: 150,
+      bypassCache: request.cache === false,
+      signal: request.signal
     });
 
     return response.text.trim();
@@ -190,8 +581,8 @@ Summary:`;
   /**
    * Generate moral or lesson using AI
    */
-  private static async generateMoral(storyContent: string, theme: StoryTheme): Promise<string> {
-    const prompt = `What is the main lesson or moral of this ${theme} story? (1-2 sentences)
+  private static async generateMoral(storyContent: string, request: StoryGenerationRequest): Promise<string> {
+    const prompt = `What is the main lesson or moral of this ${request.theme} story? (1-2 sentences)
 
 ${storyContent.substring(0, 800)}...
 
@@ -202,37 +593,68 @@ Lesson:`;
       provider: 'groq',
       model: 'llama-3.3-70b-versatile',
       temperature: 0.6,
-      maxTokens: 100
+      maxTokens: 100,
+      bypassCache: request.cache === false,
+      signal: request.signal
     });
 
     return response.text.trim();
   }
+}
 
-  /**
-   * Get max tokens based on story length
-   */
-  private static getMaxTokens(length: StoryLength): number {
-    const tokenLimits = {
-      short: 1000,
-      medium: 2000,
-      long: 4000
-    };
-    return tokenLimits[length];
+/**
+ * The upload or collection a story was generated from
+ */
+export const storySource = (story: GeneratedStory): GenerationSource =>
+  story.metadata.collectionId
+    ? { collectionId: story.metadata.collectionId }
+    : { contentId: story.metadata.contentId, ...(story.metadata.sectionIds && { sectionIds: story.metadata.sectionIds }) };
+
+/**
+ * Wrap a chapter's checkpoint questions as a quiz so they grade and track like any other quiz
+ */
+export const buildCheckpointQuiz = (story: GeneratedStory, index: number): GeneratedQuiz | null => {
+  const chapter = story.chapters?.[index];
+  if (!chapter?.checkpoints || chapter.checkpoints.length === 0) {
+    return null;
   }
-}
 
-// In-memory storage for demo
-export const storyStorage = new Map<string, GeneratedStory>();
+  return {
+    metadata: {
+      quizId: `${story.metadata.storyId}_chapter_${index + 1}`,
+      contentId: story.metadata.contentId,
+      title: `${story.metadata.title}: ${chapter.title}`,
+      totalQuestions: chapter.checkpoints.length,
+      difficulty: chapter.checkpoints[0].difficulty,
+      topics: story.metadata.keyTopics || [],
+      createdAt: story.metadata.createdAt
+    },
+    questions: chapter.checkpoints
+  };
+};
 
-export const saveGeneratedStory = (story: GeneratedStory): void => {
-  storyStorage.set(story.metadata.storyId, story);
+// Persistent storage through the configured database adapter
+export const storyStorage = new DocumentRepository<GeneratedStory>({
+  table: 'generated_stories',
+  getId: story => story.metadata.storyId,
+  getCreatedAt: story => story.metadata.createdAt,
+  columns: story => ({ content_id: story.metadata.contentId }),
+  revive: story => ({
+    ...story,
+    metadata: { ...story.metadata, createdAt: new Date(story.metadata.createdAt) },
+  }),
+});
+
+export const saveGeneratedStory = async (story: GeneratedStory): Promise<void> => {
+  await storyStorage.save(story);
   console.log(`💾 Story saved: ${story.metadata.storyId}`);
 };
 
-export const getGeneratedStory = (storyId: string): GeneratedStory | null => {
-  return storyStorage.get(storyId) || null;
+export const getGeneratedStory = async (storyId: string): Promise<GeneratedStory | null> => {
+  return storyStorage.get(storyId);
 };
 
-export const listGeneratedStories = (): GeneratedStory[] => {
-  return Array.from(storyStorage.values());
+export const listGeneratedStories = async (): Promise<GeneratedStory[]> => {
+  return storyStorage.list();
 };
+
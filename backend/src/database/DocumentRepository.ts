@@ -0,0 +1,84 @@
+// 🎃 GhostFrame Document Repository
+// Stores JSON documents in a table through whichever adapter is active
+
+import { getDatabase } from './index';
+
+type ColumnValue = string | number | null;
+
+export interface DocumentRepositoryOptions<T> {
+  table: string;
+  getId: (document: T) => string;
+  getCreatedAt: (document: T) => Date;
+  /** Extra indexed columns written alongside the JSON payload */
+  columns?: (document: T) => Record<string, ColumnValue>;
+  /** Restore values JSON cannot represent (e.g. Date instances) */
+  revive?: (document: any) => T;
+}
+
+export class DocumentRepository<T> {
+  constructor(private options: DocumentRepositoryOptions<T>) {}
+
+  async save(document: T): Promise<void> {
+    const db = await getDatabase();
+    const extra = this.options.columns ? this.options.columns(document) : {};
+    const columns = ['id', ...Object.keys(extra), 'data', 'created_at'];
+    const values: ColumnValue[] = [
+      this.options.getId(document),
+      ...Object.values(extra),
+      JSON.stringify(document),
+      toTimestamp(this.options.getCreatedAt(document)),
+    ];
+    const updates = columns
+      .filter(column => column !== 'id')
+      .map(column => `${column} = excluded.${column}`)
+      .join(', ');
+
+    await db.execute(
+      `INSERT INTO ${this.options.table} (${columns.join(', ')})
+       VALUES (${columns.map(() => '?').join(', ')})
+       ON CONFLICT (id) DO UPDATE SET ${updates}`,
+      values
+    );
+  }
+
+  async get(id: string): Promise<T | null> {
+    const db = await getDatabase();
+    const rows = await db.query<{ data: string }>(
+      `SELECT data FROM ${this.options.table} WHERE id = ?`,
+      [id]
+    );
+    return rows.length > 0 ? this.deserialize(rows[0].data) : null;
+  }
+
+  /**
+   * List documents in creation order, optionally filtered on indexed columns
+   */
+  async list(filter: Record<string, ColumnValue> = {}): Promise<T[]> {
+    const db = await getDatabase();
+    const conditions = Object.keys(filter).map(column => `${column} = ?`);
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await db.query<{ data: string }>(
+      `SELECT data FROM ${this.options.table}${where} ORDER BY created_at ASC`,
+      Object.values(filter)
+    );
+    return rows.map(row => this.deserialize(row.data));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await getDatabase();
+    const existing = await this.get(id);
+    if (!existing) return false;
+
+    await db.execute(`DELETE FROM ${this.options.table} WHERE id = ?`, [id]);
+    return true;
+  }
+
+  private deserialize(data: string): T {
+    const parsed = JSON.parse(data);
+    return this.options.revive ? this.options.revive(parsed) : parsed;
+  }
+}
+
+function toTimestamp(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
@@ -0,0 +1,96 @@
+// 🎃 GhostFrame Postgres Adapter
+// Pooled Postgres store configured from the `db` block in config/env.ts
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseAdapter } from './types';
+
+export interface PostgresOptions {
+  host: string;
+  port: number;
+  name: string;
+  user: string;
+  password: string;
+  poolMax: number;
+  idleTimeout: number;
+  connectionTimeout: number;
+}
+
+export class PostgresAdapter implements DatabaseAdapter {
+  readonly driver = 'postgres' as const;
+  private pool: Pool | null = null;
+  // Queries issued inside transaction() must run on the same client
+  private transactionClient = new AsyncLocalStorage<PoolClient>();
+
+  constructor(private options: PostgresOptions) {}
+
+  async connect(): Promise<void> {
+    if (this.pool) return;
+
+    this.pool = new Pool({
+      host: this.options.host,
+      port: this.options.port,
+      database: this.options.name,
+      user: this.options.user,
+      password: this.options.password,
+      max: this.options.poolMax,
+      idleTimeoutMillis: this.options.idleTimeout,
+      connectionTimeoutMillis: this.options.connectionTimeout,
+    });
+
+    // Fail fast if the database is unreachable
+    const client = await this.pool.connect();
+    client.release();
+  }
+
+  async close(): Promise<void> {
+    await this.pool?.end();
+    this.pool = null;
+  }
+
+  async execute(sql: string, params: unknown[] = []): Promise<void> {
+    await this.getExecutor().query(toPositional(sql), params);
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.getExecutor().query(toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (!this.pool) {
+      throw new Error('Postgres adapter is not connected');
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await this.transactionClient.run(client, work);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private getExecutor(): Pool | PoolClient {
+    const client = this.transactionClient.getStore();
+    if (client) return client;
+
+    if (!this.pool) {
+      throw new Error('Postgres adapter is not connected');
+    }
+    return this.pool;
+  }
+}
+
+/**
+ * Rewrite `?` placeholders into Postgres' `$1, $2, ...` form
+ */
+export function toPositional(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
@@ -0,0 +1,62 @@
+// 🎃 GhostFrame SQLite Adapter
+// Default file-backed store, zero external services required
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseAdapter } from './types';
+
+export class SQLiteAdapter implements DatabaseAdapter {
+  readonly driver = 'sqlite' as const;
+  private db: Database.Database | null = null;
+
+  /**
+   * @param filename Path to the database file, or ':memory:' for an ephemeral store
+   */
+  constructor(private filename: string) {}
+
+  async connect(): Promise<void> {
+    if (this.db) return;
+
+    if (this.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(this.filename)), { recursive: true });
+    }
+
+    this.db = new Database(this.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async execute(sql: string, params: unknown[] = []): Promise<void> {
+    this.getConnection().prepare(sql).run(...params);
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.getConnection().prepare(sql).all(...params) as T[];
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const db = this.getConnection();
+    db.exec('BEGIN');
+    try {
+      const result = await work();
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private getConnection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite adapter is not connected');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,65 @@
+// 🎃 GhostFrame Database
+// Selects the storage adapter from config and keeps a single migrated connection
+
+import { config } from '../config/env';
+import { runMigrations } from './migrations';
+import { PostgresAdapter } from './PostgresAdapter';
+import { SQLiteAdapter } from './SQLiteAdapter';
+import { DatabaseAdapter } from './types';
+
+export * from './types';
+export { SQLiteAdapter } from './SQLiteAdapter';
+export { PostgresAdapter } from './PostgresAdapter';
+export { runMigrations } from './migrations';
+
+let activeDatabase: Promise<DatabaseAdapter> | null = null;
+
+/**
+ * Build the adapter named by DB_DRIVER (SQLite unless told otherwise)
+ */
+export function createDatabaseAdapter(): DatabaseAdapter {
+  if (config.db.driver === 'postgres') {
+    return new PostgresAdapter(config.db);
+  }
+  return new SQLiteAdapter(config.db.sqlitePath);
+}
+
+async function initialize(adapter: DatabaseAdapter): Promise<DatabaseAdapter> {
+  await adapter.connect();
+  await runMigrations(adapter);
+  return adapter;
+}
+
+/**
+ * Get the shared, connected and migrated database adapter
+ */
+export function getDatabase(): Promise<DatabaseAdapter> {
+  if (!activeDatabase) {
+    activeDatabase = initialize(createDatabaseAdapter()).catch(error => {
+      activeDatabase = null;
+      throw error;
+    });
+  }
+  return activeDatabase;
+}
+
+/**
+ * Replace the shared adapter (used by tests and custom deployments)
+ */
+export async function setDatabase(adapter: DatabaseAdapter): Promise<DatabaseAdapter> {
+  await closeDatabase();
+  activeDatabase = initialize(adapter);
+  return activeDatabase;
+}
+
+export async function closeDatabase(): Promise<void> {
+  if (!activeDatabase) return;
+
+  const current = activeDatabase;
+  activeDatabase = null;
+  try {
+    await (await current).close();
+  } catch {
+    // Connection never came up; nothing to close
+  }
+}
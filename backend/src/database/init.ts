@@ -0,0 +1,17 @@
+// 🎃 GhostFrame Database Init
+// Run with `npm run db:init` to create or upgrade the schema
+
+import { config } from '../config/env';
+import { closeDatabase, getDatabase } from './index';
+
+async function main(): Promise<void> {
+  console.log(`🗄️  Initializing ${config.db.driver} database...`);
+  await getDatabase();
+  await closeDatabase();
+  console.log('✅ Database is up to date');
+}
+
+main().catch(error => {
+  console.error('💀 Database initialization failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,151 @@
+// 🎃 GhostFrame Database Migrations
+// Portable schema shared by the SQLite and Postgres adapters
+
+import { DatabaseAdapter, Migration } from './types';
+
+/**
+ * Ordered list of schema migrations.
+ * Documents are stored as JSON text so both drivers share one schema;
+ * frequently filtered fields get their own indexed columns.
+ */
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'create_generation_tables',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS processed_content (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS generated_quizzes (
+        id TEXT PRIMARY KEY,
+        content_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_generated_quizzes_content ON generated_quizzes (content_id)`,
+      `CREATE TABLE IF NOT EXISTS generated_stories (
+        id TEXT PRIMARY KEY,
+        content_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_generated_stories_content ON generated_stories (content_id)`,
+    ],
+  },
+  {
+    id: 2,
+    name: 'create_flashcard_decks',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS flashcard_decks (
+        id TEXT PRIMARY KEY,
+        content_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_flashcard_decks_content ON flashcard_decks (content_id)`,
+    ],
+  },
+  {
+    id: 3,
+    name: 'create_flashcard_reviews',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS flashcard_reviews (
+        id TEXT PRIMARY KEY,
+        deck_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_deck ON flashcard_reviews (deck_id)`,
+    ],
+  },
+  {
+    id: 4,
+    name: 'create_quiz_attempts',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS quiz_attempts (
+        id TEXT PRIMARY KEY,
+        quiz_id TEXT NOT NULL,
+        learner_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz ON quiz_attempts (quiz_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_quiz_attempts_learner ON quiz_attempts (learner_id)`,
+    ],
+  },
+  {
+    id: 5,
+    name: 'create_content_embeddings',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS content_embeddings (
+        id TEXT PRIMARY KEY,
+        content_id TEXT NOT NULL,
+        embedder TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_content_embeddings_content ON content_embeddings (content_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_content_embeddings_embedder ON content_embeddings (embedder)`,
+    ],
+  },
+  {
+    id: 6,
+    name: 'create_chat_sessions',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS chat_sessions (
+        id TEXT PRIMARY KEY,
+        content_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_chat_sessions_content ON chat_sessions (content_id)`,
+    ],
+  },
+  {
+    id: 7,
+    name: 'create_content_collections',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS content_collections (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+    ],
+  },
+];
+
+/**
+ * Apply every migration that has not been recorded yet
+ */
+export async function runMigrations(db: DatabaseAdapter): Promise<number[]> {
+  await db.execute(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`
+  );
+
+  const rows = await db.query<{ id: number }>('SELECT id FROM schema_migrations');
+  const applied = new Set(rows.map(row => Number(row.id)));
+  const pending = migrations
+    .filter(migration => !applied.has(migration.id))
+    .sort((a, b) => a.id - b.id);
+
+  for (const migration of pending) {
+    await db.transaction(async () => {
+      for (const statement of migration.statements) {
+        await db.execute(statement);
+      }
+      await db.execute(
+        'INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)',
+        [migration.id, migration.name, new Date().toISOString()]
+      );
+    });
+    console.log(`🗄️  Migration applied: ${migration.id}_${migration.name}`);
+  }
+
+  return pending.map(migration => migration.id);
+}
@@ -0,0 +1,24 @@
+// 🎃 GhostFrame Database Types
+// Shared contract implemented by every storage adapter
+
+export type DatabaseDriver = 'sqlite' | 'postgres';
+
+/**
+ * Minimal SQL surface the repositories rely on.
+ * Statements are written with `?` placeholders; adapters translate them
+ * to their native dialect.
+ */
+export interface DatabaseAdapter {
+  readonly driver: DatabaseDriver;
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  execute(sql: string, params?: unknown[]): Promise<void>;
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+}
+
+export interface Migration {
+  id: number;
+  name: string;
+  statements: string[];
+}
@@ -2,7 +2,9 @@
 // API endpoints for AI-powered module generation
 
 import express, { Request, Response } from 'express';
-import { AIModuleGenerator } from '../services/AIModuleGenerator';
+import { AIModuleGenerator, AIModuleRequest } from '../services/AIModuleGenerator';
+import { getGenerationCache } from '../services/GenerationCache';
+import { getJobQueue } from '../services/JobQueue';
 
 const router = express.Router();
 const aiGenerator = new AIModuleGenerator();
@@ -23,16 +25,32 @@ router.post('/generate-module', async (req: Request, res: Response) => {
       });
     }
 
-    console.log('🤖 Generating module from description:', description);
-
-    // Generate module
-    const generatedModule = await aiGenerator.generateModule({
+    const moduleRequest: AIModuleRequest = {
       description,
       framework: framework || 'ghostframe',
       kiroCompatible: kiroCompatible !== false,
       category,
       features
-    });
+    };
+
+    // { async: true } answers 202 with a job to poll instead of holding the request open
+    if (req.body.async === true) {
+      const job = await getJobQueue().enqueue('module', async context => {
+        await context.progress(10, 'Generating module files');
+        return aiGenerator.generateModule({ ...moduleRequest, signal: context.signal });
+      });
+
+      return res.status(202).location(`/api/jobs/${job.jobId}`).json({
+        success: true,
+        data: job,
+        message: `Module generation queued as job ${job.jobId}`
+      });
+    }
+
+    console.log('🤖 Generating module from description:', description);
+
+    // Generate module
+    const generatedModule = await aiGenerator.generateModule(moduleRequest);
 
     res.json({
       success: true,
@@ -191,6 +209,20 @@ router.get('/templates', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/ai/cache
+ * Hit/miss metrics for the generation cache shared by quiz, story and flashcard generation
+ */
+router.get('/cache', (req: Request, res: Response) => {
+  const stats = getGenerationCache().stats();
+
+  res.json({
+    success: true,
+    data: stats,
+    message: `Generation cache hit rate ${Math.round(stats.hitRate * 100)}%`
+  });
+});
+
 /**
  * POST /api/ai/generate-story
  * Generate a story from content using AI (uses GhostFrame AI Router)
@@ -0,0 +1,216 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { getProcessedContent } from '../controllers/contentProcessor';
+import {
+  ContentCollections,
+  getContentCollection,
+  listContentCollections,
+  MAX_COLLECTION_SIZE,
+  saveContentCollection
+} from '../controllers/contentCollections';
+
+const router = express.Router();
+
+const collectionNotFound = (res: Response, collectionId: string) =>
+  res.status(404).json({
+    success: false,
+    error: 'Collection not found',
+    message: `👻 Collection ${collectionId} has vanished from the digital library`
+  });
+
+/**
+ * Ids from the list that do not belong to any uploaded content
+ */
+const findMissingContent = async (contentIds: string[]): Promise<string[]> => {
+  const found = await Promise.all(contentIds.map(getProcessedContent));
+  return contentIds.filter((_, index) => !found[index]);
+};
+
+// 📚 Group uploads into a collection that quizzes, stories and decks can draw from
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { name, description, contentIds = [] } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'name is required',
+        message: '👻 Every collection needs a name'
+      });
+    }
+
+    if (!Array.isArray(contentIds) || !contentIds.every(id => typeof id === 'string') || contentIds.length > MAX_COLLECTION_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `contentIds must be an array of at most ${MAX_COLLECTION_SIZE} content ids`,
+        message: '👻 The spirits cannot gather those documents'
+      });
+    }
+
+    const missing = await findMissingContent(contentIds);
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Content not found: ${missing.join(', ')}`,
+        message: '👻 Some documents have vanished from the digital realm'
+      });
+    }
+
+    const collection = ContentCollections.create(
+      name.trim(),
+      typeof description === 'string' ? description.trim() || undefined : undefined,
+      contentIds
+    );
+    await saveContentCollection(collection);
+
+    res.status(201).json({
+      success: true,
+      data: collection,
+      message: `📚 Collection "${collection.name}" gathered with ${collection.contentIds.length} documents`
+    });
+  } catch (error) {
+    console.error('💀 Collection creation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create collection',
+      message: '💀 The spirits encountered an error gathering your documents'
+    });
+  }
+});
+
+// List every collection
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const collections = await listContentCollections();
+
+    res.json({
+      success: true,
+      data: collections,
+      message: `📚 Found ${collections.length} collections in the digital library`
+    });
+  } catch (error) {
+    console.error('💀 Collection listing error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list collections',
+      message: '💀 The spirits encountered an error accessing the digital library'
+    });
+  }
+});
+
+// Get a collection by ID
+router.get('/:collectionId', async (req: Request, res: Response) => {
+  try {
+    const collection = await getContentCollection(req.params.collectionId);
+
+    if (!collection) {
+      return collectionNotFound(res, req.params.collectionId);
+    }
+
+    res.json({
+      success: true,
+      data: collection,
+      message: `📚 Collection ${collection.collectionId} retrieved from the digital library`
+    });
+  } catch (error) {
+    console.error('💀 Collection retrieval error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve collection',
+      message: '💀 The spirits encountered an error retrieving your collection'
+    });
+  }
+});
+
+// Add a document to a collection
+router.post('/:collectionId/content', async (req: Request, res: Response) => {
+  try {
+    const { collectionId } = req.params;
+    const { contentId } = req.body;
+
+    if (typeof contentId !== 'string' || !contentId) {
+      return res.status(400).json({
+        success: false,
+        error: 'contentId is required',
+        message: '👻 The spirits need to know which document to add'
+      });
+    }
+
+    const collection = await getContentCollection(collectionId);
+
+    if (!collection) {
+      return collectionNotFound(res, collectionId);
+    }
+
+    if (!(await getProcessedContent(contentId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Content not found',
+        message: `👻 Content ${contentId} has vanished from the digital realm`
+      });
+    }
+
+    if (!collection.contentIds.includes(contentId) && collection.contentIds.length >= MAX_COLLECTION_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `Collections hold at most ${MAX_COLLECTION_SIZE} documents`,
+        message: '👻 This collection is already full'
+      });
+    }
+
+    const updated = ContentCollections.withContent(collection, contentId);
+    await saveContentCollection(updated);
+
+    res.json({
+      success: true,
+      data: updated,
+      message: `📚 Content ${contentId} joined the collection`
+    });
+  } catch (error) {
+    console.error('💀 Collection update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add content to collection',
+      message: '💀 The spirits encountered an error updating your collection'
+    });
+  }
+});
+
+// Remove a document from a collection
+router.delete('/:collectionId/content/:contentId', async (req: Request, res: Response) => {
+  try {
+    const { collectionId, contentId } = req.params;
+
+    const collection = await getContentCollection(collectionId);
+
+    if (!collection) {
+      return collectionNotFound(res, collectionId);
+    }
+
+    if (!collection.contentIds.includes(contentId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Content is not in this collection',
+        message: `👻 Content ${contentId} was never part of this collection`
+      });
+    }
+
+    const updated = ContentCollections.withoutContent(collection, contentId);
+    await saveContentCollection(updated);
+
+    res.json({
+      success: true,
+      data: updated,
+      message: `📚 Content ${contentId} left the collection`
+    });
+  } catch (error) {
+    console.error('💀 Collection update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove content from collection',
+      message: '💀 The spirits encountered an error updating your collection'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { getProcessedContent } from '../controllers/contentProcessor';
+import { ContentChat, getChatSession, MAX_QUESTION_LENGTH, saveChatSession } from '../controllers/contentChat';
+
+const router = express.Router();
+
+// 💬 Ask a question about one document; answers cite the passages they came from
+router.post('/:contentId/chat', async (req: Request, res: Response) => {
+  try {
+    const { contentId } = req.params;
+    const { question, sessionId } = req.body;
+
+    if (typeof question !== 'string' || !question.trim() || question.length > MAX_QUESTION_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `question must be a non-empty string of at most ${MAX_QUESTION_LENGTH} characters`,
+        message: '👻 The spirits need a question to answer'
+      });
+    }
+
+    if (sessionId !== undefined && typeof sessionId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'sessionId must be a string',
+        message: '👻 The spirits cannot recognize that conversation'
+      });
+    }
+
+    const content = await getProcessedContent(contentId);
+
+    if (!content) {
+      return res.status(404).json({
+        success: false,
+        error: 'Content not found',
+        message: `👻 Content ${contentId} has vanished from the digital realm`
+      });
+    }
+
+    const session = sessionId ? await getChatSession(sessionId) : null;
+
+    if (sessionId && (!session || session.contentId !== contentId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found',
+        message: '👻 That conversation has faded from memory'
+      });
+    }
+
+    const reply = await ContentChat.ask(content, question.trim(), session);
+    await saveChatSession(reply.session);
+
+    res.json({
+      success: true,
+      data: {
+        sessionId: reply.session.sessionId,
+        answer: reply.answer,
+        citations: reply.citations,
+        history: reply.session.history
+      },
+      message: '💬 The spirits have consulted the document'
+    });
+  } catch (error) {
+    console.error('💀 Document chat error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to answer question',
+      message: '💀 The spirits could not answer your question'
+    });
+  }
+});
+
+// Retrieve a chat session's history
+router.get('/:contentId/chat/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const { contentId, sessionId } = req.params;
+
+    const session = await getChatSession(sessionId);
+
+    if (!session || session.contentId !== contentId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found',
+        message: '👻 That conversation has faded from memory'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: session,
+      message: `💬 Conversation ${sessionId} recalled`
+    });
+  } catch (error) {
+    console.error('💀 Chat session retrieval error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve chat session',
+      message: '💀 The spirits could not recall that conversation'
+    });
+  }
+});
+
+export default router;
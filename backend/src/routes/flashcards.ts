@@ -0,0 +1,220 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { validateGenerationSource } from '../controllers/contentCollections';
+import {
+  FlashcardGenerator,
+  saveFlashcardDeck,
+  getFlashcardDeck,
+  listFlashcardDecks,
+  FlashcardGenerationRequest,
+  FLASHCARD_DIFFICULTIES
+} from '../controllers/flashcardGenerator';
+import { FlashcardReviewer } from '../controllers/flashcardReviewer';
+import { isReviewGrade } from '../services/SpacedRepetition';
+
+const router = express.Router();
+
+// 🃏 AI flashcard deck generation
+router.post('/generate', async (req: Request, res: Response) => {
+  try {
+    const {
+      contentId,
+      collectionId,
+      sectionIds,
+      cardCount = 10,
+      difficulty = 'intermediate',
+      focusTopics
+    } = req.body;
+
+    // Validate request
+    const sourceError = validateGenerationSource({ contentId, collectionId, sectionIds });
+    if (sourceError) {
+      return res.status(400).json({
+        success: false,
+        error: sourceError,
+        message: '👻 The Flashcard Phantom needs content to conjure cards from!'
+      });
+    }
+
+    if (!FLASHCARD_DIFFICULTIES.includes(difficulty)) {
+      return res.status(400).json({
+        success: false,
+        error: `Difficulty must be one of: ${FLASHCARD_DIFFICULTIES.join(', ')}`,
+        message: '👻 The Flashcard Phantom does not know that difficulty level'
+      });
+    }
+
+    const request: FlashcardGenerationRequest = {
+      contentId,
+      collectionId,
+      sectionIds,
+      cardCount: Math.min(Math.max(1, Number(cardCount) || 10), 50), // Limit 1-50 cards
+      difficulty,
+      focusTopics
+    };
+
+    console.log(`🃏 Flashcard Phantom generating deck for ${collectionId ? `collection: ${collectionId}` : `content: ${contentId}`}`);
+
+    const deck = await FlashcardGenerator.generateDeck(request);
+
+    // Save the generated deck
+    await saveFlashcardDeck(deck);
+
+    res.json({
+      success: true,
+      data: deck,
+      message: `🃏 Deck conjured successfully! ${deck.cards.length} haunted cards await.`,
+    });
+  } catch (error) {
+    console.error('💀 Flashcard generation error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate flashcards',
+      message: '💀 The Flashcard Phantom encountered an error in the spirit realm',
+    });
+  }
+});
+
+// 📅 Cards due for review (SM-2 spaced repetition)
+router.get('/:deckId/due', async (req: Request, res: Response) => {
+  try {
+    const { deckId } = req.params;
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+    const deck = await getFlashcardDeck(deckId);
+
+    if (!deck) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found',
+        message: '👻 This deck has vanished into the spirit realm'
+      });
+    }
+
+    const due = await FlashcardReviewer.getDueCards(deck, limit && limit > 0 ? limit : undefined);
+
+    res.json({
+      success: true,
+      message: due.dueCount > 0
+        ? `📅 ${due.dueCount} cards rise from the grave for review`
+        : '😴 No cards are due - the spirits rest for now',
+      data: due
+    });
+  } catch (error) {
+    console.error('💀 Due cards error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load due cards',
+      message: '💀 Error consulting the review calendar'
+    });
+  }
+});
+
+// 📝 Record a review grade (0-5) for one card
+router.post('/:deckId/review', async (req: Request, res: Response) => {
+  try {
+    const { deckId } = req.params;
+    const { cardId, grade } = req.body;
+
+    if (!cardId || !isReviewGrade(grade)) {
+      return res.status(400).json({
+        success: false,
+        error: 'cardId and an integer grade from 0 to 5 are required',
+        message: '👻 The Flashcard Phantom needs to know how well you remembered'
+      });
+    }
+
+    const deck = await getFlashcardDeck(deckId);
+
+    if (!deck) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found',
+        message: '👻 This deck has vanished into the spirit realm'
+      });
+    }
+
+    if (!deck.cards.some(card => card.id === cardId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Card not found',
+        message: '👻 This card has vanished from the deck'
+      });
+    }
+
+    const schedule = await FlashcardReviewer.recordReview(deck, cardId, grade);
+
+    res.json({
+      success: true,
+      message: `📝 Review recorded! This card returns in ${schedule.interval} day(s).`,
+      data: schedule
+    });
+  } catch (error) {
+    console.error('💀 Review error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record review',
+      message: '💀 Error recording your review'
+    });
+  }
+});
+
+// Get deck by ID
+router.get('/:deckId', async (req: Request, res: Response) => {
+  try {
+    const { deckId } = req.params;
+
+    const deck = await getFlashcardDeck(deckId);
+
+    if (!deck) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found',
+        message: '👻 This deck has vanished into the spirit realm'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `📚 Deck retrieved from the spirit realm`,
+      data: deck
+    });
+  } catch (error) {
+    console.error('💀 Deck retrieval error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve deck',
+      message: '💀 Error communicating with the Flashcard Phantom'
+    });
+  }
+});
+
+// List all generated decks
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const decks = await listFlashcardDecks();
+
+    res.json({
+      success: true,
+      message: `📚 Found ${decks.length} decks in the spirit realm`,
+      data: decks.map(deck => ({
+        deckId: deck.deckId,
+        contentId: deck.metadata.contentId,
+        title: deck.metadata.title,
+        difficulty: deck.metadata.difficulty,
+        totalCards: deck.metadata.totalCards,
+        topics: deck.metadata.topics,
+        generatedAt: deck.metadata.generatedAt
+      }))
+    });
+  } catch (error) {
+    console.error('💀 Deck listing error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list decks',
+      message: '💀 Error accessing the flashcard spirit realm'
+    });
+  }
+});
+
+export default router;
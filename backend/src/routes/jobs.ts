@@ -0,0 +1,76 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { getJobQueue } from '../services/JobQueue';
+
+const router = express.Router();
+
+const jobNotFound = (res: Response, jobId: string) =>
+  res.status(404).json({
+    success: false,
+    error: 'Job not found',
+    message: `👻 Job ${jobId} has vanished from the spirit realm`
+  });
+
+// 🕯️ Status, progress and, once completed, the result of a background generation
+router.get('/:jobId', async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await getJobQueue().get(jobId);
+
+    if (!job) {
+      return jobNotFound(res, jobId);
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: `🕯️ Job ${jobId} is ${job.status}`
+    });
+  } catch (error) {
+    console.error('💀 Job retrieval error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve job',
+      message: '💀 The spirits lost track of that job'
+    });
+  }
+});
+
+// Stop a queued or running job; its result is discarded
+router.post('/:jobId/cancel', async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    // Finished jobs come back unchanged
+    const job = await getJobQueue().cancel(jobId);
+
+    if (!job) {
+      return jobNotFound(res, jobId);
+    }
+
+    if (job.status !== 'cancelled') {
+      return res.status(409).json({
+        success: false,
+        data: job,
+        error: `Job is already ${job.status}`,
+        message: `👻 Job ${jobId} finished before the spirits could stop it`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: `🕯️ Job ${jobId} was cancelled`
+    });
+  } catch (error) {
+    console.error('💀 Job cancellation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel job',
+      message: '💀 The spirits could not stop that job'
+    });
+  }
+});
+
+export default router;
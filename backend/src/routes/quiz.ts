@@ -1,44 +1,100 @@
 import express from 'express';
+import multer from 'multer';
 import { Request, Response } from 'express';
+import { validateGenerationSource } from '../controllers/contentCollections';
 import { QuizGenerator, saveGeneratedQuiz, getGeneratedQuiz, listGeneratedQuizzes, QuizGenerationRequest } from '../controllers/quizGenerator';
+import { QuizGrader } from '../controllers/quizGrader';
+import {
+  ANONYMOUS_LEARNER,
+  isValidLearnerId,
+  listQuizAttempts,
+  QuizAttemptTracker,
+  summarizeAttempt
+} from '../controllers/quizAttempts';
+import { QuizImporter } from '../controllers/quizImporter';
+import {
+  exportQuiz,
+  QUIZ_EXPORT_FORMATS,
+  QUIZ_IMPORT_FORMATS,
+  QuizExportFormat,
+  QuizImportFormat,
+  readQtiPackage
+} from '../services/QuizFormats';
+import { getJobQueue } from '../services/JobQueue';
+import { openEventStream } from '../utils/sse';
+import { ZipLimitError } from '../utils/zip';
 
 const router = express.Router();
 
+// Question banks are small text files; keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
+
+const QUIZ_DIFFICULTIES = ['easy', 'medium', 'hard'];
+
 // 🧠 KIRO INTEGRATION POINT: AI quiz generation powered by steering docs
 router.post('/generate', async (req: Request, res: Response) => {
   try {
     const { 
-      contentId, 
+      contentId,
+      collectionId,
+      sectionIds,
       questionCount = 5, 
       difficulty = 'medium', 
       questionTypes = ['multiple-choice'],
-      focusTopics 
+      focusTopics,
+      cache
     } = req.body;
 
     // Validate request
-    if (!contentId) {
+    const sourceError = validateGenerationSource({ contentId, collectionId, sectionIds });
+    if (sourceError) {
       return res.status(400).json({
         success: false,
-        error: 'Content ID is required',
+        error: sourceError,
         message: '👻 The Quiz Ghost needs content to work with!'
       });
     }
 
     const request: QuizGenerationRequest = {
       contentId,
+      collectionId,
+      sectionIds,
       questionCount: Math.min(Math.max(1, questionCount), 20), // Limit 1-20 questions
       difficulty,
       questionTypes,
-      focusTopics
+      focusTopics,
+      cache: cache !== false
     };
 
-    console.log(`🧠 Quiz Ghost generating quiz for content: ${contentId}`);
+    // Long quizzes can outlast proxy timeouts; { async: true } answers 202 with a job to poll instead
+    if (req.body.async === true) {
+      const job = await getJobQueue().enqueue('quiz', async context => {
+        await context.progress(10, 'Writing questions');
+        const quiz = await QuizGenerator.generateQuiz({ ...request, signal: context.signal });
+        await context.progress(90, 'Saving quiz');
+        await saveGeneratedQuiz(quiz);
+        return quiz;
+      });
+
+      return res.status(202).location(`/api/jobs/${job.jobId}`).json({
+        success: true,
+        data: job,
+        message: `🧠 The Quiz Ghost is working on it! Follow job ${job.jobId} for the quiz.`,
+      });
+    }
+
+    console.log(`🧠 Quiz Ghost generating quiz for ${collectionId ? `collection: ${collectionId}` : `content: ${contentId}`}`);
     
     // 🎃 KIRO INTEGRATION POINT: Steering docs guide question generation quality
     const generatedQuiz = await QuizGenerator.generateQuiz(request);
     
     // Save the generated quiz
-    saveGeneratedQuiz(generatedQuiz);
+    await saveGeneratedQuiz(generatedQuiz);
 
     res.json({
       success: true,
@@ -55,12 +111,210 @@ router.post('/generate', async (req: Request, res: Response) => {
   }
 });
 
+// 📡 Stream quiz text as Server-Sent Events while the Quiz Ghost writes
+router.post('/generate/stream', async (req: Request, res: Response) => {
+  const {
+    contentId,
+    collectionId,
+    sectionIds,
+    questionCount = 5,
+    difficulty = 'medium',
+    questionTypes = ['multiple-choice'],
+    focusTopics,
+    cache
+  } = req.body;
+
+  const sourceError = validateGenerationSource({ contentId, collectionId, sectionIds });
+  if (sourceError) {
+    return res.status(400).json({
+      success: false,
+      error: sourceError,
+      message: '👻 The Quiz Ghost needs content to work with!'
+    });
+  }
+
+  const request: QuizGenerationRequest = {
+    contentId,
+    collectionId,
+    sectionIds,
+    questionCount: Math.min(Math.max(1, questionCount), 20), // Limit 1-20 questions
+    difficulty,
+    questionTypes,
+    focusTopics,
+    cache: cache !== false
+  };
+
+  console.log(`📡 Quiz Ghost streaming quiz for ${collectionId ? `collection: ${collectionId}` : `content: ${contentId}`}`);
+
+  const stream = openEventStream(res);
+
+  try {
+    for await (const event of QuizGenerator.streamQuiz(request)) {
+      if (stream.closed) {
+        console.log('👻 Quiz stream abandoned by the client');
+        return;
+      }
+
+      if (event.type === 'delta') {
+        stream.send('delta', { delta: event.delta });
+      } else {
+        await saveGeneratedQuiz(event.quiz);
+        stream.send('complete', {
+          success: true,
+          data: event.quiz,
+          message: `🧠 Quiz generated successfully! ${event.quiz.questions.length} spooky questions await.`,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('💀 Quiz streaming error:', error);
+    stream.send('error', {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate quiz',
+      message: '💀 The Quiz Ghost encountered an error in the spirit realm',
+    });
+  } finally {
+    stream.close();
+  }
+});
+
+// 📥 Import a GIFT, QTI or CSV question bank (or a zipped QTI package) as a quiz (file upload or JSON body)
+router.post('/import', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const { title, difficulty } = req.body;
+    let { format } = req.body;
+    let content = req.file ? req.file.buffer.toString('utf-8') : req.body.content;
+    const topics = Array.isArray(req.body.topics)
+      ? req.body.topics
+      : typeof req.body.topics === 'string'
+        ? req.body.topics.split(',').map((topic: string) => topic.trim()).filter(Boolean)
+        : [];
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Upload a file or send the question bank as content',
+        message: '👻 The Quiz Ghost has nothing to import'
+      });
+    }
+
+    if (req.file && content.startsWith('PK')) {
+      if (format !== undefined && format !== 'qti') {
+        return res.status(400).json({
+          success: false,
+          error: 'Zipped question banks must be QTI packages',
+          message: '👻 The Quiz Ghost only opens QTI crypts'
+        });
+      }
+
+      try {
+        content = readQtiPackage(req.file.buffer);
+        format = 'qti';
+      } catch (error) {
+        if (error instanceof ZipLimitError) {
+          return res.status(413).json({
+            success: false,
+            error: `QTI package expands beyond the upload limit: ${error.message}`,
+            message: '💀 This crypt holds far more than the Quiz Ghost can carry'
+          });
+        }
+        return res.status(400).json({
+          success: false,
+          error: `Could not read the QTI package: ${error instanceof Error ? error.message : error}`,
+          message: '👻 The Quiz Ghost cannot open this sealed crypt'
+        });
+      }
+    }
+
+    if (format !== undefined && !QUIZ_IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${QUIZ_IMPORT_FORMATS.join(', ')}`,
+        message: '👻 The Quiz Ghost does not speak that format'
+      });
+    }
+
+    if (difficulty !== undefined && !QUIZ_DIFFICULTIES.includes(difficulty)) {
+      return res.status(400).json({
+        success: false,
+        error: 'difficulty must be easy, medium or hard',
+        message: '👻 The Quiz Ghost does not know that difficulty'
+      });
+    }
+
+    const result = await QuizImporter.importQuiz({
+      content,
+      format: format as QuizImportFormat | undefined,
+      filename: req.file?.originalname,
+      title,
+      difficulty,
+      topics
+    });
+
+    if (!result.quiz) {
+      return res.status(400).json({
+        success: false,
+        error: 'No questions could be parsed',
+        message: `💀 None of the ${result.format} questions survived the import`,
+        data: { format: result.format, errors: result.errors }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: result.errors.length > 0
+        ? `📥 Imported ${result.quiz.questions.length} questions; ${result.errors.length} could not be parsed`
+        : `📥 Imported ${result.quiz.questions.length} questions from the ${result.format} crypt`,
+      data: result
+    });
+  } catch (error) {
+    console.error('💀 Quiz import error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import quiz',
+      message: '💀 Error importing the question bank'
+    });
+  }
+});
+
+// 📈 Learner progress aggregated by quiz topic
+router.get('/progress/:learnerId', async (req: Request, res: Response) => {
+  try {
+    const { learnerId } = req.params;
+
+    if (!isValidLearnerId(learnerId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'learnerId must be 1-64 letters, digits, dashes or underscores',
+        message: '👻 The Quiz Ghost cannot tell who you are'
+      });
+    }
+
+    const progress = await QuizAttemptTracker.getProgress(learnerId);
+
+    res.json({
+      success: true,
+      message: progress.totalAttempts > 0
+        ? `📈 ${progress.totalAttempts} attempts across ${progress.topics.length} topics`
+        : '🕸️ No attempts yet - take a quiz to start tracking progress',
+      data: progress
+    });
+  } catch (error) {
+    console.error('💀 Learner progress error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load learner progress',
+      message: '💀 Error summoning your progress'
+    });
+  }
+});
+
 // Get quiz by ID
 router.get('/:quizId', async (req: Request, res: Response) => {
   try {
     const { quizId } = req.params;
     
-    const quiz = getGeneratedQuiz(quizId);
+    const quiz = await getGeneratedQuiz(quizId);
     
     if (!quiz) {
       return res.status(404).json({
@@ -88,7 +342,7 @@ router.get('/:quizId', async (req: Request, res: Response) => {
 // List all generated quizzes
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const quizzes = listGeneratedQuizzes();
+    const quizzes = await listGeneratedQuizzes();
     
     res.json({
       success: true,
@@ -116,9 +370,25 @@ router.get('/', async (req: Request, res: Response) => {
 router.post('/:quizId/submit', async (req: Request, res: Response) => {
   try {
     const { quizId } = req.params;
-    const { answers } = req.body; // Array of { questionId, answer }
+    const { answers, learnerId = ANONYMOUS_LEARNER } = req.body; // answers: Array of { questionId, answer }
+
+    if (!Array.isArray(answers)) {
+      return res.status(400).json({
+        success: false,
+        error: 'answers must be an array of { questionId, answer }',
+        message: '👻 The Quiz Ghost needs your answers to grade!'
+      });
+    }
+
+    if (!isValidLearnerId(learnerId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'learnerId must be 1-64 letters, digits, dashes or underscores',
+        message: '👻 The Quiz Ghost cannot tell who you are'
+      });
+    }
     
-    const quiz = getGeneratedQuiz(quizId);
+    const quiz = await getGeneratedQuiz(quizId);
     
     if (!quiz) {
       return res.status(404).json({
@@ -128,46 +398,20 @@ router.post('/:quizId/submit', async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate results
-    let correctAnswers = 0;
-    let totalPoints = 0;
-    const results = quiz.questions.map(question => {
-      const userAnswer = answers.find((a: any) => a.questionId === question.id);
-      const isCorrect = userAnswer && userAnswer.answer === question.correctAnswer;
-      
-      if (isCorrect) {
-        correctAnswers++;
-        totalPoints += question.points;
-      }
-
-      return {
-        questionId: question.id,
-        question: question.question,
-        userAnswer: userAnswer?.answer || 'No answer',
-        correctAnswer: question.correctAnswer,
-        isCorrect,
-        explanation: question.explanation,
-        points: isCorrect ? question.points : 0
-      };
-    });
-
-    const percentage = Math.round((correctAnswers / quiz.questions.length) * 100);
-    const maxPoints = quiz.questions.reduce((sum, q) => sum + q.points, 0);
+    // Normalized matching for choice questions, rubric scoring for short answers
+    const grading = await QuizGrader.gradeQuiz(quiz, answers);
+    const attempt = await QuizAttemptTracker.recordAttempt(quiz, learnerId, grading);
 
     res.json({
       success: true,
-      message: `🎯 Quiz completed! You scored ${percentage}%`,
+      message: `🎯 Quiz completed! You scored ${attempt.score.percentage}%`,
       data: {
         quizId,
-        score: {
-          correct: correctAnswers,
-          total: quiz.questions.length,
-          percentage,
-          points: totalPoints,
-          maxPoints
-        },
-        results,
-        completedAt: new Date()
+        attemptId: attempt.attemptId,
+        learnerId,
+        score: attempt.score,
+        results: attempt.results,
+        completedAt: attempt.completedAt
       }
     });
   } catch (error) {
@@ -180,4 +424,85 @@ router.post('/:quizId/submit', async (req: Request, res: Response) => {
   }
 });
 
+// 📜 Attempt history for one quiz, newest first
+router.get('/:quizId/attempts', async (req: Request, res: Response) => {
+  try {
+    const { quizId } = req.params;
+    const { learnerId } = req.query;
+
+    if (learnerId !== undefined && !isValidLearnerId(learnerId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'learnerId must be 1-64 letters, digits, dashes or underscores',
+        message: '👻 The Quiz Ghost cannot tell who you are'
+      });
+    }
+
+    const quiz = await getGeneratedQuiz(quizId);
+
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+        message: '👻 This quiz has vanished into the spirit realm'
+      });
+    }
+
+    const attempts = await listQuizAttempts(quizId, learnerId as string | undefined);
+
+    res.json({
+      success: true,
+      message: `📜 Found ${attempts.length} haunted attempts`,
+      data: attempts.map(summarizeAttempt)
+    });
+  } catch (error) {
+    console.error('💀 Quiz attempts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load quiz attempts',
+      message: '💀 Error reading the attempt records'
+    });
+  }
+});
+
+// 📦 Export a quiz for an LMS: IMS QTI 2.1 package, Moodle GIFT, CSV or JSON
+router.get('/:quizId/export', async (req: Request, res: Response) => {
+  try {
+    const { quizId } = req.params;
+    const format = (req.query.format || 'json') as QuizExportFormat;
+
+    if (!QUIZ_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${QUIZ_EXPORT_FORMATS.join(', ')}`,
+        message: '👻 The Quiz Ghost does not speak that format'
+      });
+    }
+
+    const quiz = await getGeneratedQuiz(quizId);
+
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+        message: '👻 This quiz has vanished into the spirit realm'
+      });
+    }
+
+    const file = await exportQuiz(quiz, format);
+    console.log(`📦 Exported quiz ${quizId} as ${format}`);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('💀 Quiz export error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export quiz',
+      message: '💀 Error packing up the quiz'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,13 @@
 import express from 'express';
 import { Request, Response } from 'express';
-import { StoryGenerator, saveGeneratedStory, getGeneratedStory, listGeneratedStories, StoryGenerationRequest } from '../controllers/storyGenerator';
+import { validateGenerationSource } from '../controllers/contentCollections';
+import { BranchingStoryGenerator } from '../controllers/branchingStory';
+import { StoryGenerator, saveGeneratedStory, getGeneratedStory, listGeneratedStories, StoryGenerationRequest, buildCheckpointQuiz } from '../controllers/storyGenerator';
+import { QuizGrader } from '../controllers/quizGrader';
+import { ANONYMOUS_LEARNER, isValidLearnerId, QuizAttemptTracker } from '../controllers/quizAttempts';
+import { exportStory, STORY_EXPORT_FORMATS, StoryExportFormat } from '../services/StoryExport';
+import { getJobQueue } from '../services/JobQueue';
+import { openEventStream } from '../utils/sse';
 
 const router = express.Router();
 
@@ -8,42 +15,88 @@ const router = express.Router();
 router.post('/generate', async (req: Request, res: Response) => {
   try {
     const { 
-      contentId, 
+      contentId,
+      collectionId,
+      sectionIds,
       theme = 'adventure', 
       length = 'medium', 
       targetAudience = 'teens',
       customPrompt,
       includeCharacters,
-      setting
+      setting,
+      includeCheckpoints,
+      focusTopics,
+      mode = 'linear',
+      cache
     } = req.body;
 
     // Validate request
-    if (!contentId) {
+    const sourceError = validateGenerationSource({ contentId, collectionId, sectionIds });
+    if (sourceError) {
       return res.status(400).json({
         success: false,
-        error: 'Content ID is required',
+        error: sourceError,
         message: '👻 The Story Spirit needs content to weave tales from!'
       });
     }
 
+    if (mode !== 'linear' && mode !== 'branching') {
+      return res.status(400).json({
+        success: false,
+        error: 'mode must be linear or branching',
+        message: '👻 The Story Spirit only tells tales straight or branching'
+      });
+    }
+
     const request: StoryGenerationRequest = {
       contentId,
+      collectionId,
+      sectionIds,
       theme,
       targetAudience,
       length,
       customPrompt,
       includeCharacters,
-      setting
+      setting,
+      includeCheckpoints,
+      focusTopics,
+      cache: cache !== false
     };
 
-    console.log(`📖 Story Spirit weaving tale for content: ${contentId}`);
-    console.log(`🎭 Theme: ${theme}, Audience: ${targetAudience}, Length: ${length}`);
+    // Long stories can outlast proxy timeouts; { async: true } answers 202 with a job to poll instead
+    if (req.body.async === true) {
+      const job = await getJobQueue().enqueue('story', async context => {
+        await context.progress(5, mode === 'branching' ? 'Writing the opening scene' : 'Planning the outline');
+        const cancellable = { ...request, signal: context.signal };
+        const story = mode === 'branching'
+          ? await BranchingStoryGenerator.startStory(cancellable)
+          : await StoryGenerator.generateStory(cancellable, (written, total) => context.progress(
+            10 + (80 * written) / total,
+            written < total ? `Writing chapter ${written + 1} of ${total}` : 'Adding checkpoints and a title'
+          ));
+        await context.progress(95, 'Saving story');
+        await saveGeneratedStory(story);
+        return story;
+      });
+
+      return res.status(202).location(`/api/jobs/${job.jobId}`).json({
+        success: true,
+        data: job,
+        message: `📖 The Story Spirit has begun weaving! Follow job ${job.jobId} for the tale.`,
+      });
+    }
+
+    console.log(`📖 Story Spirit weaving tale for ${collectionId ? `collection: ${collectionId}` : `content: ${contentId}`}`);
+    console.log(`🎭 Theme: ${theme}, Audience: ${targetAudience}, Length: ${length}, Mode: ${mode}`);
     
     // 🎃 KIRO INTEGRATION POINT: Steering docs guide narrative quality and educational value
-    const generatedStory = await StoryGenerator.generateStory(request);
+    // Branching stories start with the opening scene; the rest is written as readers choose
+    const generatedStory = mode === 'branching'
+      ? await BranchingStoryGenerator.startStory(request)
+      : await StoryGenerator.generateStory(request);
     
     // Save the generated story
-    saveGeneratedStory(generatedStory);
+    await saveGeneratedStory(generatedStory);
 
     res.json({
       success: true,
@@ -60,12 +113,342 @@ router.post('/generate', async (req: Request, res: Response) => {
   }
 });
 
+// 📡 Stream story text as Server-Sent Events while the Story Spirit writes
+router.post('/generate/stream', async (req: Request, res: Response) => {
+  const {
+    contentId,
+    collectionId,
+    sectionIds,
+    theme = 'adventure',
+    length = 'medium',
+    targetAudience = 'teens',
+    customPrompt,
+    includeCharacters,
+    setting,
+    includeCheckpoints,
+    focusTopics,
+    mode = 'linear',
+    cache
+  } = req.body;
+
+  const sourceError = validateGenerationSource({ contentId, collectionId, sectionIds });
+  if (sourceError) {
+    return res.status(400).json({
+      success: false,
+      error: sourceError,
+      message: '👻 The Story Spirit needs content to weave tales from!'
+    });
+  }
+
+  // Branching stories are written scene by scene as readers choose, so there is nothing to stream up front
+  if (mode !== 'linear') {
+    return res.status(400).json({
+      success: false,
+      error: 'Only linear stories can be streamed',
+      message: '👻 Start branching stories with /api/story/generate'
+    });
+  }
+
+  const request: StoryGenerationRequest = {
+    contentId,
+    collectionId,
+    sectionIds,
+    theme,
+    targetAudience,
+    length,
+    customPrompt,
+    includeCharacters,
+    setting,
+    includeCheckpoints,
+    focusTopics,
+    cache: cache !== false
+  };
+
+  console.log(`📡 Story Spirit streaming tale for ${collectionId ? `collection: ${collectionId}` : `content: ${contentId}`}`);
+
+  const stream = openEventStream(res);
+
+  try {
+    for await (const event of StoryGenerator.streamStory(request)) {
+      if (stream.closed) {
+        console.log('👻 Story stream abandoned by the client');
+        return;
+      }
+
+      if (event.type === 'delta') {
+        stream.send('delta', { delta: event.delta });
+      } else {
+        await saveGeneratedStory(event.story);
+        stream.send('complete', {
+          success: true,
+          data: event.story,
+          message: `📖 Story conjured successfully! A ${theme} tale awaits.`,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('💀 Story streaming error:', error);
+    stream.send('error', {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate story',
+      message: '💀 The Story Spirit encountered an error in the narrative realm',
+    });
+  } finally {
+    stream.close();
+  }
+});
+
+// 🔁 Rewrite one chapter (0-based index) while keeping continuity with its neighbours
+router.post('/:storyId/chapters/:index/regenerate', async (req: Request, res: Response) => {
+  try {
+    const { storyId } = req.params;
+    const index = Number(req.params.index);
+    const { instructions } = req.body;
+
+    if (!Number.isInteger(index) || index < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Chapter index must be a non-negative integer',
+        message: '👻 The Story Spirit cannot find that page'
+      });
+    }
+
+    if (instructions !== undefined && typeof instructions !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'instructions must be a string',
+        message: '👻 The Story Spirit cannot read those instructions'
+      });
+    }
+
+    const story = await getGeneratedStory(storyId);
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        error: 'Story not found',
+        message: '👻 This story has vanished into the narrative realm'
+      });
+    }
+
+    if (!story.chapters || story.chapters.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Story was not generated with chapters',
+        message: '👻 This tale was woven in one piece and cannot be unpicked'
+      });
+    }
+
+    if (index >= story.chapters.length) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chapter not found',
+        message: `👻 This story only has ${story.chapters.length} chapters`
+      });
+    }
+
+    const updated = await StoryGenerator.regenerateChapter(story, index, instructions);
+    await saveGeneratedStory(updated);
+
+    res.json({
+      success: true,
+      data: updated,
+      message: `🔁 Chapter ${index + 1} rewritten by the Story Spirit`
+    });
+  } catch (error) {
+    console.error('💀 Chapter regeneration error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to regenerate chapter',
+      message: '💀 The Story Spirit encountered an error in the narrative realm'
+    });
+  }
+});
+
+// 🧠 Grade a chapter's checkpoint questions like a quiz submission and record the attempt
+router.post('/:storyId/chapters/:index/checkpoint/submit', async (req: Request, res: Response) => {
+  try {
+    const { storyId } = req.params;
+    const index = Number(req.params.index);
+    const { answers, learnerId = ANONYMOUS_LEARNER } = req.body; // answers: Array of { questionId, answer }
+
+    if (!Number.isInteger(index) || index < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Chapter index must be a non-negative integer',
+        message: '👻 The Story Spirit cannot find that page'
+      });
+    }
+
+    if (!Array.isArray(answers)) {
+      return res.status(400).json({
+        success: false,
+        error: 'answers must be an array of { questionId, answer }',
+        message: '👻 The Story Spirit needs your answers to grade!'
+      });
+    }
+
+    if (!isValidLearnerId(learnerId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'learnerId must be 1-64 letters, digits, dashes or underscores',
+        message: '👻 The Story Spirit cannot tell who you are'
+      });
+    }
+
+    const story = await getGeneratedStory(storyId);
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        error: 'Story not found',
+        message: '👻 This story has vanished into the narrative realm'
+      });
+    }
+
+    const quiz = buildCheckpointQuiz(story, index);
+
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        error: 'Checkpoint not found',
+        message: '👻 This chapter has no checkpoint questions'
+      });
+    }
+
+    // Same grading and progress tracking as /api/quiz/:quizId/submit
+    const grading = await QuizGrader.gradeQuiz(quiz, answers);
+    const attempt = await QuizAttemptTracker.recordAttempt(quiz, learnerId, grading);
+
+    res.json({
+      success: true,
+      message: `🎯 Checkpoint completed! You scored ${attempt.score.percentage}%`,
+      data: {
+        storyId,
+        chapterIndex: index,
+        quizId: quiz.metadata.quizId,
+        attemptId: attempt.attemptId,
+        learnerId,
+        score: attempt.score,
+        results: attempt.results,
+        completedAt: attempt.completedAt
+      }
+    });
+  } catch (error) {
+    console.error('💀 Checkpoint submission error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process checkpoint submission',
+      message: '💀 Error processing your answers'
+    });
+  }
+});
+
+// 🔀 Follow a choice in a branching story, writing the next scene the first time it is picked
+router.post('/:storyId/choices/:choiceId', async (req: Request, res: Response) => {
+  try {
+    const { storyId, choiceId } = req.params;
+
+    const story = await getGeneratedStory(storyId);
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        error: 'Story not found',
+        message: '👻 This story has vanished into the narrative realm'
+      });
+    }
+
+    if (!story.branching) {
+      return res.status(400).json({
+        success: false,
+        error: 'Story is not a branching story',
+        message: '👻 This tale has only one path'
+      });
+    }
+
+    if (!story.branching.choices.some(choice => choice.choiceId === choiceId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Choice not found',
+        message: '👻 That path does not exist in this story'
+      });
+    }
+
+    const explored = await BranchingStoryGenerator.exploreChoice(story, choiceId);
+
+    res.json({
+      success: true,
+      data: { scene: explored.scene, story: explored.story },
+      message: explored.scene.isEnding
+        ? '🏁 The path comes to an end'
+        : '🔀 The Story Spirit reveals what lies down this path'
+    });
+  } catch (error) {
+    console.error('💀 Branch exploration error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to explore choice',
+      message: '💀 The Story Spirit encountered an error in the narrative realm'
+    });
+  }
+});
+
+// 📦 Export a story as an EPUB 3 book, print-ready HTML or Markdown
+router.get('/:storyId/export', async (req: Request, res: Response) => {
+  try {
+    const { storyId } = req.params;
+    const format = (req.query.format || 'html') as StoryExportFormat;
+
+    if (!STORY_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${STORY_EXPORT_FORMATS.join(', ')}`,
+        message: '👻 The Story Spirit cannot bind a book in that format'
+      });
+    }
+
+    const story = await getGeneratedStory(storyId);
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        error: 'Story not found',
+        message: '👻 This story has vanished into the narrative realm'
+      });
+    }
+
+    // Only the opening scene is kept as text; the paths live in the scene graph
+    if (story.branching) {
+      return res.status(400).json({
+        success: false,
+        error: 'Branching stories cannot be exported',
+        message: '👻 A tale of many paths will not fit between two covers'
+      });
+    }
+
+    const file = await exportStory(story, format);
+    console.log(`📦 Exported story ${storyId} as ${format}`);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('💀 Story export error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export story',
+      message: '💀 Error binding the story'
+    });
+  }
+});
+
 // Get story by ID
 router.get('/:storyId', async (req: Request, res: Response) => {
   try {
     const { storyId } = req.params;
     
-    const story = getGeneratedStory(storyId);
+    const story = await getGeneratedStory(storyId);
     
     if (!story) {
       return res.status(404).json({
@@ -93,7 +476,7 @@ router.get('/:storyId', async (req: Request, res: Response) => {
 // List all generated stories
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const stories = listGeneratedStories();
+    const stories = await listGeneratedStories();
     
     res.json({
       success: true,
@@ -1,7 +1,13 @@
 import express from 'express';
 import multer from 'multer';
 import { Request, Response } from 'express';
-import { ContentProcessor, saveProcessedContent, getProcessedContent } from '../controllers/contentProcessor';
+import { ContentMetadata, ContentProcessor, ProcessedContent, saveProcessedContent, getProcessedContent } from '../controllers/contentProcessor';
+import { ContentSearchIndex, MAX_SEARCH_LIMIT } from '../controllers/contentSearch';
+import { ApiError } from '../middleware/errorHandler';
+import { findExtractor, uploadFormats } from '../services/ContentExtractors';
+import { lowConfidencePages, OCR_MAX_PAGES } from '../services/Ocr';
+import { BlockedAddressError, fetchWebPage, isReadablePage, PageFetchError, parsePageUrl } from '../services/WebPages';
+import { ZipLimitError } from '../utils/zip';
 
 const router = express.Router();
 
@@ -13,12 +19,14 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    // Accept PDFs and text files
-    const allowedTypes = ['application/pdf', 'text/plain', 'text/markdown'];
-    if (allowedTypes.includes(file.mimetype)) {
+    // Accept exactly the formats the extractor registry can read
+    if (findExtractor(file)) {
       cb(null, true);
     } else {
-      cb(new Error('👻 Only PDF and text files are allowed in the spirit realm!'));
+      const error: ApiError = new Error(`👻 Only ${uploadFormats().map(format => format.label).join(', ')} files are allowed in the spirit realm!`);
+      error.statusCode = 415;
+      error.code = 'UNSUPPORTED_FILE_TYPE';
+      cb(error);
     }
   },
 });
@@ -34,27 +42,32 @@ router.post('/', upload.single('file'), async (req: Request, res: Response) => {
       });
     }
 
-    // Extract metadata from request body
-    const metadata = {
-      title: req.body.title,
-      subject: req.body.subject,
-      difficulty: req.body.difficulty,
-      tags: req.body.tags ? req.body.tags.split(',').map((tag: string) => tag.trim()) : undefined,
-    };
+    const metadata = metadataFrom(req.body);
 
     // 🎃 KIRO INTEGRATION POINT: Steering docs will guide content processing quality
     const processedContent = await ContentProcessor.processContent(req.file, metadata);
     
-    // Save processed content
-    saveProcessedContent(processedContent);
+    await storeContent(processedContent);
+
+    const warnings = uploadWarnings(processedContent);
 
     // 👻 KIRO INTEGRATION POINT: Future hooks will auto-trigger quiz/story/flashcard generation
     res.json({
       success: true,
       data: processedContent,
       message: '📁 Content successfully processed by the spirits!',
+      ...(warnings.length > 0 && { warnings }),
     });
   } catch (error) {
+    if (error instanceof ZipLimitError) {
+      return res.status(413).json({
+        success: false,
+        error: 'Archive expands beyond the upload limit',
+        message: '💀 This crypt holds far more than the spirits can carry',
+        details: error.message,
+      });
+    }
+
     console.error('Upload processing error:', error);
     res.status(500).json({
       success: false,
@@ -65,12 +78,131 @@ router.post('/', upload.single('file'), async (req: Request, res: Response) => {
   }
 });
 
+// Fetch a web page and process its main article like an uploaded file
+router.post('/url', async (req: Request, res: Response) => {
+  try {
+    const url = parsePageUrl(req.body.url);
+    if (!url) {
+      return res.status(400).json({
+        success: false,
+        error: 'url must be an absolute http(s) URL',
+        message: '👻 The spirits need a web address to visit!',
+      });
+    }
+
+    let page;
+    try {
+      page = await fetchWebPage(url.toString());
+    } catch (error) {
+      if (error instanceof BlockedAddressError) {
+        return res.status(400).json({
+          success: false,
+          error: 'url must point to a public web address',
+          message: '👻 The spirits will not wander into private halls',
+          details: error.message,
+        });
+      }
+      if (error instanceof PageFetchError) {
+        return res.status(502).json({
+          success: false,
+          error: 'Failed to fetch page',
+          message: '💀 The spirits could not reach that page',
+          details: error.message,
+        });
+      }
+      throw error;
+    }
+
+    if (!isReadablePage(page)) {
+      return res.status(415).json({
+        success: false,
+        error: `Unsupported page type: ${page.contentType || 'unknown'}`,
+        message: '👻 The spirits can only read HTML and text pages',
+      });
+    }
+
+    const processedContent = await ContentProcessor.processWebPage(page, metadataFrom(req.body));
+    if (!processedContent) {
+      return res.status(422).json({
+        success: false,
+        error: 'No readable content found at that URL',
+        message: '👻 The page was empty once the spirits cleared away the clutter',
+      });
+    }
+
+    await storeContent(processedContent);
+
+    res.json({
+      success: true,
+      data: processedContent,
+      message: '🌐 Web page successfully processed by the spirits!',
+    });
+  } catch (error) {
+    console.error('URL ingestion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process page',
+      message: '💀 The spirits encountered an error processing that page',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Upload formats the spirits can read, for file pickers
+router.get('/formats', (req: Request, res: Response) => {
+  const formats = uploadFormats();
+  res.json({
+    success: true,
+    message: `📁 The spirits can read ${formats.length} kinds of files`,
+    data: formats,
+  });
+});
+
+// Semantic search over the passages of every upload
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        error: 'Search query q is required',
+        message: '👻 The spirits need something to search for!',
+      });
+    }
+
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT)) {
+      return res.status(400).json({
+        success: false,
+        error: `limit must be an integer from 1 to ${MAX_SEARCH_LIMIT}`,
+        message: '👻 The spirits cannot return that many passages',
+      });
+    }
+
+    const contentId = typeof req.query.contentId === 'string' ? req.query.contentId : undefined;
+    const results = await ContentSearchIndex.search(query, { limit, contentId });
+
+    res.json({
+      success: true,
+      message: `🔎 Found ${results.length} passages matching "${query}"`,
+      data: results,
+    });
+  } catch (error) {
+    console.error('Content search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search content',
+      message: '💀 The spirits encountered an error searching the digital library',
+    });
+  }
+});
+
 // Get processed content by ID
 router.get('/:contentId', async (req: Request, res: Response) => {
   try {
     const { contentId } = req.params;
     
-    const content = getProcessedContent(contentId);
+    const content = await getProcessedContent(contentId);
     
     if (!content) {
       return res.status(404).json({
@@ -99,7 +231,7 @@ router.get('/:contentId', async (req: Request, res: Response) => {
 router.get('/', async (req: Request, res: Response) => {
   try {
     const { listProcessedContent } = await import('../controllers/contentProcessor');
-    const contentList = listProcessedContent();
+    const contentList = await listProcessedContent();
     
     res.json({
       success: true,
@@ -116,4 +248,47 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// Metadata overrides sent alongside an upload; tags arrive comma separated from forms
+function metadataFrom(body: any): Partial<ContentMetadata> {
+  const tags = Array.isArray(body.tags)
+    ? body.tags.map((tag: unknown) => String(tag).trim())
+    : typeof body.tags === 'string' && body.tags ? body.tags.split(',').map((tag: string) => tag.trim()) : undefined;
+
+  return {
+    title: body.title,
+    subject: body.subject,
+    difficulty: body.difficulty,
+    tags,
+  };
+}
+
+async function storeContent(processedContent: ProcessedContent): Promise<void> {
+  await saveProcessedContent(processedContent);
+
+  // Search indexing is best effort; unindexed content is picked up by the next search
+  try {
+    await ContentSearchIndex.indexContent(processedContent);
+  } catch (error) {
+    console.warn('⚠️  Search indexing failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Things the uploader should check before generating from the content
+function uploadWarnings(processedContent: ProcessedContent): string[] {
+  const warnings: string[] = [];
+
+  const unclear = lowConfidencePages(processedContent.metadata.ocr);
+  if (unclear.length > 0) {
+    const pages = unclear.map(page => `${page.page} (${page.confidence}%)`).join(', ');
+    warnings.push(`Scanned page${unclear.length > 1 ? 's' : ''} ${pages} could not be read clearly; the extracted text may contain OCR errors`);
+  }
+
+  const unread = processedContent.metadata.ocr?.unreadPages;
+  if (unread) {
+    warnings.push(`Only the first ${OCR_MAX_PAGES} scanned pages were read; ${unread} more scanned page${unread > 1 ? 's were' : ' was'} left out`);
+  }
+
+  return warnings;
+}
+
 export default router;
\ No newline at end of file
@@ -8,13 +8,18 @@ import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import { apiLimiter } from './middleware/rateLimiter';
+import { getDatabase } from './database';
 
 // Demo routes - showcasing the framework
 import quizRoutes from './routes/quiz';
 import storyRoutes from './routes/story';
+import flashcardRoutes from './routes/flashcards';
 import uploadRoutes from './routes/upload';
 import aiGenerationRoutes from './routes/aiGeneration';
 import downloadRoutes from './routes/download';
+import contentRoutes from './routes/content';
+import collectionRoutes from './routes/collections';
+import jobRoutes from './routes/jobs';
 
 // Load environment variables
 dotenv.config();
@@ -58,18 +63,30 @@ app.get('/health', (req, res) => {
 // 👻 Demo Routes - Showcasing GhostFrame capabilities
 app.use('/api/quiz', quizRoutes);
 app.use('/api/story', storyRoutes);
+app.use('/api/flashcards', flashcardRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/ai', aiGenerationRoutes);
 app.use('/api/download', downloadRoutes);
+app.use('/api/content', contentRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Error handling middleware (must be last)
 app.use(notFound);
 app.use(errorHandler);
 
-// Start the spooky server
-app.listen(PORT, () => {
-  console.log(`👻 GhostFrame backend haunting on port ${PORT}`);
-  console.log(`🎃 Health check: http://localhost:${PORT}/health`);
-});
+// Start the spooky server once storage is migrated
+getDatabase()
+  .then(db => {
+    console.log(`🗄️  Storage ready (${db.driver})`);
+    app.listen(PORT, () => {
+      console.log(`👻 GhostFrame backend haunting on port ${PORT}`);
+      console.log(`🎃 Health check: http://localhost:${PORT}/health`);
+    });
+  })
+  .catch(error => {
+    console.error('💀 Failed to initialize storage:', error);
+    process.exit(1);
+  });
 
 export default app;
\ No newline at end of file
@@ -2,10 +2,15 @@
 // Unified interface for multiple AI providers with fallback and streaming support
 
 import { EventEmitter } from 'events';
+import { getProviderAdapter, ProviderApi, ProviderCallContext } from './AIProviderAdapters';
+import { GenerationCache, GenerationCacheStats, getGenerationCache } from './GenerationCache';
 
 export interface AIProvider {
   name: string;
+  api: ProviderApi;
   models: string[];
+  /** Gateway model names mapped to the vendor's model identifiers */
+  modelAliases?: Record<string, string>;
   apiKey?: string;
   baseUrl?: string;
   rateLimit: {
@@ -28,6 +33,10 @@ export interface AIRequest {
     stream?: boolean;
     systemPrompt?: string;
     context?: any;
+    /** Always call the provider, e.g. when re-asking after an unusable response */
+    bypassCache?: boolean;
+    /** Aborts the provider call in flight; a cancelled request is not retried on another model */
+    signal?: AbortSignal;
   };
   metadata?: {
     userId?: string;
@@ -64,22 +73,36 @@ export interface StreamChunk {
   };
 }
 
+export interface AIGatewayOptions {
+  /** Per-provider overrides, e.g. pointing `openai` at a local stub server */
+  providers?: Record<string, Partial<AIProvider>>;
+  fallbackChain?: string[];
+  fetch?: typeof fetch;
+  requestTimeoutMs?: number;
+  /** Defaults to a private in-memory cache; the app-wide gateway shares the configured one */
+  cache?: GenerationCache;
+}
+
 export class AIGateway extends EventEmitter {
   private providers: Map<string, AIProvider>;
   private rateLimits: Map<string, { requests: number; tokens: number; resetTime: number }>;
   private circuitBreakers: Map<string, { failures: number; lastFailure: number; isOpen: boolean }>;
-  private cache: Map<string, { response: AIResponse; timestamp: number; ttl: number }>;
+  private cache: GenerationCache;
   private fallbackChain: string[];
+  private fetchImpl: typeof fetch;
+  private requestTimeoutMs: number;
 
-  constructor() {
+  constructor(options: AIGatewayOptions = {}) {
     super();
     this.providers = new Map();
     this.rateLimits = new Map();
     this.circuitBreakers = new Map();
-    this.cache = new Map();
-    this.fallbackChain = ['gpt-4', 'claude-3', 'gpt-3.5-turbo', 'gemini-pro'];
+    this.cache = options.cache || new GenerationCache();
+    this.fallbackChain = options.fallbackChain || ['llama-3.3-70b-versatile', 'gpt-4', 'claude-3', 'gpt-3.5-turbo', 'gemini-pro'];
+    this.fetchImpl = options.fetch || fetch;
+    this.requestTimeoutMs = options.requestTimeoutMs || 60000;
     
-    this.initializeProviders();
+    this.initializeProviders(options.providers || {});
     this.startCleanupTasks();
   }
 
@@ -91,13 +114,12 @@ export class AIGateway extends EventEmitter {
     const startTime = Date.now();
 
     // Check cache first
-    const cacheKey = this.generateCacheKey(request);
-    const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < cached.ttl) {
+    const cached = await this.cache.get(request);
+    if (cached) {
       this.emit('cache:hit', { requestId, model: request.model });
       return {
-        ...cached.response,
-        metadata: { ...cached.response.metadata, cached: true }
+        ...cached,
+        metadata: { ...cached.metadata, cached: true }
       };
     }
 
@@ -110,6 +132,11 @@ export class AIGateway extends EventEmitter {
         const provider = this.getProviderForModel(model);
         if (!provider) continue;
 
+        if (!provider.apiKey) {
+          lastError = new Error(`${provider.name} is not configured`);
+          continue;
+        }
+
         // Check circuit breaker
         if (this.isCircuitBreakerOpen(provider.name)) {
           console.warn(`Circuit breaker open for ${provider.name}, skipping`);
@@ -128,8 +155,8 @@ export class AIGateway extends EventEmitter {
         // Reset circuit breaker on success
         this.resetCircuitBreaker(provider.name);
         
-        // Cache the response
-        this.cacheResponse(cacheKey, response, 300000); // 5 minutes TTL
+        // Cache the response under the request as asked, whichever fallback model answered
+        await this.cache.set(request, response);
         
         // Update rate limits
         this.updateRateLimit(provider.name, response.usage.totalTokens);
@@ -144,6 +171,9 @@ export class AIGateway extends EventEmitter {
         return response;
 
       } catch (error) {
+        // The caller gave up; the provider did nothing wrong
+        if (request.options?.signal?.aborted) throw error;
+
         lastError = error as Error;
         const provider = this.getProviderForModel(model);
         if (provider) {
@@ -172,20 +202,29 @@ export class AIGateway extends EventEmitter {
     const modelsToTry = this.getModelFallbackChain(request.model);
 
     for (const model of modelsToTry) {
+      const provider = this.getProviderForModel(model);
+      if (!provider || !provider.apiKey || this.isCircuitBreakerOpen(provider.name)) {
+        continue;
+      }
+
+      let emitted = false;
       try {
-        const provider = this.getProviderForModel(model);
-        if (!provider || this.isCircuitBreakerOpen(provider.name)) {
-          continue;
+        for await (const chunk of this.streamRequest(provider, { ...request, model }, requestId)) {
+          emitted = true;
+          yield chunk;
         }
-
-        yield* this.streamRequest(provider, { ...request, model }, requestId);
+        this.resetCircuitBreaker(provider.name);
         return; // Success, exit the loop
 
       } catch (error) {
+        if (request.options?.signal?.aborted) throw error;
+
         console.error(`Streaming failed for ${model}:`, (error as Error).message);
-        const provider = this.getProviderForModel(model);
-        if (provider) {
-          this.recordFailure(provider.name);
+        this.recordFailure(provider.name);
+
+        // Partial output already reached the caller; switching models would garble it
+        if (emitted) {
+          throw error;
         }
       }
     }
@@ -212,6 +251,29 @@ export class AIGateway extends EventEmitter {
     return models;
   }
 
+  /**
+   * Get names of providers that have credentials configured
+   */
+  getConfiguredProviders(): string[] {
+    return Array.from(this.providers.values())
+      .filter(provider => !!provider.apiKey)
+      .map(provider => provider.name);
+  }
+
+  /**
+   * Check whether a model is served by any registered provider
+   */
+  hasModel(model: string): boolean {
+    return !!this.getProviderForModel(model);
+  }
+
+  /**
+   * Get generation cache hit/miss metrics
+   */
+  getCacheStats(): GenerationCacheStats {
+    return this.cache.stats();
+  }
+
   /**
    * Get provider statistics
    */
@@ -243,13 +305,31 @@ export class AIGateway extends EventEmitter {
 
   // Private methods
 
-  private initializeProviders(): void {
+  private initializeProviders(overrides: Record<string, Partial<AIProvider>>): void {
+    // Groq (OpenAI-compatible, fast and free tier)
+    this.providers.set('groq', {
+      name: 'groq',
+      api: 'openai-compatible',
+      models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768'],
+      apiKey: process.env.GROQ_API_KEY,
+      baseUrl: process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1',
+      rateLimit: {
+        requestsPerMinute: 100,
+        tokensPerMinute: 100000
+      },
+      pricing: {
+        inputTokens: 0.00059,
+        outputTokens: 0.00079
+      }
+    });
+
     // OpenAI
     this.providers.set('openai', {
       name: 'openai',
+      api: 'openai-compatible',
       models: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'],
       apiKey: process.env.OPENAI_API_KEY,
-      baseUrl: 'https://api.openai.com/v1',
+      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
       rateLimit: {
         requestsPerMinute: 500,
         tokensPerMinute: 150000
@@ -263,9 +343,15 @@ export class AIGateway extends EventEmitter {
     // Anthropic
     this.providers.set('anthropic', {
       name: 'anthropic',
+      api: 'anthropic',
       models: ['claude-3', 'claude-3-sonnet', 'claude-3-haiku'],
+      modelAliases: {
+        'claude-3': 'claude-3-opus-20240229',
+        'claude-3-sonnet': 'claude-3-sonnet-20240229',
+        'claude-3-haiku': 'claude-3-haiku-20240307'
+      },
       apiKey: process.env.ANTHROPIC_API_KEY,
-      baseUrl: 'https://api.anthropic.com/v1',
+      baseUrl: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1',
       rateLimit: {
         requestsPerMinute: 300,
         tokensPerMinute: 100000
@@ -279,9 +365,10 @@ export class AIGateway extends EventEmitter {
     // Google
     this.providers.set('google', {
       name: 'google',
+      api: 'google',
       models: ['gemini-pro', 'gemini-pro-vision'],
       apiKey: process.env.GOOGLE_API_KEY,
-      baseUrl: 'https://generativelanguage.googleapis.com/v1',
+      baseUrl: process.env.GOOGLE_BASE_URL || 'https://generativelanguage.googleapis.com/v1',
       rateLimit: {
         requestsPerMinute: 200,
         tokensPerMinute: 80000
@@ -295,9 +382,15 @@ export class AIGateway extends EventEmitter {
     // Mistral
     this.providers.set('mistral', {
       name: 'mistral',
+      api: 'openai-compatible',
       models: ['mistral-large', 'mistral-medium', 'mistral-small'],
+      modelAliases: {
+        'mistral-large': 'mistral-large-latest',
+        'mistral-medium': 'mistral-medium-latest',
+        'mistral-small': 'mistral-small-latest'
+      },
       apiKey: process.env.MISTRAL_API_KEY,
-      baseUrl: 'https://api.mistral.ai/v1',
+      baseUrl: process.env.MISTRAL_BASE_URL || 'https://api.mistral.ai/v1',
       rateLimit: {
         requestsPerMinute: 100,
         tokensPerMinute: 50000
@@ -308,6 +401,14 @@ export class AIGateway extends EventEmitter {
       }
     });
 
+    // Apply caller overrides (custom endpoints, keys, test stubs)
+    for (const [name, override] of Object.entries(overrides)) {
+      const provider = this.providers.get(name);
+      if (provider) {
+        this.providers.set(name, { ...provider, ...override });
+      }
+    }
+
     console.log(`🤖 AI Gateway initialized with ${this.providers.size} providers`);
   }
 
@@ -335,30 +436,26 @@ export class AIGateway extends EventEmitter {
 
   private async makeRequest(provider: AIProvider, request: AIRequest, requestId: string): Promise<AIResponse> {
     const startTime = Date.now();
-    
-    // Simulate API call (in real implementation, this would make actual HTTP requests)
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
-    
-    // Simulate response
-    const inputTokens = Math.floor(request.prompt.length / 4); // Rough estimate
-    const outputTokens = Math.floor(Math.random() * 500 + 100);
+    const adapter = getProviderAdapter(provider.api);
+    const completion = await adapter.complete(this.buildCallContext(provider, request));
+
+    const { inputTokens, outputTokens } = completion.usage;
     const totalTokens = inputTokens + outputTokens;
-    const cost = (inputTokens * provider.pricing.inputTokens + outputTokens * provider.pricing.outputTokens) / 1000;
     
     const response: AIResponse = {
-      content: this.generateMockResponse(request),
+      content: completion.content,
       model: request.model,
       provider: provider.name,
       usage: {
         inputTokens,
         outputTokens,
         totalTokens,
-        cost
+        cost: this.calculateCost(provider, inputTokens, outputTokens)
       },
       metadata: {
         requestId,
         processingTime: Date.now() - startTime,
-        quality: Math.random() * 0.3 + 0.7, // 0.7-1.0
+        quality: this.estimateQuality(completion.content, completion.finishReason),
         cached: false
       }
     };
@@ -367,42 +464,79 @@ export class AIGateway extends EventEmitter {
   }
 
   private async *streamRequest(provider: AIProvider, request: AIRequest, requestId: string): AsyncGenerator<StreamChunk> {
-    const mockResponse = this.generateMockResponse(request);
-    const words = mockResponse.split(' ');
+    const adapter = getProviderAdapter(provider.api);
     let content = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
     
-    for (let i = 0; i < words.length; i++) {
-      const delta = (i === 0 ? '' : ' ') + words[i];
-      content += delta;
-      
+    for await (const part of adapter.stream(this.buildCallContext(provider, request))) {
+      inputTokens = part.usage?.inputTokens ?? inputTokens;
+      outputTokens = part.usage?.outputTokens ?? outputTokens;
+      if (!part.delta) continue;
+
+      content += part.delta;
       yield {
         content,
-        delta,
-        finished: i === words.length - 1,
+        delta: part.delta,
+        finished: false,
         metadata: {
-          tokens: Math.floor(content.length / 4),
+          tokens: outputTokens || this.estimateTokens(content),
           model: request.model
         }
       };
-      
-      // Simulate streaming delay
-      await new Promise(resolve => setTimeout(resolve, Math.random() * 100 + 50));
     }
+
+    outputTokens = outputTokens || this.estimateTokens(content);
+    inputTokens = inputTokens || this.estimateTokens(request.prompt);
+    this.updateRateLimit(provider.name, inputTokens + outputTokens);
+    this.emit('stream:complete', {
+      requestId,
+      model: request.model,
+      provider: provider.name,
+      cost: this.calculateCost(provider, inputTokens, outputTokens)
+    });
+
+    yield {
+      content,
+      delta: '',
+      finished: true,
+      metadata: {
+        tokens: outputTokens,
+        model: request.model
+      }
+    };
   }
 
-  private generateMockResponse(request: AIRequest): string {
-    // Generate contextual mock responses based on the prompt
-    const prompt = request.prompt.toLowerCase();
-    
-    if (prompt.includes('quiz') || prompt.includes('question')) {
-      return 'Here are some educational questions based on your content: 1. What is the main concept? 2. How does this apply in practice? 3. What are the key benefits?';
-    } else if (prompt.includes('story') || prompt.includes('narrative')) {
-      return 'Once upon a time, in a world where AI and creativity merged, there lived a character who discovered the power of storytelling through technology...';
-    } else if (prompt.includes('analyze') || prompt.includes('research')) {
-      return 'Based on the analysis, the key findings indicate several important trends and patterns that suggest significant opportunities for improvement...';
-    } else {
-      return 'This is a comprehensive response generated by the AI model, addressing your request with detailed information and actionable insights.';
+  private buildCallContext(provider: AIProvider, request: AIRequest): ProviderCallContext {
+    if (!provider.baseUrl || !provider.apiKey) {
+      throw new Error(`${provider.name} is not configured`);
     }
+
+    return {
+      baseUrl: provider.baseUrl,
+      apiKey: provider.apiKey,
+      model: provider.modelAliases?.[request.model] || request.model,
+      prompt: request.prompt,
+      systemPrompt: request.options?.systemPrompt,
+      temperature: request.options?.temperature,
+      maxTokens: request.options?.maxTokens,
+      topP: request.options?.topP,
+      timeoutMs: this.requestTimeoutMs,
+      signal: request.options?.signal,
+      fetch: this.fetchImpl
+    };
+  }
+
+  private calculateCost(provider: AIProvider, inputTokens: number, outputTokens: number): number {
+    return (inputTokens * provider.pricing.inputTokens + outputTokens * provider.pricing.outputTokens) / 1000;
+  }
+
+  private estimateQuality(content: string, finishReason?: string): number {
+    if (!content.trim()) return 0;
+
+    // Truncated generations are usable but incomplete
+    const truncated = ['length', 'max_tokens', 'MAX_TOKENS'].includes(finishReason || '');
+    return truncated ? 0.6 : 1;
   }
 
   private checkRateLimit(providerName: string, request: AIRequest): boolean {
@@ -478,19 +612,6 @@ export class AIGateway extends EventEmitter {
     }
   }
 
-  private generateCacheKey(request: AIRequest): string {
-    const key = `${request.model}:${request.prompt}:${JSON.stringify(request.options || {})}`;
-    return Buffer.from(key).toString('base64');
-  }
-
-  private cacheResponse(key: string, response: AIResponse, ttl: number): void {
-    this.cache.set(key, {
-      response,
-      timestamp: Date.now(),
-      ttl
-    });
-  }
-
   private estimateTokens(text: string): number {
     // Rough estimation: 1 token ≈ 4 characters
     return Math.ceil(text.length / 4);
@@ -501,18 +622,8 @@ export class AIGateway extends EventEmitter {
   }
 
   private startCleanupTasks(): void {
-    // Clean up cache every 10 minutes
-    setInterval(() => {
-      const now = Date.now();
-      for (const [key, cached] of this.cache) {
-        if (now - cached.timestamp > cached.ttl) {
-          this.cache.delete(key);
-        }
-      }
-    }, 600000);
-
     // Reset rate limits every minute
-    setInterval(() => {
+    const rateLimitReset = setInterval(() => {
       const now = Date.now();
       for (const [provider, rateLimit] of this.rateLimits) {
         if (now > rateLimit.resetTime) {
@@ -520,8 +631,11 @@ export class AIGateway extends EventEmitter {
         }
       }
     }, 60000);
+
+    // Housekeeping alone should not keep the process alive
+    rateLimitReset.unref();
   }
 }
 
 // Singleton instance
-export const aiGateway = new AIGateway();
\ No newline at end of file
+export const aiGateway = new AIGateway({ cache: getGenerationCache() });
\ No newline at end of file
@@ -9,6 +9,8 @@ export interface AIModuleRequest {
   kiroCompatible: boolean;
   category?: string;
   features?: string[];
+  /** Stops generation between steps, e.g. when the job generating the module is cancelled */
+  signal?: AbortSignal;
 }
 
 export interface AIModuleResponse {
@@ -37,6 +39,7 @@ export class AIModuleGenerator {
 
     // Parse the description to extract key information
     const moduleInfo = await this.parseDescription(request.description);
+    request.signal?.throwIfAborted();
 
     // Generate module structure
     const moduleId = this.sanitizeModuleName(moduleInfo.name);
@@ -44,6 +47,7 @@ export class AIModuleGenerator {
 
     // Generate files using AI
     const files = await this.generateFiles(moduleInfo, category);
+    request.signal?.throwIfAborted();
 
     // Generate package.json
     const packageJson = this.generatePackageJson(moduleId, moduleInfo);
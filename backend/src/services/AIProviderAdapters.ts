@@ -0,0 +1,364 @@
+// 🤖 GhostFrame AI Provider Adapters
+// Vendor-specific HTTP clients behind one interface used by the AI Gateway
+
+export type ProviderApi = 'openai-compatible' | 'anthropic' | 'google';
+
+export interface ProviderCallContext {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  prompt: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  timeoutMs: number;
+  /** Cancels the request, e.g. when the job waiting on it is cancelled */
+  signal?: AbortSignal;
+  fetch: typeof fetch;
+}
+
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderCompletion {
+  content: string;
+  usage: ProviderUsage;
+  finishReason?: string;
+}
+
+export interface ProviderStreamDelta {
+  delta: string;
+  usage?: Partial<ProviderUsage>;
+}
+
+export interface ProviderAdapter {
+  complete(context: ProviderCallContext): Promise<ProviderCompletion>;
+  stream(context: ProviderCallContext): AsyncGenerator<ProviderStreamDelta>;
+}
+
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+/**
+ * OpenAI chat completions API (also spoken by Mistral, Groq and local stubs)
+ */
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  async complete(context: ProviderCallContext): Promise<ProviderCompletion> {
+    const data = await postJson(context, '/chat/completions', this.buildBody(context, false), {
+      Authorization: `Bearer ${context.apiKey}`,
+    });
+
+    const choice = data.choices?.[0];
+    const content = choice?.message?.content;
+    if (typeof content !== 'string') {
+      throw new ProviderRequestError('No content in chat completion response');
+    }
+
+    return {
+      content,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+      finishReason: choice.finish_reason,
+    };
+  }
+
+  async *stream(context: ProviderCallContext): AsyncGenerator<ProviderStreamDelta> {
+    const events = postEventStream(context, '/chat/completions', this.buildBody(context, true), {
+      Authorization: `Bearer ${context.apiKey}`,
+    });
+
+    for await (const event of events) {
+      if (event.data === '[DONE]') return;
+
+      const payload = JSON.parse(event.data);
+      const delta = payload.choices?.[0]?.delta?.content || '';
+      const usage = payload.usage
+        ? { inputTokens: payload.usage.prompt_tokens, outputTokens: payload.usage.completion_tokens }
+        : undefined;
+
+      if (delta || usage) {
+        yield { delta, usage };
+      }
+    }
+  }
+
+  private buildBody(context: ProviderCallContext, stream: boolean) {
+    const messages = [];
+    if (context.systemPrompt) {
+      messages.push({ role: 'system', content: context.systemPrompt });
+    }
+    messages.push({ role: 'user', content: context.prompt });
+
+    return {
+      model: context.model,
+      messages,
+      temperature: context.temperature,
+      max_tokens: context.maxTokens,
+      top_p: context.topP,
+      stream,
+      ...(stream && { stream_options: { include_usage: true } }),
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicAdapter implements ProviderAdapter {
+  async complete(context: ProviderCallContext): Promise<ProviderCompletion> {
+    const data = await postJson(context, '/messages', this.buildBody(context, false), this.headers(context));
+
+    const content = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      content,
+      usage: {
+        inputTokens: data.usage?.input_tokens ?? 0,
+        outputTokens: data.usage?.output_tokens ?? 0,
+      },
+      finishReason: data.stop_reason,
+    };
+  }
+
+  async *stream(context: ProviderCallContext): AsyncGenerator<ProviderStreamDelta> {
+    for await (const event of postEventStream(context, '/messages', this.buildBody(context, true), this.headers(context))) {
+      const payload = JSON.parse(event.data);
+
+      if (payload.type === 'message_start' && payload.message?.usage) {
+        yield { delta: '', usage: { inputTokens: payload.message.usage.input_tokens } };
+      } else if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+        yield { delta: payload.delta.text };
+      } else if (payload.type === 'message_delta' && payload.usage) {
+        yield { delta: '', usage: { outputTokens: payload.usage.output_tokens } };
+      } else if (payload.type === 'error') {
+        throw new ProviderRequestError(payload.error?.message || 'Anthropic stream error');
+      }
+    }
+  }
+
+  private headers(context: ProviderCallContext): Record<string, string> {
+    return {
+      'x-api-key': context.apiKey,
+      'anthropic-version': '2023-06-01',
+    };
+  }
+
+  private buildBody(context: ProviderCallContext, stream: boolean) {
+    return {
+      model: context.model,
+      system: context.systemPrompt,
+      messages: [{ role: 'user', content: context.prompt }],
+      // Anthropic requires an explicit output budget
+      max_tokens: context.maxTokens || 1024,
+      temperature: context.temperature,
+      top_p: context.topP,
+      stream,
+    };
+  }
+}
+
+/**
+ * Google Generative Language API (Gemini)
+ */
+export class GoogleAdapter implements ProviderAdapter {
+  async complete(context: ProviderCallContext): Promise<ProviderCompletion> {
+    const data = await postJson(
+      context,
+      `/models/${context.model}:generateContent?key=${encodeURIComponent(context.apiKey)}`,
+      this.buildBody(context)
+    );
+
+    const candidate = data.candidates?.[0];
+    return {
+      content: this.extractText(candidate),
+      usage: {
+        inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata?.candidatesTokenCount ?? 0,
+      },
+      finishReason: candidate?.finishReason,
+    };
+  }
+
+  async *stream(context: ProviderCallContext): AsyncGenerator<ProviderStreamDelta> {
+    const events = postEventStream(
+      context,
+      `/models/${context.model}:streamGenerateContent?alt=sse&key=${encodeURIComponent(context.apiKey)}`,
+      this.buildBody(context)
+    );
+
+    for await (const event of events) {
+      const payload = JSON.parse(event.data);
+      const usage = payload.usageMetadata
+        ? {
+            inputTokens: payload.usageMetadata.promptTokenCount,
+            outputTokens: payload.usageMetadata.candidatesTokenCount,
+          }
+        : undefined;
+
+      yield { delta: this.extractText(payload.candidates?.[0]), usage };
+    }
+  }
+
+  private extractText(candidate: any): string {
+    return (candidate?.content?.parts || []).map((part: any) => part.text || '').join('');
+  }
+
+  private buildBody(context: ProviderCallContext) {
+    return {
+      contents: [{ role: 'user', parts: [{ text: context.prompt }] }],
+      ...(context.systemPrompt && {
+        systemInstruction: { parts: [{ text: context.systemPrompt }] },
+      }),
+      generationConfig: {
+        temperature: context.temperature,
+        maxOutputTokens: context.maxTokens,
+        topP: context.topP,
+      },
+    };
+  }
+}
+
+const adapters: Record<ProviderApi, ProviderAdapter> = {
+  'openai-compatible': new OpenAICompatibleAdapter(),
+  anthropic: new AnthropicAdapter(),
+  google: new GoogleAdapter(),
+};
+
+export function getProviderAdapter(api: ProviderApi): ProviderAdapter {
+  return adapters[api];
+}
+
+// HTTP helpers
+
+async function post(
+  context: ProviderCallContext,
+  path: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<Response> {
+  const url = `${context.baseUrl.replace(/\/$/, '')}${path}`;
+  const response = await context.fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new ProviderRequestError(
+      `HTTP ${response.status} from ${url}: ${errorText.substring(0, 200)}`,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+async function postJson(
+  context: ProviderCallContext,
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<any> {
+  const response = await post(context, path, body, headers, withCancellation(context, AbortSignal.timeout(context.timeoutMs)));
+  return response.json();
+}
+
+// The timeout signal, also aborted when the caller cancels
+function withCancellation(context: ProviderCallContext, signal: AbortSignal): AbortSignal {
+  return context.signal ? AbortSignal.any([signal, context.signal]) : signal;
+}
+
+/**
+ * POST a streaming request and read its server-sent events. The timeout covers each wait for data
+ * rather than the whole body, so a long generation is not cut off while tokens keep arriving.
+ */
+async function* postEventStream(
+  context: ProviderCallContext,
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): AsyncGenerator<{ event?: string; data: string }> {
+  const controller = new AbortController();
+  let idle: NodeJS.Timeout | undefined;
+  const restartIdleTimer = () => {
+    clearTimeout(idle);
+    idle = setTimeout(() => controller.abort(), context.timeoutMs);
+  };
+
+  restartIdleTimer();
+  try {
+    const response = await post(context, path, body, headers, withCancellation(context, controller.signal));
+    yield* readServerSentEvents(response, restartIdleTimer);
+  } catch (error) {
+    if (controller.signal.aborted && !context.signal?.aborted) {
+      throw new ProviderRequestError(`No data from ${path} for ${context.timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(idle);
+    // Also releases the connection when the caller stops reading early
+    controller.abort();
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body into individual events
+ */
+export async function* readServerSentEvents(
+  response: Response,
+  onChunk?: () => void
+): AsyncGenerator<{ event?: string; data: string }> {
+  if (!response.body) {
+    throw new ProviderRequestError('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parse = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk?.();
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      const parsed = parse(block);
+      if (parsed) yield parsed;
+    }
+  }
+
+  const trailing = parse(buffer);
+  if (trailing) yield trailing;
+}
@@ -1,85 +1,53 @@
 // 🎃 GhostFrame AI Router
-// Routes AI requests to appropriate service (Groq, OpenAI, or Anthropic)
+// Routes AI requests through the AI Gateway (Groq, OpenAI or Anthropic) so every
+// call shares the gateway's fallback chain, circuit breakers, cache and rate limits
 
-import { GroqService } from './GroqService';
-import { openAIService } from './OpenAIService';
-import { anthropicService } from './AnthropicService';
-import { config } from '../config/env';
+import { aiGateway, AIGateway, AIRequest, StreamChunk } from './AIGateway';
 
 type AIProvider = 'groq' | 'openai' | 'anthropic' | 'auto';
 
-// Initialize Groq service if API key is available
-const groqService = config.groq.enabled ? new GroqService(config.groq.apiKey!) : null;
+export interface GenerateOptions {
+  prompt: string;
+  provider?: AIProvider;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  bypassCache?: boolean;
+  /** Aborts the provider request, e.g. when the job it runs for is cancelled */
+  signal?: AbortSignal;
+}
+
+// Default gateway model for each provider the router exposes
+const PROVIDER_MODELS: Record<Exclude<AIProvider, 'auto'>, string> = {
+  groq: 'llama-3.3-70b-versatile',
+  openai: 'gpt-3.5-turbo',
+  anthropic: 'claude-3-haiku'
+};
+
+// Auto-selection order (prioritize Groq for speed)
+const PROVIDER_PRIORITY: Exclude<AIProvider, 'auto'>[] = ['groq', 'openai', 'anthropic'];
 
 export class AIRouter {
+  constructor(private gateway: AIGateway = aiGateway) {}
+
   /**
    * Generic AI generation method - the main framework method
    */
-  async generate(options: {
-    prompt: string;
-    provider?: AIProvider;
-    model?: string;
-    temperature?: number;
-    maxTokens?: number;
-  }): Promise<{ text: string; provider: string }> {
-    const provider = options.provider || 'auto';
-    const selectedProvider = this.selectProvider(provider);
-
-    console.log(`🎃 AIRouter using provider: ${selectedProvider}`);
-
-    // Use Groq (fastest and free)
-    if (selectedProvider === 'groq' && groqService) {
-      try {
-        const response = await groqService.generateText({
-          prompt: options.prompt,
-          model: options.model || 'llama-3.3-70b-versatile',
-          temperature: options.temperature || 0.7,
-          maxTokens: options.maxTokens || 2000
-        });
-        
-        if (response.success && response.data) {
-          return {
-            text: response.data,
-            provider: 'groq'
-          };
-        }
-      } catch (error) {
-        console.error('Groq generation failed:', error);
-        // Fall through to next provider
-      }
-    }
-
-    // Fallback to OpenAI if available
-    if (openAIService.isEnabled()) {
-      try {
-        const response = await openAIService.generateText(options.prompt, {
-          temperature: options.temperature,
-          maxTokens: options.maxTokens
-        });
-        return {
-          text: response,
-          provider: 'openai'
-        };
-      } catch (error) {
-        console.error('OpenAI generation failed:', error);
-      }
-    }
+  async generate(options: GenerateOptions): Promise<{ text: string; provider: string }> {
+    const response = await this.gateway.process(this.buildGatewayRequest(options));
 
-    // Fallback to Anthropic if available
-    if (anthropicService.isEnabled()) {
-      try {
-        const response = await anthropicService.generateContent(options.prompt);
-        return {
-          text: response,
-          provider: 'anthropic'
-        };
-      } catch (error) {
-        console.error('Anthropic generation failed:', error);
-      }
-    }
+    return {
+      text: response.content,
+      provider: response.provider
+    };
+  }
 
-    // No AI available - throw error
-    throw new Error('No AI provider available. Please configure GROQ_API_KEY in your .env file.');
+  /**
+   * Stream a generation chunk by chunk as tokens arrive
+   */
+  async *stream(options: GenerateOptions): AsyncGenerator<StreamChunk> {
+    yield* this.gateway.stream(this.buildGatewayRequest(options));
   }
 
   /**
@@ -90,41 +58,44 @@ export class AIRouter {
     options: any = {},
     provider: AIProvider = 'auto'
   ): Promise<any> {
-    const selectedProvider = this.selectProvider(provider);
-
-    if (selectedProvider === 'groq' && groqService) {
-      const request = {
-        content,
-        questionCount: options.questionCount || 5,
-        questionTypes: options.questionTypes || ['multiple-choice', 'true-false'],
-        difficulty: options.difficulty || 'medium',
-        topic: options.topic
-      };
-      const response = await groqService.generateQuiz(request);
-      if (response.success) {
-        return response.data;
-      }
-      // Fall through to next provider on error
-    }
-
-    if (selectedProvider === 'openai') {
-      return await openAIService.generateQuiz(content, options);
-    } else if (selectedProvider === 'anthropic') {
-      // Use Anthropic for quiz generation
-      const prompt = `Generate ${options.questionCount || 5} quiz questions from this content: ${content}`;
-      const response = await anthropicService.generateContent(
-        prompt,
-        'You are a quiz generator. Respond with JSON array of questions.'
-      );
-      try {
-        return JSON.parse(response);
-      } catch {
-        return openAIService.generateQuiz(content, options); // Fallback
-      }
+    const prompt = `Generate a quiz from this content with the following specifications:
+
+Content: ${content}
+
+Requirements:
+- Number of questions: ${options.questionCount || 5}
+- Question types: ${(options.questionTypes || ['multiple-choice', 'true-false']).join(', ')}
+- Difficulty: ${options.difficulty || 'medium'}
+- Topic focus: ${options.topic || 'general'}
+
+Return a JSON object with this structure:
+{
+  "title": "Quiz Title",
+  "description": "Brief description",
+  "questions": [
+    {
+      "id": 1,
+      "type": "multiple-choice",
+      "question": "Question text",
+      "options": ["A", "B", "C", "D"],
+      "correctAnswer": 0,
+      "explanation": "Why this is correct",
+      "difficulty": "medium",
+      "topic": "topic name"
     }
+  ],
+  "metadata": {
+    "totalQuestions": 5,
+    "estimatedTime": "10 minutes",
+    "topics": ["topic1", "topic2"]
+  }
+}`;
 
-    // No AI available, use mock
-    return openAIService.generateQuiz(content, options);
+    return this.generateJson(prompt, provider, {
+      systemPrompt: 'You are an expert quiz generator. Create educational quizzes from provided content. Always respond with valid JSON.',
+      temperature: 0.7,
+      maxTokens: 2000
+    });
   }
 
   /**
@@ -135,39 +106,37 @@ export class AIRouter {
     options: any = {},
     provider: AIProvider = 'auto'
   ): Promise<any> {
-    const selectedProvider = this.selectProvider(provider);
-
-    if (selectedProvider === 'groq' && groqService) {
-      const request = {
-        content,
-        genre: options.genre || 'educational adventure',
-        audience: options.audience || 'general',
-        length: options.length || 'medium',
-        tone: options.tone || 'engaging and educational'
-      };
-      const response = await groqService.generateStory(request);
-      if (response.success) {
-        return response.data;
-      }
-      // Fall through to next provider on error
-    }
-
-    if (selectedProvider === 'openai') {
-      return await openAIService.generateStory(content, options);
-    } else if (selectedProvider === 'anthropic') {
-      const prompt = `Create a ${options.genre || 'educational'} story based on: ${content}`;
-      const response = await anthropicService.generateContent(
-        prompt,
-        'You are a creative storyteller. Respond with JSON containing title, story, characters, themes, and summary.'
-      );
-      try {
-        return JSON.parse(response);
-      } catch {
-        return openAIService.generateStory(content, options); // Fallback
-      }
+    const prompt = `Create an engaging story that incorporates the following content:
+
+Content: ${content}
+
+Requirements:
+- Genre: ${options.genre || 'educational adventure'}
+- Target audience: ${options.audience || 'general'}
+- Length: ${options.length || 'medium'} (short=500 words, medium=1000 words, long=1500 words)
+- Tone: ${options.tone || 'engaging and educational'}
+
+Return a JSON object with this structure:
+{
+  "title": "Story Title",
+  "genre": "adventure",
+  "summary": "Brief story summary",
+  "story": "Full story text with paragraphs",
+  "characters": [
+    {
+      "name": "Character Name",
+      "role": "protagonist",
+      "description": "Character description"
     }
-
-    return openAIService.generateStory(content, options);
+  ],
+  "themes": ["theme1", "theme2"]
+}`;
+
+    return this.generateJson(prompt, provider, {
+      systemPrompt: 'You are a creative storyteller. Transform educational content into engaging stories. Always respond with valid JSON.',
+      temperature: 0.8,
+      maxTokens: 3000
+    });
   }
 
   /**
@@ -178,103 +147,154 @@ export class AIRouter {
     count: number = 10,
     provider: AIProvider = 'auto'
   ): Promise<any> {
-    const selectedProvider = this.selectProvider(provider);
-
-    if (selectedProvider === 'openai') {
-      return await openAIService.generateFlashcards(content, count);
-    } else if (selectedProvider === 'anthropic') {
-      const prompt = `Generate ${count} flashcards from this content: ${content}`;
-      const response = await anthropicService.generateContent(
-        prompt,
-        'You are a flashcard generator. Respond with JSON array of flashcards with front, back, category, and difficulty.'
-      );
-      try {
-        return JSON.parse(response);
-      } catch {
-        return openAIService.generateFlashcards(content, count); // Fallback
-      }
-    }
+    const prompt = `Generate ${count} flashcards from this content:
+
+${content}
 
-    return openAIService.generateFlashcards(content, count);
+Return a JSON array with this format:
+[
+  {
+    "front": "Question or term",
+    "back": "Answer or definition",
+    "category": "Category name",
+    "difficulty": "easy|medium|hard"
+  }
+]`;
+
+    return this.generateJson(prompt, provider, {
+      systemPrompt: 'You are a helpful flashcard generator. Always respond with valid JSON.',
+      temperature: 0.7,
+      maxTokens: 2000
+    });
   }
 
   /**
    * Analyze content using best available AI service
    */
   async analyzeContent(content: string, provider: AIProvider = 'auto'): Promise<any> {
-    const selectedProvider = this.selectProvider(provider);
-
-    if (selectedProvider === 'anthropic') {
-      return await anthropicService.analyzeContent(content);
-    } else if (selectedProvider === 'openai') {
-      // Use OpenAI for analysis
-      const prompt = `Analyze this content and provide topics, concepts, difficulty, and objectives in JSON: ${content}`;
-      // Would implement similar to Anthropic
-      return anthropicService.analyzeContent(content); // Fallback for now
+    const prompt = `Analyze this content and provide:
+1. Main topics (list)
+2. Key concepts (list)
+3. Difficulty level (beginner/intermediate/advanced)
+4. Suggested learning objectives (list)
+
+Content:
+${content}
+
+Respond in JSON format.`;
+
+    try {
+      return await this.generateJson(prompt, provider, {
+        systemPrompt: 'You are a content analysis expert. Always respond with valid JSON.',
+        temperature: 0.3,
+        maxTokens: 1000
+      });
+    } catch (error) {
+      return {
+        topics: ['General'],
+        concepts: ['Various concepts'],
+        difficulty: 'intermediate',
+        objectives: ['Understand the content'],
+      };
     }
-
-    return anthropicService.analyzeContent(content);
   }
 
   /**
-   * Select best available AI provider
+   * Get available AI providers
    */
-  private selectProvider(requested: AIProvider): AIProvider {
-    if (requested === 'groq' && groqService) {
-      return 'groq';
-    }
+  getAvailableProviders(): string[] {
+    const configured = this.gateway.getConfiguredProviders();
+    return PROVIDER_PRIORITY.filter(provider => configured.includes(provider));
+  }
 
-    if (requested === 'openai' && openAIService.isEnabled()) {
-      return 'openai';
-    }
+  /**
+   * Check if any AI service is available
+   */
+  isAnyAIAvailable(): boolean {
+    return this.getAvailableProviders().length > 0;
+  }
 
-    if (requested === 'anthropic' && anthropicService.isEnabled()) {
-      return 'anthropic';
+  private buildGatewayRequest(options: GenerateOptions): AIRequest {
+    if (!this.isAnyAIAvailable()) {
+      throw new Error('No AI provider available. Please configure GROQ_API_KEY in your .env file.');
     }
 
-    // Auto-select (prioritize Groq for speed)
-    if (groqService) {
-      return 'groq';
-    }
+    const selectedProvider = this.selectProvider(options.provider || 'auto');
+    const model = this.selectModel(selectedProvider, options.model);
 
-    if (openAIService.isEnabled()) {
-      return 'openai';
-    }
+    console.log(`🎃 AIRouter using provider: ${selectedProvider} (${model})`);
 
-    if (anthropicService.isEnabled()) {
-      return 'anthropic';
-    }
+    return {
+      model,
+      prompt: options.prompt,
+      options: {
+        temperature: options.temperature ?? 0.7,
+        maxTokens: options.maxTokens || 2000,
+        systemPrompt: options.systemPrompt,
+        ...(options.bypassCache && { bypassCache: true }),
+        ...(options.signal && { signal: options.signal })
+      }
+    };
+  }
 
-    // No AI available
-    return 'openai'; // Will use mock responses
+  /**
+   * Run a prompt and parse the JSON payload out of the response
+   */
+  private async generateJson(
+    prompt: string,
+    provider: AIProvider,
+    options: { systemPrompt: string; temperature: number; maxTokens: number }
+  ): Promise<any> {
+    const response = await this.generate({ prompt, provider, ...options });
+    return parseJsonResponse(response.text);
   }
 
   /**
-   * Get available AI providers
+   * Select best available AI provider
    */
-  getAvailableProviders(): string[] {
-    const providers: string[] = [];
+  private selectProvider(requested: AIProvider): Exclude<AIProvider, 'auto'> {
+    const available = this.getAvailableProviders();
 
-    if (groqService) {
-      providers.push('groq');
+    if (requested !== 'auto' && available.includes(requested)) {
+      return requested;
     }
 
-    if (openAIService.isEnabled()) {
-      providers.push('openai');
-    }
+    return available[0] as Exclude<AIProvider, 'auto'>;
+  }
 
-    if (anthropicService.isEnabled()) {
-      providers.push('anthropic');
+  /**
+   * Keep the caller's model when the gateway can serve it through the selected provider
+   */
+  private selectModel(provider: Exclude<AIProvider, 'auto'>, requestedModel?: string): string {
+    const providerModels = this.gateway
+      .getAvailableModels()
+      .filter(entry => entry.provider === provider)
+      .map(entry => entry.model);
+
+    if (requestedModel && providerModels.includes(requestedModel)) {
+      return requestedModel;
     }
 
-    return providers;
+    return PROVIDER_MODELS[provider];
   }
+}
 
-  /**
-   * Check if any AI service is available
-   */
-  isAnyAIAvailable(): boolean {
-    return !!groqService || openAIService.isEnabled() || anthropicService.isEnabled();
+/**
+ * Extract JSON from a model response, tolerating markdown code fences and prose
+ */
+export function parseJsonResponse(text: string): any {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      return JSON.parse(candidate.substring(start, end + 1));
+    }
+    throw new Error('AI response did not contain valid JSON');
   }
 }
 
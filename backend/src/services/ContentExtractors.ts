@@ -0,0 +1,388 @@
+// 🎃 GhostFrame Content Extractors
+// The one list of upload formats: the upload route accepts, the processor reads and the
+// frontend offers exactly the formats registered here
+
+import { posix } from 'path';
+import pdfParse from 'pdf-parse';
+import * as mammoth from 'mammoth';
+import * as cheerio from 'cheerio';
+import { readZip } from '../utils/zip';
+import { getOcrEngine, OCR_MAX_PAGES, OcrReport, OcrResult, OcrSession } from './Ocr';
+
+export interface ContentExtractor {
+  id: string;
+  /** Shown to users, e.g. "PDF" */
+  label: string;
+  mimeTypes: string[];
+  /** Lowercase, with the dot; used when the browser sends no useful mimetype */
+  extensions: string[];
+  extract(buffer: Buffer): Promise<ExtractedText>;
+}
+
+export interface ExtractedText {
+  /** Raw text for the processor; headings as markdown `#` lines where the format has them */
+  text: string;
+  /** Present when some pages had no text layer and were read by OCR */
+  ocr?: OcrReport;
+}
+
+/** An extractor without its implementation, as served to the frontend */
+export type UploadFormat = Omit<ContentExtractor, 'extract'>;
+
+export interface ExtractedArticle {
+  title?: string;
+  /** Markdown: `#` headings, `-`/`1.` list items, `|` table rows and one paragraph per block */
+  text: string;
+}
+
+// Page furniture that never belongs to the article itself
+const BOILERPLATE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'form', 'button', 'nav', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]', '[hidden]'
+].join(', ');
+
+// Class and id names sites give to menus, sidebars, adverts and share widgets
+const BOILERPLATE_NAME = /(^|[-_\s])(nav|navbar|menu|sidebar|breadcrumbs?|cookie|banner|advert|ads?|promo|share|social|comments?|related|newsletter|subscribe|popup|modal)([-_\s]|$)/i;
+
+const ARTICLE_BLOCKS = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, figcaption, dt, dd, table';
+
+// The pdf.js 2.0 build bundled with pdf-parse decodes JPEG scans itself; 1.10 needs a browser to
+const PDFJS_VERSION = 'v2.0.550';
+
+// Pages with fewer characters than this in their text layer are treated as scans
+const OCR_MIN_PAGE_CHARS = 50;
+// Smaller images are icons, logos and rules rather than scanned text
+const OCR_MIN_IMAGE_PIXELS = 100 * 100;
+
+// pdf.js operator codes for painting an image XObject and an inline image
+const OPS_PAINT_IMAGE = 85;
+const OPS_PAINT_INLINE_IMAGE = 86;
+
+// Archive members never worth inflating for text
+const BINARY_MEMBER = /\.(png|jpe?g|gif|webp|bmp|tiff?|svg|ttf|otf|woff2?|mp3|mp4|m4a|wav|emf|wmf)$/i;
+
+/**
+ * Pull the main article out of an HTML page, leaving navigation, sidebars and footers behind
+ * 👻 Prefers <article> and <main>, otherwise the container holding the most paragraph text
+ */
+export const extractArticle = (html: string): ExtractedArticle => {
+  const $ = cheerio.load(html);
+
+  const title = $('meta[property="og:title"]').attr('content')?.trim()
+    || $('title').first().text().trim()
+    || $('h1').first().text().trim()
+    || undefined;
+
+  $(BOILERPLATE_SELECTOR).remove();
+  // Page-level headers and footers go; an article's own header keeps its title
+  $('header, footer').filter((_, element) => $(element).parents('article, main').length === 0).remove();
+  $('[class], [id]').filter((_, element) => {
+    const $element = $(element);
+    if ($element.is('html, body, article, main')) return false;
+    return BOILERPLATE_NAME.test($element.attr('class') || '') || BOILERPLATE_NAME.test($element.attr('id') || '');
+  }).remove();
+
+  const textLength = (element: any) => $(element).text().replace(/\s+/g, ' ').trim().length;
+  const longest = (selector: string) => $(selector).toArray().sort((a, b) => textLength(b) - textLength(a))[0];
+
+  let root = longest('article') || longest('main, [role="main"]');
+  if (!root) {
+    // No semantic markup: the container with the most paragraph text is the article
+    let best = 0;
+    $('p').each((_, paragraph) => {
+      const parent = $(paragraph).parent()[0];
+      const score = $(parent).children('p').toArray().reduce((sum, child) => sum + textLength(child), 0);
+      if (parent && score > best) {
+        best = score;
+        root = parent;
+      }
+    });
+  }
+  root = root || $('body')[0];
+  const $root = $(root);
+
+  const inline = (element: any) => $(element).text().replace(/\s+/g, ' ').trim();
+
+  const table = (element: any): string => {
+    const rows = $(element).find('tr').toArray()
+      // Rows of tables nested inside a cell belong to that cell's text
+      .filter(row => $(row).closest('table')[0] === element)
+      .map(row => $(row).children('th, td').toArray().map(cell => inline(cell).replace(/\|/g, '/')))
+      .filter(cells => cells.some(Boolean));
+    if (rows.length === 0) return '';
+
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    const firstRow = $(element).find('tr').first();
+    const header = firstRow.children('th').length > 0 || firstRow.parent().is('thead');
+    return [
+      line(rows[0]),
+      ...(header ? [line(rows[0].map(() => '---'))] : []),
+      ...rows.slice(1).map(line)
+    ].join('\n');
+  };
+
+  const blocks = $root.find(ARTICLE_BLOCKS).toArray()
+    // Nested blocks (a <p> inside an <li>) are read as part of their outermost block
+    .filter(element => !$(element).parents(ARTICLE_BLOCKS).toArray().some(parent => $.contains(root, parent)))
+    .map(element => {
+      const $element = $(element);
+      if ($element.is('table')) return table(element);
+
+      const text = $element.is('pre') ? $element.text().trim() : inline(element);
+      if (!text) return '';
+
+      const level = /^h([1-6])$/i.exec(element.tagName || '');
+      if (level) return `${'#'.repeat(Number(level[1]))} ${text}`;
+      if (!$element.is('li')) return text;
+      return $element.parent().is('ol')
+        ? `${$element.parent().children('li').index(element) + 1}. ${text}`
+        : `- ${text}`;
+    })
+    .filter(Boolean);
+
+  const text = blocks.length > 0
+    ? blocks.join('\n\n')
+    : $root.text().replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+
+  return { title, text };
+};
+
+interface PdfImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * A decoded pdf.js image as a PNM file: 1-bit images as PBM, colour as PPM (alpha dropped)
+ */
+const toPnm = ({ width, height, kind, data }: PdfImage): Buffer => {
+  if (kind === 1) {
+    // pdf.js sets bits for white pixels; PBM sets them for black
+    return Buffer.concat([Buffer.from(`P4\n${width} ${height}\n`), Buffer.from(data.map(byte => ~byte & 0xff))]);
+  }
+
+  const channels = kind === 3 ? 4 : 3;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let source = 0, target = 0; target < pixels.length; source += channels, target += 3) {
+    pixels[target] = data[source];
+    pixels[target + 1] = data[source + 1];
+    pixels[target + 2] = data[source + 2];
+  }
+  return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), pixels]);
+};
+
+/**
+ * Large images painted on a page that can be handed to OCR, in paint order
+ */
+const pageImages = async (page: any): Promise<PdfImage[]> => {
+  const operators = await page.getOperatorList();
+  const images: PdfImage[] = [];
+
+  operators.fnArray.forEach((fn: number, index: number) => {
+    if (fn !== OPS_PAINT_IMAGE && fn !== OPS_PAINT_INLINE_IMAGE) return;
+    const [argument] = operators.argsArray[index];
+    const image = fn === OPS_PAINT_IMAGE ? page.objs.get(argument) : argument;
+    if (!image?.data || image.width * image.height < OCR_MIN_IMAGE_PIXELS) return;
+
+    // 1-bit, RGB and RGBA are the kinds pdf.js decodes to
+    if ([1, 2, 3].includes(image.kind)) images.push(image);
+  });
+  return images;
+};
+
+/**
+ * Text layer page by page, with pages that have little or no text read by OCR from their images
+ * 👻 Scanned PDFs are one image per page; mixed documents only OCR the scanned pages
+ */
+const extractPdf = async (buffer: Buffer): Promise<ExtractedText> => {
+  const pages: string[] = [];
+  let ocr: OcrReport | undefined;
+  // Opened at the first scanned page and shared by the rest of the document
+  let session: OcrSession | undefined;
+
+  try {
+    // The pdf.js build inside pdf-parse misreads Node Buffers; a plain copy of the bytes parses reliably
+    await pdfParse(new Uint8Array(buffer) as Buffer, {
+      version: PDFJS_VERSION,
+      pagerender: async page => {
+        const content = await page.getTextContent();
+        // Items on the same baseline join up; a new baseline starts a new line (as pdf-parse does)
+        let text = '';
+        let lastY: number | undefined;
+        for (const item of content.items) {
+          text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+          lastY = item.transform[5];
+        }
+        pages[page.pageIndex] = text;
+
+        const scanned = text.replace(/\s+/g, '').length < OCR_MIN_PAGE_CHARS;
+        const images = scanned ? await pageImages(page) : [];
+        if (images.length === 0) return text;
+
+        const engine = getOcrEngine();
+        ocr = ocr || { engine: engine.name, pages: [] };
+        if (ocr.pages.length >= OCR_MAX_PAGES) {
+          ocr.unreadPages = (ocr.unreadPages || 0) + 1;
+          return text;
+        }
+
+        // pdf-parse renders one page at a time, so reading each scan here keeps a single page's pixels in memory
+        console.log(`🔮 Reading scanned page ${page.pageIndex + 1} with ${engine.name}`);
+        session = session || await engine.open();
+        const results: OcrResult[] = [];
+        for (const image of images) {
+          results.push(await session.recognize(toPnm(image)));
+        }
+
+        pages[page.pageIndex] = results.map(result => result.text).filter(Boolean).join('\n\n');
+        ocr.pages.push({
+          page: page.pageIndex + 1,
+          confidence: Math.round(results.reduce((sum, result) => sum + result.confidence, 0) / results.length),
+        });
+        return text;
+      },
+    });
+  } finally {
+    await session?.close();
+  }
+
+  const text = Array.from(pages, page => `\n\n${page || ''}`).join('');
+  return ocr ? { text, ocr } : { text };
+};
+
+/**
+ * Chapters in reading order: container.xml names the package document, whose spine orders the manifest
+ */
+const extractEpub = async (buffer: Buffer): Promise<string> => {
+  const files = new Map(
+    readZip(buffer, name => !BINARY_MEMBER.test(name)).map(entry => [entry.name, entry.content.toString('utf-8')])
+  );
+
+  const container = files.get('META-INF/container.xml');
+  if (!container) throw new Error('EPUB is missing META-INF/container.xml');
+
+  const packagePath = cheerio.load(container, { xml: true })('rootfile').attr('full-path');
+  const packageDocument = packagePath && files.get(packagePath);
+  if (!packageDocument) throw new Error('EPUB package document not found');
+
+  const $ = cheerio.load(packageDocument, { xml: true });
+  const manifest = new Map($('manifest > item').toArray().map(item => [$(item).attr('id'), $(item).attr('href')]));
+  const baseDir = posix.dirname(packagePath);
+
+  const chapters = $('spine > itemref')
+    .toArray()
+    .filter(itemref => $(itemref).attr('linear') !== 'no')
+    .map(itemref => manifest.get($(itemref).attr('idref')))
+    .filter(Boolean)
+    .map(href => files.get(posix.normalize(posix.join(baseDir, decodeURIComponent(href.split('#')[0])))))
+    .filter(Boolean)
+    .map(chapter => extractArticle(chapter).text)
+    .filter(Boolean);
+
+  if (chapters.length === 0) throw new Error('EPUB has no readable chapters');
+  return chapters.join('\n\n');
+};
+
+/**
+ * One section per slide, headed by the slide's title placeholder
+ */
+const extractPptx = async (buffer: Buffer): Promise<string> => {
+  const slideNumber = (name: string) => Number(/slide(\d+)\.xml$/.exec(name)[1]);
+  const slides = readZip(buffer, name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a.name) - slideNumber(b.name));
+
+  if (slides.length === 0) throw new Error('Presentation has no slides');
+
+  return slides.map(slide => {
+    const $ = cheerio.load(slide.content.toString('utf-8'), { xml: true });
+    let title = '';
+    const lines: string[] = [];
+
+    $('p\\:sp').each((_, shape) => {
+      const placeholder = $(shape).find('p\\:ph').attr('type');
+      const paragraphs = $(shape).find('a\\:p').toArray()
+        .map(paragraph => $(paragraph).find('a\\:t').toArray().map(run => $(run).text()).join('').trim())
+        .filter(Boolean);
+
+      if (!title && (placeholder === 'title' || placeholder === 'ctrTitle')) {
+        title = paragraphs.join(' ');
+      } else {
+        lines.push(...paragraphs);
+      }
+    });
+
+    return [`## ${title || `Slide ${slideNumber(slide.name)}`}`, ...lines].join('\n\n');
+  }).join('\n\n');
+};
+
+export const CONTENT_EXTRACTORS: ContentExtractor[] = [
+  {
+    id: 'pdf',
+    label: 'PDF',
+    mimeTypes: ['application/pdf'],
+    extensions: ['.pdf'],
+    extract: extractPdf,
+  },
+  {
+    id: 'text',
+    label: 'Text',
+    mimeTypes: ['text/plain', 'text/markdown', 'text/x-markdown'],
+    extensions: ['.txt', '.md', '.markdown'],
+    extract: async buffer => ({ text: buffer.toString('utf-8') }),
+  },
+  {
+    id: 'docx',
+    label: 'Word',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+    // Through HTML so Word heading styles become section headings
+    extract: async buffer => ({ text: extractArticle((await mammoth.convertToHtml({ buffer })).value).text }),
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['.html', '.htm', '.xhtml'],
+    extract: async buffer => ({ text: extractArticle(buffer.toString('utf-8')).text }),
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    mimeTypes: ['application/json'],
+    extensions: ['.json'],
+    extract: async buffer => ({ text: JSON.stringify(JSON.parse(buffer.toString('utf-8')), null, 2) }),
+  },
+  {
+    id: 'epub',
+    label: 'EPUB',
+    mimeTypes: ['application/epub+zip'],
+    extensions: ['.epub'],
+    extract: async buffer => ({ text: await extractEpub(buffer) }),
+  },
+  {
+    id: 'pptx',
+    label: 'PowerPoint',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['.pptx'],
+    extract: async buffer => ({ text: await extractPptx(buffer) }),
+  },
+];
+
+/**
+ * The extractor for an uploaded file, matched on mimetype and then on extension
+ * (browsers send `application/octet-stream` or nothing for formats they do not know)
+ */
+export const findExtractor = (file: { mimetype?: string; originalname?: string }): ContentExtractor | undefined => {
+  const mimetype = (file.mimetype || '').toLowerCase();
+  const byType = CONTENT_EXTRACTORS.find(extractor => extractor.mimeTypes.includes(mimetype));
+  if (byType) return byType;
+
+  const extension = posix.extname(file.originalname || '').toLowerCase();
+  return extension ? CONTENT_EXTRACTORS.find(extractor => extractor.extensions.includes(extension)) : undefined;
+};
+
+export const uploadFormats = (): UploadFormat[] =>
+  CONTENT_EXTRACTORS.map(({ extract, ...format }) => format);
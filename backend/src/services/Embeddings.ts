@@ -0,0 +1,170 @@
+// 🎃 GhostFrame Embeddings
+// Turns passages into vectors for semantic search; the hashing embedder runs fully offline
+
+export interface Embedder {
+  /** Stored with every vector so switching embedders re-indexes instead of mixing spaces */
+  name: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had', 'her', 'was', 'one', 'our',
+  'out', 'has', 'his', 'how', 'its', 'who', 'did', 'this', 'that', 'with', 'have', 'from', 'they',
+  'will', 'been', 'were', 'said', 'each', 'which', 'their', 'there', 'what', 'when', 'into', 'than',
+  'then', 'them', 'these', 'some', 'would', 'could', 'should', 'about', 'also', 'more', 'such',
+  'does', 'is', 'it', 'of', 'in', 'on', 'to', 'a', 'an', 'as', 'at', 'be', 'by', 'or', 'if', 'so',
+]);
+
+/**
+ * Deterministic bag-of-words embedder: unigrams and bigrams are hashed into a fixed
+ * number of signed buckets, weighted by sublinear term frequency and L2-normalized.
+ * Similar wording gives similar vectors without a model or network call.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(readonly dimensions: number = 512) {
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const counts = new Map<string, number>();
+
+    const tokens = HashingEmbedder.tokenize(text);
+    tokens.forEach((token, index) => {
+      counts.set(token, (counts.get(token) || 0) + 1);
+      if (index > 0) {
+        const bigram = `${tokens[index - 1]} ${token}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+    });
+
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      // The sign bit keeps unrelated features that share a bucket from adding up
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      // Bigrams count half so shared phrasing helps without drowning out shared vocabulary
+      const weight = (1 + Math.log(count)) * (feature.includes(' ') ? 0.5 : 1);
+      vector[bucket] += sign * weight;
+    });
+
+    return normalize(vector);
+  }
+
+  private static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+      .map(stem);
+  }
+}
+
+/**
+ * Remote embeddings from any OpenAI-compatible `/embeddings` endpoint
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'text-embedding-3-small',
+    readonly dimensions: number = 1536,
+    private baseUrl: string = 'https://api.openai.com/v1'
+  ) {
+    this.name = `openai-${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as { data: { index: number; embedding: number[] }[] };
+    return body.data
+      .sort((a, b) => a.index - b.index)
+      .map(entry => normalize(entry.embedding));
+  }
+}
+
+/**
+ * Dot product of two normalized vectors; 0 when their lengths differ
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+};
+
+let activeEmbedder: Embedder | null = null;
+
+/**
+ * The embedder used for indexing and search: `EMBEDDER=openai` opts into remote
+ * embeddings when an API key is configured, otherwise everything stays local
+ */
+export const getEmbedder = (): Embedder => {
+  if (!activeEmbedder) {
+    activeEmbedder = process.env.EMBEDDER === 'openai' && process.env.OPENAI_API_KEY
+      ? new OpenAIEmbedder(
+        process.env.OPENAI_API_KEY,
+        process.env.OPENAI_EMBEDDING_MODEL,
+        undefined,
+        process.env.OPENAI_BASE_URL
+      )
+      : new HashingEmbedder();
+    console.log(`🧭 Embedder ready: ${activeEmbedder.name}`);
+  }
+  return activeEmbedder;
+};
+
+export const setEmbedder = (embedder: Embedder | null): void => {
+  activeEmbedder = embedder;
+};
+
+// 32-bit FNV-1a, stable across runs and platforms
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Light suffix stripping so "leaves", "leaf" and "cells", "cell" land together
+const stem = (token: string): string => {
+  if (token.length <= 4) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('ves')) return `${token.slice(0, -3)}f`;
+  if (token.endsWith('ing') && token.length > 6) return token.slice(0, -3);
+  if (token.endsWith('ed') && token.length > 5) return token.slice(0, -2);
+  if (token.endsWith('es') && /(ss|x|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
@@ -0,0 +1,249 @@
+// 🎃 GhostFrame Generation Cache
+// Completed AI generations keyed by what produced them, so identical requests skip the provider
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import type { AIRequest, AIResponse } from './AIGateway';
+import { getRedisClient, redisEnabled } from './Redis';
+
+export interface GenerationCacheStore {
+  readonly backend: 'memory' | 'redis';
+  get(key: string): Promise<AIResponse | null>;
+  set(key: string, response: AIResponse, ttlSeconds: number): Promise<void>;
+  /** Entry counts, when the backend can report them cheaply */
+  describe?(): { entries: number; evictions: number };
+}
+
+/** The subset of the Redis client the cache needs */
+export interface GenerationRedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+}
+
+export interface GenerationCacheOptions {
+  store?: GenerationCacheStore;
+  ttlSeconds?: number;
+  /** Defaults to a hash of the steering docs, so editing them retires earlier generations */
+  steeringVersion?: string;
+  /** Longest a read or write may take before it counts as failed */
+  timeoutMs?: number;
+}
+
+export interface GenerationCacheStats {
+  backend: 'memory' | 'redis';
+  hits: number;
+  misses: number;
+  /** Lookups skipped because the request asked for a fresh generation */
+  bypassed: number;
+  /** Hits over hits plus misses; 0 before the first lookup */
+  hitRate: number;
+  /** Reads and writes the backend failed or answered too slowly; each read counts as a miss */
+  errors: number;
+  entries?: number;
+  evictions?: number;
+  ttlSeconds: number;
+  steeringVersion: string;
+}
+
+export const DEFAULT_GENERATION_TTL_SECONDS = 60 * 60;
+export const DEFAULT_GENERATION_MAX_ENTRIES = 500;
+// A cache lookup should cost a few milliseconds, never hold up the generation it could have saved
+export const DEFAULT_GENERATION_CACHE_TIMEOUT_MS = 250;
+
+const STEERING_DIR = path.resolve(__dirname, '../../../.kiro/steering');
+
+/**
+ * Whitespace-insensitive form of a prompt: line endings, trailing spaces and runs of blank lines don't change the key
+ */
+export const normalizePrompt = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Short hash of the steering docs that guide generation; 'none' when the docs are not deployed
+ */
+export const steeringVersion = (dir: string = STEERING_DIR): string => {
+  try {
+    const hash = createHash('sha256');
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.md')).sort()) {
+      hash.update(file).update('\0').update(readFileSync(path.join(dir, file))).update('\0');
+    }
+    return hash.digest('hex').substring(0, 12);
+  } catch {
+    return 'none';
+  }
+};
+
+/**
+ * Least recently used generations in process memory, dropped once they expire
+ */
+export class MemoryGenerationStore implements GenerationCacheStore {
+  readonly backend = 'memory';
+  private entries = new Map<string, { response: AIResponse; expiresAt: number }>();
+  private evictions = 0;
+
+  constructor(private maxEntries: number = DEFAULT_GENERATION_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<AIResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    // Map order is insertion order, so re-inserting marks the entry most recently used
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  async set(key: string, response: AIResponse, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+      this.evictions++;
+    }
+  }
+
+  describe(): { entries: number; evictions: number } {
+    return { entries: this.entries.size, evictions: this.evictions };
+  }
+}
+
+/**
+ * Generations shared by every instance through Redis. Entries expire with their TTL; the size bound is
+ * the server's, so run Redis with `maxmemory-policy allkeys-lru` to keep it least recently used.
+ */
+export class RedisGenerationStore implements GenerationCacheStore {
+  readonly backend = 'redis';
+
+  constructor(private connect: () => Promise<GenerationRedisClient>) {}
+
+  async get(key: string): Promise<AIResponse | null> {
+    const client = await this.connect();
+    const raw = await client.get(`ghostframe:generation:${key}`);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async set(key: string, response: AIResponse, ttlSeconds: number): Promise<void> {
+    const client = await this.connect();
+    await client.set(`ghostframe:generation:${key}`, JSON.stringify(response), { EX: ttlSeconds });
+  }
+}
+
+export class GenerationCache {
+  readonly ttlSeconds: number;
+  readonly steeringVersion: string;
+  readonly timeoutMs: number;
+  private store: GenerationCacheStore;
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+  private errors = 0;
+
+  constructor(options: GenerationCacheOptions = {}) {
+    this.store = options.store || new MemoryGenerationStore();
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_GENERATION_TTL_SECONDS;
+    this.steeringVersion = options.steeringVersion ?? steeringVersion();
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_GENERATION_CACHE_TIMEOUT_MS;
+  }
+
+  /**
+   * Content address of a request: the normalized system and user prompts, model, temperature and steering version
+   */
+  keyFor(request: AIRequest): string {
+    const parts = [
+      normalizePrompt(request.options?.systemPrompt || ''),
+      normalizePrompt(request.prompt),
+      request.model,
+      request.options?.temperature ?? null,
+      this.steeringVersion,
+    ];
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  /**
+   * The cached response for a request, or null on a miss or when the request bypasses the cache
+   */
+  async get(request: AIRequest): Promise<AIResponse | null> {
+    if (request.options?.bypassCache) {
+      this.bypassed++;
+      return null;
+    }
+
+    let response: AIResponse | null = null;
+    try {
+      response = await this.withinTimeout(this.store.get(this.keyFor(request)));
+    } catch (error) {
+      // A cache outage should cost a provider call, never the generation
+      this.errors++;
+      console.warn('⚠️  Generation cache read failed:', error instanceof Error ? error.message : error);
+    }
+
+    if (response) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return response;
+  }
+
+  async set(request: AIRequest, response: AIResponse): Promise<void> {
+    try {
+      await this.withinTimeout(this.store.set(this.keyFor(request), response, this.ttlSeconds));
+    } catch (error) {
+      this.errors++;
+      console.warn('⚠️  Generation cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async withinTimeout<T>(work: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No answer within ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+    try {
+      return await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  stats(): GenerationCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.store.backend,
+      hits: this.hits,
+      misses: this.misses,
+      bypassed: this.bypassed,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+      errors: this.errors,
+      ...this.store.describe?.(),
+      ttlSeconds: this.ttlSeconds,
+      steeringVersion: this.steeringVersion,
+    };
+  }
+}
+
+let activeCache: GenerationCache | null = null;
+
+export const getGenerationCache = (): GenerationCache => {
+  if (!activeCache) {
+    const { ttlSeconds, maxEntries } = config.generationCache;
+    const store = redisEnabled() ? new RedisGenerationStore(getRedisClient) : new MemoryGenerationStore(maxEntries);
+    activeCache = new GenerationCache({ store, ttlSeconds });
+    console.log(`🧊 Generation cache ready (${store.backend}, steering ${activeCache.steeringVersion})`);
+  }
+  return activeCache;
+};
+
+export const setGenerationCache = (cache: GenerationCache | null): void => {
+  activeCache = cache;
+};
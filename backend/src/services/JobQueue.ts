@@ -0,0 +1,278 @@
+// 🎃 GhostFrame Job Queue
+// Long-running generations run in the background while clients poll the job for progress and the result
+
+import { getRedisClient, redisEnabled } from './Redis';
+
+export type JobType = 'quiz' | 'story' | 'module';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<T = unknown> {
+  jobId: string;
+  type: JobType;
+  status: JobStatus;
+  /** 0-100 */
+  progress: number;
+  /** What the job is doing right now, e.g. "Writing chapter 2 of 3" */
+  stage?: string;
+  /** Set once the job has completed */
+  result?: T;
+  /** Set when the job has failed */
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobContext {
+  jobId: string;
+  /** Aborted as soon as the job is cancelled */
+  signal: AbortSignal;
+  /** Record progress; rejects with JobCancelledError once the job is cancelled, so work stops at its next step */
+  progress(percent: number, stage?: string): Promise<void>;
+}
+
+export type JobWork<T> = (context: JobContext) => Promise<T>;
+
+/**
+ * Where job records live; the work itself always runs in the process that queued it
+ */
+export interface JobStore {
+  save(job: Job): Promise<void>;
+  get(jobId: string): Promise<Job | null>;
+}
+
+/** The subset of the Redis client the job store needs */
+export interface JobRedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Finished jobs stay readable this long, so clients can come back for the result
+export const JOB_TTL_SECONDS = 60 * 60;
+
+// Generations running at once; later jobs wait in the queue
+const DEFAULT_CONCURRENCY = 2;
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export const isFinished = (job: Job): boolean => FINISHED_STATUSES.includes(job.status);
+
+const cancelledRecord = <T>(job: Job<T>, finishedAt?: string): Job<T> => ({
+  ...job,
+  status: 'cancelled',
+  result: undefined,
+  error: undefined,
+  finishedAt: finishedAt || job.finishedAt || new Date().toISOString(),
+});
+
+/**
+ * Job records in process memory; finished jobs are dropped once they expire
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, { job: Job; expiresAt?: number }>();
+
+  constructor(private ttlSeconds: number = JOB_TTL_SECONDS) {}
+
+  async save(job: Job): Promise<void> {
+    this.prune();
+    this.jobs.set(job.jobId, {
+      job: { ...job },
+      expiresAt: isFinished(job) ? Date.now() + this.ttlSeconds * 1000 : undefined,
+    });
+  }
+
+  async get(jobId: string): Promise<Job | null> {
+    this.prune();
+    const entry = this.jobs.get(jobId);
+    return entry ? { ...entry.job } : null;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [jobId, entry] of this.jobs) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.jobs.delete(jobId);
+      }
+    }
+  }
+}
+
+/**
+ * Job records in Redis, so any instance behind the load balancer can report on or cancel a job.
+ * Every write refreshes the expiry, which also clears out jobs orphaned by a restart.
+ */
+export class RedisJobStore implements JobStore {
+  constructor(
+    private connect: () => Promise<JobRedisClient>,
+    private ttlSeconds: number = JOB_TTL_SECONDS
+  ) {}
+
+  async save(job: Job): Promise<void> {
+    const client = await this.connect();
+    await client.set(this.key(job.jobId), JSON.stringify(job), { EX: this.ttlSeconds });
+  }
+
+  async get(jobId: string): Promise<Job | null> {
+    const client = await this.connect();
+    const raw = await client.get(this.key(jobId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  private key(jobId: string): string {
+    return `ghostframe:job:${jobId}`;
+  }
+}
+
+/**
+ * In-process queue that runs at most `concurrency` jobs at once, oldest first
+ */
+export class JobQueue {
+  private waiting: Array<() => Promise<void>> = [];
+  private running = 0;
+  private controllers = new Map<string, AbortController>();
+
+  constructor(
+    private store: JobStore,
+    private concurrency: number = DEFAULT_CONCURRENCY
+  ) {}
+
+  async enqueue<T>(type: JobType, work: JobWork<T>): Promise<Job<T>> {
+    const job: Job<T> = {
+      jobId: `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      type,
+      status: 'queued',
+      progress: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await this.store.save(job);
+
+    const controller = new AbortController();
+    this.controllers.set(job.jobId, controller);
+    this.waiting.push(() => this.run(job, work, controller));
+    console.log(`🕯️  Job ${job.jobId} queued (${type})`);
+
+    this.drain();
+    return { ...job };
+  }
+
+  get(jobId: string): Promise<Job | null> {
+    return this.store.get(jobId);
+  }
+
+  /**
+   * Cancel a queued or running job; finished jobs are returned unchanged
+   */
+  async cancel(jobId: string): Promise<Job | null> {
+    const job = await this.store.get(jobId);
+    if (!job || isFinished(job)) {
+      return job;
+    }
+
+    const cancelled: Job = { ...job, status: 'cancelled', finishedAt: new Date().toISOString() };
+    await this.store.save(cancelled);
+    this.controllers.get(jobId)?.abort();
+    console.log(`🕯️  Job ${jobId} cancelled`);
+    return cancelled;
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const start = this.waiting.shift()!;
+      this.running++;
+      start().finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run<T>(queued: Job<T>, work: JobWork<T>, controller: AbortController): Promise<void> {
+    const { jobId } = queued;
+    let job = queued;
+
+    try {
+      // Cancelled while it waited for a slot
+      await this.throwIfCancelled(jobId, controller);
+
+      job = { ...job, status: 'running', startedAt: new Date().toISOString() };
+      await this.store.save(job);
+
+      const context: JobContext = {
+        jobId,
+        signal: controller.signal,
+        progress: async (percent, stage) => {
+          await this.throwIfCancelled(jobId, controller);
+          job = { ...job, progress: Math.min(100, Math.max(0, Math.round(percent))), stage };
+          await this.store.save(job);
+        },
+      };
+
+      const result = await work(context);
+      await this.throwIfCancelled(jobId, controller);
+
+      job = { ...job, status: 'completed', progress: 100, stage: undefined, result, finishedAt: new Date().toISOString() };
+    } catch (error) {
+      job = controller.signal.aborted
+        ? { ...job, status: 'cancelled', finishedAt: job.finishedAt || new Date().toISOString() }
+        : { ...job, status: 'failed', error: error instanceof Error ? error.message : String(error), finishedAt: new Date().toISOString() };
+
+      if (job.status === 'failed') {
+        console.error(`💀 Job ${jobId} failed:`, job.error);
+      }
+    }
+
+    // The runner writes the final record itself, so a progress update racing a cancel cannot leave the job running
+    try {
+      // A cancel that landed after the last check has already told its caller the job was cancelled
+      const stored = await this.store.get(jobId);
+      if (stored?.status === 'cancelled' || controller.signal.aborted) {
+        job = cancelledRecord(job, stored?.finishedAt);
+      }
+      await this.store.save(job);
+
+      // Cancelled in this process while the record was being written
+      if (controller.signal.aborted && job.status !== 'cancelled') {
+        await this.store.save(cancelledRecord(job));
+      }
+    } catch (error) {
+      console.error(`💀 Job ${jobId} could not be saved:`, error instanceof Error ? error.message : error);
+    } finally {
+      this.controllers.delete(jobId);
+    }
+  }
+
+  // Another instance sharing the store may have recorded the cancellation
+  private async throwIfCancelled(jobId: string, controller: AbortController): Promise<void> {
+    if (!controller.signal.aborted) {
+      const stored = await this.store.get(jobId);
+      if (!stored || stored.status === 'cancelled') {
+        controller.abort();
+      }
+    }
+    if (controller.signal.aborted) {
+      throw new JobCancelledError(jobId);
+    }
+  }
+}
+
+let activeQueue: JobQueue | null = null;
+
+export const getJobQueue = (): JobQueue => {
+  if (!activeQueue) {
+    const useRedis = redisEnabled();
+    activeQueue = new JobQueue(useRedis ? new RedisJobStore(getRedisClient) : new MemoryJobStore());
+    console.log(`🕯️  Job queue ready (${useRedis ? 'redis' : 'memory'} store)`);
+  }
+  return activeQueue;
+};
+
+export const setJobQueue = (queue: JobQueue | null): void => {
+  activeQueue = queue;
+};
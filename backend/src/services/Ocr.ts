@@ -0,0 +1,91 @@
+// 🎃 GhostFrame OCR
+// Reads scanned pages that have no text layer; tesseract runs locally with bundled English data
+
+import { createWorker, OEM } from 'tesseract.js';
+import eng from '@tesseract.js-data/eng';
+
+export interface OcrResult {
+  text: string;
+  /** 0-100, as reported by the engine */
+  confidence: number;
+}
+
+/** An engine ready to read one document's images, one at a time */
+export interface OcrSession {
+  /** Images are PNG, JPEG or PNM files */
+  recognize(image: Buffer): Promise<OcrResult>;
+  /** Release whatever the engine loaded; the session is not used again */
+  close(): Promise<void>;
+}
+
+export interface OcrEngine {
+  /** Recorded with every OCR report so results can be traced to the engine that produced them */
+  name: string;
+  /** Open a session for one document, so its pages share whatever the engine loads */
+  open(): Promise<OcrSession>;
+}
+
+export interface OcrPage {
+  /** 1-based page number within the document */
+  page: number;
+  confidence: number;
+}
+
+/** Which pages of a document were read by OCR, and how sure the engine was about each */
+export interface OcrReport {
+  engine: string;
+  pages: OcrPage[];
+  /** Scanned pages left unread because the document reached OCR_MAX_PAGES */
+  unreadPages?: number;
+}
+
+// Below this, recognized text is likely to be noticeably garbled
+export const OCR_MIN_CONFIDENCE = 60;
+// Scanned pages read per document; OCR is slow, so longer scans are read in part
+export const OCR_MAX_PAGES = 25;
+
+/**
+ * Tesseract in WebAssembly: one worker per document, stopped once its pages are read
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract-eng';
+
+  async open(): Promise<OcrSession> {
+    // Bundled language data and no cache directory, so nothing is downloaded or written to disk
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+      langPath: eng.langPath,
+      gzip: eng.gzip,
+      cacheMethod: 'none',
+    });
+
+    return {
+      recognize: async image => {
+        const { data } = await worker.recognize(image);
+        return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+      },
+      close: async () => {
+        await worker.terminate();
+      },
+    };
+  }
+}
+
+let activeEngine: OcrEngine | null = null;
+
+export const getOcrEngine = (): OcrEngine => {
+  if (!activeEngine) {
+    activeEngine = new TesseractOcrEngine();
+    console.log(`🔮 OCR engine ready: ${activeEngine.name}`);
+  }
+  return activeEngine;
+};
+
+export const setOcrEngine = (engine: OcrEngine | null): void => {
+  activeEngine = engine;
+};
+
+/**
+ * Pages whose OCR confidence is too low to trust without a second look
+ */
+export const lowConfidencePages = (report: OcrReport | undefined): OcrPage[] =>
+  (report?.pages || []).filter(page => page.confidence < OCR_MIN_CONFIDENCE);
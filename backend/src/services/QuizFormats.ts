@@ -0,0 +1,798 @@
+// 🎃 GhostFrame Quiz Formats
+// Moves quizzes in and out of learning management systems: IMS QTI 2.1, Moodle GIFT and CSV
+
+import * as cheerio from 'cheerio';
+import path from 'path';
+import { GeneratedQuiz, QuestionType, QuizDifficulty, QuizQuestion } from '../controllers/quizGenerator';
+import { createZip, readZip } from '../utils/zip';
+
+export type QuizExportFormat = 'qti' | 'gift' | 'csv' | 'json';
+
+export const QUIZ_EXPORT_FORMATS: QuizExportFormat[] = ['qti', 'gift', 'csv', 'json'];
+
+export type QuizImportFormat = 'qti' | 'gift' | 'csv';
+
+export const QUIZ_IMPORT_FORMATS: QuizImportFormat[] = ['qti', 'gift', 'csv'];
+
+export interface QuizExportFile {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface QuestionParseError {
+  /** 1-based position of the question (or CSV data row) in the source */
+  index: number;
+  message: string;
+}
+
+export interface ParsedQuestions {
+  questions: QuizQuestion[];
+  errors: QuestionParseError[];
+}
+
+export interface QtiItemFile {
+  href: string;
+  xml: string;
+}
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const QUESTION_TYPES: QuestionType[] = ['multiple-choice', 'true-false', 'short-answer'];
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Serialize a quiz into one of the supported exchange formats
+ */
+export async function exportQuiz(quiz: GeneratedQuiz, format: QuizExportFormat): Promise<QuizExportFile> {
+  const basename = slugify(quiz.metadata.title) || quiz.metadata.quizId;
+
+  switch (format) {
+    case 'qti':
+      return { filename: `${basename}-qti.zip`, contentType: 'application/zip', content: await toQtiPackage(quiz) };
+    case 'gift':
+      return { filename: `${basename}.gift.txt`, contentType: 'text/plain; charset=utf-8', content: toGift(quiz) };
+    case 'csv':
+      return { filename: `${basename}.csv`, contentType: 'text/csv; charset=utf-8', content: toCsv(quiz) };
+    case 'json':
+      return { filename: `${basename}.json`, contentType: 'application/json; charset=utf-8', content: JSON.stringify(quiz, null, 2) };
+  }
+}
+
+/**
+ * Parse questions from any supported import format
+ */
+export function parseQuizQuestions(
+  content: string,
+  format: QuizImportFormat,
+  difficulty: QuizDifficulty = 'medium'
+): ParsedQuestions {
+  switch (format) {
+    case 'qti':
+      return parseQti(content, difficulty);
+    case 'gift':
+      return parseGift(content, difficulty);
+    case 'csv':
+      return parseCsv(content, difficulty);
+  }
+}
+
+/**
+ * Guess the format from the file extension, then from the content itself
+ */
+export function detectQuizFormat(content: string, filename?: string): QuizImportFormat {
+  const extension = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension === 'xml' || extension === 'qti') return 'qti';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift') return 'gift';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('<')) return 'qti';
+
+  const firstLine = trimmed.split(/\r?\n/)[0].toLowerCase();
+  if (firstLine.includes(',') && firstLine.includes('question') && !firstLine.includes('{')) return 'csv';
+
+  return 'gift';
+}
+
+// ---------------------------------------------------------------------------
+// IMS QTI 2.1
+// ---------------------------------------------------------------------------
+
+/**
+ * One assessmentItem document per question
+ */
+export function toQtiItems(quiz: GeneratedQuiz): QtiItemFile[] {
+  return quiz.questions.map((question, index) => ({
+    href: `items/${qtiIdentifier(question.id, index)}.xml`,
+    xml: toQtiItem(question, index)
+  }));
+}
+
+/**
+ * IMS content package: manifest, an assessmentTest and the item files
+ */
+export async function toQtiPackage(quiz: GeneratedQuiz): Promise<Buffer> {
+  const items = toQtiItems(quiz);
+  const testId = qtiIdentifier(quiz.metadata.quizId, 0);
+
+  const test = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}" identifier="${testId}" title="${escapeXml(quiz.metadata.title)}">
+  <testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="section1" title="${escapeXml(quiz.metadata.title)}" visible="true">
+${items.map((item, index) => `      <assessmentItemRef identifier="${qtiIdentifier(quiz.questions[index].id, index)}" href="../${item.href}"/>`).join('\n')}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>
+`;
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST-${testId}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="RES-${testId}" type="imsqti_test_xmlv2p1" href="tests/${testId}.xml">
+      <file href="tests/${testId}.xml"/>
+${items.map((_, index) => `      <dependency identifierref="RES-${qtiIdentifier(quiz.questions[index].id, index)}"/>`).join('\n')}
+    </resource>
+${items.map((item, index) => `    <resource identifier="RES-${qtiIdentifier(quiz.questions[index].id, index)}" type="imsqti_item_xmlv2p1" href="${item.href}">
+      <file href="${item.href}"/>
+    </resource>`).join('\n')}
+  </resources>
+</manifest>
+`;
+
+  return createZip([
+    { name: 'imsmanifest.xml', content: manifest },
+    { name: `tests/${testId}.xml`, content: test },
+    ...items.map(item => ({ name: item.href, content: item.xml }))
+  ]);
+}
+
+function toQtiItem(question: QuizQuestion, index: number): string {
+  const identifier = qtiIdentifier(question.id, index);
+  const isText = question.type === 'short-answer';
+  const correct = isText ? question.correctAnswer : qtiChoiceIdentifier(question);
+
+  const body = isText
+    ? `    <p>${escapeXml(question.question)}</p>
+    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="3"/>`
+    : `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${escapeXml(question.question)}</prompt>
+${qtiChoices(question).map(choice => `      <simpleChoice identifier="${choice.identifier}">${escapeXml(choice.text)}</simpleChoice>`).join('\n')}
+    </choiceInteraction>`;
+
+  // Text answers are compared case-insensitively; choices by identifier
+  const condition = isText
+    ? `<stringMatch caseSensitive="false"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></stringMatch>`
+    : `<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}" identifier="${identifier}" title="${escapeXml(truncate(question.question, 80))}" label="${question.difficulty}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="${isText ? 'string' : 'identifier'}">
+    <correctResponse>
+      <value>${escapeXml(correct || '')}</value>
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue>
+      <value>0</value>
+    </defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue>
+      <value>${question.points}</value>
+    </defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+${body}
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        ${condition}
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">${question.points}</baseValue>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK">
+      <baseValue baseType="identifier">EXPLANATION</baseValue>
+    </setOutcomeValue>
+  </responseProcessing>
+  <modalFeedback outcomeIdentifier="FEEDBACK" showHide="show" identifier="EXPLANATION">${escapeXml(question.explanation)}</modalFeedback>
+</assessmentItem>
+`;
+}
+
+function qtiChoices(question: QuizQuestion): Array<{ identifier: string; text: string }> {
+  if (question.type === 'true-false') {
+    return [
+      { identifier: 'TRUE', text: 'True' },
+      { identifier: 'FALSE', text: 'False' }
+    ];
+  }
+  return optionTexts(question).map((text, index) => ({ identifier: OPTION_LETTERS[index], text }));
+}
+
+function qtiChoiceIdentifier(question: QuizQuestion): string | null {
+  if (question.type === 'true-false') {
+    const value = parseBoolean(question.correctAnswer);
+    return value === null ? null : value ? 'TRUE' : 'FALSE';
+  }
+  const index = correctOptionIndex(question);
+  return index >= 0 ? OPTION_LETTERS[index] : null;
+}
+
+/**
+ * Read every assessmentItem in an XML document (or several concatenated item files)
+ */
+export function parseQti(xml: string, difficulty: QuizDifficulty = 'medium'): ParsedQuestions {
+  const documents = xml.split(/(?=<\?xml)/).filter(part => part.trim());
+  const questions: QuizQuestion[] = [];
+  const errors: QuestionParseError[] = [];
+  let position = 0;
+
+  for (const document of documents) {
+    const $ = cheerio.load(document, { xml: true });
+
+    $('assessmentItem').each((_, element) => {
+      position++;
+      const item = $(element);
+      const identifier = item.attr('identifier') || `q${position}`;
+      const correct = item.find('responseDeclaration correctResponse value').first().text().trim();
+      const explanation = item.find('modalFeedback').first().text().trim();
+      const points = Number(item.find('responseIf setOutcomeValue baseValue').first().text()) ||
+        Number(item.find('outcomeDeclaration[identifier="MAXSCORE"] defaultValue value').first().text()) ||
+        defaultPoints(difficulty);
+      const itemDifficulty = DIFFICULTIES.includes(item.attr('label') as QuizDifficulty)
+        ? item.attr('label') as QuizDifficulty
+        : difficulty;
+
+      const choiceInteraction = item.find('choiceInteraction').first();
+      const textInteraction = item.find('extendedTextInteraction, textEntryInteraction').first();
+
+      if (choiceInteraction.length > 0) {
+        const prompt = choiceInteraction.find('prompt').first().text().trim() ||
+          item.find('itemBody p').first().text().trim();
+        const choices = choiceInteraction.find('simpleChoice').toArray().map(choice => ({
+          identifier: $(choice).attr('identifier') || '',
+          text: $(choice).text().trim()
+        }));
+        const correctIndex = choices.findIndex(choice => choice.identifier === correct);
+
+        if (!prompt || choices.length < 2) {
+          errors.push({ index: position, message: `Item ${identifier} needs a prompt and at least two choices` });
+          return;
+        }
+        if (correctIndex < 0) {
+          errors.push({ index: position, message: `Item ${identifier} has no correct response matching its choices` });
+          return;
+        }
+
+        const isTrueFalse = choices.length === 2 &&
+          choices.every(choice => parseBoolean(choice.text) !== null);
+
+        questions.push(isTrueFalse
+          ? buildQuestion(identifier, 'true-false', prompt, undefined, parseBoolean(choices[correctIndex].text) ? 'True' : 'False', explanation, points, itemDifficulty)
+          : buildQuestion(identifier, 'multiple-choice', prompt, choices.map(choice => choice.text), OPTION_LETTERS[correctIndex], explanation, points, itemDifficulty));
+        return;
+      }
+
+      if (textInteraction.length > 0) {
+        const prompt = item.find('itemBody').first().clone().children('extendedTextInteraction, textEntryInteraction').remove().end().text().trim();
+        if (!prompt || !correct) {
+          errors.push({ index: position, message: `Item ${identifier} needs a prompt and a correct response` });
+          return;
+        }
+        questions.push(buildQuestion(identifier, 'short-answer', prompt, undefined, correct, explanation, points, itemDifficulty));
+        return;
+      }
+
+      errors.push({ index: position, message: `Item ${identifier} uses an unsupported interaction type` });
+    });
+  }
+
+  if (position === 0) {
+    errors.push({ index: 0, message: 'No QTI assessmentItem elements found' });
+  }
+
+  return { questions, errors };
+}
+
+/**
+ * The item documents of a zipped IMS content package, in the order its manifest lists them,
+ * ready for `parseQti`
+ */
+export function readQtiPackage(zip: Buffer): string {
+  const files = new Map(
+    readZip(zip, name => /\.xml$/i.test(name)).map(entry => [entry.name, entry.content.toString('utf-8')])
+  );
+  const manifestName = [...files.keys()].find(name => /(^|\/)imsmanifest\.xml$/i.test(name));
+  if (!manifestName) {
+    throw new Error('The package has no imsmanifest.xml');
+  }
+
+  // Resource hrefs are relative to the manifest's folder
+  const base = path.posix.dirname(manifestName);
+  const $ = cheerio.load(files.get(manifestName)!, { xml: true });
+  const hrefs = $('resource')
+    .toArray()
+    .filter(resource => ($(resource).attr('type') || '').startsWith('imsqti_item'))
+    .map(resource => $(resource).attr('href') || '')
+    .filter(Boolean);
+
+  if (hrefs.length === 0) {
+    throw new Error('The manifest lists no QTI items');
+  }
+
+  return hrefs.map(href => {
+    const xml = files.get(path.posix.join(base, decodeURI(href)));
+    if (xml === undefined) {
+      throw new Error(`Item ${href} is listed in the manifest but missing from the package`);
+    }
+    return xml;
+  }).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Moodle GIFT
+// ---------------------------------------------------------------------------
+
+/**
+ * Moodle GIFT text; points and difficulty ride along in comments Moodle ignores
+ */
+export function toGift(quiz: GeneratedQuiz): string {
+  const blocks = quiz.questions.map(question => {
+    const lines = [
+      `// points: ${question.points}`,
+      `// difficulty: ${question.difficulty}`
+    ];
+    const feedback = question.explanation ? `####${escapeGift(question.explanation)}` : '';
+    const stem = `::${escapeGift(question.id)}::${escapeGift(question.question)}`;
+
+    if (question.type === 'true-false') {
+      lines.push(`${stem} {${parseBoolean(question.correctAnswer) ? 'TRUE' : 'FALSE'}${feedback}}`);
+    } else if (question.type === 'multiple-choice') {
+      const correctIndex = correctOptionIndex(question);
+      lines.push(`${stem} {`);
+      optionTexts(question).forEach((text, index) => {
+        lines.push(`  ${index === correctIndex ? '=' : '~'}${escapeGift(text)}`);
+      });
+      if (feedback) lines.push(`  ${feedback}`);
+      lines.push('}');
+    } else {
+      lines.push(`${stem} {=${escapeGift(question.correctAnswer)}${feedback}}`);
+    }
+
+    return lines.join('\n');
+  });
+
+  return `// ${quiz.metadata.title}\n// Exported from GhostFrame Quiz Ghost\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Parse GIFT text; each blank-line separated question is parsed independently
+ */
+export function parseGift(text: string, difficulty: QuizDifficulty = 'medium'): ParsedQuestions {
+  const questions: QuizQuestion[] = [];
+  const errors: QuestionParseError[] = [];
+  let position = 0;
+
+  for (const block of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const meta: Record<string, string> = {};
+    const body = block
+      .split('\n')
+      .filter(line => {
+        const comment = line.trim().match(/^\/\/\s*(.*)$/);
+        if (!comment) return !line.trim().startsWith('$CATEGORY:');
+        const entry = comment[1].match(/^(points|difficulty):\s*(\S+)/i);
+        if (entry) meta[entry[1].toLowerCase()] = entry[2];
+        return false;
+      })
+      .join('\n')
+      .trim();
+
+    if (!body) continue;
+    position++;
+
+    const parsed = parseGiftQuestion(body, position);
+    if (typeof parsed === 'string') {
+      errors.push({ index: position, message: parsed });
+      continue;
+    }
+
+    const questionDifficulty = DIFFICULTIES.includes(meta.difficulty as QuizDifficulty)
+      ? meta.difficulty as QuizDifficulty
+      : difficulty;
+    const points = Number(meta.points) > 0 ? Number(meta.points) : defaultPoints(questionDifficulty);
+
+    questions.push(buildQuestion(
+      parsed.id, parsed.type, parsed.question, parsed.options, parsed.correctAnswer,
+      parsed.explanation, points, questionDifficulty
+    ));
+  }
+
+  if (position === 0) {
+    errors.push({ index: 0, message: 'No GIFT questions found' });
+  }
+
+  return { questions, errors };
+}
+
+interface GiftQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation: string;
+}
+
+function parseGiftQuestion(body: string, position: number): GiftQuestion | string {
+  let rest = body;
+  let id = `q${position}`;
+
+  const title = rest.match(/^::((?:\\.|[^\\])*?)::/);
+  if (title) {
+    id = unescapeGift(title[1]).trim() || id;
+    rest = rest.slice(title[0].length);
+  }
+  rest = rest.replace(/^\[(html|moodle|plain|markdown)\]/i, '');
+
+  const open = findUnescaped(rest, '{');
+  const close = open >= 0 ? findUnescaped(rest, '}', open + 1) : -1;
+  if (open < 0 || close < 0) {
+    return 'Missing {answer} block';
+  }
+
+  const question = unescapeGift(`${rest.slice(0, open)} ${rest.slice(close + 1)}`).replace(/\s+/g, ' ').trim();
+  if (!question) {
+    return 'Question text is empty';
+  }
+
+  const [answerText, ...feedbackParts] = splitUnescaped(rest.slice(open + 1, close), '####');
+  const explanation = unescapeGift(feedbackParts.join('####')).trim();
+  const answers = answerText.trim();
+
+  const booleanAnswer = answers.match(/^(TRUE|T|FALSE|F)\b/i);
+  if (booleanAnswer && !/^[=~]/.test(answers)) {
+    return { id, type: 'true-false', question, correctAnswer: /^T/i.test(booleanAnswer[1]) ? 'True' : 'False', explanation };
+  }
+
+  if (answers.includes('->')) {
+    return 'Matching questions are not supported';
+  }
+
+  const choices = splitGiftAnswers(answers);
+  if (choices.length === 0) {
+    return 'Essay questions without an answer are not supported';
+  }
+
+  const correct = choices.filter(choice => choice.correct);
+  const wrong = choices.filter(choice => !choice.correct);
+
+  if (wrong.length === 0) {
+    return { id, type: 'short-answer', question, correctAnswer: correct[0].text, explanation };
+  }
+  if (correct.length !== 1) {
+    return `Multiple-choice questions need exactly one correct (=) answer, found ${correct.length}`;
+  }
+  if (choices.length > OPTION_LETTERS.length) {
+    return `At most ${OPTION_LETTERS.length} options are supported`;
+  }
+
+  return {
+    id,
+    type: 'multiple-choice',
+    question,
+    options: choices.map(choice => choice.text),
+    correctAnswer: OPTION_LETTERS[choices.findIndex(choice => choice.correct)],
+    explanation
+  };
+}
+
+function splitGiftAnswers(answers: string): Array<{ correct: boolean; text: string }> {
+  const choices: Array<{ correct: boolean; text: string }> = [];
+  let current: { correct: boolean; raw: string } | null = null;
+
+  for (let i = 0; i < answers.length; i++) {
+    const char = answers[i];
+    if (char === '\\' && i + 1 < answers.length) {
+      if (current) current.raw += char + answers[i + 1];
+      i++;
+    } else if (char === '=' || char === '~') {
+      if (current) choices.push(finishGiftAnswer(current));
+      current = { correct: char === '=', raw: '' };
+    } else if (current) {
+      current.raw += char;
+    }
+  }
+  if (current) choices.push(finishGiftAnswer(current));
+
+  return choices.filter(choice => choice.text);
+}
+
+function finishGiftAnswer(answer: { correct: boolean; raw: string }): { correct: boolean; text: string } {
+  // Drop per-answer feedback (#...) and percentage weights (%50%)
+  const [text] = splitUnescaped(answer.raw, '#');
+  return { correct: answer.correct, text: unescapeGift(text.replace(/^%-?\d+(\.\d+)?%/, '')).trim() };
+}
+
+function escapeGift(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_, char) => (char === 'n' ? '\n' : char));
+}
+
+function findUnescaped(text: string, char: string, from: number = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+      i = start - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const CSV_COLUMNS = ['id', 'type', 'question', 'correct_answer', 'explanation', 'points', 'difficulty'];
+
+/**
+ * One row per question with an option_a, option_b, ... column per choice
+ */
+export function toCsv(quiz: GeneratedQuiz): string {
+  const optionCount = Math.max(4, ...quiz.questions.map(question => optionTexts(question).length));
+  const optionColumns = OPTION_LETTERS.slice(0, optionCount).map(letter => `option_${letter.toLowerCase()}`);
+
+  const rows = quiz.questions.map(question => {
+    const options = question.type === 'multiple-choice' ? optionTexts(question) : [];
+    const correctAnswer = question.type === 'multiple-choice'
+      ? OPTION_LETTERS[correctOptionIndex(question)] || question.correctAnswer
+      : question.type === 'true-false'
+        ? (parseBoolean(question.correctAnswer) ? 'True' : 'False')
+        : question.correctAnswer;
+
+    return [
+      question.id,
+      question.type,
+      question.question,
+      ...optionColumns.map((_, index) => options[index] || ''),
+      correctAnswer,
+      question.explanation,
+      String(question.points),
+      question.difficulty
+    ];
+  });
+
+  const header = [...CSV_COLUMNS.slice(0, 3), ...optionColumns, ...CSV_COLUMNS.slice(3)];
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV with a header row; columns may appear in any order
+ */
+export function parseCsv(text: string, difficulty: QuizDifficulty = 'medium'): ParsedQuestions {
+  const [header, ...rows] = readCsvRows(text).filter(row => row.some(cell => cell.trim()));
+  const questions: QuizQuestion[] = [];
+  const errors: QuestionParseError[] = [];
+
+  if (!header) {
+    return { questions, errors: [{ index: 0, message: 'CSV is empty' }] };
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const column = (name: string) => columns.indexOf(name);
+  const missing = ['question', 'correct_answer'].filter(name => column(name) < 0);
+  if (missing.length > 0) {
+    return { questions, errors: [{ index: 0, message: `CSV header is missing: ${missing.join(', ')}` }] };
+  }
+
+  const optionIndexes = columns
+    .map((name, index) => ({ name, index }))
+    .filter(entry => /^option_[a-f]$/.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(entry => entry.index);
+
+  rows.forEach((row, rowIndex) => {
+    const position = rowIndex + 1;
+    const cell = (name: string) => (column(name) >= 0 ? (row[column(name)] || '').trim() : '');
+
+    const question = cell('question');
+    const answer = cell('correct_answer');
+    const options = optionIndexes.map(index => (row[index] || '').trim()).filter(Boolean);
+    const type = (cell('type') || (options.length > 0 ? 'multiple-choice' : 'short-answer')) as QuestionType;
+    const rowDifficulty = DIFFICULTIES.includes(cell('difficulty') as QuizDifficulty)
+      ? cell('difficulty') as QuizDifficulty
+      : difficulty;
+    const points = Number(cell('points')) > 0 ? Number(cell('points')) : defaultPoints(rowDifficulty);
+    const id = cell('id') || `q${position}`;
+
+    if (!QUESTION_TYPES.includes(type)) {
+      errors.push({ index: position, message: `Unknown question type "${type}"` });
+      return;
+    }
+    if (!question || !answer) {
+      errors.push({ index: position, message: 'question and correct_answer are required' });
+      return;
+    }
+
+    if (type === 'multiple-choice') {
+      if (options.length < 2) {
+        errors.push({ index: position, message: 'Multiple-choice rows need at least two options' });
+        return;
+      }
+      const letterIndex = OPTION_LETTERS.indexOf(answer.toUpperCase());
+      const correctIndex = letterIndex >= 0 && letterIndex < options.length
+        ? letterIndex
+        : options.findIndex(option => option.toLowerCase() === answer.toLowerCase());
+      if (correctIndex < 0) {
+        errors.push({ index: position, message: `correct_answer "${answer}" does not match any option` });
+        return;
+      }
+      questions.push(buildQuestion(id, type, question, options, OPTION_LETTERS[correctIndex], cell('explanation'), points, rowDifficulty));
+      return;
+    }
+
+    if (type === 'true-false') {
+      const value = parseBoolean(answer);
+      if (value === null) {
+        errors.push({ index: position, message: `correct_answer "${answer}" must be True or False` });
+        return;
+      }
+      questions.push(buildQuestion(id, type, question, undefined, value ? 'True' : 'False', cell('explanation'), points, rowDifficulty));
+      return;
+    }
+
+    questions.push(buildQuestion(id, type, question, undefined, answer, cell('explanation'), points, rowDifficulty));
+  });
+
+  return { questions, errors };
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+function readCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function buildQuestion(
+  id: string,
+  type: QuestionType,
+  question: string,
+  options: string[] | undefined,
+  correctAnswer: string,
+  explanation: string,
+  points: number,
+  difficulty: QuizDifficulty
+): QuizQuestion {
+  return {
+    id,
+    type,
+    question,
+    options: options?.map((option, index) => `${OPTION_LETTERS[index]}) ${option}`),
+    correctAnswer,
+    explanation: explanation || 'No explanation provided.',
+    points,
+    difficulty
+  };
+}
+
+// Option text without the "A) " prefix the generator adds
+function optionTexts(question: QuizQuestion): string[] {
+  return (question.options || []).map(option => option.replace(/^[A-F][).:]\s*/i, ''));
+}
+
+function correctOptionIndex(question: QuizQuestion): number {
+  const answer = question.correctAnswer.trim();
+  const letter = answer.match(/^([A-F])(\)|\.|:|$)/i)?.[1];
+  if (letter) {
+    return OPTION_LETTERS.indexOf(letter.toUpperCase());
+  }
+  return optionTexts(question).findIndex(text => text.toLowerCase() === answer.toLowerCase());
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 't'].includes(normalized)) return true;
+  if (['false', 'f'].includes(normalized)) return false;
+  return null;
+}
+
+function defaultPoints(difficulty: QuizDifficulty): number {
+  return difficulty === 'easy' ? 1 : difficulty === 'medium' ? 2 : 3;
+}
+
+// QTI identifiers must start with a letter or underscore
+function qtiIdentifier(id: string, index: number): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `item_${cleaned || index + 1}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 3)}...` : text;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60);
+}
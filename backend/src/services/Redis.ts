@@ -0,0 +1,48 @@
+// 🎃 GhostFrame Redis Connection
+// One shared client for the optional Redis-backed stores, opened on first use
+
+import { createClient } from 'redis';
+import { config } from '../config/env';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+// How long one connection attempt may take, and how often to retry before giving up until the next use
+const CONNECT_TIMEOUT_MS = 2000;
+const MAX_RECONNECTS = 5;
+
+let connecting: Promise<RedisClient> | null = null;
+
+/**
+ * Whether REDIS_ENABLED is set and there is a REDIS_URL to connect to
+ */
+export const redisEnabled = (): boolean => config.redis.enabled && !!config.redis.url;
+
+export const getRedisClient = (): Promise<RedisClient> => {
+  if (!connecting) {
+    const client = createClient({
+      url: config.redis.url,
+      socket: {
+        connectTimeout: CONNECT_TIMEOUT_MS,
+        reconnectStrategy: retries =>
+          retries >= MAX_RECONNECTS ? new Error(`Redis unreachable after ${retries} retries`) : Math.min(100 * 2 ** retries, 2000),
+      },
+      // Commands fail at once while disconnected instead of queueing until Redis returns
+      disableOfflineQueue: true,
+    });
+    // Without a listener a dropped connection would crash the process; the client reconnects by itself
+    client.on('error', error => console.error('💀 Redis client error:', error.message));
+    // Once the client gives up it is closed for good, so the next use connects afresh
+    client.on('end', () => {
+      connecting = null;
+    });
+
+    connecting = client.connect().then(() => {
+      console.log('🔴 Redis connected');
+      return client;
+    });
+    connecting.catch(() => {
+      connecting = null;
+    });
+  }
+  return connecting;
+};
@@ -0,0 +1,104 @@
+// 🎃 GhostFrame Spaced Repetition
+// SM-2 scheduling: each review grade moves a card's next due date and ease factor
+
+/** 0 = complete blackout ... 5 = perfect recall; 3 or more counts as remembered */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewRecord {
+  grade: ReviewGrade;
+  reviewedAt: Date;
+  interval: number;
+  easeFactor: number;
+}
+
+export interface CardSchedule {
+  deckId: string;
+  cardId: string;
+  easeFactor: number;
+  /** Days until the card is due again */
+  interval: number;
+  /** Consecutive successful reviews */
+  repetitions: number;
+  dueAt: Date;
+  createdAt: Date;
+  lastReviewedAt?: Date;
+  history: ReviewRecord[];
+}
+
+export type Clock = () => Date;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MINIMUM_EASE_FACTOR = 1.3;
+const PASSING_GRADE = 3;
+
+export const isReviewGrade = (value: unknown): value is ReviewGrade =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 5;
+
+export class SpacedRepetitionScheduler {
+  constructor(private clock: Clock = () => new Date()) {}
+
+  /**
+   * Schedule for a card that has never been reviewed (due immediately)
+   */
+  createSchedule(deckId: string, cardId: string): CardSchedule {
+    const now = this.clock();
+    return {
+      deckId,
+      cardId,
+      easeFactor: INITIAL_EASE_FACTOR,
+      interval: 0,
+      repetitions: 0,
+      dueAt: now,
+      createdAt: now,
+      history: []
+    };
+  }
+
+  /**
+   * Apply one review grade and compute the next interval, ease factor and due date
+   */
+  review(schedule: CardSchedule, grade: ReviewGrade): CardSchedule {
+    if (!isReviewGrade(grade)) {
+      throw new Error(`Review grade must be an integer from 0 to 5, got ${grade}`);
+    }
+
+    const now = this.clock();
+    let { repetitions, interval } = schedule;
+
+    if (grade >= PASSING_GRADE) {
+      if (repetitions === 0) {
+        interval = 1;
+      } else if (repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.round(interval * schedule.easeFactor);
+      }
+      repetitions += 1;
+    } else {
+      // Forgotten cards start over but keep their (reduced) ease factor
+      repetitions = 0;
+      interval = 1;
+    }
+
+    const easeFactor = Math.max(
+      MINIMUM_EASE_FACTOR,
+      schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+    );
+    const roundedEase = Math.round(easeFactor * 100) / 100;
+
+    return {
+      ...schedule,
+      easeFactor: roundedEase,
+      interval,
+      repetitions,
+      dueAt: new Date(now.getTime() + interval * DAY_MS),
+      lastReviewedAt: now,
+      history: [...schedule.history, { grade, reviewedAt: now, interval, easeFactor: roundedEase }]
+    };
+  }
+
+  isDue(schedule: CardSchedule): boolean {
+    return schedule.dueAt.getTime() <= this.clock().getTime();
+  }
+}
@@ -0,0 +1,336 @@
+// 🎃 GhostFrame Story Export
+// Takes stories out of the app: EPUB 3 packages, print-ready HTML and Markdown
+
+import { GeneratedStory } from '../controllers/storyGenerator';
+import { createZip } from '../utils/zip';
+
+export type StoryExportFormat = 'epub' | 'html' | 'md';
+
+export const STORY_EXPORT_FORMATS: StoryExportFormat[] = ['epub', 'html', 'md'];
+
+export interface StoryExportFile {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface ExportChapter {
+  title: string;
+  paragraphs: string[];
+}
+
+// Markdown headings ("## The Cave") or chapter lines ("Chapter 2: The Cave", "**Chapter 2**")
+const HEADING_PATTERN = /^(?:#{1,3}\s+(.+?)\s*#*|\**((?:chapter|part)\s+(?:\d+|[ivxlc]+|one|two|three|four|five|six|seven|eight|nine|ten)\b(?:\s*[:.\u2013\u2014-]\s*.*?)?)\**)$/i;
+
+/**
+ * Serialize a story into one of the supported export formats
+ */
+export async function exportStory(story: GeneratedStory, format: StoryExportFormat): Promise<StoryExportFile> {
+  const basename = slugify(story.metadata.title) || story.metadata.storyId;
+
+  switch (format) {
+    case 'epub':
+      return { filename: `${basename}.epub`, contentType: 'application/epub+zip', content: await toEpub(story) };
+    case 'html':
+      return { filename: `${basename}.html`, contentType: 'text/html; charset=utf-8', content: toHtml(story) };
+    case 'md':
+      return { filename: `${basename}.md`, contentType: 'text/markdown; charset=utf-8', content: toMarkdown(story) };
+  }
+}
+
+/**
+ * Use the generated chapters, or split older stories' text at its headings;
+ * untitled stories become one chapter
+ */
+export function storyChapters(story: GeneratedStory): ExportChapter[] {
+  if (story.chapters && story.chapters.length > 0) {
+    return story.chapters.map(chapter => ({
+      title: chapter.title,
+      paragraphs: splitParagraphs(chapter.content)
+    }));
+  }
+
+  const chapters: ExportChapter[] = [];
+  let current: ExportChapter = { title: story.metadata.title, paragraphs: [] };
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      current.paragraphs.push(paragraph.join('\n'));
+      paragraph = [];
+    }
+  };
+
+  for (const line of story.content.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = line.trim().match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      const title = (heading[1] || heading[2]).trim();
+      // A leading heading that repeats the story title is not a chapter
+      const repeatsTitle = chapters.length === 0 && current.paragraphs.length === 0 &&
+        title.toLowerCase() === story.metadata.title.toLowerCase();
+      if (!repeatsTitle) {
+        if (current.paragraphs.length > 0) {
+          chapters.push(current);
+        }
+        current = { title, paragraphs: [] };
+      }
+      continue;
+    }
+
+    if (line.trim()) {
+      paragraph.push(line.trim());
+    } else {
+      flushParagraph();
+    }
+  }
+
+  flushParagraph();
+  if (current.paragraphs.length > 0 || chapters.length === 0) {
+    chapters.push(current);
+  }
+
+  return chapters;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).filter(Boolean).join('\n'))
+    .filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+export function toMarkdown(story: GeneratedStory): string {
+  const chapters = storyChapters(story);
+  const singleChapter = chapters.length === 1;
+  const lines = [`# ${story.metadata.title}`, '', `*${describeStory(story)}*`, ''];
+
+  if (story.summary) {
+    lines.push(`> ${story.summary.replace(/\n+/g, ' ')}`, '');
+  }
+
+  for (const chapter of chapters) {
+    if (!singleChapter) {
+      lines.push(`## ${chapter.title}`, '');
+    }
+    chapter.paragraphs.forEach(paragraph => lines.push(paragraph, ''));
+  }
+
+  if (story.moralOrLesson) {
+    lines.push('---', '', `**Lesson:** ${story.moralOrLesson}`, '');
+  }
+
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Print-ready HTML
+// ---------------------------------------------------------------------------
+
+const PRINT_STYLES = `
+  @page { size: A5; margin: 2cm 1.8cm; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; line-height: 1.6; color: #111; max-width: 38em; margin: 2em auto; padding: 0 1em; }
+  .cover { text-align: center; padding-top: 25vh; break-after: page; page-break-after: always; }
+  .cover h1 { font-size: 2.4em; margin-bottom: 0.4em; }
+  .cover .details { font-style: italic; color: #555; }
+  .cover .summary { margin-top: 2em; text-align: left; }
+  section.chapter { break-before: page; page-break-before: always; }
+  section.chapter h2 { text-align: center; margin: 2em 0 1.5em; }
+  p { text-indent: 1.5em; margin: 0 0 0.4em; orphans: 2; widows: 2; }
+  h2 + p { text-indent: 0; }
+  .lesson { break-before: page; page-break-before: always; text-align: center; font-style: italic; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+export function toHtml(story: GeneratedStory): string {
+  const chapters = storyChapters(story);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(story.metadata.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${coverMarkup(story)}
+${chapters.map(chapter => `<section class="chapter">
+<h2>${escapeXml(chapter.title)}</h2>
+${paragraphsMarkup(chapter.paragraphs)}
+</section>`).join('\n')}
+${story.moralOrLesson ? `<section class="lesson">
+<h2>The Lesson</h2>
+<p>${inlineMarkup(story.moralOrLesson)}</p>
+</section>` : ''}
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// EPUB 3
+// ---------------------------------------------------------------------------
+
+const EPUB_STYLES = `
+body { font-family: Georgia, serif; line-height: 1.5; margin: 0 5%; }
+h1, h2 { text-align: center; }
+.cover { text-align: center; margin-top: 30%; }
+.cover .details { font-style: italic; }
+p { text-indent: 1.5em; margin: 0; }
+h2 + p { text-indent: 0; }
+.lesson { text-align: center; font-style: italic; }
+`;
+
+/**
+ * EPUB 3 package: uncompressed mimetype first, container, OPF package, navigation, cover and chapters
+ */
+export async function toEpub(story: GeneratedStory): Promise<Buffer> {
+  const chapters = storyChapters(story);
+  const chapterFiles = chapters.map((chapter, index) => ({
+    id: `chapter-${index + 1}`,
+    href: `chapter-${index + 1}.xhtml`,
+    chapter
+  }));
+  const pages = [
+    { id: 'cover', href: 'cover.xhtml', title: 'Cover' },
+    ...chapterFiles.map(file => ({ id: file.id, href: file.href, title: file.chapter.title })),
+    ...(story.moralOrLesson ? [{ id: 'lesson', href: 'lesson.xhtml', title: 'The Lesson' }] : [])
+  ];
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+  const { metadata } = story;
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:ghostframe:story:${escapeXml(metadata.storyId)}</dc:identifier>
+    <dc:title>${escapeXml(metadata.title)}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:creator>GhostFrame Story Spirit</dc:creator>
+    <dc:subject>${escapeXml(metadata.theme)}</dc:subject>
+    <dc:description>${escapeXml(story.summary || '')}</dc:description>
+    <dc:date>${epubDate(metadata.createdAt)}</dc:date>
+    <meta property="dcterms:modified">${epubDate(metadata.createdAt)}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="styles" href="styles.css" media-type="text/css"/>
+${pages.map(page => `    <item id="${page.id}" href="${page.href}" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine>
+${pages.map(page => `    <itemref idref="${page.id}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+
+  const nav = xhtmlDocument('Contents', `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${pages.filter(page => page.id !== 'cover').map(page => `    <li><a href="${page.href}">${escapeXml(page.title)}</a></li>`).join('\n')}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>
+    <li><a epub:type="bodymatter" href="${chapterFiles[0].href}">Start of Story</a></li>
+  </ol>
+</nav>`);
+
+  return createZip([
+    { name: 'mimetype', content: 'application/epub+zip', store: true },
+    { name: 'META-INF/container.xml', content: container },
+    { name: 'OEBPS/content.opf', content: opf },
+    { name: 'OEBPS/nav.xhtml', content: nav },
+    { name: 'OEBPS/styles.css', content: EPUB_STYLES },
+    { name: 'OEBPS/cover.xhtml', content: xhtmlDocument(metadata.title, coverMarkup(story), 'cover') },
+    ...chapterFiles.map(file => ({
+      name: `OEBPS/${file.href}`,
+      content: xhtmlDocument(file.chapter.title, `<section epub:type="chapter">
+<h2>${escapeXml(file.chapter.title)}</h2>
+${paragraphsMarkup(file.chapter.paragraphs)}
+</section>`)
+    })),
+    ...(story.moralOrLesson ? [{
+      name: 'OEBPS/lesson.xhtml',
+      content: xhtmlDocument('The Lesson', `<section class="lesson">
+<h2>The Lesson</h2>
+<p>${inlineMarkup(story.moralOrLesson)}</p>
+</section>`)
+    }] : [])
+  ]);
+}
+
+function xhtmlDocument(title: string, body: string, bodyType?: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyType ? ` epub:type="${bodyType}"` : ''}>
+${body}
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// Shared markup
+// ---------------------------------------------------------------------------
+
+function coverMarkup(story: GeneratedStory): string {
+  return `<section class="cover">
+<h1>${escapeXml(story.metadata.title)}</h1>
+<p class="details">${escapeXml(describeStory(story))}</p>
+${story.summary ? `<p class="summary">${inlineMarkup(story.summary)}</p>` : ''}
+</section>`;
+}
+
+function paragraphsMarkup(paragraphs: string[]): string {
+  return paragraphs.map(paragraph => `<p>${inlineMarkup(paragraph)}</p>`).join('\n');
+}
+
+// Escape, then keep the **bold** and *italic* emphasis models like to use
+function inlineMarkup(text: string): string {
+  return escapeXml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/\n/g, '<br/>');
+}
+
+function describeStory(story: GeneratedStory): string {
+  const { theme, targetAudience, estimatedReadingTime } = story.metadata;
+  const article = /^[aeiou]/i.test(theme) ? 'An' : 'A';
+  return `${article} ${theme} story for ${targetAudience} · ${estimatedReadingTime} min read`;
+}
+
+// EPUB dates are UTC without milliseconds
+function epubDate(date: Date): string {
+  return new Date(date).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60);
+}
@@ -0,0 +1,142 @@
+// 🎃 GhostFrame Structured Output
+// Turns model text into validated JSON: repair small formatting drift, re-ask with the
+// validation problems when that is not enough, and give up after a bounded number of tries
+
+import { parseJsonResponse } from './AIRouter';
+
+export interface ValidationResult<T> {
+  value?: T;
+  issues: string[];
+}
+
+export interface StructuredOutputOptions<T> {
+  /** The prompt that produced the first response */
+  prompt: string;
+  /** First model response, when it was already generated (e.g. streamed) */
+  firstResponse?: string;
+  /** Send a prompt to the model and return its text */
+  ask: (prompt: string) => Promise<string>;
+  validate: (data: unknown) => ValidationResult<T>;
+  /** JSON shape shown to the model when re-asking */
+  schemaDescription: string;
+  /** Re-asks allowed after the first response (default 2) */
+  maxRetries?: number;
+}
+
+export interface StructuredOutputResult<T> {
+  value: T;
+  attempts: number;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public issues: string[],
+    public responses: string[]
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Narrow parsed JSON to an object whose fields validators can inspect
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse JSON from model output, fixing the drift models commonly produce:
+ * code fences, surrounding prose, smart quotes, comments and trailing commas
+ */
+export function repairJson(text: string): unknown {
+  try {
+    return parseJsonResponse(text);
+  } catch {
+    const cleaned = stripLineComments(text.replace(/[“”]/g, '"').replace(/[‘’]/g, "'"))
+      .replace(/,\s*([}\]])/g, '$1');
+    return parseJsonResponse(cleaned);
+  }
+}
+
+// Drop `//` comments, whole-line or after a value, leaving `//` inside strings (e.g. URLs) alone
+const stripLineComments = (text: string): string => {
+  let result = '';
+  let inString = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inString) {
+      if (char === '\\') {
+        result += char + (text[++index] ?? '');
+        continue;
+      }
+      if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '/' && text[index + 1] === '/') {
+      while (index < text.length && text[index] !== '\n') index++;
+      result += '\n';
+      continue;
+    }
+    result += char;
+  }
+  return result;
+};
+
+/**
+ * Get a value that passes `validate`, re-asking the model with the problems found
+ */
+export async function requestStructuredOutput<T>(
+  options: StructuredOutputOptions<T>
+): Promise<StructuredOutputResult<T>> {
+  const maxAttempts = (options.maxRetries ?? 2) + 1;
+  const responses: string[] = [];
+  let issues: string[] = [];
+  let response = options.firstResponse ?? (await options.ask(options.prompt));
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      console.log(`🔁 Re-asking for structured output (attempt ${attempt}/${maxAttempts})`);
+      response = await options.ask(buildRetryPrompt(options, response, issues));
+    }
+    responses.push(response);
+
+    let data: unknown;
+    try {
+      data = repairJson(response);
+    } catch (error) {
+      issues = [`Response was not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+      continue;
+    }
+
+    const result = options.validate(data);
+    if (result.issues.length === 0 && result.value !== undefined) {
+      return { value: result.value, attempts: attempt };
+    }
+    issues = result.issues.length > 0 ? result.issues : ['Response did not match the schema'];
+  }
+
+  throw new StructuredOutputError(
+    `Structured output still invalid after ${maxAttempts} attempts`,
+    issues,
+    responses
+  );
+}
+
+function buildRetryPrompt<T>(
+  options: StructuredOutputOptions<T>,
+  previousResponse: string,
+  issues: string[]
+): string {
+  return `${options.prompt}
+
+**Your previous response could not be used:**
+${issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}
+
+**Previous response:**
+${previousResponse.substring(0, 2000)}
+
+Respond again with ONLY valid JSON (no prose, no code fences) matching this schema:
+${options.schemaDescription}`;
+}
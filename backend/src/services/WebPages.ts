@@ -0,0 +1,284 @@
+// 🎃 GhostFrame Web Pages
+// Fetches pages for URL ingestion; tests swap in a fetcher that serves fixtures
+
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
+
+export interface FetchedPage {
+  /** Final URL after redirects */
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+/** Raised before connecting when a page's host is not a public address */
+export class BlockedAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export class PageFetchError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+// Same ceiling as file uploads
+export const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Loopback, private, link-local, unique-local and other ranges that never hold public pages.
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const READABLE_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain', 'text/markdown'];
+
+/**
+ * Whether a fetched page's content type is one the processor can read
+ */
+export const isReadablePage = (page: FetchedPage): boolean =>
+  READABLE_TYPES.includes(mediaType(page.contentType));
+
+export const isHtmlPage = (page: FetchedPage): boolean =>
+  ['text/html', 'application/xhtml+xml'].includes(mediaType(page.contentType));
+
+/**
+ * Only absolute http(s) URLs are fetched; anything else is null
+ */
+export const parsePageUrl = (value: unknown): URL | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface HttpPageFetcherOptions {
+  /** Addresses a host name resolves to; defaults to the system resolver */
+  resolve?: (hostname: string) => Promise<string[]>;
+  /** Whether pages may be fetched from an address; defaults to public addresses only */
+  allowAddress?: (address: string) => boolean;
+  /** Largest decoded body read before the download is abandoned; defaults to MAX_PAGE_BYTES */
+  maxBytes?: number;
+}
+
+/**
+ * Fetch pages over HTTP(S), following redirects by hand so every hop is resolved, checked against
+ * `allowAddress` and connected to at the address that was checked
+ */
+export const createHttpPageFetcher = (options: HttpPageFetcherOptions = {}): PageFetcher =>
+  async (url: string) => {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    const maxBytes = options.maxBytes ?? MAX_PAGE_BYTES;
+    let current = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+      const address = await checkedAddress(current, options.resolve || resolveHost, options.allowAddress || isPublicAddress);
+
+      let response: http.IncomingMessage;
+      try {
+        response = await requestPage(current, address, signal);
+      } catch (error) {
+        throw new PageFetchError(`Could not reach ${current}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+      if (REDIRECT_STATUSES.includes(status) && location) {
+        response.resume();
+        const next = parsePageUrl(new URL(location, current).toString());
+        if (!next) {
+          throw new PageFetchError(`Redirect from ${current} to a non-http(s) URL`);
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new PageFetchError(`Too many redirects from ${url}`);
+        }
+        current = next;
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new PageFetchError(`HTTP ${status} from ${current}`, status);
+      }
+
+      const declaredLength = Number(response.headers['content-length']);
+      if (declaredLength > maxBytes) {
+        response.destroy();
+        throw new PageFetchError(`Page at ${current} is larger than ${maxBytes} bytes`);
+      }
+
+      let body: Buffer | null;
+      try {
+        body = await readBody(response, maxBytes);
+      } catch (error) {
+        throw new PageFetchError(`Could not read ${current}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      if (!body) {
+        throw new PageFetchError(`Page at ${current} is larger than ${maxBytes} bytes`);
+      }
+
+      return {
+        url: current.toString(),
+        contentType: response.headers['content-type'] || '',
+        body: body.toString('utf-8'),
+      };
+    }
+  };
+
+export const httpPageFetcher: PageFetcher = createHttpPageFetcher();
+
+let activeFetcher: PageFetcher | null = null;
+
+export const getPageFetcher = (): PageFetcher => activeFetcher || httpPageFetcher;
+
+export const setPageFetcher = (fetcher: PageFetcher | null): void => {
+  activeFetcher = fetcher;
+};
+
+export const fetchWebPage = (url: string): Promise<FetchedPage> => getPageFetcher()(url);
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const resolveHost = async (hostname: string): Promise<string[]> =>
+  (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+/**
+ * The address to connect to for a URL; every address the host resolves to must be allowed,
+ * so a name with one public and one private record is refused outright
+ */
+const checkedAddress = async (
+  url: URL,
+  resolve: (hostname: string) => Promise<string[]>,
+  allowAddress: (address: string) => boolean
+): Promise<string> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+  } catch (error) {
+    throw new PageFetchError(`Could not resolve ${hostname}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (addresses.length === 0) {
+    throw new PageFetchError(`Could not resolve ${hostname}`);
+  }
+  if (!addresses.every(allowAddress)) {
+    throw new BlockedAddressError(`Refusing to fetch ${url}: ${hostname} is not a public address`);
+  }
+  return addresses[0];
+};
+
+const requestPage = (url: URL, address: string, signal: AbortSignal): Promise<http.IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const family = isIP(address);
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(
+      url,
+      {
+        headers: {
+          Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5',
+          'Accept-Encoding': 'gzip, deflate, br',
+          'User-Agent': 'GhostFrame/1.0 (+content ingestion)',
+        },
+        signal,
+        // Connect to the address that was checked rather than resolving the name again
+        lookup: (_hostname, lookupOptions, callback) => {
+          if (lookupOptions.all) {
+            callback(null, [{ address, family }]);
+          } else {
+            callback(null, address, family);
+          }
+        },
+      },
+      resolve
+    );
+    request.on('error', reject);
+    request.end();
+  });
+
+/**
+ * The decoded response body, or null once it grows past `maxBytes`; the download stops there,
+ * so neither a missing Content-Length nor a compressed body can make it read without bound
+ */
+const readBody = (response: http.IncomingMessage, maxBytes: number): Promise<Buffer | null> => {
+  const encoding = (response.headers['content-encoding'] || '').trim().toLowerCase();
+  const decoder = encoding === 'gzip' || encoding === 'x-gzip'
+    ? createGunzip()
+    : encoding === 'deflate'
+      ? createInflate()
+      : encoding === 'br'
+        ? createBrotliDecompress()
+        : null;
+  const body = decoder ? response.pipe(decoder) : response;
+  if (decoder) response.on('error', error => decoder.destroy(error));
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    body.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        resolve(null);
+        decoder?.destroy();
+        response.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    body.on('end', () => resolve(Buffer.concat(chunks)));
+    body.on('error', reject);
+  });
+};
+
+// "text/html; charset=utf-8" -> "text/html"
+const mediaType = (contentType: string): string => contentType.split(';')[0].trim().toLowerCase();
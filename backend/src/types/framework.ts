@@ -164,6 +164,14 @@ export interface FrameworkEvent {
   timestamp: Date;
 }
 
+// Conversation Types (same shape as the SDK's ConversationEntry)
+export interface ConversationEntry {
+  timestamp: Date;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata?: Record<string, any>;
+}
+
 // Developer API Types
 export interface DeveloperAccount {
   id: string;
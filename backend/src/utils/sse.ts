@@ -0,0 +1,43 @@
+// 🎃 Server-Sent Events helper
+// Wraps an Express response as a `text/event-stream`
+
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  /** True once the client disconnected or the stream was closed */
+  readonly closed: boolean;
+}
+
+export const openEventStream = (res: Response): EventStream => {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so chunks reach the browser immediately
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // `res` (not `req`) closes when the client goes away mid-stream
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+  };
+};
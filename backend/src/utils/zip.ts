@@ -0,0 +1,111 @@
+// 🎃 Zip helper
+// Builds in-memory zip archives with archiver and reads uploaded ones (EPUB, PPTX) back
+
+import archiver from 'archiver';
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  content: string | Buffer;
+  /** Store without compression (e.g. the EPUB `mimetype` entry) */
+  store?: boolean;
+}
+
+/**
+ * Write the entries, in order, into a zip archive
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Buffer> => {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    archive.on('data', chunk => chunks.push(chunk));
+    archive.on('end', () => resolve(Buffer.concat(chunks)));
+    archive.on('error', reject);
+  });
+
+  for (const entry of entries) {
+    archive.append(entry.content, { name: entry.name, store: entry.store });
+  }
+  await archive.finalize();
+
+  return done;
+};
+
+export interface ZipFileEntry {
+  name: string;
+  /** 0 = stored, 8 = deflated */
+  method: number;
+  content: Buffer;
+}
+
+// Ceilings on any one inflated entry, the whole archive and its entry count, so a tiny upload cannot expand without bound
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+export const MAX_ZIP_TOTAL_BYTES = 100 * 1024 * 1024;
+export const MAX_ZIP_ENTRIES = 10000;
+
+/**
+ * The archive lists more entries or inflates to more bytes than an upload may
+ */
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipLimitError';
+  }
+}
+
+/**
+ * Read the entries listed in the central directory, in archive order.
+ * `include` skips entries that are not needed (e.g. images) without inflating them.
+ */
+export const readZip = (zip: Buffer, include: (name: string) => boolean = () => true): ZipFileEntry[] => {
+  let end = zip.length - 22;
+  while (end >= 0 && zip.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('End of central directory not found');
+
+  const count = zip.readUInt16LE(end + 10);
+  if (count > MAX_ZIP_ENTRIES) throw new ZipLimitError(`Archive lists ${count} entries; the limit is ${MAX_ZIP_ENTRIES}`);
+
+  let offset = zip.readUInt32LE(end + 16);
+  let totalBytes = 0;
+  const entries: ZipFileEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) throw new Error('Bad central directory entry');
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!include(name)) continue;
+    if (method !== 0 && method !== 8) throw new Error(`Unsupported compression method ${method} for ${name}`);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    // Inflate no more than the archive has left, rather than the whole entry and then checking
+    const budget = Math.min(MAX_ENTRY_BYTES, MAX_ZIP_TOTAL_BYTES - totalBytes);
+    const content = method === 0 ? Buffer.from(data) : inflate(name, data, budget);
+
+    if (content.length > budget) throw new ZipLimitError(`${name} inflates past the archive size limit`);
+    totalBytes += content.length;
+
+    entries.push({ name, method, content });
+  }
+
+  return entries;
+};
+
+const inflate = (name: string, data: Buffer, budget: number): Buffer => {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(budget, 1) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new ZipLimitError(`${name} inflates past the archive size limit`);
+    }
+    throw error;
+  }
+};
@@ -1,7 +1,7 @@
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { QuizGenerator } from '@/components/QuizGhost/QuizGenerator'
-import { StoryGenerator } from '@/components/StorySpirit/StoryGenerator'
+import { StoryGenerator, StreamingStoryGenerator } from '@/components/StorySpirit/StoryGenerator'
 
 // Mock API
 const mockApi = {
@@ -9,8 +9,18 @@ const mockApi = {
   post: jest.fn(),
 }
 
+const mockApiClient = {
+  streamStory: jest.fn(),
+}
+
+// Components import the client before these mocks are initialised, so read them lazily
 jest.mock('@/lib/api', () => ({
-  api: mockApi,
+  get api() {
+    return mockApi
+  },
+  get apiClient() {
+    return mockApiClient
+  },
 }))
 
 describe('User Workflow Integration Tests', () => {
@@ -233,6 +243,44 @@ describe('User Workflow Integration Tests', () => {
         })
       )
     })
+
+    it('should show the story as it streams in, then the saved story', async () => {
+      const user = userEvent.setup()
+      const onStoryGenerated = jest.fn()
+      const savedStory = { storyId: 'story-1', title: 'The Learning Machine', content: '## The Lab\n\nOnce upon a time, a model learned.' }
+      let finish!: () => void
+
+      mockApiClient.streamStory.mockImplementationOnce((_options, onDelta) => {
+        onDelta('## The Lab\n\n')
+        onDelta('Once upon a time')
+        return new Promise(resolve => {
+          finish = () => resolve({ success: true, data: savedStory })
+        })
+      })
+
+      render(
+        <StreamingStoryGenerator
+          availableContent={mockContent}
+          onStoryGenerated={onStoryGenerated}
+        />
+      )
+
+      await user.click(screen.getByText('ML Basics'))
+      await user.click(screen.getByText('Generate Story'))
+
+      expect(await screen.findByText('The Story Spirit is writing...')).toBeInTheDocument()
+      expect(screen.getByText(/Once upon a time$/)).toBeInTheDocument()
+
+      finish()
+
+      expect(await screen.findByText(/Once upon a time, a model learned\.$/)).toBeInTheDocument()
+      expect(screen.queryByText('The Story Spirit is writing...')).not.toBeInTheDocument()
+      expect(onStoryGenerated).toHaveBeenCalledWith(savedStory)
+      expect(mockApiClient.streamStory).toHaveBeenCalledWith(
+        expect.objectContaining({ contentId: 'test-content-1' }),
+        expect.any(Function)
+      )
+    })
   })
 
   describe('Error Handling Workflows', () => {
@@ -0,0 +1,39 @@
+import { getLearnerId, toLearnerId } from '@/lib/auth'
+
+const LEARNER_ID = /^[A-Za-z0-9_-]{1,64}$/
+
+describe('Learner ids', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should keep account ids the backend already accepts', () => {
+    expect(toLearnerId('user_42')).toBe('user_42')
+    expect(toLearnerId('3f2a-9c1b')).toBe('3f2a-9c1b')
+  })
+
+  it('should map other account ids to stable, distinct learner ids', () => {
+    const email = toLearnerId('ghost@example.com')
+
+    expect(email).toMatch(LEARNER_ID)
+    expect(email).toMatch(/^ghost_example_com_[0-9a-f]{16}$/)
+    expect(toLearnerId('ghost@example.com')).toBe(email)
+    expect(toLearnerId('ghost.example@com')).not.toBe(email)
+    expect(toLearnerId('{'.repeat(200))).toMatch(LEARNER_ID)
+  })
+
+  it('should use the signed-in user before the anonymous id', () => {
+    localStorage.setItem('user', JSON.stringify({ id: 'ghost@example.com', email: 'ghost@example.com' }))
+
+    expect(getLearnerId()).toBe(toLearnerId('ghost@example.com'))
+  })
+
+  it('should replace a stored anonymous id the backend would reject', () => {
+    localStorage.setItem('learnerId', 'not a valid id!')
+
+    const learnerId = getLearnerId()
+
+    expect(learnerId).toMatch(/^learner_\d+_[a-z0-9]+$/)
+    expect(getLearnerId()).toBe(learnerId)
+  })
+})
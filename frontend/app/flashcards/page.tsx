@@ -0,0 +1,438 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Layers, Home, Sparkles, Loader2, ChevronLeft, ChevronRight, RotateCcw, Lightbulb, CalendarClock } from 'lucide-react';
+import Link from 'next/link';
+import { apiClient, Flashcard, FlashcardDeck, ReviewGrade } from '@/lib/api';
+
+type DeckDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+const gradeOptions: Array<{ grade: ReviewGrade; label: string; className: string }> = [
+  { grade: 1, label: 'Again', className: 'border-red-500/60 text-red-300 hover:bg-red-900/30' },
+  { grade: 3, label: 'Hard', className: 'border-pumpkin-orange/60 text-pumpkin-orange hover:bg-pumpkin-orange/10' },
+  { grade: 4, label: 'Good', className: 'border-spectral-green/60 text-spectral-green hover:bg-spectral-green/10' },
+  { grade: 5, label: 'Easy', className: 'border-specter-purple/60 text-purple-300 hover:bg-specter-purple/20' },
+];
+
+export default function FlashcardsPage() {
+  const [content, setContent] = useState('');
+  const [cardCount, setCardCount] = useState(10);
+  const [difficulty, setDifficulty] = useState<DeckDifficulty>('intermediate');
+  const [loading, setLoading] = useState(false);
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [studyCards, setStudyCards] = useState<Flashcard[]>([]);
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewMessage, setReviewMessage] = useState('');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [showHints, setShowHints] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleGenerate = async () => {
+    if (!content.trim()) {
+      setError('Please enter some content to generate flashcards from');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setDeck(null);
+
+    try {
+      // The flashcard route works from processed content, so upload the text first
+      const file = new File([content], 'flashcard-notes.txt', { type: 'text/plain' });
+      const upload = await apiClient.uploadContent(file);
+
+      if (!upload.success || !upload.data) {
+        setError(upload.error || 'Failed to process content');
+        return;
+      }
+
+      const response = await apiClient.generateFlashcards({
+        contentId: upload.data.contentId,
+        cardCount,
+        difficulty,
+      });
+
+      if (response.success && response.data) {
+        setDeck(response.data);
+        setStudyCards(response.data.cards);
+        setReviewMessage('');
+        setCurrentIndex(0);
+        setFlipped(false);
+        setShowHints(false);
+      } else {
+        setError(response.error || 'Failed to generate flashcards');
+      }
+    } catch (err) {
+      setError('Failed to generate flashcards. Please check that the backend is running and the Groq API key is configured.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const goTo = (index: number) => {
+    setCurrentIndex(index);
+    setFlipped(false);
+    setShowHints(false);
+  };
+
+  // 📅 Load the cards the spaced-repetition scheduler says are due now
+  const loadDueCards = async () => {
+    if (!deck) return;
+
+    const response = await apiClient.getDueFlashcards(deck.deckId);
+    if (!response.success || !response.data) {
+      setReviewMessage(response.error || 'Failed to load due cards');
+      return;
+    }
+
+    const due = response.data;
+    setStudyCards(due.cards.map(entry => entry.card));
+    goTo(0);
+    setReviewMessage(
+      due.dueCount > 0
+        ? `${due.dueCount} card${due.dueCount === 1 ? '' : 's'} due for review`
+        : `All caught up! Next review ${due.nextDueAt ? new Date(due.nextDueAt).toLocaleString() : 'not scheduled'}`
+    );
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    const current = studyCards[currentIndex];
+    if (!deck || !current) return;
+
+    setReviewing(true);
+    try {
+      const response = await apiClient.reviewFlashcard(deck.deckId, current.id, grade);
+      if (!response.success || !response.data) {
+        setReviewMessage(response.error || 'Failed to record review');
+        return;
+      }
+
+      setReviewMessage(`Back in ${response.data.interval} day${response.data.interval === 1 ? '' : 's'}`);
+      if (currentIndex < studyCards.length - 1) {
+        goTo(currentIndex + 1);
+      } else {
+        await loadDueCards();
+      }
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  // Dynamic sample content - no hardcoded templates
+  const sampleContent = `Photosynthesis is the process plants, algae and some bacteria use to turn light energy into chemical energy. It takes place in chloroplasts, which contain the green pigment chlorophyll. During the light-dependent reactions, water is split and oxygen is released. The Calvin cycle then uses carbon dioxide, ATP and NADPH to build glucose, which the plant uses for energy and growth.`;
+
+  const card = studyCards[currentIndex];
+
+  return (
+    <div className="py-20 px-4 min-h-screen">
+      <div className="max-w-6xl mx-auto">
+        {/* Back Button */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Link href="/">
+            <button className="ghost-button inline-flex items-center space-x-2">
+              <Home className="h-4 w-4" />
+              <span>Back to Home</span>
+            </button>
+          </Link>
+        </motion.div>
+
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-12"
+        >
+          <motion.div
+            animate={{ rotate: [0, 10, -10, 0], scale: [1, 1.1, 1] }}
+            transition={{ duration: 3, repeat: Infinity }}
+            className="text-8xl mb-6 floating-ghost"
+          >
+            🃏
+          </motion.div>
+          <h1 className="text-5xl md:text-6xl font-bold text-ghost-white mb-4 creepster-heading">
+            Flashcard Phantom
+          </h1>
+          <p className="text-xl text-gray-300 max-w-2xl mx-auto">
+            Conjure study decks from any content with AI
+          </p>
+        </motion.div>
+
+        {!deck && (
+          <div className="grid lg:grid-cols-2 gap-8">
+            {/* Input Section */}
+            <motion.div
+              initial={{ opacity: 0, x: -50 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="ghost-card p-6"
+            >
+              <h2 className="text-2xl font-bold text-ghost-white mb-4 flex items-center">
+                <Sparkles className="h-6 w-6 text-pumpkin-orange mr-2" />
+                Input Content
+              </h2>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-gray-300 mb-2">Your Content</label>
+                  <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    placeholder="Paste any educational content here - articles, notes, textbook excerpts, or any text you want to study with flashcards..."
+                    className="w-full h-48 bg-gray-800 border border-gray-700 rounded-lg p-4 text-gray-200 focus:border-pumpkin-orange focus:outline-none resize-none"
+                  />
+                  <button
+                    onClick={() => setContent(sampleContent)}
+                    className="mt-2 text-sm text-spectral-green hover:text-spectral-green/80"
+                  >
+                    Use sample content
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-gray-300 mb-2">Cards</label>
+                    <select
+                      value={cardCount}
+                      onChange={(e) => setCardCount(Number(e.target.value))}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-gray-200 focus:border-pumpkin-orange focus:outline-none"
+                    >
+                      <option value={5}>5 Cards</option>
+                      <option value={10}>10 Cards</option>
+                      <option value={20}>20 Cards</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-gray-300 mb-2">Difficulty</label>
+                    <select
+                      value={difficulty}
+                      onChange={(e) => setDifficulty(e.target.value as DeckDifficulty)}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-gray-200 focus:border-pumpkin-orange focus:outline-none"
+                    >
+                      <option value="beginner">Beginner</option>
+                      <option value="intermediate">Intermediate</option>
+                      <option value="advanced">Advanced</option>
+                    </select>
+                  </div>
+                </div>
+
+                <button
+                  onClick={handleGenerate}
+                  disabled={loading || !content.trim()}
+                  className="w-full ghost-button-primary flex items-center justify-center space-x-2 py-4 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                      <span>Generating Deck...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Layers className="h-5 w-5" />
+                      <span>Generate Flashcards</span>
+                    </>
+                  )}
+                </button>
+
+                {error && (
+                  <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 text-red-300">
+                    {error}
+                  </div>
+                )}
+              </div>
+            </motion.div>
+
+            {/* Preview Section */}
+            <motion.div
+              initial={{ opacity: 0, x: 50 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="ghost-card p-6"
+            >
+              <h2 className="text-2xl font-bold text-ghost-white mb-4 flex items-center">
+                <Layers className="h-6 w-6 text-spectral-green mr-2" />
+                Deck Preview
+              </h2>
+
+              {!loading && (
+                <div className="text-center py-12 text-gray-400">
+                  <motion.div
+                    animate={{ rotate: [0, 10, -10, 0] }}
+                    transition={{ duration: 3, repeat: Infinity }}
+                    className="text-6xl mb-4"
+                  >
+                    🗂️
+                  </motion.div>
+                  <p>Your flashcards will appear here...</p>
+                </div>
+              )}
+
+              {loading && (
+                <div className="text-center py-12">
+                  <Loader2 className="h-12 w-12 text-pumpkin-orange mx-auto mb-4 animate-spin" />
+                  <p className="text-gray-300">The Flashcard Phantom is conjuring your deck...</p>
+                </div>
+              )}
+            </motion.div>
+          </div>
+        )}
+
+        {deck && card && (
+          <motion.div
+            initial={{ opacity: 0, y: 50 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="ghost-card p-8"
+          >
+            <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h2 className="text-3xl font-bold text-ghost-white mb-2">{deck.metadata.title}</h2>
+                <div className="flex flex-wrap gap-2">
+                  <span className="text-sm bg-specter-purple/20 text-specter-purple px-3 py-1 rounded">
+                    {deck.metadata.totalCards} Cards
+                  </span>
+                  <span className="text-sm bg-pumpkin-orange/20 text-pumpkin-orange px-3 py-1 rounded capitalize">
+                    {deck.metadata.difficulty}
+                  </span>
+                </div>
+              </div>
+              <div className="text-right">
+                <span className="text-gray-400">
+                  Card {currentIndex + 1} of {studyCards.length}
+                </span>
+                {reviewMessage && (
+                  <p className="text-sm text-spectral-green mt-1">{reviewMessage}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Flip Card */}
+            <motion.button
+              key={`${card.id}-${flipped ? 'back' : 'front'}`}
+              initial={{ rotateY: 90, opacity: 0 }}
+              animate={{ rotateY: 0, opacity: 1 }}
+              transition={{ duration: 0.3 }}
+              onClick={() => setFlipped(!flipped)}
+              className={`w-full min-h-[16rem] rounded-xl p-8 flex flex-col items-center justify-center text-center border-2 transition-colors ${
+                flipped
+                  ? 'bg-spectral-green/10 border-spectral-green'
+                  : 'bg-gray-800/50 border-pumpkin-orange'
+              }`}
+            >
+              <span className="text-xs uppercase tracking-wider text-gray-400 mb-4">
+                {flipped ? 'Answer' : card.topic}
+              </span>
+              <p className="text-2xl font-semibold text-ghost-white">
+                {flipped ? card.back : card.front}
+              </p>
+              {!flipped && (
+                <span className="mt-6 text-sm text-gray-500">Click to reveal the answer</span>
+              )}
+            </motion.button>
+
+            {card.hints && card.hints.length > 0 && !flipped && (
+              <div className="mt-4 text-center">
+                {showHints ? (
+                  <div className="bg-gray-700/50 rounded-lg p-4 text-sm text-gray-300">
+                    {card.hints.join(' · ')}
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowHints(true)}
+                    className="inline-flex items-center space-x-1 text-sm text-spectral-green hover:text-spectral-green/80"
+                  >
+                    <Lightbulb className="h-4 w-4" />
+                    <span>Show hint</span>
+                  </button>
+                )}
+              </div>
+            )}
+
+            {flipped && (
+              <div className="mt-6">
+                <p className="text-center text-sm text-gray-400 mb-3">How well did you remember?</p>
+                <div className="grid grid-cols-4 gap-3">
+                  {gradeOptions.map(option => (
+                    <button
+                      key={option.grade}
+                      onClick={() => handleGrade(option.grade)}
+                      disabled={reviewing}
+                      className={`py-3 rounded-lg border-2 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${option.className}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-8 flex gap-4">
+              <button
+                onClick={() => goTo(currentIndex - 1)}
+                disabled={currentIndex === 0}
+                className="ghost-button py-4 px-6 inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ChevronLeft className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => goTo(currentIndex + 1)}
+                disabled={currentIndex === studyCards.length - 1}
+                className="flex-1 ghost-button-primary py-4 inline-flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <span>Next Card</span>
+                <ChevronRight className="h-5 w-5" />
+              </button>
+              <button
+                onClick={loadDueCards}
+                className="ghost-button py-4 px-6 inline-flex items-center space-x-2"
+              >
+                <CalendarClock className="h-4 w-4" />
+                <span>Due Cards</span>
+              </button>
+              <button
+                onClick={() => setDeck(null)}
+                className="ghost-button py-4 px-6 inline-flex items-center space-x-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>New Deck</span>
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {deck && !card && (
+          <motion.div
+            initial={{ opacity: 0, y: 50 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="ghost-card p-8 text-center"
+          >
+            <div className="text-6xl mb-4">😴</div>
+            <h2 className="text-3xl font-bold text-ghost-white mb-2">{deck.metadata.title}</h2>
+            <p className="text-gray-300 mb-8">{reviewMessage || 'No cards are due right now'}</p>
+            <div className="flex justify-center gap-4">
+              <button
+                onClick={loadDueCards}
+                className="ghost-button py-4 px-6 inline-flex items-center space-x-2"
+              >
+                <CalendarClock className="h-4 w-4" />
+                <span>Check Again</span>
+              </button>
+              <button
+                onClick={() => setDeck(null)}
+                className="ghost-button-primary py-4 px-6 inline-flex items-center space-x-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>New Deck</span>
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
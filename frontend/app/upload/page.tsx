@@ -1,11 +1,36 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, Home, FileText, Zap, Brain } from 'lucide-react';
+import { Home, FileText, Zap, Brain } from 'lucide-react';
 import Link from 'next/link';
+import { ContentSearch } from '@/components/ContentUpload/ContentSearch';
+import { DocumentChat } from '@/components/ContentUpload/DocumentChat';
+import { UploadZone } from '@/components/ContentUpload/UploadZone';
+import { UrlImport } from '@/components/ContentUpload/UrlImport';
+import { apiClient, ProcessedContent } from '@/lib/api';
 
 export default function UploadPage() {
+  const [openDocument, setOpenDocument] = useState<ProcessedContent | null>(null);
+  const [uploadWarnings, setUploadWarnings] = useState<string[]>([]);
+
+  const handleOpenDocument = async (contentId: string) => {
+    const response = await apiClient.getContent(contentId);
+    if (response.success && response.data) {
+      setOpenDocument(response.data);
+    }
+  };
+
+  const handleFileUpload = async (file: File) => {
+    setUploadWarnings([]);
+    const response = await apiClient.uploadContent(file);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Upload failed');
+    }
+    setUploadWarnings(response.warnings || []);
+    setOpenDocument(response.data);
+  };
+
   return (
     <div className="py-20 px-4">
       <div className="max-w-4xl mx-auto">
@@ -74,56 +99,56 @@ export default function UploadPage() {
           </div>
         </motion.div>
 
-        {/* Upload Zone Placeholder */}
+        {/* Upload Zone */}
         <motion.div
           initial={{ opacity: 0, y: 30 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.8, delay: 0.6 }}
-          className="bg-ghost-gray/50 rounded-2xl p-12 border-2 border-dashed border-specter-purple/50 text-center mb-8"
+          className="mb-8"
+        >
+          <UploadZone onFileUpload={handleFileUpload} maxSize={10 * 1024 * 1024} />
+          {uploadWarnings.map(warning => (
+            <p key={warning} className="text-pumpkin-orange text-sm mt-4">{warning}</p>
+          ))}
+        </motion.div>
+
+        {/* Import a Web Page */}
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.7 }}
+          className="mb-8"
         >
-          <motion.div
-            animate={{ 
-              scale: [1, 1.05, 1],
-              opacity: [0.7, 1, 0.7]
-            }}
-            transition={{ duration: 2, repeat: Infinity }}
-            className="text-6xl mb-6"
-          >
-            ☁️
-          </motion.div>
           <h3 className="text-2xl font-bold text-ghost-white mb-4">
-            Drag & Drop Your Content Here
+            Summon a Web Page
           </h3>
-          <p className="text-gray-300 mb-6">
-            Supported formats: PDF, DOCX, TXT, MD
-          </p>
-          <button className="ghost-button-primary inline-flex items-center space-x-2">
-            <Upload className="h-5 w-5" />
-            <span>Choose Files</span>
-          </button>
+          <UrlImport onImported={setOpenDocument} />
         </motion.div>
 
-        {/* Coming Soon */}
+        {/* Search Uploaded Content */}
         <motion.div
           initial={{ opacity: 0, y: 30 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.9 }}
-          className="text-center bg-ghost-gray/30 rounded-xl p-8 border border-specter-purple/30"
+          transition={{ duration: 0.8, delay: 0.75 }}
+          className="mb-8"
         >
-          <h4 className="text-lg font-semibold text-ghost-white mb-2">
-            Upload Portal Awakening...
-          </h4>
-          <p className="text-gray-300 mb-4">
-            Soon you'll be able to upload and process your learning materials!
-          </p>
-          
-          {/* Future Integration Comment */}
-          <div className="bg-specter-purple/10 rounded-lg p-3 border border-specter-purple/30">
-            <p className="text-gray-400 text-xs">
-              🎃 Future: handle file uploads with content analysis
-            </p>
-          </div>
+          <h3 className="text-2xl font-bold text-ghost-white mb-4">
+            Search the Spirit Library
+          </h3>
+          <ContentSearch onOpenDocument={handleOpenDocument} />
         </motion.div>
+
+        {/* Document with Chat */}
+        {openDocument && (
+          <motion.div
+            key={openDocument.contentId}
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <DocumentChat content={openDocument} onClose={() => setOpenDocument(null)} />
+          </motion.div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, Loader2, MessageCircle } from 'lucide-react';
+import { apiClient, ContentSearchResult } from '@/lib/api';
+
+interface ContentSearchProps {
+  onOpenDocument?: (contentId: string) => void;
+}
+
+export const ContentSearch: React.FC<ContentSearchProps> = ({ onOpenDocument }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ContentSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    const response = await apiClient.searchContent(query.trim());
+    setIsSearching(false);
+
+    if (response.success && response.data) {
+      setResults(response.data);
+    } else {
+      setResults(null);
+      setError(response.error || '💀 The spirits could not search your library');
+    }
+  };
+
+  return (
+    <div className="ghost-card p-6">
+      <form onSubmit={handleSearch} className="flex items-center space-x-3">
+        <div className="relative flex-1">
+          <Search className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search your uploaded content..."
+            className="w-full bg-ghost-gray/50 border border-specter-purple/30 rounded-lg pl-10 pr-4 py-2 text-ghost-white placeholder-gray-500 focus:outline-none focus:border-specter-purple"
+          />
+        </div>
+        <button type="submit" className="ghost-button-primary inline-flex items-center space-x-2" disabled={isSearching || !query.trim()}>
+          {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          <span>Search</span>
+        </button>
+      </form>
+
+      {error && <p className="text-blood-red text-sm mt-4">{error}</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-gray-400 text-sm mt-4">👻 No passages matched that search.</p>
+      )}
+
+      <AnimatePresence>
+        {results && results.length > 0 && (
+          <motion.ul
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="mt-4 space-y-3"
+          >
+            {results.map(result => (
+              <li key={`${result.contentId}:${result.chunkIndex}`} className="bg-ghost-gray/30 rounded-lg p-4 border border-specter-purple/20">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-semibold text-pumpkin-orange">
+                    {result.title}{result.heading ? ` · ${result.heading}` : ''}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {Math.round(result.score * 100)}% match · chars {result.start}–{result.end}
+                  </span>
+                </div>
+                <p className="text-gray-300 text-sm leading-relaxed">
+                  {result.text.length > 300 ? `${result.text.substring(0, 300)}...` : result.text}
+                </p>
+                {onOpenDocument && (
+                  <button
+                    onClick={() => onOpenDocument(result.contentId)}
+                    className="mt-2 text-xs inline-flex items-center space-x-1 text-specter-purple hover:text-ghost-white"
+                  >
+                    <MessageCircle className="h-3 w-3" />
+                    <span>Ask this document</span>
+                  </button>
+                )}
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MessageCircle, Send, Loader2, X } from 'lucide-react';
+import { apiClient, ChatCitation, ConversationEntry, ProcessedContent } from '@/lib/api';
+
+interface DocumentChatProps {
+  content: ProcessedContent;
+  onClose?: () => void;
+}
+
+export const DocumentChat: React.FC<DocumentChatProps> = ({ content, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const [sessionId, setSessionId] = useState<string | undefined>();
+  const [history, setHistory] = useState<ConversationEntry[]>([]);
+  const [highlight, setHighlight] = useState<ChatCitation | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    setIsAsking(true);
+    setError(null);
+    const response = await apiClient.askContent(content.contentId, question.trim(), sessionId);
+    setIsAsking(false);
+
+    if (response.success && response.data) {
+      setSessionId(response.data.sessionId);
+      setHistory(response.data.history);
+      setHighlight(response.data.citations[0] || null);
+      setQuestion('');
+    } else {
+      setError(response.error || '💀 The spirits could not answer your question');
+    }
+  };
+
+  const text = content.processedText;
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {/* Document */}
+      <div className="ghost-card p-6 max-h-[32rem] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-ghost-white">
+            {content.metadata.title || content.originalFilename}
+          </h3>
+          {onClose && (
+            <button onClick={onClose} className="text-gray-400 hover:text-blood-red transition-colors" aria-label="Close document">
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+        <p className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap">
+          {highlight ? (
+            <>
+              {text.substring(0, highlight.start)}
+              <mark className="bg-pumpkin-orange/30 text-ghost-white rounded">{text.substring(highlight.start, highlight.end)}</mark>
+              {text.substring(highlight.end)}
+            </>
+          ) : text}
+        </p>
+      </div>
+
+      {/* Chat */}
+      <div className="ghost-card p-6 flex flex-col max-h-[32rem]">
+        <div className="flex items-center space-x-2 mb-4">
+          <MessageCircle className="h-5 w-5 text-specter-purple" />
+          <h3 className="text-lg font-semibold text-ghost-white">Ask the Document</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+          {history.length === 0 && (
+            <p className="text-gray-400 text-sm">👻 Ask anything about this document. Answers cite the passages they come from.</p>
+          )}
+          {history.map((entry, index) => (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`rounded-lg p-3 text-sm ${entry.role === 'user'
+                ? 'bg-specter-purple/20 text-ghost-white ml-8'
+                : 'bg-ghost-gray/40 text-gray-300 mr-8'}`}
+            >
+              <p className="whitespace-pre-wrap">{entry.content}</p>
+              {entry.role === 'assistant' && entry.metadata?.citations?.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {(entry.metadata!.citations as ChatCitation[]).map(citation => (
+                    <button
+                      key={citation.chunkId}
+                      onClick={() => setHighlight(citation)}
+                      className="text-xs px-2 py-1 rounded bg-pumpkin-orange/20 text-pumpkin-orange hover:bg-pumpkin-orange/30"
+                    >
+                      {citation.heading || `Passage ${citation.chunkIndex + 1}`}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </div>
+
+        {error && <p className="text-blood-red text-sm mb-2">{error}</p>}
+
+        <form onSubmit={handleAsk} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder="Ask a question..."
+            className="flex-1 bg-ghost-gray/50 border border-specter-purple/30 rounded-lg px-4 py-2 text-ghost-white placeholder-gray-500 focus:outline-none focus:border-specter-purple"
+          />
+          <button type="submit" className="ghost-button-primary inline-flex items-center" disabled={isAsking || !question.trim()} aria-label="Ask">
+            {isAsking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
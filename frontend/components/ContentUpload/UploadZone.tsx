@@ -1,12 +1,12 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, File, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { apiClient, UploadFormat } from '@/lib/api';
 
 interface UploadZoneProps {
   onFileUpload: (file: File) => Promise<void>;
-  acceptedTypes: string[];
   maxSize: number;
   isLoading?: boolean;
 }
@@ -20,12 +20,24 @@ interface UploadedFile {
 
 export const UploadZone: React.FC<UploadZoneProps> = ({
   onFileUpload,
-  acceptedTypes,
   maxSize,
   isLoading = false,
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [formats, setFormats] = useState<UploadFormat[]>([]);
+
+  // 📁 The backend's extractor registry decides which files are accepted
+  useEffect(() => {
+    apiClient.getUploadFormats().then(response => {
+      if (response.success && response.data) {
+        setFormats(response.data);
+      }
+    });
+  }, []);
+
+  const acceptedTypes = formats.flatMap(format => [...format.extensions, ...format.mimeTypes]);
+  const formatLabels = formats.map(format => format.label).join(', ');
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -38,8 +50,14 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
   }, []);
 
   const validateFile = (file: File): string | null => {
-    if (!acceptedTypes.includes(file.type)) {
-      return `👻 File type not supported. Please upload: ${acceptedTypes.join(', ')}`;
+    const extension = file.name.includes('.') ? `.${file.name.split('.').pop()!.toLowerCase()}` : '';
+    // Browsers leave the type blank or generic for formats they do not know, so the extension counts too;
+    // until the formats have loaded the server has the final say
+    const supported = formats.some(format =>
+      format.mimeTypes.includes(file.type) || format.extensions.includes(extension)
+    );
+    if (formats.length > 0 && !supported) {
+      return `👻 File type not supported. Please upload: ${formatLabels}`;
     }
     if (file.size > maxSize) {
       return `💀 File too large. Maximum size: ${(maxSize / 1024 / 1024).toFixed(1)}MB`;
@@ -107,7 +125,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
         await processFile(file);
       }
     },
-    [onFileUpload]
+    [onFileUpload, formats]
   );
 
   const handleFileSelect = useCallback(
@@ -119,7 +137,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
       // Reset input
       e.target.value = '';
     },
-    [onFileUpload]
+    [onFileUpload, formats]
   );
 
   const removeFile = (fileToRemove: File) => {
@@ -170,7 +188,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
             Drag and drop your files here, or click to browse
           </p>
           <div className="text-sm text-gray-500">
-            <p>Supported formats: {acceptedTypes.join(', ')}</p>
+            {formatLabels && <p>Supported formats: {formatLabels}</p>}
             <p>Maximum size: {(maxSize / 1024 / 1024).toFixed(1)}MB per file</p>
           </div>
         </motion.div>
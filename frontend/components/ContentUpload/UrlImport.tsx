@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Globe, Loader2 } from 'lucide-react';
+import { apiClient, ProcessedContent } from '@/lib/api';
+
+interface UrlImportProps {
+  onImported?: (content: ProcessedContent) => void;
+}
+
+export const UrlImport: React.FC<UrlImportProps> = ({ onImported }) => {
+  const [url, setUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<ProcessedContent | null>(null);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setIsImporting(true);
+    setError(null);
+    const response = await apiClient.uploadUrl(url.trim());
+    setIsImporting(false);
+
+    if (response.success && response.data) {
+      setImported(response.data);
+      setUrl('');
+      onImported?.(response.data);
+    } else {
+      setImported(null);
+      setError(response.error || '💀 The spirits could not read that page');
+    }
+  };
+
+  return (
+    <div className="ghost-card p-6">
+      <form onSubmit={handleImport} className="flex items-center space-x-3">
+        <div className="relative flex-1">
+          <Globe className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="url"
+            value={url}
+            onChange={e => setUrl(e.target.value)}
+            placeholder="https://example.com/article"
+            className="w-full bg-ghost-gray/50 border border-specter-purple/30 rounded-lg pl-10 pr-4 py-2 text-ghost-white placeholder-gray-500 focus:outline-none focus:border-specter-purple"
+          />
+        </div>
+        <button type="submit" className="ghost-button-primary inline-flex items-center space-x-2" disabled={isImporting || !url.trim()}>
+          {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Globe className="h-4 w-4" />}
+          <span>Import</span>
+        </button>
+      </form>
+
+      {error && <p className="text-blood-red text-sm mt-4">{error}</p>}
+
+      {imported && (
+        <p className="text-spectral-green text-sm mt-4">
+          🌐 Imported &ldquo;{imported.metadata.title || imported.originalFilename}&rdquo; ({imported.wordCount} words)
+        </p>
+      )}
+    </div>
+  );
+};
@@ -15,6 +15,7 @@ export default function Navbar() {
     { href: '/', label: 'Home' },
     { href: '/story-spirit', label: 'Story Spirit' },
     { href: '/quiz-ghost', label: 'Quiz Ghost' },
+    { href: '/flashcards', label: 'Flashcards' },
     { href: '/download', label: 'Download' },
     { href: '/docs', label: 'Docs' },
   ];
@@ -2,7 +2,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { CheckCircle, XCircle, Clock, Brain, ArrowRight, ArrowLeft, RotateCcw } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Brain, ArrowRight, ArrowLeft, RotateCcw, History } from 'lucide-react';
+import { apiClient, LearnerProgress, QuizAttemptSummary } from '@/lib/api';
+import { getLearnerId } from '@/lib/auth';
 
 export interface QuizQuestion {
   id: string;
@@ -48,6 +50,7 @@ export interface QuizResults {
     isCorrect: boolean;
     explanation: string;
     points: number;
+    feedback?: string;
   }>;
   completedAt: Date;
 }
@@ -69,6 +72,8 @@ export const QuizInterface: React.FC<QuizInterfaceProps> = ({
   const [results, setResults] = useState<QuizResults | null>(null);
   const [timeElapsed, setTimeElapsed] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attempts, setAttempts] = useState<QuizAttemptSummary[]>([]);
+  const [learnerProgress, setLearnerProgress] = useState<LearnerProgress | null>(null);
 
   const currentQuestion = quiz.questions[currentQuestionIndex];
   const isLastQuestion = currentQuestionIndex === quiz.questions.length - 1;
@@ -109,13 +114,23 @@ export const QuizInterface: React.FC<QuizInterfaceProps> = ({
     }
   };
 
-  const handleSubmit = async () => {
-    setIsSubmitting(true);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Calculate results
+  const loadHistory = async () => {
+    const learnerId = getLearnerId();
+    const [attemptsResponse, progressResponse] = await Promise.all([
+      apiClient.getQuizAttempts(quiz.metadata.quizId, learnerId),
+      apiClient.getLearnerProgress(learnerId)
+    ]);
+
+    if (attemptsResponse.success && attemptsResponse.data) {
+      setAttempts(attemptsResponse.data);
+    }
+    if (progressResponse.success && progressResponse.data) {
+      setLearnerProgress(progressResponse.data);
+    }
+  };
+
+  // Offline fallback when the backend cannot grade the submission
+  const gradeLocally = (): QuizResults => {
     let correctAnswers = 0;
     let totalPoints = 0;
     
@@ -142,7 +157,7 @@ export const QuizInterface: React.FC<QuizInterfaceProps> = ({
     const percentage = Math.round((correctAnswers / quiz.questions.length) * 100);
     const maxPoints = quiz.questions.reduce((sum, q) => sum + q.points, 0);
 
-    const finalResults: QuizResults = {
+    return {
       score: {
         correct: correctAnswers,
         total: quiz.questions.length,
@@ -153,11 +168,29 @@ export const QuizInterface: React.FC<QuizInterfaceProps> = ({
       results: questionResults,
       completedAt: new Date()
     };
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    
+    const response = await apiClient.submitQuiz(
+      quiz.metadata.quizId,
+      Object.entries(answers).map(([questionId, answer]) => ({ questionId, answer })),
+      getLearnerId()
+    );
+
+    const finalResults: QuizResults = response.success && response.data
+      ? { ...response.data, completedAt: new Date(response.data.completedAt) }
+      : gradeLocally();
 
     setResults(finalResults);
     setShowResults(true);
     setIsSubmitting(false);
     onComplete(finalResults);
+
+    if (response.success) {
+      await loadHistory();
+    }
   };
 
   const handleRestart = () => {
@@ -281,6 +314,9 @@ export const QuizInterface: React.FC<QuizInterfaceProps> = ({
                         <span className="text-spectral-green">{result.correctAnswer}</span>
                       </div>
                     )}
+                    {result.feedback && (
+                      <div className="text-haunted-orange">{result.feedback}</div>
+                    )}
                     <div className="text-gray-300 mt-2 p-3 bg-phantom-gray/30 rounded">
                       {result.explanation}
                     </div>
@@ -296,6 +332,57 @@ export const QuizInterface: React.FC<QuizInterfaceProps> = ({
           ))}
         </div>
 
+        {/* Attempt History */}
+        {attempts.length > 0 && (
+          <div className="ghost-card mb-8">
+            <h3 className="text-xl font-semibold text-ghost-white mb-4 flex items-center space-x-2">
+              <History className="h-5 w-5 text-eerie-purple" />
+              <span>Your History</span>
+            </h3>
+            <div className="space-y-2 mb-6">
+              {attempts.map((attempt, index) => (
+                <div
+                  key={attempt.attemptId}
+                  className="flex items-center justify-between p-3 bg-phantom-gray/30 rounded"
+                >
+                  <span className="text-gray-300">
+                    Attempt {attempts.length - index} • {new Date(attempt.completedAt).toLocaleString()}
+                  </span>
+                  <span className={`font-bold ${getScoreColor(attempt.percentage)}`}>
+                    {attempt.percentage}% ({attempt.points}/{attempt.maxPoints})
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {learnerProgress && learnerProgress.topics.length > 0 && (
+              <>
+                <h4 className="font-medium text-ghost-white mb-3">
+                  Progress by Topic • {learnerProgress.averagePercentage}% average over {learnerProgress.totalAttempts} attempts
+                </h4>
+                <div className="space-y-3">
+                  {learnerProgress.topics.map(topic => (
+                    <div key={topic.topic}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-300">{topic.topic}</span>
+                        <span className={getScoreColor(topic.averagePercentage)}>
+                          {topic.averagePercentage}% • best {topic.bestPercentage}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-phantom-gray rounded-full h-2">
+                        <div
+                          className="bg-gradient-to-r from-spectral-green to-eerie-purple h-2 rounded-full"
+                          style={{ width: `${topic.averagePercentage}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex justify-center space-x-4">
           <button
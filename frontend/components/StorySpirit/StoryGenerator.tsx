@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { BookOpen, Settings, Sparkles, Upload, FileText, CheckCircle, Users, Clock, Palette } from 'lucide-react';
 import { SpookyLoader } from '@/components/Animations/SpookyLoader';
+import { apiClient, Story } from '@/lib/api';
 
 export interface StoryGenerationOptions {
   contentId: string;
@@ -37,12 +38,15 @@ interface StoryGeneratorProps {
   availableContent: ProcessedContent[];
   onGenerateStory: (options: StoryGenerationOptions) => Promise<void>;
   isGenerating: boolean;
+  /** Story text received so far while the Story Spirit streams its tale, then the finished story */
+  streamingText?: string;
 }
 
 export const StoryGenerator: React.FC<StoryGeneratorProps> = ({
   availableContent,
   onGenerateStory,
-  isGenerating
+  isGenerating,
+  streamingText
 }) => {
   const [selectedContent, setSelectedContent] = useState<string>('');
   const [theme, setTheme] = useState<'adventure' | 'mystery' | 'fantasy' | 'sci-fi' | 'historical' | 'educational' | 'horror' | 'comedy'>('adventure');
@@ -109,6 +113,34 @@ export const StoryGenerator: React.FC<StoryGeneratorProps> = ({
 
   const canGenerate = selectedContent && !isGenerating;
 
+  if (isGenerating && streamingText) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-center space-x-3 text-gray-300">
+          <motion.span
+            animate={{ opacity: [0.4, 1, 0.4] }}
+            transition={{ duration: 1.5, repeat: Infinity }}
+          >
+            👻
+          </motion.span>
+          <span>The Story Spirit is writing...</span>
+        </div>
+        <div className="ghost-card">
+          <p className="text-gray-200 leading-relaxed whitespace-pre-wrap">
+            {streamingText}
+            <motion.span
+              animate={{ opacity: [0, 1, 0] }}
+              transition={{ duration: 1, repeat: Infinity }}
+              className="text-eerie-purple"
+            >
+              ▍
+            </motion.span>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (isGenerating) {
     return (
       <div className="text-center py-16">
@@ -144,6 +176,21 @@ export const StoryGenerator: React.FC<StoryGeneratorProps> = ({
         </p>
       </motion.div>
 
+      {/* Finished Story */}
+      {streamingText && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="ghost-card"
+        >
+          <div className="flex items-center space-x-3 mb-4">
+            <BookOpen className="h-5 w-5 text-spectral-green" />
+            <h3 className="text-xl font-semibold text-ghost-white">Your Story</h3>
+          </div>
+          <p className="text-gray-200 leading-relaxed whitespace-pre-wrap">{streamingText}</p>
+        </motion.div>
+      )}
+
       {/* Content Selection */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -409,4 +456,54 @@ export const StoryGenerator: React.FC<StoryGeneratorProps> = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface StreamingStoryGeneratorProps {
+  availableContent: ProcessedContent[];
+  /** Called with the saved story once the stream completes */
+  onStoryGenerated?: (story: Story) => void;
+}
+
+// 📡 Feeds the tale into the generator as it is written, then swaps in the saved story
+export const StreamingStoryGenerator: React.FC<StreamingStoryGeneratorProps> = ({
+  availableContent,
+  onStoryGenerated
+}) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerateStory = async (options: StoryGenerationOptions) => {
+    setIsGenerating(true);
+    setStreamingText('');
+    setError(null);
+
+    const response = await apiClient.streamStory(options, delta => setStreamingText(text => text + delta));
+    setIsGenerating(false);
+
+    if (response.success && response.data) {
+      // The saved story is the trimmed, final text of every chapter
+      setStreamingText(response.data.content);
+      onStoryGenerated?.(response.data);
+    } else {
+      setStreamingText('');
+      setError(response.error || 'The Story Spirit could not finish your tale');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <StoryGenerator
+        availableContent={availableContent}
+        onGenerateStory={handleGenerateStory}
+        isGenerating={isGenerating}
+        streamingText={streamingText}
+      />
+      {error && (
+        <div className="max-w-4xl mx-auto bg-red-900/20 border border-red-500/50 rounded-lg p-4 text-red-300">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
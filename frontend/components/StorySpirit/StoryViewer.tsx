@@ -2,7 +2,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { BookOpen, Clock, Users, Palette, ChevronLeft, ChevronRight, RotateCcw, Share, Download, Eye, EyeOff } from 'lucide-react';
+import { BookOpen, Clock, Users, Palette, ChevronLeft, ChevronRight, RotateCcw, Share, Download, Eye, EyeOff, GitBranch, Flag, CheckCircle, XCircle } from 'lucide-react';
+import { apiClient, Question, StoryCheckpointSubmission, StoryGraph } from '@/lib/api';
+import { getLearnerId } from '@/lib/auth';
 
 export interface StoryMetadata {
   storyId: string;
@@ -21,25 +23,300 @@ export interface StoryChapter {
   title: string;
   content: string;
   keyPoints: string[];
+  synopsis?: string;
+  checkpoints?: Question[];
 }
 
 export interface Story {
   metadata: StoryMetadata;
   content: string;
   chapters?: StoryChapter[];
+  branching?: StoryGraph;
   summary: string;
   moralOrLesson?: string;
 }
 
+interface ChapterCheckpointProps {
+  storyId: string;
+  chapterIndex: number;
+  questions: Question[];
+}
+
+// 🧠 Comprehension check after a chapter, graded and tracked like a quiz
+export const ChapterCheckpoint: React.FC<ChapterCheckpointProps> = ({
+  storyId,
+  chapterIndex,
+  questions
+}) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [submission, setSubmission] = useState<StoryCheckpointSubmission | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allAnswered = questions.every(question => answers[question.id]?.trim());
+  const resultFor = (questionId: string) => submission?.results.find(result => result.questionId === questionId);
+
+  const handleAnswer = (questionId: string, answer: string) => {
+    if (!submission) {
+      setAnswers({ ...answers, [questionId]: answer });
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    const response = await apiClient.submitStoryCheckpoint(
+      storyId,
+      chapterIndex,
+      questions.map(question => ({ questionId: question.id, answer: answers[question.id] || '' })),
+      getLearnerId()
+    );
+    setIsSubmitting(false);
+
+    if (response.success && response.data) {
+      setSubmission(response.data);
+    } else {
+      setError(response.error || 'The Story Spirit could not grade your answers');
+    }
+  };
+
+  const optionClass = (selected: boolean) =>
+    `p-3 rounded-lg border text-left text-sm transition-all ${
+      selected
+        ? 'border-eerie-purple bg-eerie-purple/20 text-ghost-white'
+        : 'border-phantom-gray hover:border-eerie-purple/50 text-gray-300'
+    }`;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-phantom-gray not-prose">
+      <h3 className="text-lg font-semibold text-spectral-green mb-4">Checkpoint</h3>
+      <div className="space-y-6">
+        {questions.map((question, index) => {
+          const result = resultFor(question.id);
+          return (
+            <div key={question.id}>
+              <div className="text-ghost-white font-medium mb-3">
+                {index + 1}. {question.question}
+              </div>
+
+              {question.type === 'multiple-choice' && question.options && (
+                <div className="grid gap-2">
+                  {question.options.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => handleAnswer(question.id, option)}
+                      className={optionClass(answers[question.id] === option)}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {question.type === 'true-false' && (
+                <div className="grid grid-cols-2 gap-2">
+                  {['True', 'False'].map(option => (
+                    <button
+                      key={option}
+                      onClick={() => handleAnswer(question.id, option)}
+                      className={optionClass(answers[question.id] === option)}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {question.type === 'short-answer' && (
+                <textarea
+                  value={answers[question.id] || ''}
+                  onChange={(e) => handleAnswer(question.id, e.target.value)}
+                  readOnly={submission !== null}
+                  placeholder="Type your answer here..."
+                  className="w-full p-3 bg-phantom-gray border border-phantom-gray rounded-lg text-ghost-white placeholder-gray-400 focus:border-eerie-purple focus:outline-none resize-none text-sm"
+                  rows={2}
+                />
+              )}
+
+              {result && (
+                <div className={`flex items-start space-x-2 mt-3 text-sm ${result.isCorrect ? 'text-spectral-green' : 'text-red-400'}`}>
+                  {result.isCorrect ? <CheckCircle className="h-4 w-4 mt-0.5" /> : <XCircle className="h-4 w-4 mt-0.5" />}
+                  <div>
+                    <div>{result.feedback}</div>
+                    <div className="text-gray-400">{result.explanation}</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <div className="mt-4 text-sm text-red-400">{error}</div>
+      )}
+
+      {submission ? (
+        <div className="mt-6 text-ghost-white font-medium">
+          You scored {submission.score.percentage}% ({submission.score.correct}/{submission.score.total})
+        </div>
+      ) : (
+        <button
+          onClick={handleSubmit}
+          disabled={!allAnswered || isSubmitting}
+          className={`ghost-button-primary mt-6 ${!allAnswered || isSubmitting ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          {isSubmitting ? 'Grading...' : 'Check my answers'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface BranchingStoryViewProps {
+  storyId: string;
+  graph: StoryGraph;
+  fontSize: string;
+}
+
+// 🔀 Choose-your-path reader: follows choices, writing unexplored branches on demand
+export const BranchingStoryView: React.FC<BranchingStoryViewProps> = ({
+  storyId,
+  graph: initialGraph,
+  fontSize
+}) => {
+  const [graph, setGraph] = useState(initialGraph);
+  const [path, setPath] = useState<string[]>([initialGraph.startSceneId]);
+  const [pendingChoice, setPendingChoice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentScene = graph.scenes.find(scene => scene.sceneId === path[path.length - 1]);
+  const choices = graph.choices.filter(choice => choice.fromSceneId === currentScene?.sceneId);
+  const exploredEndings = graph.scenes.filter(scene => scene.isEnding).length;
+
+  const handleChoose = async (choiceId: string) => {
+    const choice = graph.choices.find(candidate => candidate.choiceId === choiceId);
+    if (!choice || pendingChoice) return;
+
+    setError(null);
+    if (choice.toSceneId) {
+      setPath([...path, choice.toSceneId]);
+      return;
+    }
+
+    setPendingChoice(choiceId);
+    const response = await apiClient.exploreStoryChoice(storyId, choiceId);
+    setPendingChoice(null);
+
+    if (response.success && response.data?.story.branching) {
+      setGraph(response.data.story.branching);
+      setPath([...path, response.data.scene.sceneId]);
+    } else {
+      setError(response.error || 'The Story Spirit could not see down this path');
+    }
+  };
+
+  const handleBack = () => {
+    if (path.length > 1) {
+      setPath(path.slice(0, -1));
+      setError(null);
+    }
+  };
+
+  if (!currentScene) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 border-b border-phantom-gray pb-2 text-sm text-gray-400">
+        <div className="flex items-center space-x-2">
+          <GitBranch className="h-4 w-4 text-eerie-purple" />
+          <span>Scene {currentScene.depth} of up to {graph.maxDepth}</span>
+        </div>
+        <span>{graph.scenes.length} scenes discovered · {exploredEndings} endings found</span>
+      </div>
+
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={currentScene.sceneId}
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: -20 }}
+          transition={{ duration: 0.3 }}
+          className={`prose prose-invert max-w-none ${fontSize}`}
+        >
+          <div className="text-gray-300 leading-relaxed whitespace-pre-wrap">
+            {currentScene.content}
+          </div>
+        </motion.div>
+      </AnimatePresence>
+
+      {currentScene.isEnding ? (
+        <div className="flex items-center space-x-2 mt-6 text-spectral-green">
+          <Flag className="h-4 w-4" />
+          <span className="font-medium">The End — go back to explore another path</span>
+        </div>
+      ) : (
+        <div className="mt-6 space-y-2">
+          <div className="text-sm text-gray-400">What happens next?</div>
+          {choices.map(choice => (
+            <button
+              key={choice.choiceId}
+              onClick={() => handleChoose(choice.choiceId)}
+              disabled={pendingChoice !== null}
+              className={`ghost-button w-full text-left flex items-center justify-between ${
+                pendingChoice !== null && pendingChoice !== choice.choiceId ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              <span>{choice.label}</span>
+              <span className="text-xs text-gray-400">
+                {pendingChoice === choice.choiceId ? 'Writing...' : choice.toSceneId ? 'Explored' : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 text-sm text-red-400">{error}</div>
+      )}
+
+      <div className="flex items-center justify-between mt-6 pt-4 border-t border-phantom-gray">
+        <button
+          onClick={handleBack}
+          disabled={path.length === 1}
+          className={`ghost-button flex items-center space-x-2 ${
+            path.length === 1 ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          <span>Back</span>
+        </button>
+        <button
+          onClick={() => setPath([graph.startSceneId])}
+          disabled={path.length === 1}
+          className={`ghost-button flex items-center space-x-2 ${
+            path.length === 1 ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <RotateCcw className="h-4 w-4" />
+          <span>Start over</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
 interface StoryViewerProps {
   story: Story;
   onRegenerate?: () => void;
+  onRegenerateChapter?: (index: number) => Promise<void> | void;
   onShare?: () => void;
 }
 
 export const StoryViewer: React.FC<StoryViewerProps> = ({
   story,
   onRegenerate,
+  onRegenerateChapter,
   onShare
 }) => {
   const [currentChapter, setCurrentChapter] = useState(0);
@@ -47,6 +324,8 @@ export const StoryViewer: React.FC<StoryViewerProps> = ({
   const [showKeyPoints, setShowKeyPoints] = useState(false);
   const [fontSize, setFontSize] = useState('text-base');
   const [readingTime, setReadingTime] = useState(0);
+  const [downloadFormat, setDownloadFormat] = useState<'epub' | 'html' | 'md'>('epub');
+  const [regeneratingChapter, setRegeneratingChapter] = useState<number | null>(null);
 
   const hasChapters = story.chapters && story.chapters.length > 1;
   const totalChapters = story.chapters?.length || 1;
@@ -118,17 +397,24 @@ export const StoryViewer: React.FC<StoryViewerProps> = ({
     }
   };
 
+  const handleRegenerateChapter = async () => {
+    if (!onRegenerateChapter) return;
+
+    const index = currentChapter;
+    setRegeneratingChapter(index);
+    try {
+      await onRegenerateChapter(index);
+    } finally {
+      setRegeneratingChapter(null);
+    }
+  };
+
   const handleDownload = () => {
-    const content = `# ${story.metadata.title}\n\n${story.content}\n\n---\n\n**Summary:** ${story.summary}\n\n${story.moralOrLesson ? `**Lesson:** ${story.moralOrLesson}` : ''}`;
-    const blob = new Blob([content], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
-    a.href = url;
-    a.download = `${story.metadata.title.replace(/[^a-zA-Z0-9]/g, '_')}.md`;
+    a.href = apiClient.getStoryExportUrl(story.metadata.storyId, downloadFormat);
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    URL.revokeObjectURL(url);
   };
 
   return (
@@ -197,13 +483,28 @@ export const StoryViewer: React.FC<StoryViewerProps> = ({
               <option value="text-base">Medium</option>
               <option value="text-lg">Large</option>
             </select>
-            <button
-              onClick={handleDownload}
-              className="ghost-button p-2"
-              title="Download story"
-            >
-              <Download className="h-4 w-4" />
-            </button>
+            {/* Branching stories live in their scene graph, which the export formats cannot hold */}
+            {!story.branching && (
+              <>
+                <select
+                  value={downloadFormat}
+                  onChange={(e) => setDownloadFormat(e.target.value as 'epub' | 'html' | 'md')}
+                  className="ghost-button text-sm"
+                  title="Download format"
+                >
+                  <option value="epub">EPUB</option>
+                  <option value="html">Print HTML</option>
+                  <option value="md">Markdown</option>
+                </select>
+                <button
+                  onClick={handleDownload}
+                  className="ghost-button p-2"
+                  title="Download story"
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+              </>
+            )}
             {onShare && (
               <button
                 onClick={onShare}
@@ -310,31 +611,62 @@ export const StoryViewer: React.FC<StoryViewerProps> = ({
         transition={{ delay: 0.2 }}
         className="ghost-card mb-8"
       >
-        <AnimatePresence mode="wait">
-          <motion.div
-            key={currentChapter}
-            initial={{ opacity: 0, x: 20 }}
-            animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: -20 }}
-            transition={{ duration: 0.3 }}
-            className={`prose prose-invert max-w-none ${fontSize}`}
-          >
-            {hasChapters && currentChapterData ? (
-              <div>
-                <h2 className="text-xl font-bold text-ghost-white mb-4 border-b border-phantom-gray pb-2">
-                  {currentChapterData.title}
-                </h2>
+        {story.branching ? (
+          <BranchingStoryView
+            storyId={story.metadata.storyId}
+            graph={story.branching}
+            fontSize={fontSize}
+          />
+        ) : (
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={currentChapter}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.3 }}
+              className={`prose prose-invert max-w-none ${fontSize}`}
+            >
+              {hasChapters && currentChapterData ? (
+                <div>
+                  <div className="flex items-center justify-between mb-4 border-b border-phantom-gray pb-2">
+                    <h2 className="text-xl font-bold text-ghost-white">
+                      {currentChapterData.title}
+                    </h2>
+                    {onRegenerateChapter && (
+                      <button
+                        onClick={handleRegenerateChapter}
+                        disabled={regeneratingChapter !== null}
+                        className={`ghost-button flex items-center space-x-2 text-sm ${
+                          regeneratingChapter !== null ? 'opacity-50 cursor-not-allowed' : ''
+                        }`}
+                        title="Rewrite this chapter"
+                      >
+                        <RotateCcw className={`h-4 w-4 ${regeneratingChapter === currentChapter ? 'animate-spin' : ''}`} />
+                        <span>{regeneratingChapter === currentChapter ? 'Rewriting...' : 'Rewrite chapter'}</span>
+                      </button>
+                    )}
+                  </div>
+                  <div className="text-gray-300 leading-relaxed whitespace-pre-wrap">
+                    {currentChapterData.content}
+                  </div>
+                  {currentChapterData.checkpoints && currentChapterData.checkpoints.length > 0 && (
+                    <ChapterCheckpoint
+                      key={currentChapterData.checkpoints.map(question => question.id + question.question).join('|')}
+                      storyId={story.metadata.storyId}
+                      chapterIndex={currentChapter}
+                      questions={currentChapterData.checkpoints}
+                    />
+                  )}
+                </div>
+              ) : (
                 <div className="text-gray-300 leading-relaxed whitespace-pre-wrap">
-                  {currentChapterData.content}
+                  {story.content}
                 </div>
-              </div>
-            ) : (
-              <div className="text-gray-300 leading-relaxed whitespace-pre-wrap">
-                {story.content}
-              </div>
-            )}
-          </motion.div>
-        </AnimatePresence>
+              )}
+            </motion.div>
+          </AnimatePresence>
+        )}
       </motion.div>
 
       {/* Story Summary and Lesson */}
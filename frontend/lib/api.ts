@@ -8,6 +8,8 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  /** Things worth checking about an otherwise successful request, e.g. low OCR confidence */
+  warnings?: string[];
   timestamp?: string;
 }
 
@@ -23,9 +25,97 @@ export interface ProcessedContent {
     subject?: string;
     difficulty?: string;
     tags?: string[];
+    /** Page the content was ingested from, for URL uploads */
+    sourceUrl?: string;
+    /** Per-page OCR confidence (0-100), for PDFs with scanned pages */
+    ocr?: {
+      engine: string;
+      pages: { page: number; confidence: number }[];
+    };
   };
+  /** Sections, lists and tables that processedText renders; absent on older uploads */
+  document?: StructuredDocument;
 }
 
+export type DocumentBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: boolean; rows: string[][] };
+
+export interface DocumentSection {
+  /** Pass in `sectionIds` to generate from this section */
+  id: string;
+  heading?: string;
+  /** 1-6 from the heading; 0 for text before the first heading */
+  level: number;
+  blocks: DocumentBlock[];
+  /** Character range of the section within processedText */
+  start: number;
+  end: number;
+}
+
+export interface StructuredDocument {
+  sections: DocumentSection[];
+}
+
+/** A file format the backend can extract text from */
+export interface UploadFormat {
+  id: string;
+  label: string;
+  mimeTypes: string[];
+  /** Lowercase, with the dot */
+  extensions: string[];
+}
+
+export interface ContentSearchResult {
+  contentId: string;
+  title: string;
+  chunkIndex: number;
+  heading?: string;
+  text: string;
+  /** Character offsets of the passage within the content's processedText */
+  start: number;
+  end: number;
+  score: number;
+}
+
+export interface ChatCitation {
+  chunkId: string;
+  chunkIndex: number;
+  heading?: string;
+  /** Character range of the cited passage within processedText */
+  start: number;
+  end: number;
+}
+
+export interface ConversationEntry {
+  timestamp: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ChatReply {
+  sessionId: string;
+  answer: string;
+  citations: ChatCitation[];
+  history: ConversationEntry[];
+}
+
+export interface ContentCollection {
+  collectionId: string;
+  name: string;
+  description?: string;
+  contentIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Generate from one upload (optionally some of its sections) or from every document in a collection */
+export type GenerationSource =
+  | { contentId: string; sectionIds?: string[]; collectionId?: never }
+  | { collectionId: string; contentId?: never; sectionIds?: never };
+
 export interface Question {
   id: string;
   type: 'multiple-choice' | 'true-false' | 'short-answer';
@@ -34,6 +124,8 @@ export interface Question {
   correctAnswer: string;
   explanation: string;
   difficulty: number;
+  /** Document the question came from, on collection quizzes */
+  sourceContentId?: string;
 }
 
 export interface Quiz {
@@ -41,16 +133,109 @@ export interface Quiz {
   questions: Question[];
   metadata: {
     contentId: string;
+    collectionId?: string;
+    sourceContentIds?: string[];
     difficulty: string;
     questionTypes: string[];
     generatedAt: string;
   };
 }
 
+export interface QuizSubmission {
+  quizId: string;
+  attemptId: string;
+  learnerId: string;
+  score: {
+    correct: number;
+    total: number;
+    percentage: number;
+    points: number;
+    maxPoints: number;
+  };
+  results: Array<{
+    questionId: string;
+    question: string;
+    userAnswer: string;
+    correctAnswer: string;
+    isCorrect: boolean;
+    score: number;
+    points: number;
+    maxPoints: number;
+    feedback: string;
+    explanation: string;
+    gradedBy: 'exact' | 'ai-rubric' | 'keyword-overlap';
+  }>;
+  completedAt: string;
+}
+
+export interface StoryCheckpointSubmission extends QuizSubmission {
+  storyId: string;
+  chapterIndex: number;
+}
+
+export interface QuizAttemptSummary {
+  attemptId: string;
+  quizId: string;
+  quizTitle: string;
+  percentage: number;
+  points: number;
+  maxPoints: number;
+  completedAt: string;
+}
+
+export interface LearnerProgress {
+  learnerId: string;
+  totalAttempts: number;
+  quizzesTaken: number;
+  averagePercentage: number;
+  bestPercentage: number;
+  topics: Array<{
+    topic: string;
+    attempts: number;
+    averagePercentage: number;
+    bestPercentage: number;
+    lastAttemptAt: string;
+  }>;
+  recentAttempts: QuizAttemptSummary[];
+}
+
+export interface StoryChapter {
+  title: string;
+  synopsis: string;
+  keyPoints: string[];
+  content: string;
+  wordCount: number;
+  checkpoints?: Question[];
+}
+
+export interface StoryScene {
+  sceneId: string;
+  content: string;
+  depth: number;
+  isEnding: boolean;
+  wordCount: number;
+}
+
+export interface StoryChoice {
+  choiceId: string;
+  fromSceneId: string;
+  toSceneId: string | null;
+  label: string;
+}
+
+export interface StoryGraph {
+  startSceneId: string;
+  maxDepth: number;
+  scenes: StoryScene[];
+  choices: StoryChoice[];
+}
+
 export interface Story {
   storyId: string;
   title: string;
   content: string;
+  chapters?: StoryChapter[];
+  branching?: StoryGraph;
   keyPoints: string[];
   theme: string;
   targetAudience: string;
@@ -64,6 +249,8 @@ export interface Flashcard {
   difficulty: number;
   topic: string;
   hints?: string[];
+  /** Document the card came from, on collection decks */
+  sourceContentId?: string;
 }
 
 export interface FlashcardDeck {
@@ -71,13 +258,54 @@ export interface FlashcardDeck {
   cards: Flashcard[];
   metadata: {
     contentId: string;
-    difficulty: string;
+    collectionId?: string;
+    sourceContentIds?: string[];
+    title: string;
+    difficulty: 'beginner' | 'intermediate' | 'advanced';
     totalCards: number;
     topics: string[];
     generatedAt: string;
   };
 }
 
+// 0 = complete blackout ... 5 = perfect recall (SM-2)
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface CardSchedule {
+  deckId: string;
+  cardId: string;
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  dueAt: string;
+  lastReviewedAt?: string;
+  history: Array<{ grade: ReviewGrade; reviewedAt: string; interval: number; easeFactor: number }>;
+}
+
+export interface DueFlashcards {
+  deckId: string;
+  totalCards: number;
+  dueCount: number;
+  cards: Array<{ card: Flashcard; schedule: CardSchedule }>;
+  nextDueAt: string | null;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Background generation; poll it until the status is no longer queued or running */
+export interface Job<T> {
+  jobId: string;
+  type: 'quiz' | 'story' | 'module';
+  status: JobStatus;
+  progress: number;
+  stage?: string;
+  result?: T;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
 class ApiClient {
   private async request<T>(
     endpoint: string,
@@ -108,6 +336,64 @@ class ApiClient {
     }
   }
 
+  // 📡 Read a Server-Sent Events response, forwarding text deltas until the final event
+  private async stream<T>(
+    endpoint: string,
+    body: unknown,
+    onDelta: (delta: string) => void
+  ): Promise<ApiResponse<T>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Streaming request failed');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const raw of events) {
+          const event = raw.match(/^event: (.*)$/m)?.[1];
+          const data = raw.match(/^data: (.*)$/m)?.[1];
+          if (!event || !data) continue;
+
+          const payload = JSON.parse(data);
+          if (event === 'delta') {
+            onDelta(payload.delta);
+          } else if (event === 'complete' || event === 'error') {
+            reader.cancel();
+            return payload;
+          }
+        }
+      }
+
+      throw new Error('Stream ended before generation completed');
+    } catch (error) {
+      console.error('Stream Error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
   // 📁 Content Upload API
   async uploadContent(file: File, metadata?: any): Promise<ApiResponse<ProcessedContent>> {
     const formData = new FormData();
@@ -141,16 +427,75 @@ class ApiClient {
     }
   }
 
+  async getUploadFormats(): Promise<ApiResponse<UploadFormat[]>> {
+    return this.request<UploadFormat[]>('/api/upload/formats');
+  }
+
+  async uploadUrl(
+    url: string,
+    metadata: { title?: string; subject?: string; difficulty?: string; tags?: string[] } = {}
+  ): Promise<ApiResponse<ProcessedContent>> {
+    return this.request<ProcessedContent>('/api/upload/url', {
+      method: 'POST',
+      body: JSON.stringify({ url, ...metadata }),
+    });
+  }
+
   async getContent(contentId: string): Promise<ApiResponse<ProcessedContent>> {
     return this.request<ProcessedContent>(`/api/upload/${contentId}`);
   }
 
+  async searchContent(query: string, options: { limit?: number; contentId?: string } = {}): Promise<ApiResponse<ContentSearchResult[]>> {
+    const params = new URLSearchParams({ q: query });
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.contentId) params.set('contentId', options.contentId);
+    return this.request<ContentSearchResult[]>(`/api/upload/search?${params.toString()}`);
+  }
+
+  // 📚 Content Collections API
+  async createCollection(params: { name: string; description?: string; contentIds?: string[] }): Promise<ApiResponse<ContentCollection>> {
+    return this.request<ContentCollection>('/api/collections', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async listCollections(): Promise<ApiResponse<ContentCollection[]>> {
+    return this.request<ContentCollection[]>('/api/collections');
+  }
+
+  async getCollection(collectionId: string): Promise<ApiResponse<ContentCollection>> {
+    return this.request<ContentCollection>(`/api/collections/${collectionId}`);
+  }
+
+  async addToCollection(collectionId: string, contentId: string): Promise<ApiResponse<ContentCollection>> {
+    return this.request<ContentCollection>(`/api/collections/${collectionId}/content`, {
+      method: 'POST',
+      body: JSON.stringify({ contentId }),
+    });
+  }
+
+  async removeFromCollection(collectionId: string, contentId: string): Promise<ApiResponse<ContentCollection>> {
+    return this.request<ContentCollection>(`/api/collections/${collectionId}/content/${contentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // 💬 Document Chat API
+  async askContent(contentId: string, question: string, sessionId?: string): Promise<ApiResponse<ChatReply>> {
+    return this.request<ChatReply>(`/api/content/${contentId}/chat`, {
+      method: 'POST',
+      body: JSON.stringify({ question, sessionId }),
+    });
+  }
+
   // 🧠 Quiz Generation API
-  async generateQuiz(params: {
-    contentId: string;
+  async generateQuiz(params: GenerationSource & {
     questionCount?: number;
     difficulty?: 'easy' | 'medium' | 'hard';
     questionTypes?: ('multiple-choice' | 'true-false' | 'short-answer')[];
+    /** false skips cached generations for a fresh quiz */
+    cache?: boolean;
   }): Promise<ApiResponse<Quiz>> {
     return this.request<Quiz>('/api/quiz/generate', {
       method: 'POST',
@@ -158,16 +503,51 @@ class ApiClient {
     });
   }
 
+  // Answers at once with a job; long quizzes would otherwise outlast proxy timeouts
+  async startQuizJob(params: Parameters<ApiClient['generateQuiz']>[0]): Promise<ApiResponse<Job<Quiz>>> {
+    return this.request<Job<Quiz>>('/api/quiz/generate', {
+      method: 'POST',
+      body: JSON.stringify({ ...params, async: true }),
+    });
+  }
+
   async getQuiz(quizId: string): Promise<ApiResponse<Quiz>> {
     return this.request<Quiz>(`/api/quiz/${quizId}`);
   }
 
+  async submitQuiz(
+    quizId: string,
+    answers: Array<{ questionId: string; answer: string }>,
+    learnerId?: string
+  ): Promise<ApiResponse<QuizSubmission>> {
+    return this.request<QuizSubmission>(`/api/quiz/${quizId}/submit`, {
+      method: 'POST',
+      body: JSON.stringify({ answers, learnerId }),
+    });
+  }
+
+  async getQuizAttempts(quizId: string, learnerId?: string): Promise<ApiResponse<QuizAttemptSummary[]>> {
+    const query = learnerId ? `?learnerId=${encodeURIComponent(learnerId)}` : '';
+    return this.request<QuizAttemptSummary[]>(`/api/quiz/${quizId}/attempts${query}`);
+  }
+
+  async getLearnerProgress(learnerId: string): Promise<ApiResponse<LearnerProgress>> {
+    return this.request<LearnerProgress>(`/api/quiz/progress/${encodeURIComponent(learnerId)}`);
+  }
+
   // 📖 Story Generation API
-  async generateStory(params: {
-    contentId: string;
+  async generateStory(params: GenerationSource & {
     theme?: string;
     length?: 'short' | 'medium' | 'long';
-    targetAudience?: 'children' | 'teens' | 'adults';
+    targetAudience?: 'children' | 'teens' | 'adults' | 'academic';
+    customPrompt?: string;
+    includeCharacters?: string[];
+    setting?: string;
+    mode?: 'linear' | 'branching';
+    includeCheckpoints?: boolean;
+    focusTopics?: string[];
+    /** false skips cached generations for a fresh story */
+    cache?: boolean;
   }): Promise<ApiResponse<Story>> {
     return this.request<Story>('/api/story/generate', {
       method: 'POST',
@@ -175,13 +555,57 @@ class ApiClient {
     });
   }
 
+  // Deltas arrive as the story is written; resolves with the saved story once it is complete
+  async streamStory(
+    params: Parameters<ApiClient['generateStory']>[0],
+    onDelta: (delta: string) => void
+  ): Promise<ApiResponse<Story>> {
+    return this.stream<Story>('/api/story/generate/stream', params, onDelta);
+  }
+
+  async startStoryJob(params: Parameters<ApiClient['generateStory']>[0]): Promise<ApiResponse<Job<Story>>> {
+    return this.request<Job<Story>>('/api/story/generate', {
+      method: 'POST',
+      body: JSON.stringify({ ...params, async: true }),
+    });
+  }
+
   async getStory(storyId: string): Promise<ApiResponse<Story>> {
     return this.request<Story>(`/api/story/${storyId}`);
   }
 
+  async regenerateStoryChapter(storyId: string, index: number, instructions?: string): Promise<ApiResponse<Story>> {
+    return this.request<Story>(`/api/story/${storyId}/chapters/${index}/regenerate`, {
+      method: 'POST',
+      body: JSON.stringify({ instructions }),
+    });
+  }
+
+  async submitStoryCheckpoint(
+    storyId: string,
+    index: number,
+    answers: Array<{ questionId: string; answer: string }>,
+    learnerId?: string
+  ): Promise<ApiResponse<StoryCheckpointSubmission>> {
+    return this.request<StoryCheckpointSubmission>(`/api/story/${storyId}/chapters/${index}/checkpoint/submit`, {
+      method: 'POST',
+      body: JSON.stringify({ answers, learnerId }),
+    });
+  }
+
+  async exploreStoryChoice(storyId: string, choiceId: string): Promise<ApiResponse<{ scene: StoryScene; story: Story }>> {
+    return this.request<{ scene: StoryScene; story: Story }>(`/api/story/${storyId}/choices/${choiceId}`, {
+      method: 'POST',
+    });
+  }
+
+  // Direct download link; the browser saves the attachment
+  getStoryExportUrl(storyId: string, format: 'epub' | 'html' | 'md'): string {
+    return `${API_BASE_URL}/api/story/${storyId}/export?format=${format}`;
+  }
+
   // 🃏 Flashcard Generation API
-  async generateFlashcards(params: {
-    contentId: string;
+  async generateFlashcards(params: GenerationSource & {
     cardCount?: number;
     difficulty?: 'beginner' | 'intermediate' | 'advanced';
   }): Promise<ApiResponse<FlashcardDeck>> {
@@ -195,6 +619,27 @@ class ApiClient {
     return this.request<FlashcardDeck>(`/api/flashcards/${deckId}`);
   }
 
+  async getDueFlashcards(deckId: string, limit?: number): Promise<ApiResponse<DueFlashcards>> {
+    const query = limit ? `?limit=${limit}` : '';
+    return this.request<DueFlashcards>(`/api/flashcards/${deckId}/due${query}`);
+  }
+
+  async reviewFlashcard(deckId: string, cardId: string, grade: ReviewGrade): Promise<ApiResponse<CardSchedule>> {
+    return this.request<CardSchedule>(`/api/flashcards/${deckId}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ cardId, grade }),
+    });
+  }
+
+  // 🕯️ Background Job API
+  async getJob<T>(jobId: string): Promise<ApiResponse<Job<T>>> {
+    return this.request<Job<T>>(`/api/jobs/${jobId}`);
+  }
+
+  async cancelJob<T>(jobId: string): Promise<ApiResponse<Job<T>>> {
+    return this.request<Job<T>>(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
+  }
+
   // 🏥 Health Check
   async healthCheck(): Promise<ApiResponse<{ status: string; message: string }>> {
     return this.request<{ status: string; message: string }>('/health');
@@ -32,6 +32,50 @@ export function getToken(): string | null {
   return localStorage.getItem('token');
 }
 
+// Learner ids the backend accepts in paths and progress records
+const LEARNER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * 32-bit FNV-1a hash of a string as 8 hex digits
+ */
+function fnv1a(text: string, seed: number): string {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Map an account id onto the learner id alphabet. Valid ids are kept as they
+ * are; others (emails, ids with dots or braces) become a readable slug plus a
+ * hash of the original, so distinct accounts keep distinct progress
+ */
+export function toLearnerId(userId: string): string {
+  if (LEARNER_ID_PATTERN.test(userId)) return userId;
+
+  const slug = userId.replace(/[^A-Za-z0-9_-]+/g, '_').substring(0, 40);
+  return `${slug}_${fnv1a(userId, 0x811c9dc5)}${fnv1a(userId, 0x050c5d1f)}`;
+}
+
+/**
+ * Id used to track quiz progress: the signed-in user's id, otherwise an
+ * anonymous session id kept in localStorage
+ */
+export function getLearnerId(): string {
+  const user = getCurrentUser();
+  if (user?.id) return toLearnerId(String(user.id));
+  if (typeof window === 'undefined') return 'anonymous';
+
+  let learnerId = localStorage.getItem('learnerId');
+  if (!learnerId || !LEARNER_ID_PATTERN.test(learnerId)) {
+    learnerId = `learner_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    localStorage.setItem('learnerId', learnerId);
+  }
+  return learnerId;
+}
+
 /**
  * Check if user is authenticated
  */